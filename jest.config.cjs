@@ -57,6 +57,7 @@ module.exports = {
     '^d3-delaunay$': '<rootDir>/tests/mocks/d3-delaunay.js',
     '^d3-polygon$': '<rootDir>/tests/mocks/d3-polygon.js',
     '^d3-contour$': '<rootDir>/tests/mocks/d3-contour.js',
+    '^d3-zoom$': '<rootDir>/tests/mocks/d3-zoom.js',
     '^.*/vendor/textures\\.esm\\.js$': '<rootDir>/tests/mocks/textures.js',
     '^geotiff$': '<rootDir>/tests/mocks/geotiff.js'
   },
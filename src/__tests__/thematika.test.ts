@@ -0,0 +1,272 @@
+import { GeoProjection } from 'd3-geo';
+import { ZoomTransform } from 'd3-zoom';
+import { Map } from '../thematika';
+import { MapZoomEvent } from '../types';
+
+/**
+ * scale/translateで平行移動・拡大するだけのテスト用投影法を作成します
+ */
+const createProjection = (scale: number, translate: [number, number] = [0, 0]): GeoProjection => {
+  let k = scale;
+  let t = translate;
+  const projection: any = (point: [number, number]) => [point[0] * k + t[0], -point[1] * k + t[1]];
+  projection.invert = (point: [number, number]) => [(point[0] - t[0]) / k, -(point[1] - t[1]) / k];
+  projection.scale = (value?: number) => {
+    if (value === undefined) return k;
+    k = value;
+    return projection;
+  };
+  projection.translate = (value?: [number, number]) => {
+    if (value === undefined) return t;
+    t = value;
+    return projection;
+  };
+  return projection as GeoProjection;
+};
+
+describe('Map', () => {
+  const createMap = (projection: GeoProjection) =>
+    new Map({ container: '#map', width: 800, height: 600, projection });
+
+  describe('zoom', () => {
+    /**
+     * モックのズーム動作に登録されたハンドラーを呼び出し、d3-zoomのイベントを再現します
+     */
+    const dispatch = (map: Map, type: 'start' | 'zoom' | 'end', k: number, x: number, y: number) => {
+      (map as any).zoomBehavior.handlers[type]({ transform: new ZoomTransform(k, x, y), sourceEvent: null });
+    };
+
+    const getLayerTransform = (map: Map): string | null => (map as any).layerManager.getLayerTransform();
+
+    /**
+     * svg.callで渡された関数を実際に呼び出すようにし、resetZoomなどのプログラムによる操作を再現します
+     */
+    const enableSvgCall = (map: Map) => {
+      const svg = (map as any).svg;
+      svg.call = jest.fn((fn: (...args: any[]) => void, ...args: any[]) => {
+        fn(svg, ...args);
+        return svg;
+      });
+      return svg;
+    };
+
+    const recordEvents = (map: Map): MapZoomEvent[] => {
+      const events: MapZoomEvent[] = [];
+      map.on('zoomstart', e => events.push(e));
+      map.on('zoom', e => events.push(e));
+      map.on('zoomend', e => events.push(e));
+      return events;
+    };
+
+    test('無効なズーム範囲ではエラーを投げる', () => {
+      const map = createMap(createProjection(100));
+      expect(() => map.enableZoom({ minScale: 0 })).toThrow('無効なズーム範囲です');
+      expect(() => map.enableZoom({ minScale: 4, maxScale: 2 })).toThrow('無効なズーム範囲です');
+    });
+
+    test('scaleExtentにズーム範囲を設定する', () => {
+      const map = createMap(createProjection(100));
+      map.enableZoom({ minScale: 0.5, maxScale: 16 });
+      expect((map as any).zoomBehavior.extent).toEqual([0.5, 16]);
+    });
+
+    test('transformモードではレイヤーにtransformを設定し、投影法は変更しない', () => {
+      const projection = createProjection(100, [400, 300]);
+      const map = createMap(projection);
+      const events = recordEvents(map);
+      map.enableZoom();
+
+      dispatch(map, 'start', 1, 0, 0);
+      dispatch(map, 'zoom', 2, -400, -300);
+      expect(getLayerTransform(map)).toBe('translate(-400,-300) scale(2)');
+      dispatch(map, 'end', 2, -400, -300);
+
+      expect(projection.scale()).toBe(100);
+      expect(projection.translate()).toEqual([400, 300]);
+      expect(events.map(e => e.type)).toEqual(['zoomstart', 'zoom', 'zoomend']);
+      expect(events[2]).toEqual({
+        type: 'zoomend',
+        scale: 2,
+        translate: [-400, -300],
+        projectionScale: 100,
+        sourceEvent: null
+      });
+    });
+
+    test('transformモードで倍率1・移動なしに戻るとtransformを解除する', () => {
+      const map = createMap(createProjection(100));
+      map.enableZoom();
+
+      dispatch(map, 'zoom', 2, 10, 20);
+      dispatch(map, 'zoom', 1, 0, 0);
+      expect(getLayerTransform(map)).toBeNull();
+    });
+
+    test('reprojectモードではズーム終了時に投影法のscale/translateへ反映する', () => {
+      const projection = createProjection(100, [400, 300]);
+      const map = createMap(projection);
+      const rerender = jest.spyOn((map as any).layerManager, 'rerenderAllLayers');
+      const events = recordEvents(map);
+      map.enableZoom({ mode: 'reproject' });
+
+      dispatch(map, 'start', 1, 0, 0);
+      dispatch(map, 'zoom', 2, -400, -300);
+      // ズーム中は投影法を変更せず、transformで仮表示する
+      expect(projection.scale()).toBe(100);
+      expect(getLayerTransform(map)).toBe('translate(-400,-300) scale(2)');
+      expect(rerender).not.toHaveBeenCalled();
+
+      dispatch(map, 'end', 2, -400, -300);
+      expect(projection.scale()).toBe(200);
+      expect(projection.translate()).toEqual([-400 + 2 * 400, -300 + 2 * 300]);
+      expect(getLayerTransform(map)).toBeNull();
+      expect(rerender).toHaveBeenCalledTimes(1);
+
+      expect(events.map(e => [e.type, e.projectionScale])).toEqual([
+        ['zoomstart', 100],
+        ['zoom', 100],
+        ['zoomend', 200]
+      ]);
+    });
+
+    test('reprojectモードのズーム中は最後に再投影した状態からの差分をtransformで表示する', () => {
+      const projection = createProjection(100, [400, 300]);
+      const map = createMap(projection);
+      map.enableZoom({ mode: 'reproject' });
+
+      dispatch(map, 'end', 2, -100, -50);
+      dispatch(map, 'zoom', 4, -300, -200);
+
+      // 倍率2→4の差分（k=2）と、再投影済みの平行移動を差し引いた移動量
+      expect(getLayerTransform(map)).toBe('translate(-100,-100) scale(2)');
+
+      dispatch(map, 'end', 4, -300, -200);
+      expect(projection.scale()).toBe(400);
+      expect(projection.translate()).toEqual([-300 + 4 * 400, -200 + 4 * 300]);
+    });
+
+    test('resetZoomで初期表示に戻し、reprojectモードでは投影法も元に戻す', () => {
+      const projection = createProjection(100, [400, 300]);
+      const map = createMap(projection);
+      enableSvgCall(map);
+      map.enableZoom({ mode: 'reproject' });
+      dispatch(map, 'end', 3, -50, -50);
+      const events = recordEvents(map);
+
+      map.resetZoom();
+
+      expect(projection.scale()).toBe(100);
+      expect(projection.translate()).toEqual([400, 300]);
+      expect(getLayerTransform(map)).toBeNull();
+      expect(events.map(e => [e.type, e.scale])).toEqual([
+        ['zoomstart', 1],
+        ['zoom', 1],
+        ['zoomend', 1]
+      ]);
+    });
+
+    test('disableZoomで初期表示に戻し、ズームのイベントリスナーを解除する', () => {
+      const map = createMap(createProjection(100));
+      const svg = enableSvgCall(map);
+      map.enableZoom();
+      dispatch(map, 'zoom', 2, 10, 20);
+
+      map.disableZoom();
+
+      expect(getLayerTransform(map)).toBeNull();
+      expect(svg.on).toHaveBeenCalledWith('.zoom', null);
+      expect(map.getZoomScale()).toBe(1);
+    });
+
+    test('ズーム中にsetProjectionした場合は新しい投影法を倍率1として扱い、イベントは発火しない', () => {
+      const map = createMap(createProjection(100));
+      enableSvgCall(map);
+      map.enableZoom({ mode: 'reproject' });
+      dispatch(map, 'end', 2, -100, -100);
+      const events = recordEvents(map);
+
+      const next = createProjection(50, [10, 20]);
+      map.setProjection(next);
+      expect(events).toHaveLength(0);
+      expect(getLayerTransform(map)).toBeNull();
+
+      dispatch(map, 'end', 2, 0, 0);
+      expect(next.scale()).toBe(100);
+      expect(next.translate()).toEqual([20, 40]);
+    });
+  });
+
+  describe('transitionProjection', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('同じ種類の投影法ではscaleを補間し、完了後に遷移先の投影法に切り替える', async () => {
+      const map = createMap(createProjection(100));
+      const target = createProjection(400);
+
+      const finished = map.transitionProjection(target, { duration: 100, easing: 'linear' });
+      jest.advanceTimersByTime(50);
+      expect(target.scale()).toBeGreaterThan(100);
+      expect(target.scale()).toBeLessThan(400);
+
+      jest.advanceTimersByTime(100);
+      await expect(finished).resolves.toBe(true);
+      expect(map.getProjection()).toBe(target);
+      expect(target.scale()).toBe(400);
+    });
+
+    test('遷移中に同じ投影法で再度呼び出すと、現在の表示から遷移先まで遷移する', async () => {
+      const map = createMap(createProjection(100));
+      const target = createProjection(400);
+
+      const first = map.transitionProjection(target, { duration: 100, easing: 'linear' });
+      jest.advanceTimersByTime(50);
+      const interrupted = target.scale();
+      expect(interrupted).toBeLessThan(400);
+
+      const second = map.transitionProjection(target, { duration: 100, easing: 'linear' });
+      await expect(first).resolves.toBe(false);
+      expect(target.scale()).toBeCloseTo(interrupted);
+
+      jest.advanceTimersByTime(50);
+      expect(target.scale()).toBeGreaterThan(interrupted);
+      expect(target.scale()).toBeLessThan(400);
+
+      jest.advanceTimersByTime(100);
+      await expect(second).resolves.toBe(true);
+      expect(target.scale()).toBe(400);
+    });
+
+    test('遷移中に別の投影法へ切り替えた場合、中断した遷移先の投影法は遷移の終了時に元のパラメータに戻る', async () => {
+      const map = createMap(createProjection(100));
+      const first = createProjection(400);
+      const second = createProjection(50);
+
+      map.transitionProjection(first, { duration: 100, easing: 'linear' });
+      jest.advanceTimersByTime(50);
+      const finished = map.transitionProjection(second, { duration: 100, easing: 'linear' });
+
+      jest.advanceTimersByTime(150);
+      await expect(finished).resolves.toBe(true);
+      expect(map.getProjection()).toBe(second);
+      expect(second.scale()).toBe(50);
+      expect(first.scale()).toBe(400);
+    });
+
+    test('setProjectionで遷移を中断した場合も遷移先の投影法を元のパラメータに戻す', () => {
+      const map = createMap(createProjection(100));
+      const target = createProjection(400);
+
+      map.transitionProjection(target, { duration: 100, easing: 'linear' });
+      jest.advanceTimersByTime(50);
+      map.setProjection(createProjection(200));
+
+      expect(target.scale()).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { CanvasRenderer, resolveCanvasStyle } from '../canvas-renderer';
+
+describe('canvas-renderer', () => {
+  const feature: GeoJSON.Feature = {
+    type: 'Feature',
+    properties: { value: 10 },
+    geometry: { type: 'Point', coordinates: [0, 0] }
+  };
+
+  describe('resolveCanvasStyle', () => {
+    test('関数型の属性はデータとインデックスで評価される', () => {
+      const fill = jest.fn(() => '#ff0000');
+      const style = resolveCanvasStyle({ fill, stroke: '#000000', strokeWidth: 2 }, undefined, feature, 3);
+
+      expect(fill).toHaveBeenCalledWith(feature, 3);
+      expect(style.fill).toBe('#ff0000');
+      expect(style.stroke).toBe('#000000');
+      expect(style.strokeWidth).toBe(2);
+    });
+
+    test('style属性はSVG属性より優先される', () => {
+      const style = resolveCanvasStyle(
+        { fill: '#ff0000', opacity: 1 },
+        { 'fill': '#00ff00', 'stroke-width': '3', 'opacity': () => 0.5 },
+        feature,
+        0
+      );
+
+      expect(style.fill).toBe('#00ff00');
+      expect(style.strokeWidth).toBe(3);
+      expect(style.opacity).toBe(0.5);
+    });
+
+    test('未指定の場合はSVGの初期値になる', () => {
+      const style = resolveCanvasStyle({}, undefined, feature, 0);
+
+      expect(style.fill).toBe('#000000');
+      expect(style.stroke).toBe('none');
+      expect(style.strokeDasharray).toEqual([]);
+    });
+
+    test('破線パターンが数値配列に変換される', () => {
+      const style = resolveCanvasStyle({ strokeDasharray: '4, 2' }, undefined, feature, 0);
+      expect(style.strokeDasharray).toEqual([4, 2]);
+    });
+  });
+
+  describe('CanvasRenderer', () => {
+    let context: any;
+
+    beforeEach(() => {
+      context = {
+        beginPath: jest.fn(),
+        fill: jest.fn(),
+        stroke: jest.fn(),
+        setLineDash: jest.fn(),
+        setTransform: jest.fn(),
+        globalAlpha: 1
+      };
+    });
+
+    test('塗りつぶしと線をスタイルに従って描画する', () => {
+      const renderer = new CanvasRenderer(context);
+      const drawPath = jest.fn();
+
+      renderer.draw(drawPath, resolveCanvasStyle(
+        { fill: '#ff0000', fillOpacity: 0.5, stroke: '#0000ff', strokeWidth: 2, opacity: 0.8 },
+        undefined,
+        feature,
+        0
+      ));
+
+      expect(context.beginPath).toHaveBeenCalled();
+      expect(drawPath).toHaveBeenCalledWith(context);
+      expect(context.fill).toHaveBeenCalled();
+      expect(context.stroke).toHaveBeenCalled();
+      expect(context.lineWidth).toBe(2);
+      expect(context.globalAlpha).toBe(1);
+    });
+
+    test('fill/strokeがnoneの場合は描画しない', () => {
+      const renderer = new CanvasRenderer(context);
+
+      renderer.draw(jest.fn(), resolveCanvasStyle({ fill: 'none', stroke: 'none' }, undefined, feature, 0));
+
+      expect(context.fill).not.toHaveBeenCalled();
+      expect(context.stroke).not.toHaveBeenCalled();
+    });
+
+    test('viewBoxに合わせたCanvasをforeignObject内に作成する', () => {
+      const canvas = { getContext: jest.fn(() => context) };
+      const selection: any = {
+        append: jest.fn(() => selection),
+        attr: jest.fn(() => selection),
+        style: jest.fn(() => selection),
+        node: jest.fn(() => canvas)
+      };
+      const layerGroup: any = {
+        node: () => ({ ownerSVGElement: { getAttribute: (name: string) => name === 'viewBox' ? '0 0 800 600' : null } }),
+        append: selection.append
+      };
+
+      const renderer = CanvasRenderer.create(layerGroup, 'thematika-test-layer', 2);
+
+      expect(renderer).not.toBeNull();
+      expect(selection.append).toHaveBeenCalledWith('foreignObject');
+      expect(selection.append).toHaveBeenCalledWith('xhtml:canvas');
+      expect(selection.attr).toHaveBeenCalledWith('width', 1600);
+      expect(context.setTransform).toHaveBeenCalledWith(2, 0, 0, 2, -0, -0);
+    });
+
+    test('2Dコンテキストを取得できない場合はnullを返す', () => {
+      const selection: any = {
+        append: jest.fn(() => selection),
+        attr: jest.fn(() => selection),
+        style: jest.fn(() => selection),
+        node: jest.fn(() => ({ getContext: () => null }))
+      };
+      const layerGroup: any = { node: () => null, append: selection.append };
+
+      expect(CanvasRenderer.create(layerGroup, 'thematika-test-layer', 1)).toBeNull();
+    });
+  });
+});
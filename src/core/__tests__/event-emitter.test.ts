@@ -0,0 +1,76 @@
+import { EventEmitter } from '../event-emitter';
+
+interface TestEventMap {
+  zoom: { scale: number };
+  click: { id: string };
+}
+
+describe('EventEmitter', () => {
+  let emitter: EventEmitter<TestEventMap>;
+
+  beforeEach(() => {
+    emitter = new EventEmitter<TestEventMap>();
+  });
+
+  it('登録したハンドラーにイベントが渡される', () => {
+    const handler = jest.fn();
+    emitter.on('zoom', handler);
+
+    emitter.emit('zoom', { scale: 2 });
+
+    expect(handler).toHaveBeenCalledWith({ scale: 2 });
+  });
+
+  it('異なる種別のハンドラーは呼ばれない', () => {
+    const handler = jest.fn();
+    emitter.on('click', handler);
+
+    emitter.emit('zoom', { scale: 2 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('offで指定したハンドラーのみ解除される', () => {
+    const handler1 = jest.fn();
+    const handler2 = jest.fn();
+    emitter.on('zoom', handler1);
+    emitter.on('zoom', handler2);
+
+    emitter.off('zoom', handler1);
+    emitter.emit('zoom', { scale: 1 });
+
+    expect(handler1).not.toHaveBeenCalled();
+    expect(handler2).toHaveBeenCalledTimes(1);
+  });
+
+  it('ハンドラーを省略したoffで種別の全ハンドラーが解除される', () => {
+    const handler = jest.fn();
+    emitter.on('zoom', handler);
+
+    emitter.off('zoom');
+
+    expect(emitter.has('zoom')).toBe(false);
+  });
+
+  it('ハンドラー内で自身を解除しても他のハンドラーは実行される', () => {
+    const handler2 = jest.fn();
+    const handler1: jest.Mock = jest.fn((): void => emitter.off('zoom', handler1));
+    emitter.on('zoom', handler1);
+    emitter.on('zoom', handler2);
+
+    emitter.emit('zoom', { scale: 1 });
+
+    expect(handler1).toHaveBeenCalledTimes(1);
+    expect(handler2).toHaveBeenCalledTimes(1);
+  });
+
+  it('clearで全てのハンドラーが解除される', () => {
+    emitter.on('zoom', jest.fn());
+    emitter.on('click', jest.fn());
+
+    emitter.clear();
+
+    expect(emitter.has('zoom')).toBe(false);
+    expect(emitter.has('click')).toBe(false);
+  });
+});
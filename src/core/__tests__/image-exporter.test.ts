@@ -0,0 +1,98 @@
+import { JSDOM } from 'jsdom';
+import { exportSVGAsImage, prepareSVGForExport } from '../image-exporter';
+
+describe('image-exporter', () => {
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const originalFetch = global.fetch;
+  let document: Document;
+  let svg: SVGSVGElement;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    document = new JSDOM('<!DOCTYPE html><body></body>', { url: 'https://example.com/map/' }).window.document;
+    svg = document.createElementNS(SVG_NS, 'svg') as SVGSVGElement;
+    svg.setAttribute('viewBox', '0 0 800 600');
+    svg.setAttribute('width', '100%');
+    svg.setAttribute('height', '100%');
+    document.body.appendChild(svg);
+
+    fetchMock = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      blob: async () => new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' })
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('prepareSVGForExport', () => {
+    test('幅・高さを設定した複製を返し、元のSVGは変更しない', async () => {
+      const prepared = await prepareSVGForExport(svg, { width: 800, height: 600 });
+
+      expect(prepared).not.toBe(svg);
+      expect(prepared.getAttribute('width')).toBe('800');
+      expect(prepared.getAttribute('height')).toBe('600');
+      expect(svg.getAttribute('width')).toBe('100%');
+    });
+
+    test('外部画像をData URLとして埋め込む', async () => {
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('href', 'tiles/0/0/0.png');
+      svg.appendChild(image);
+
+      const prepared = await prepareSVGForExport(svg, { width: 800, height: 600 });
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/map/tiles/0/0/0.png');
+      expect(prepared.querySelector('image')!.getAttribute('href')).toBe('data:image/png;base64,AQID');
+      expect(image.getAttribute('href')).toBe('tiles/0/0/0.png');
+    });
+
+    test('embedImagesがfalseの場合は画像を取得しない', async () => {
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('href', 'tiles/0/0/0.png');
+      svg.appendChild(image);
+
+      const prepared = await prepareSVGForExport(svg, { width: 800, height: 600, embedImages: false });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(prepared.querySelector('image')!.getAttribute('href')).toBe('tiles/0/0/0.png');
+    });
+
+    test('画像の取得に失敗した場合はPromiseがエラーになる', async () => {
+      fetchMock.mockImplementation(async () => ({ ok: false, status: 404 }));
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('href', 'missing.png');
+      svg.appendChild(image);
+
+      await expect(prepareSVGForExport(svg, { width: 800, height: 600 }))
+        .rejects.toThrow('リソースの取得に失敗しました');
+    });
+  });
+
+  describe('exportSVGAsImage', () => {
+    test('未対応の出力形式はPromiseのエラーになる', async () => {
+      await expect(exportSVGAsImage(svg, 800, 600, { format: 'gif' as any }))
+        .rejects.toThrow('未対応の出力形式です: gif');
+    });
+
+    test('scaleが正の数でない場合はPromiseのエラーになる', async () => {
+      await expect(exportSVGAsImage(svg, 800, 600, { scale: 0 }))
+        .rejects.toThrow('scaleは正の数で指定してください');
+    });
+
+    test('外部画像の取得失敗はPromiseのエラーとして通知される', async () => {
+      fetchMock.mockImplementation(async () => {
+        throw new TypeError('Failed to fetch');
+      });
+      const image = document.createElementNS(SVG_NS, 'image');
+      image.setAttribute('href', 'https://other.example.com/tile.png');
+      svg.appendChild(image);
+
+      await expect(exportSVGAsImage(svg, 800, 600))
+        .rejects.toThrow('クロスオリジンの制限の可能性があります');
+    });
+  });
+});
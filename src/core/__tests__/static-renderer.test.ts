@@ -0,0 +1,129 @@
+import { JSDOM } from 'jsdom';
+import { geoPath } from 'd3-geo';
+import { renderToString } from '../static-renderer';
+import { Map } from '../../thematika';
+
+jest.mock('../../thematika', () => ({
+  Map: jest.fn()
+}));
+
+// 実際の描画結果を検証するテストのため、モックではなくd3-selectionのUMD版を使用する
+jest.mock('d3-selection', () => jest.requireActual('../../../node_modules/d3-selection/dist/d3-selection.js'));
+
+describe('renderToString', () => {
+  let document: Document;
+  let svg: SVGSVGElement;
+  let addLayer: jest.Mock;
+  let clearAllLayers: jest.Mock;
+
+  const createLayer = (id: string): any => ({ id });
+
+  beforeEach(() => {
+    document = new JSDOM('<!DOCTYPE html><body></body>').window.document;
+    svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg') as SVGSVGElement;
+    svg.setAttribute('width', '100%');
+    svg.setAttribute('height', '100%');
+
+    addLayer = jest.fn((id: string, layer: any) => {
+      const group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      group.setAttribute('class', `thematika-layer thematika-layer--${layer.id}`);
+      svg.appendChild(group);
+    });
+    clearAllLayers = jest.fn();
+
+    (Map as unknown as jest.Mock).mockImplementation(() => ({
+      addLayer,
+      clearAllLayers,
+      getSVG: () => svg
+    }));
+  });
+
+  test('ページに配置しないコンテナで地図を作成し、レイヤーを順に追加する', () => {
+    const first = createLayer('geojson-123-abc');
+    const second = createLayer('graticule-456-def');
+
+    renderToString(
+      { width: 800, height: 600, projection: {} as any, document },
+      [{ id: 'countries', layer: first }, { id: 'graticule', layer: second }]
+    );
+
+    const options = (Map as unknown as jest.Mock).mock.calls[0][0];
+    expect(options.container.tagName).toBe('DIV');
+    expect(options.container.parentNode).toBeNull();
+    expect(options.document).toBeUndefined();
+    expect(addLayer.mock.calls.map(call => call[0])).toEqual(['countries', 'graticule']);
+    expect(clearAllLayers).toHaveBeenCalled();
+  });
+
+  test('幅と高さを数値で指定したSVG文字列を返す', () => {
+    const output = renderToString({ width: 800, height: 600, projection: {} as any, document }, []);
+
+    expect(output).toContain('<svg');
+    expect(output).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(output).toContain('width="800"');
+    expect(output).toContain('height="600"');
+  });
+
+  test('自動生成されたレイヤーIDを識別子に置き換える', () => {
+    const output = renderToString(
+      { width: 800, height: 600, projection: {} as any, document },
+      [{ id: 'countries', layer: createLayer('geojson-123-abc') }]
+    );
+
+    expect(output).toContain('thematika-layer--countries');
+    expect(output).not.toContain('geojson-123-abc');
+  });
+
+  test('Documentがない場合はエラーになる', () => {
+    const globalDocument = (global as any).document;
+    delete (global as any).document;
+
+    try {
+      expect(() => renderToString({ width: 800, height: 600, projection: {} as any }, [])).toThrow('Document');
+    } finally {
+      (global as any).document = globalDocument;
+    }
+  });
+
+  describe('実際のMapでの描画', () => {
+    const { Map: ActualMap } = jest.requireActual('../../thematika');
+    const { OutlineLayer } = jest.requireActual('../../layers/outline-layer');
+    const { LegendLayer } = jest.requireActual('../../layers/legend-layer');
+
+    beforeEach(() => {
+      (Map as unknown as jest.Mock).mockImplementation(options => new ActualMap(options));
+      (geoPath as jest.Mock).mockImplementation(() => () => 'M0,0L800,0L800,600Z');
+    });
+
+    afterEach(() => {
+      (geoPath as jest.Mock).mockImplementation(() => jest.fn());
+    });
+
+    const render = () => {
+      const scale: any = (value: number) => (value < 50 ? '#ffffff' : '#000000');
+      scale.domain = () => [0, 100];
+      scale.range = () => ['#ffffff', '#000000'];
+
+      return renderToString(
+        { width: 800, height: 600, projection: {} as any, document },
+        [
+          { id: 'outline', layer: new OutlineLayer({ createClipPath: true }) },
+          {
+            id: 'legend',
+            layer: new LegendLayer({ scale, position: { top: 10, left: 10 }, symbolType: 'gradient', gradientSteps: 2, enableDrag: false })
+          }
+        ]
+      );
+    };
+
+    test('同じ入力からは同じ文字列を返す', () => {
+      const first = render();
+      const second = render();
+
+      expect(first).toBe(second);
+      expect(first).toContain('id="outline-clip-outline"');
+      expect(first).toContain('id="gradient-legend"');
+      expect(first).not.toMatch(/(outline|legend)-\d+-[a-z0-9]+/);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { TemporalFeatures } from '../temporal-features';
+
+describe('TemporalFeatures', () => {
+  const day = (n: number) => Date.UTC(2024, 3, n);
+  const point = (n: number): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { date: day(n) },
+    geometry: { type: 'Point', coordinates: [n, 0] }
+  });
+
+  let data: GeoJSON.FeatureCollection;
+
+  beforeEach(() => {
+    data = { type: 'FeatureCollection', features: [point(1), point(2), point(3)] };
+  });
+
+  test('日時を設定するまでは全てのデータを表示する', () => {
+    const temporal = new TemporalFeatures(data, { timeAccessor: f => f.properties!.date });
+
+    expect(temporal.isEnabled()).toBe(true);
+    expect(temporal.getData()).toBe(data);
+    expect(temporal.getTimeSteps()).toEqual([day(1), day(2), day(3)]);
+  });
+
+  test('setTimeで日時に該当するフィーチャーのみを表示する', () => {
+    const temporal = new TemporalFeatures(data, { timeAccessor: f => f.properties!.date, timeMode: 'cumulative' });
+
+    expect(temporal.setTime(day(2))).toBe(true);
+    expect(temporal.getData().features).toEqual([point(1), point(2)]);
+    expect(temporal.getAllData()).toBe(data);
+
+    temporal.setTime(null);
+    expect(temporal.getData()).toBe(data);
+  });
+
+  test('setDataは現在の日時で表示データを更新する', () => {
+    const temporal = new TemporalFeatures(data, { timeAccessor: f => f.properties!.date, timeMode: 'cumulative' });
+    temporal.setTime(day(1));
+
+    temporal.setData({ type: 'FeatureCollection', features: [point(1), point(4)] });
+
+    expect(temporal.getData().features).toEqual([point(1)]);
+    expect(temporal.getTimeSteps()).toEqual([day(1), day(4)]);
+  });
+
+  test('timeAccessorが未設定の場合は常に全てのデータを表示する', () => {
+    const temporal = new TemporalFeatures(data);
+
+    expect(temporal.isEnabled()).toBe(false);
+    expect(temporal.setTime(day(1))).toBe(false);
+    expect(temporal.getData()).toBe(data);
+    expect(temporal.getTimeSteps()).toEqual([]);
+  });
+});
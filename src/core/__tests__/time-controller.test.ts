@@ -0,0 +1,141 @@
+import { TimeController } from '../time-controller';
+
+describe('TimeController', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const day = (n: number) => Date.UTC(2024, 3, n);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('初期化', () => {
+    test('startからendまでstep間隔のステップを作成する', () => {
+      const controller = new TimeController({ start: day(1), end: day(4) });
+
+      expect(controller.getTimes()).toEqual([day(1), day(2), day(3), day(4)]);
+      expect(controller.getTime()).toBe(day(1));
+      expect(controller.getExtent()).toEqual([day(1), day(4)]);
+    });
+
+    test('timesは重複を除いて昇順に並べる', () => {
+      const controller = new TimeController({ times: ['2024-04-03T00:00:00Z', day(1), new Date(day(3))], current: day(2) });
+
+      expect(controller.getTimes()).toEqual([day(1), day(3)]);
+      expect(controller.getTime()).toBe(day(2));
+      expect(controller.getIndex()).toBe(0);
+    });
+
+    test('範囲を指定しない場合や不正なstepはエラーになる', () => {
+      expect(() => new TimeController({})).toThrow('時間の範囲を指定してください（timesまたはstartとend）');
+      expect(() => new TimeController({ start: day(1), end: day(2), step: 0 })).toThrow('stepは正の値で指定してください: 0');
+      expect(() => new TimeController({ start: day(2), end: day(1) })).toThrow('終了日時は開始日時以降を指定してください');
+    });
+  });
+
+  describe('日時の変更', () => {
+    test('setTimeは範囲内に収めてtimechangeを発火する', () => {
+      const controller = new TimeController({ start: day(1), end: day(3) });
+      const handler = jest.fn();
+      controller.on('timechange', handler);
+
+      controller.setTime(day(10));
+      controller.setTime(day(3));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ type: 'timechange', time: day(3), date: new Date(day(3)), index: 2 });
+    });
+
+    test('stepはステップ単位で移動し、範囲の端で止まる', () => {
+      const controller = new TimeController({ start: day(1), end: day(3) });
+
+      controller.step();
+      expect(controller.getTime()).toBe(day(2));
+      controller.step(5);
+      expect(controller.getTime()).toBe(day(3));
+      controller.step(-1);
+      expect(controller.getTime()).toBe(day(2));
+    });
+
+    test('ステップの間から戻る場合は直前のステップに移動する', () => {
+      const controller = new TimeController({ start: day(1), end: day(3), current: day(2) + DAY / 2 });
+
+      controller.step(-1);
+      expect(controller.getTime()).toBe(day(2));
+    });
+
+    test('loopが有効な場合は範囲の端で反対側に移動する', () => {
+      const controller = new TimeController({ start: day(1), end: day(3), loop: true });
+
+      controller.step(-1);
+      expect(controller.getTime()).toBe(day(3));
+      controller.step(1);
+      expect(controller.getTime()).toBe(day(1));
+    });
+  });
+
+  describe('再生', () => {
+    test('intervalごとに1ステップ進み、最後でendを発火して停止する', () => {
+      const controller = new TimeController({ start: day(1), end: day(3), interval: 100 });
+      const events: string[] = [];
+      (['play', 'pause', 'end', 'timechange'] as const).forEach(type => controller.on(type, e => events.push(`${e.type}:${e.index}`)));
+
+      controller.play();
+      expect(controller.isPlaying()).toBe(true);
+      jest.advanceTimersByTime(100);
+      expect(controller.getTime()).toBe(day(2));
+      jest.advanceTimersByTime(100);
+
+      expect(controller.isPlaying()).toBe(false);
+      expect(events).toEqual(['play:0', 'timechange:1', 'timechange:2', 'end:2']);
+    });
+
+    test('最後まで再生済みの場合は最初から再生する', () => {
+      const controller = new TimeController({ start: day(1), end: day(2), current: day(2) });
+
+      controller.play();
+      expect(controller.getTime()).toBe(day(1));
+    });
+
+    test('一時停止すると日時が進まない', () => {
+      const controller = new TimeController({ start: day(1), end: day(3), interval: 100 });
+      const handler = jest.fn();
+      controller.on('pause', handler);
+
+      controller.play();
+      controller.pause();
+      jest.advanceTimersByTime(500);
+
+      expect(controller.getTime()).toBe(day(1));
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('loopが有効な場合は最後から最初に戻って再生を続ける', () => {
+      const controller = new TimeController({ start: day(1), end: day(2), interval: 100, loop: true });
+
+      controller.play();
+      jest.advanceTimersByTime(100);
+      expect(controller.getTime()).toBe(day(2));
+      jest.advanceTimersByTime(100);
+      expect(controller.getTime()).toBe(day(1));
+      expect(controller.isPlaying()).toBe(true);
+
+      controller.destroy();
+    });
+
+    test('smoothではステップの間も連続的に日時を進める', () => {
+      const controller = new TimeController({ start: day(1), end: day(2), interval: 100, smooth: true });
+
+      controller.play();
+      jest.advanceTimersByTime(48);
+      expect(controller.getTime()).toBeGreaterThan(day(1));
+      expect(controller.getTime()).toBeLessThan(day(2));
+
+      jest.advanceTimersByTime(100);
+      expect(controller.getTime()).toBe(day(2));
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { drag } from 'd3-drag';
+import { TimeController } from '../time-controller';
+import { TimeSlider } from '../time-slider';
+
+/** 子要素と属性の設定を記録するセレクションのモック */
+const createSelection = (tag = 'g'): any => {
+  const selection: any = { tag, children: [], attrs: {}, handlers: {}, items: [], removed: false };
+  selection.append = jest.fn((childTag: string) => {
+    const child = createSelection(childTag);
+    child.items = selection.items;
+    selection.children.push(child);
+    return child;
+  });
+  selection.attr = jest.fn((name: string, value: any) => {
+    selection.attrs[name] = typeof value === 'function' ? selection.items.map(value) : value;
+    return selection;
+  });
+  selection.text = jest.fn((value: any) => {
+    selection.attrs.text = value;
+    return selection;
+  });
+  selection.style = jest.fn(() => selection);
+  selection.call = jest.fn(() => selection);
+  selection.on = jest.fn((type: string, handler: any) => {
+    selection.handlers[type] = handler;
+    return selection;
+  });
+  selection.selectAll = jest.fn(() => selection);
+  selection.enter = jest.fn(() => selection);
+  selection.data = jest.fn((items: any[]) => {
+    selection.items = items;
+    return selection;
+  });
+  selection.select = jest.fn((selector: string) => findByClass(selection, selector.slice(1)) ?? createSelection());
+  selection.remove = jest.fn(() => {
+    selection.removed = true;
+    return selection;
+  });
+  selection.node = jest.fn(() => ({}));
+  return selection;
+};
+
+/** クラス名で子孫要素を探す */
+const findByClass = (root: any, className: string): any => {
+  for (const child of root.children) {
+    if (child.attrs.class === className) return child;
+    const found = findByClass(child, className);
+    if (found) return found;
+  }
+  return null;
+};
+
+describe('TimeSlider', () => {
+  const day = (n: number) => Date.UTC(2024, 3, n);
+  let container: any;
+  let controller: TimeController;
+
+  beforeEach(() => {
+    container = createSelection('svg');
+    controller = new TimeController({ start: day(1), end: day(5) });
+    (drag as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    controller.destroy();
+  });
+
+  test('既定では地図の左下に地図の幅に合わせて描画する', () => {
+    new TimeSlider(controller).render(container, { width: 440, height: 300 });
+
+    const group = findByClass(container, 'thematika-time-slider');
+    expect(group.attrs.transform).toBe('translate(20,260)');
+
+    const track = findByClass(group, 'thematika-time-slider-track');
+    expect([track.attrs.x1, track.attrs.x2]).toEqual([36, 400]);
+
+    // 5日分の目盛り
+    const ticks = findByClass(group, 'thematika-time-slider-ticks').children[0];
+    expect(ticks.attrs.x1).toEqual([36, 127, 218, 309, 400]);
+  });
+
+  test('日時の変更に合わせてハンドルとラベルを移動する', () => {
+    new TimeSlider(controller, { format: date => date.toISOString().slice(5, 10) }).render(container, { width: 440, height: 300 });
+    const handle = findByClass(container, 'thematika-time-slider-handle');
+    const label = findByClass(container, 'thematika-time-slider-label');
+    expect(handle.attrs.cx).toBe(36);
+
+    controller.setTime(day(3));
+
+    expect(handle.attrs.cx).toBe(218);
+    expect(label.attrs.x).toBe(218);
+    expect(label.attrs.text).toBe('04-03');
+  });
+
+  test('ボタンで再生と一時停止を切り替え、アイコンを更新する', () => {
+    jest.useFakeTimers();
+    new TimeSlider(controller).render(container, { width: 440, height: 300 });
+    const button = findByClass(container, 'thematika-time-slider-button');
+    const icon = findByClass(button, 'thematika-time-slider-icon');
+    const playIcon = icon.attrs.d;
+
+    button.handlers.click();
+    expect(controller.isPlaying()).toBe(true);
+    expect(icon.attrs.d).not.toBe(playIcon);
+
+    button.handlers.click();
+    expect(controller.isPlaying()).toBe(false);
+    expect(icon.attrs.d).toBe(playIcon);
+    jest.useRealTimers();
+  });
+
+  test('ドラッグすると再生を止めて最も近いステップに移動する', () => {
+    new TimeSlider(controller, { playButton: false, width: 400 }).render(container, { width: 800, height: 600 });
+    const dragBehavior = (drag as jest.Mock).mock.results[0].value;
+    const [, handler] = dragBehavior.on.mock.calls.find(([type]: [string]) => type === 'start drag');
+    jest.spyOn(controller, 'pause');
+
+    handler({ x: 160 });
+
+    expect(controller.pause).toHaveBeenCalled();
+    expect(controller.getTime()).toBe(day(3));
+  });
+
+  test('削除するとコントローラーのイベントの購読を解除する', () => {
+    const slider = new TimeSlider(controller);
+    slider.render(container, { width: 440, height: 300 });
+    const group = findByClass(container, 'thematika-time-slider');
+    const handle = findByClass(group, 'thematika-time-slider-handle');
+
+    slider.destroy();
+    controller.setTime(day(5));
+
+    expect(group.removed).toBe(true);
+    expect(handle.attrs.cx).toBe(36);
+  });
+});
@@ -0,0 +1,154 @@
+import { TooltipController } from '../tooltip-controller';
+import { LayerEvent } from '../../types';
+
+describe('TooltipController', () => {
+  let controller: TooltipController;
+  let mockContainer: any;
+  let mockSvg: any;
+  let mockTooltip: any;
+  let mockLayer: any;
+  let svgAttributes: { [key: string]: string };
+
+  const feature: GeoJSON.Feature = {
+    type: 'Feature',
+    properties: { name: 'Tokyo' },
+    geometry: { type: 'Point', coordinates: [139.69, 35.69] }
+  };
+
+  const createLayerEvent = (clientX: number, clientY: number): LayerEvent => ({
+    type: 'mousemove',
+    layerId: 'cities',
+    feature,
+    index: 0,
+    pixel: [0, 0],
+    coordinates: null,
+    sourceEvent: { clientX, clientY } as MouseEvent
+  });
+
+  beforeEach(() => {
+    mockTooltip = {
+      style: {},
+      className: '',
+      innerHTML: '',
+      offsetWidth: 100,
+      offsetHeight: 40,
+      appendChild: jest.fn(),
+      remove: jest.fn()
+    };
+
+    mockContainer = {
+      style: {},
+      clientWidth: 400,
+      clientHeight: 300,
+      appendChild: jest.fn(),
+      getBoundingClientRect: jest.fn(() => ({ left: 10, top: 20, width: 400, height: 300 })),
+      ownerDocument: {
+        defaultView: { getComputedStyle: jest.fn(() => ({ position: 'static' })) },
+        createElement: jest.fn(() => mockTooltip)
+      }
+    };
+
+    // 800x600のviewBoxを400x400の領域にmeetで表示（倍率0.5、上下に50pxの余白）
+    svgAttributes = { viewBox: '0 0 800 600', preserveAspectRatio: 'xMidYMid meet' };
+    mockSvg = {
+      getAttribute: jest.fn((name: string) => svgAttributes[name] ?? null),
+      getBoundingClientRect: jest.fn(() => ({ left: 10, top: 20, width: 400, height: 400 }))
+    };
+
+    mockLayer = {
+      on: jest.fn(),
+      off: jest.fn()
+    };
+
+    controller = new TooltipController({ container: mockContainer, svg: mockSvg });
+  });
+
+  describe('mapToContainer', () => {
+    test('xMidYMid meetの拡縮と余白を考慮して変換する', () => {
+      expect(controller.mapToContainer([0, 0])).toEqual([0, 50]);
+      expect(controller.mapToContainer([800, 600])).toEqual([400, 350]);
+    });
+
+    test('sliceでは大きい方の倍率を使用する', () => {
+      svgAttributes.preserveAspectRatio = 'xMinYMin slice';
+      const [x, y] = controller.mapToContainer([400, 300]);
+      expect(x).toBeCloseTo(266.67, 2);
+      expect(y).toBeCloseTo(200, 2);
+    });
+
+    test('preserveAspectRatio="none"では縦横別々に拡縮する', () => {
+      svgAttributes.preserveAspectRatio = 'none';
+      expect(controller.mapToContainer([800, 600])).toEqual([400, 400]);
+    });
+
+    test('viewBoxがない場合はそのままの座標を返す', () => {
+      delete svgAttributes.viewBox;
+      expect(controller.mapToContainer([30, 40])).toEqual([30, 40]);
+    });
+  });
+
+  describe('bind / unbind', () => {
+    test('hoverトリガーでマウスイベントのハンドラーが登録される', () => {
+      controller.bind('cities', mockLayer, f => f.properties?.name);
+
+      const types = mockLayer.on.mock.calls.map((call: any[]) => call[0]);
+      expect(types).toEqual(['mouseover', 'mousemove', 'mouseout']);
+    });
+
+    test('clickトリガーでclickハンドラーのみ登録される', () => {
+      controller.bind('cities', mockLayer, f => f.properties?.name, { trigger: 'click' });
+
+      expect(mockLayer.on).toHaveBeenCalledTimes(1);
+      expect(mockLayer.on).toHaveBeenCalledWith('click', expect.any(Function));
+    });
+
+    test('unbindで登録したハンドラーが解除される', () => {
+      controller.bind('cities', mockLayer, f => f.properties?.name);
+      controller.unbind('cities');
+
+      expect(mockLayer.off).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('表示位置', () => {
+    const triggerMove = (clientX: number, clientY: number) => {
+      const moveHandler = mockLayer.on.mock.calls.find((call: any[]) => call[0] === 'mousemove')[1];
+      moveHandler(createLayerEvent(clientX, clientY));
+    };
+
+    test('テンプレートの結果をカーソル右下に表示する', () => {
+      controller.bind('cities', mockLayer, f => `<b>${f.properties?.name}</b>`);
+      triggerMove(60, 70);
+
+      expect(mockTooltip.innerHTML).toBe('<b>Tokyo</b>');
+      expect(mockTooltip.style.display).toBe('block');
+      expect(mockTooltip.style.left).toBe('62px');
+      expect(mockTooltip.style.top).toBe('62px');
+    });
+
+    test('コンテナ右下端ではカーソルの左上に表示する', () => {
+      controller.bind('cities', mockLayer, () => 'label');
+      triggerMove(390, 300);
+
+      expect(mockTooltip.style.left).toBe('268px');
+      expect(mockTooltip.style.top).toBe('228px');
+    });
+
+    test('静的配置のコンテナはrelativeに変更される', () => {
+      controller.bind('cities', mockLayer, () => 'label');
+      triggerMove(60, 70);
+
+      expect(mockContainer.style.position).toBe('relative');
+    });
+
+    test('mouseoutで非表示になる', () => {
+      controller.bind('cities', mockLayer, () => 'label');
+      triggerMove(60, 70);
+
+      const outHandler = mockLayer.on.mock.calls.find((call: any[]) => call[0] === 'mouseout')[1];
+      outHandler(createLayerEvent(60, 70));
+
+      expect(mockTooltip.style.display).toBe('none');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { resolveEasing, startTransition } from '../transition';
+
+describe('transition', () => {
+  describe('resolveEasing', () => {
+    test('名前で指定したイージングは0で0、1で1になる', () => {
+      (['linear', 'quadInOut', 'cubicInOut', 'sinInOut', 'expOut'] as const).forEach(name => {
+        const ease = resolveEasing(name);
+        expect(ease(0)).toBeCloseTo(0, 2);
+        expect(ease(1)).toBeCloseTo(1);
+      });
+    });
+
+    test('InOut系のイージングは中間点で0.5になる', () => {
+      expect(resolveEasing('cubicInOut')(0.5)).toBeCloseTo(0.5);
+      expect(resolveEasing('cubicInOut')(0.25)).toBeCloseTo(0.0625);
+      expect(resolveEasing('quadInOut')(0.75)).toBeCloseTo(0.875);
+    });
+
+    test('関数はそのまま返し、未指定の場合はcubicInOutになる', () => {
+      const custom = (t: number) => t * t;
+      expect(resolveEasing(custom)).toBe(custom);
+      expect(resolveEasing()).toBe(resolveEasing('cubicInOut'));
+    });
+
+    test('未知の名前はエラーになる', () => {
+      expect(() => resolveEasing('bounce' as any)).toThrow('未知のイージングです: bounce');
+    });
+  });
+
+  describe('startTransition', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('経過時間に応じた進行度でフレームを呼び出し、最後は1で完了する', async () => {
+      const frames: number[] = [];
+      const transition = startTransition(t => frames.push(t), { duration: 100, easing: 'linear' });
+
+      expect(frames).toEqual([]);
+      jest.advanceTimersByTime(50);
+      expect(frames.length).toBeGreaterThan(0);
+      expect(frames[frames.length - 1]).toBeGreaterThan(0);
+      expect(frames[frames.length - 1]).toBeLessThan(1);
+
+      jest.advanceTimersByTime(100);
+      await expect(transition.finished).resolves.toBe(true);
+      expect(frames[frames.length - 1]).toBe(1);
+      expect(frames.filter(t => t === 1)).toHaveLength(1);
+    });
+
+    test('durationが0の場合は同期的に完了する', async () => {
+      const onFrame = jest.fn();
+      const transition = startTransition(onFrame, { duration: 0 });
+
+      expect(onFrame).toHaveBeenCalledWith(1);
+      await expect(transition.finished).resolves.toBe(true);
+    });
+
+    test('中断するとフレームの呼び出しを止めてfalseで終了する', async () => {
+      const onFrame = jest.fn();
+      const transition = startTransition(onFrame, { duration: 100 });
+
+      jest.advanceTimersByTime(20);
+      const calls = onFrame.mock.calls.length;
+      transition.cancel();
+      jest.advanceTimersByTime(200);
+
+      expect(onFrame).toHaveBeenCalledTimes(calls);
+      await expect(transition.finished).resolves.toBe(false);
+    });
+  });
+});
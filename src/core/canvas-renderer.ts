@@ -0,0 +1,219 @@
+import { Selection } from 'd3-selection';
+import { LayerAttr, LayerStyle } from '../types';
+
+/**
+ * Canvasに描画する際の解決済みスタイル
+ */
+export interface CanvasDrawStyle {
+  /** 塗りつぶし色（'none'で塗りつぶしなし） */
+  fill: string;
+  /** 塗りつぶしの透明度 */
+  fillOpacity: number;
+  /** 線の色（'none'で線なし） */
+  stroke: string;
+  /** 線の透明度 */
+  strokeOpacity: number;
+  /** 線の幅 */
+  strokeWidth: number;
+  /** 線の破線パターン */
+  strokeDasharray: number[];
+  /** 全体の透明度 */
+  opacity: number;
+}
+
+/**
+ * CSS style属性名とCanvasスタイルの対応（style属性はSVG属性より優先されます）
+ */
+const STYLE_PROPERTY_MAP: Record<string, keyof CanvasDrawStyle> = {
+  'fill': 'fill',
+  'fill-opacity': 'fillOpacity',
+  'fillOpacity': 'fillOpacity',
+  'stroke': 'stroke',
+  'stroke-opacity': 'strokeOpacity',
+  'strokeOpacity': 'strokeOpacity',
+  'stroke-width': 'strokeWidth',
+  'strokeWidth': 'strokeWidth',
+  'stroke-dasharray': 'strokeDasharray',
+  'strokeDasharray': 'strokeDasharray',
+  'opacity': 'opacity'
+};
+
+/**
+ * レイヤーのattr/style設定から要素ごとのCanvasスタイルを解決します
+ * 関数型の値はSVG描画時と同じくバインドされるデータとインデックスで評価されます
+ * @param attr - レイヤーのSVG属性設定
+ * @param style - レイヤーのCSS style属性設定
+ * @param datum - SVG描画時に要素にバインドされるデータ
+ * @param index - 要素のインデックス
+ * @returns 解決済みのスタイル
+ */
+export function resolveCanvasStyle(
+  attr: LayerAttr,
+  style: LayerStyle | undefined,
+  datum: any,
+  index: number
+): CanvasDrawStyle {
+  const evaluate = (value: any) => typeof value === 'function' ? value(datum, index) : value;
+
+  // SVGの初期値（fill: black, stroke: none）から開始
+  const resolved: Record<keyof CanvasDrawStyle, any> = {
+    fill: '#000000',
+    fillOpacity: 1,
+    stroke: 'none',
+    strokeOpacity: 1,
+    strokeWidth: 1,
+    strokeDasharray: undefined,
+    opacity: 1
+  };
+
+  (['fill', 'fillOpacity', 'stroke', 'strokeWidth', 'strokeDasharray', 'opacity'] as const).forEach(key => {
+    const value = evaluate(attr[key]);
+    if (value !== undefined && value !== null) {
+      resolved[key] = value;
+    }
+  });
+
+  if (style) {
+    Object.entries(style).forEach(([property, value]) => {
+      const key = STYLE_PROPERTY_MAP[property];
+      const evaluated = evaluate(value);
+      if (key && evaluated !== undefined && evaluated !== null) {
+        resolved[key] = evaluated;
+      }
+    });
+  }
+
+  return {
+    fill: String(resolved.fill),
+    fillOpacity: Number(resolved.fillOpacity),
+    stroke: String(resolved.stroke),
+    strokeOpacity: Number(resolved.strokeOpacity),
+    strokeWidth: parseFloat(resolved.strokeWidth),
+    strokeDasharray: parseDasharray(resolved.strokeDasharray),
+    opacity: Number(resolved.opacity)
+  };
+}
+
+/**
+ * レイヤーグループ内のCanvasに描画するクラス
+ * SVG内に<foreignObject>でCanvasを配置するため、レイヤーのzIndex順序やtransformはSVGと同様に扱われます
+ */
+export class CanvasRenderer {
+  /** Canvasの2Dコンテキスト */
+  private context: CanvasRenderingContext2D;
+
+  /**
+   * CanvasRendererを初期化します
+   * @param context - Canvasの2Dコンテキスト
+   */
+  constructor(context: CanvasRenderingContext2D) {
+    this.context = context;
+  }
+
+  /**
+   * レイヤーグループ内にCanvasを作成します
+   * Canvasの大きさは親SVGのviewBoxに合わせ、デバイスピクセル比を考慮して高解像度化します
+   * @param layerGroup - Canvasを配置するレイヤーグループ
+   * @param className - foreignObjectに付与するクラス名
+   * @param pixelRatio - 解像度の倍率（デフォルト: window.devicePixelRatio）
+   * @returns CanvasRenderer（Canvasが利用できない場合はnull）
+   */
+  static create(
+    layerGroup: Selection<SVGGElement, unknown, HTMLElement, any>,
+    className: string,
+    pixelRatio?: number
+  ): CanvasRenderer | null {
+    const [x, y, width, height] = getViewBox(layerGroup.node());
+    const ratio = pixelRatio ?? (typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1);
+
+    const canvas = layerGroup
+      .append('foreignObject')
+      .attr('class', className)
+      .attr('x', x)
+      .attr('y', y)
+      .attr('width', width)
+      .attr('height', height)
+      .append('xhtml:canvas')
+      .attr('width', Math.round(width * ratio))
+      .attr('height', Math.round(height * ratio))
+      .style('width', `${width}px`)
+      .style('height', `${height}px`)
+      .style('display', 'block')
+      .node() as HTMLCanvasElement | null;
+
+    const context = canvas && typeof canvas.getContext === 'function' ? canvas.getContext('2d') : null;
+    if (!context) return null;
+
+    // viewBox座標系で描画できるように変換
+    context.setTransform(ratio, 0, 0, ratio, -x * ratio, -y * ratio);
+    return new CanvasRenderer(context);
+  }
+
+  /**
+   * Canvasの2Dコンテキストを取得します
+   * @returns 2Dコンテキスト
+   */
+  getContext(): CanvasRenderingContext2D {
+    return this.context;
+  }
+
+  /**
+   * パスを描画してスタイルに従って塗りつぶし・線を描きます
+   * @param drawPath - コンテキストにパスを追加する関数
+   * @param style - 解決済みのスタイル
+   */
+  draw(drawPath: (context: CanvasRenderingContext2D) => void, style: CanvasDrawStyle): void {
+    const context = this.context;
+    context.beginPath();
+    drawPath(context);
+
+    if (style.fill !== 'none' && style.fillOpacity > 0) {
+      context.globalAlpha = style.opacity * style.fillOpacity;
+      context.fillStyle = style.fill;
+      context.fill();
+    }
+
+    if (style.stroke !== 'none' && style.strokeWidth > 0 && style.strokeOpacity > 0) {
+      context.globalAlpha = style.opacity * style.strokeOpacity;
+      context.strokeStyle = style.stroke;
+      context.lineWidth = style.strokeWidth;
+      context.setLineDash(style.strokeDasharray);
+      context.stroke();
+    }
+
+    context.globalAlpha = 1;
+  }
+}
+
+/**
+ * 要素が属するSVGのviewBoxを取得します
+ * @param node - SVG内の要素
+ * @returns [x, y, width, height]（取得できない場合は[0, 0, 0, 0]）
+ */
+function getViewBox(node: SVGGElement | null): [number, number, number, number] {
+  const svg = node?.ownerSVGElement;
+  const value = svg?.getAttribute('viewBox');
+  if (value) {
+    const parsed = value.split(/[\s,]+/).map(Number);
+    if (parsed.length === 4 && parsed.every(v => isFinite(v))) {
+      return parsed as [number, number, number, number];
+    }
+  }
+  const width = Number(svg?.getAttribute('width')) || 0;
+  const height = Number(svg?.getAttribute('height')) || 0;
+  return [0, 0, width, height];
+}
+
+/**
+ * stroke-dasharrayの値を数値配列に変換します
+ * @param value - 破線パターン
+ * @returns 数値配列（破線なしの場合は空配列）
+ */
+function parseDasharray(value: any): number[] {
+  if (value === undefined || value === null || value === 'none') return [];
+  if (Array.isArray(value)) return value.map(Number);
+  return String(value)
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter(v => isFinite(v));
+}
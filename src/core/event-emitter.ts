@@ -0,0 +1,69 @@
+/**
+ * イベントハンドラーの型
+ */
+export type EventHandler<T = any> = (event: T) => void;
+
+/**
+ * 型付きイベントの購読と発火を担当するクラス
+ * Mapやレイヤーのイベント通知で共通して使用します
+ */
+export class EventEmitter<EventMap extends Record<string, any>> {
+  /** イベント種別ごとのハンドラー一覧 */
+  private handlers: Map<keyof EventMap, Set<EventHandler<any>>> = new Map();
+
+  /**
+   * イベントハンドラーを登録します
+   * @param type - イベント種別
+   * @param handler - イベントハンドラー
+   */
+  on<K extends keyof EventMap>(type: K, handler: EventHandler<EventMap[K]>): void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+  }
+
+  /**
+   * イベントハンドラーを解除します
+   * ハンドラーを省略した場合は指定種別の全ハンドラーを解除します
+   * @param type - イベント種別
+   * @param handler - 解除するイベントハンドラー（オプション）
+   */
+  off<K extends keyof EventMap>(type: K, handler?: EventHandler<EventMap[K]>): void {
+    if (!handler) {
+      this.handlers.delete(type);
+      return;
+    }
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * イベントを発火します
+   * @param type - イベント種別
+   * @param event - ハンドラーに渡すイベントオブジェクト
+   */
+  emit<K extends keyof EventMap>(type: K, event: EventMap[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    // ハンドラー内での登録解除に備えてコピーしてから実行
+    Array.from(handlers).forEach(handler => handler(event));
+  }
+
+  /**
+   * 指定種別のハンドラーが登録されているかを確認します
+   * @param type - イベント種別
+   * @returns 登録されている場合true
+   */
+  has<K extends keyof EventMap>(type: K): boolean {
+    const handlers = this.handlers.get(type);
+    return handlers !== undefined && handlers.size > 0;
+  }
+
+  /**
+   * 全てのハンドラーを解除します
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
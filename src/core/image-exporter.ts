@@ -0,0 +1,267 @@
+import { ExportImageOptions, ExportImageFormat } from '../types';
+
+/**
+ * 出力形式ごとのMIMEタイプ
+ */
+const MIME_TYPES: Record<ExportImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+/**
+ * 出力用のSVG準備オプション
+ */
+export interface PrepareSVGOptions {
+  /** 出力するSVGの幅（viewBox座標系） */
+  width: number;
+  /** 出力するSVGの高さ（viewBox座標系） */
+  height: number;
+  /** 外部画像をData URLとして埋め込むか（デフォルト: true） */
+  embedImages?: boolean;
+  /** ドキュメントの@font-faceをフォントデータごと埋め込むか（デフォルト: true） */
+  embedFonts?: boolean;
+}
+
+/**
+ * SVG要素を画像として出力します
+ * 画面上の表示サイズではなく指定した幅・高さと倍率から出力サイズを決定し、
+ * 画像やフォントの読み込み失敗はPromiseのエラーとして通知します
+ * @param svg - 出力するSVG要素
+ * @param width - 地図の幅（viewBox座標系）
+ * @param height - 地図の高さ（viewBox座標系）
+ * @param options - 出力オプション
+ * @returns 画像のBlob
+ */
+export async function exportSVGAsImage(
+  svg: SVGSVGElement,
+  width: number,
+  height: number,
+  options: ExportImageOptions = {}
+): Promise<Blob> {
+  const format = options.format || 'png';
+  const mimeType = MIME_TYPES[format];
+  if (!mimeType) {
+    throw new Error(`未対応の出力形式です: ${format}`);
+  }
+
+  const view = svg.ownerDocument.defaultView;
+  const scale = options.scale ?? (view?.devicePixelRatio || 1);
+  if (!(scale > 0)) {
+    throw new Error(`scaleは正の数で指定してください: ${scale}`);
+  }
+
+  const prepared = await prepareSVGForExport(svg, {
+    width,
+    height,
+    embedImages: options.embedImages,
+    embedFonts: options.embedFonts
+  });
+  const svgData = new XMLSerializer().serializeToString(prepared);
+
+  const canvas = svg.ownerDocument.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2Dコンテキストを取得できません');
+  }
+
+  // jpegは透明色を扱えないため既定で白を敷く
+  const background = options.background ?? (format === 'jpeg' ? '#ffffff' : undefined);
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const image = await loadImage(new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' }));
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error(`${format.toUpperCase()} Blobの生成に失敗しました`));
+        }
+      }, mimeType, options.quality);
+    } catch (error) {
+      // 外部画像で汚染されたCanvasはtoBlobで例外になる
+      reject(new Error(`画像の出力に失敗しました: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  });
+}
+
+/**
+ * 出力用にSVG要素を複製し、外部リソースを埋め込みます
+ * 元のSVG要素は変更されません
+ * @param svg - 元のSVG要素
+ * @param options - 準備オプション
+ * @returns 出力用のSVG要素
+ */
+export async function prepareSVGForExport(svg: SVGSVGElement, options: PrepareSVGOptions): Promise<SVGSVGElement> {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('width', String(options.width));
+  clone.setAttribute('height', String(options.height));
+
+  // Canvasの描画内容は複製されないため、元のCanvasを画像に置き換える
+  replaceCanvases(svg, clone);
+
+  if (options.embedImages !== false) {
+    await embedImages(clone);
+  }
+
+  if (options.embedFonts !== false) {
+    const css = await collectFontFaceCss(svg.ownerDocument);
+    if (css) {
+      const style = svg.ownerDocument.createElementNS(SVG_NS, 'style');
+      style.textContent = css;
+      getOrCreateDefs(clone).appendChild(style);
+    }
+  }
+
+  return clone;
+}
+
+/**
+ * ドキュメントの@font-face規則を、フォントファイルをData URLに置き換えて収集します
+ * 読み込めないスタイルシート（クロスオリジン）は対象外です
+ * @param doc - 対象のドキュメント
+ * @returns @font-face規則のCSS文字列
+ */
+export async function collectFontFaceCss(doc: Document): Promise<string> {
+  const rules: string[] = [];
+
+  Array.from(doc.styleSheets || []).forEach(sheet => {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      // クロスオリジンのスタイルシートは参照できない
+      return;
+    }
+    Array.from(cssRules).forEach(rule => {
+      if (rule.cssText.startsWith('@font-face')) {
+        rules.push(rule.cssText);
+      }
+    });
+  });
+
+  const inlined = await Promise.all(rules.map(async rule => {
+    const urls = Array.from(rule.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)).map(match => match[2]);
+    let result = rule;
+    for (const url of urls) {
+      if (url.startsWith('data:')) continue;
+      const dataUrl = await fetchAsDataURL(new URL(url, doc.baseURI).href);
+      result = result.split(url).join(dataUrl);
+    }
+    return result;
+  }));
+
+  return inlined.join('\n');
+}
+
+/**
+ * SVG内の外部画像をData URLに置き換えます
+ * @param svg - 対象のSVG要素
+ */
+async function embedImages(svg: SVGSVGElement): Promise<void> {
+  const images = Array.from(svg.querySelectorAll('image'));
+  await Promise.all(images.map(async image => {
+    const href = image.getAttribute('href') ?? image.getAttributeNS(XLINK_NS, 'href');
+    if (!href || href.startsWith('data:')) return;
+
+    const dataUrl = await fetchAsDataURL(new URL(href, svg.ownerDocument.baseURI).href);
+    image.setAttribute('href', dataUrl);
+    image.removeAttributeNS(XLINK_NS, 'href');
+  }));
+}
+
+/**
+ * 複製したSVG内のCanvasを、元のCanvasの描画内容を持つimage要素に置き換えます
+ * @param source - 元のSVG要素
+ * @param clone - 複製したSVG要素
+ */
+function replaceCanvases(source: SVGSVGElement, clone: SVGSVGElement): void {
+  const sourceCanvases = Array.from(source.querySelectorAll('foreignObject canvas')) as HTMLCanvasElement[];
+  const clonedCanvases = Array.from(clone.querySelectorAll('foreignObject canvas'));
+
+  clonedCanvases.forEach((canvas, i) => {
+    const foreignObject = canvas.closest('foreignObject');
+    const sourceCanvas = sourceCanvases[i];
+    if (!foreignObject || !sourceCanvas) return;
+
+    const image = clone.ownerDocument.createElementNS(SVG_NS, 'image');
+    ['x', 'y', 'width', 'height', 'class'].forEach(name => {
+      const value = foreignObject.getAttribute(name);
+      if (value !== null) image.setAttribute(name, value);
+    });
+    image.setAttribute('href', sourceCanvas.toDataURL('image/png'));
+    foreignObject.replaceWith(image);
+  });
+}
+
+/**
+ * SVG要素のdefs要素を取得します（存在しない場合は作成）
+ * @param svg - 対象のSVG要素
+ * @returns defs要素
+ */
+function getOrCreateDefs(svg: SVGSVGElement): Element {
+  const existing = Array.from(svg.children).find(child => child.tagName.toLowerCase() === 'defs');
+  if (existing) return existing;
+
+  const defs = svg.ownerDocument.createElementNS(SVG_NS, 'defs');
+  svg.insertBefore(defs, svg.firstChild);
+  return defs;
+}
+
+/**
+ * URLのリソースを取得してData URLに変換します
+ * @param url - リソースのURL
+ * @returns Data URL
+ */
+async function fetchAsDataURL(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`リソースの取得に失敗しました（クロスオリジンの制限の可能性があります）: ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`リソースの取得に失敗しました: ${url} (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+/**
+ * BlobをImage要素として読み込みます
+ * @param blob - 画像データ
+ * @returns 読み込み済みのImage要素
+ */
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG画像の読み込みに失敗しました'));
+    };
+    image.src = url;
+  });
+}
@@ -1,4 +1,4 @@
-import { LayerAttr, ILayer, IGeojsonLayer } from '../types';
+import { LayerAttr, ILayer, IGeojsonLayer, IRendererSwitchableLayer, ITemporalLayer, IOverlayLayer, LayerRenderer, ScreenRect } from '../types';
 import { GeoProjection } from 'd3-geo';
 import { Selection } from 'd3-selection';
 
@@ -13,6 +13,12 @@ export class LayerManager {
   private svgContainer?: Selection<SVGGElement, unknown, HTMLElement, any>;
   /** 現在の投影法 */
   private projection?: GeoProjection;
+  /** 地理レイヤーに適用するtransform（ズーム用） */
+  private layerTransform: string | null = null;
+  /** 描画方式が未指定のレイヤーに適用する既定の描画方式 */
+  private defaultRenderer?: LayerRenderer;
+  /** 時系列レイヤーに適用する日時（nullの場合は日時によらず全て表示） */
+  private time: number | null = null;
 
   /**
    * レイヤーマネージャーを初期化します
@@ -32,6 +38,15 @@ export class LayerManager {
   }
 
 
+  /**
+   * 描画方式が未指定のレイヤーに適用する既定の描画方式を設定します
+   * 設定後に追加したレイヤーから適用されます
+   * @param renderer - 描画方式
+   */
+  setDefaultRenderer(renderer: LayerRenderer): void {
+    this.defaultRenderer = renderer;
+  }
+
   /**
    * レイヤーインスタンスを追加します
    * @param id - レイヤーの一意識別子
@@ -47,11 +62,22 @@ export class LayerManager {
       layerInstance.setProjection(this.projection);
     }
 
+    // 描画方式が未指定のレイヤーには既定の描画方式を設定
+    if (this.defaultRenderer && this.isRendererSwitchableLayer(layerInstance) && !layerInstance.getRenderer()) {
+      layerInstance.setRenderer(this.defaultRenderer);
+    }
+
+    // 時系列レイヤーには現在の日時を設定
+    if (this.time !== null && this.isTemporalLayer(layerInstance)) {
+      layerInstance.setTime(this.time);
+    }
+
     // zIndexを設定
     layerInstance.zIndex = this.getNextZIndex();
 
     // レイヤーを描画
     layerInstance.render(this.svgContainer);
+    this.applyLayerTransform(layerInstance);
 
     // レイヤーを管理に追加
     this.layerInstances.set(id, layerInstance);
@@ -65,6 +91,7 @@ export class LayerManager {
     const layerInstance = this.layerInstances.get(id);
     if (layerInstance) {
       layerInstance.destroy();
+      layerInstance.dispose?.();
       this.layerInstances.delete(id);
     }
   }
@@ -120,7 +147,10 @@ export class LayerManager {
    * 全レイヤーを削除します
    */
   clearAllLayers(): void {
-    this.layerInstances.forEach(layer => layer.destroy());
+    this.layerInstances.forEach(layer => {
+      layer.destroy();
+      layer.dispose?.();
+    });
     this.layerInstances.clear();
   }
 
@@ -138,10 +168,29 @@ export class LayerManager {
           layer.setProjection(this.projection);
         }
         layer.render(this.svgContainer!);
+        this.applyLayerTransform(layer);
       });
     }
   }
 
+  /**
+   * 地理レイヤーにtransformを設定します
+   * 凡例などの投影法に依存しないレイヤーには適用されません
+   * @param transform - SVGのtransform文字列（nullで解除）
+   */
+  setLayerTransform(transform: string | null): void {
+    this.layerTransform = transform;
+    this.layerInstances.forEach(layer => this.applyLayerTransform(layer));
+  }
+
+  /**
+   * 現在の地理レイヤー用transformを取得します
+   * @returns transform文字列（未設定の場合はnull）
+   */
+  getLayerTransform(): string | null {
+    return this.layerTransform;
+  }
+
   /**
    * レイヤーの描画順序を最適化された方法で再整理します
    * 再描画せずにDOM要素の順序のみを変更します
@@ -191,6 +240,47 @@ export class LayerManager {
     });
   }
 
+  /**
+   * 時系列レイヤーに表示する日時を設定します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   */
+  setTime(time: number | null): void {
+    this.time = time;
+    this.layerInstances.forEach(layer => {
+      if (this.isTemporalLayer(layer)) {
+        layer.setTime(time);
+      }
+    });
+  }
+
+  /**
+   * 全ての時系列レイヤーのデータに含まれる日時の一覧を取得します
+   * @returns 重複を除いて昇順に並べた日時（エポックミリ秒）
+   */
+  getTimeSteps(): number[] {
+    const steps = new Set<number>();
+    this.layerInstances.forEach(layer => {
+      if (this.isTemporalLayer(layer)) {
+        layer.getTimeSteps().forEach(step => steps.add(step));
+      }
+    });
+    return Array.from(steps).sort((a, b) => a - b);
+  }
+
+  /**
+   * 表示中の重ねて表示するレイヤー（凡例など）が地図上で占める矩形を取得します
+   * @returns 画面上の矩形の配列
+   */
+  getOverlayBounds(): ScreenRect[] {
+    const bounds: ScreenRect[] = [];
+    this.layerInstances.forEach(layer => {
+      if (!layer.visible || !this.isOverlayLayer(layer)) return;
+      const rect = layer.getOverlayBounds();
+      if (rect) bounds.push(rect);
+    });
+    return bounds;
+  }
+
   /**
    * 次に使用するzIndex値を取得します
    * @private
@@ -216,6 +306,54 @@ export class LayerManager {
     return 'setProjection' in layer;
   }
 
+  /**
+   * レイヤーがITemporalLayerインターフェースを実装しているか確認します
+   * @private
+   * @param layer - 確認するレイヤー
+   * @returns ITemporalLayerの場合true
+   */
+  private isTemporalLayer(layer: ILayer): layer is ITemporalLayer {
+    return 'setTime' in layer && 'getTimeSteps' in layer;
+  }
+
+  /**
+   * レイヤーがIOverlayLayerインターフェースを実装しているか確認します
+   * @private
+   * @param layer - 確認するレイヤー
+   * @returns IOverlayLayerの場合true
+   */
+  private isOverlayLayer(layer: ILayer): layer is IOverlayLayer {
+    return 'getOverlayBounds' in layer;
+  }
+
+  /**
+   * レイヤーが描画方式を切り替え可能か確認します
+   * @private
+   * @param layer - 確認するレイヤー
+   * @returns IRendererSwitchableLayerの場合true
+   */
+  private isRendererSwitchableLayer(layer: ILayer): layer is IRendererSwitchableLayer {
+    return 'setRenderer' in layer && 'getRenderer' in layer;
+  }
+
+  /**
+   * 保持しているtransformをレイヤー要素に適用します
+   * @private
+   * @param layer - 対象のレイヤー
+   */
+  private applyLayerTransform(layer: ILayer): void {
+    if (!this.isGeojsonLayer(layer)) return;
+
+    const element = this.getLayerElement(layer);
+    if (!element) return;
+
+    if (this.layerTransform) {
+      element.setAttribute('transform', this.layerTransform);
+    } else {
+      element.removeAttribute('transform');
+    }
+  }
+
   /**
    * レイヤーのSVG要素を取得します
    * @private
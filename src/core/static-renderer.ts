@@ -0,0 +1,93 @@
+import { Map } from '../thematika';
+import { ThematikaOptions, ILayer } from '../types';
+
+/**
+ * renderToStringのオプション
+ */
+export interface StaticRenderOptions extends Omit<ThematikaOptions, 'container'> {
+  /** 描画に使用するDocument（省略時はグローバルのdocument。Node.jsではjsdomなどのDocumentを指定します） */
+  document?: Document;
+}
+
+/**
+ * renderToStringで描画するレイヤー
+ */
+export interface StaticRenderLayer {
+  /** レイヤーの識別子（出力SVGのクラス名や、レイヤーIDから作られる要素のIDに使用されます） */
+  id: string;
+  /** レイヤーインスタンス */
+  layer: ILayer;
+}
+
+/**
+ * 地図をSVG文字列として描画します
+ *
+ * ページに配置しない要素をコンテナとして地図を作成するため、ブラウザのレイアウト情報に依存しません。
+ * 出力ではレイヤーごとに自動生成されるIDを指定した識別子に置き換えるため、
+ * 同じ入力からは常に同じ文字列が得られます。
+ *
+ * @param options - 地図の設定オプション
+ * @param layers - 描画するレイヤー（配列の順に重ねて描画されます）
+ * @returns SVG文字列
+ *
+ * @example
+ * ```typescript
+ * import { JSDOM } from 'jsdom';
+ *
+ * const { document } = new JSDOM().window;
+ * const svg = renderToString(
+ *   { width: 800, height: 600, projection: geoMercator(), document },
+ *   [{ id: 'countries', layer: new GeojsonLayer({ data }) }]
+ * );
+ * ```
+ */
+export function renderToString(options: StaticRenderOptions, layers: StaticRenderLayer[]): string {
+  const { document: providedDocument, ...mapOptions } = options;
+  const doc = providedDocument ?? (typeof document !== 'undefined' ? document : undefined);
+  if (!doc) {
+    throw new Error('Documentが見つかりません。Node.jsではjsdomなどのDocumentをdocumentオプションに指定してください');
+  }
+
+  // ページに配置しないコンテナに描画する
+  const container = doc.createElement('div');
+  const map = new Map({ ...mapOptions, container });
+
+  try {
+    layers.forEach(({ id, layer }) => map.addLayer(id, layer));
+
+    const svg = map.getSVG();
+    svg.setAttribute('width', String(options.width));
+    svg.setAttribute('height', String(options.height));
+
+    let output = serializeSVG(svg);
+
+    // 自動生成されたレイヤーIDを識別子に置き換える
+    // （クラス名のほか、clipPathやグラデーションなどのID・参照もレイヤーIDから作られるため全ての出現箇所を置き換える）
+    layers.forEach(({ id, layer }) => {
+      output = output.split(layer.id).join(id);
+    });
+
+    return output;
+  } finally {
+    map.clearAllLayers();
+  }
+}
+
+/**
+ * SVG要素を文字列に変換します
+ * @param svg - SVG要素
+ * @returns SVG文字列
+ */
+function serializeSVG(svg: SVGSVGElement): string {
+  const view = svg.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+  const Serializer = view?.XMLSerializer ?? (typeof XMLSerializer !== 'undefined' ? XMLSerializer : undefined);
+  if (Serializer) {
+    return new Serializer().serializeToString(svg);
+  }
+
+  // XMLSerializerがない環境ではouterHTMLに名前空間を補って使用
+  const markup = svg.outerHTML;
+  return markup.includes('xmlns=')
+    ? markup
+    : markup.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
+}
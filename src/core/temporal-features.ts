@@ -0,0 +1,110 @@
+import { TemporalLayerOptions } from '../types';
+import { filterFeaturesByTime, getTimeSteps } from '../utils/time-utils';
+
+/**
+ * 時系列レイヤーの表示データを管理するクラス
+ *
+ * 全ての日時を含むデータと表示する日時を保持し、timeAccessorが設定されている場合は
+ * 日時に該当するフィーチャーのみを表示データとします。
+ *
+ * @example
+ * ```typescript
+ * const temporal = new TemporalFeatures(data, { timeAccessor: f => f.properties!.date });
+ * if (temporal.setTime(toTimestamp('2024-04-01'))) {
+ *   render(temporal.getData());
+ * }
+ * ```
+ */
+export class TemporalFeatures {
+  /** 全ての日時を含むデータ */
+  private allData: GeoJSON.FeatureCollection;
+  /** 表示中のデータ */
+  private data: GeoJSON.FeatureCollection;
+  /** 時系列の設定 */
+  private options: TemporalLayerOptions;
+  /** 表示する日時（nullの場合は全て表示） */
+  private time: number | null = null;
+
+  /**
+   * TemporalFeaturesを初期化します
+   * @param data - 全ての日時を含むデータ
+   * @param options - 時系列の設定（レイヤーのオプションをそのまま渡せます）
+   */
+  constructor(data: GeoJSON.FeatureCollection, options: TemporalLayerOptions = {}) {
+    this.allData = data;
+    this.data = data;
+    this.options = { timeAccessor: options.timeAccessor, timeMode: options.timeMode, timeKey: options.timeKey };
+  }
+
+  /**
+   * timeAccessorが設定されているかを判定します
+   * @returns 日時による表示の切り替えが有効な場合true
+   */
+  isEnabled(): boolean {
+    return !!this.options.timeAccessor;
+  }
+
+  /**
+   * 表示中のデータを取得します
+   * 日時やデータが変わるまでは同じオブジェクトを返します
+   * @returns 表示中のデータ
+   */
+  getData(): GeoJSON.FeatureCollection {
+    return this.data;
+  }
+
+  /**
+   * 全ての日時を含むデータを取得します
+   * @returns 全ての日時を含むデータ
+   */
+  getAllData(): GeoJSON.FeatureCollection {
+    return this.allData;
+  }
+
+  /**
+   * 全ての日時を含むデータを置き換え、現在の日時で表示データを更新します
+   * @param data - 新しいデータ
+   */
+  setData(data: GeoJSON.FeatureCollection): void {
+    this.allData = data;
+    this.update();
+  }
+
+  /**
+   * 表示する日時を設定します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   * @returns 表示データが更新された場合true（timeAccessorが未設定の場合はfalse）
+   */
+  setTime(time: number | null): boolean {
+    this.time = time;
+    if (!this.isEnabled()) return false;
+    this.update();
+    return true;
+  }
+
+  /**
+   * 'interpolate'で日時の異なるフィーチャーを対応付けるキーを取得します
+   * @returns キーを取得する関数（未設定の場合はundefined）
+   */
+  getTimeKey(): TemporalLayerOptions['timeKey'] {
+    return this.options.timeKey;
+  }
+
+  /**
+   * データに含まれる日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列（timeAccessorが未設定の場合は空配列）
+   */
+  getTimeSteps(): number[] {
+    return this.options.timeAccessor ? getTimeSteps(this.allData.features, this.options.timeAccessor) : [];
+  }
+
+  /**
+   * 表示する日時に該当するフィーチャーを抽出します
+   * @private
+   */
+  private update(): void {
+    this.data = this.time === null || !this.isEnabled()
+      ? this.allData
+      : { ...this.allData, features: filterFeaturesByTime(this.allData.features, this.time, this.options) };
+  }
+}
@@ -0,0 +1,334 @@
+import { TimeValue, TimeControllerOptions, TimeControllerEventMap, TimeChangeEvent } from '../types';
+import { EventEmitter, EventHandler } from './event-emitter';
+import { startTransition, TransitionHandle } from './transition';
+import { toTimestamp } from '../utils/time-utils';
+
+/** stepの既定値（1日） */
+const DEFAULT_STEP = 24 * 60 * 60 * 1000;
+
+/**
+ * 時系列データの現在時刻と再生を管理するクラス
+ *
+ * 日時はステップ（timesまたはstartからendまでのstep間隔）の間を移動し、
+ * setTimeではステップの間の任意の時刻も設定できます。
+ *
+ * @example
+ * ```typescript
+ * const controller = new TimeController({ start: '2024-04-01', end: '2024-04-30', interval: 500 });
+ * controller.on('timechange', e => console.log(e.date));
+ * controller.play();
+ * ```
+ */
+export class TimeController {
+  /** ステップの日時（昇順のエポックミリ秒） */
+  private times: number[];
+  /** 現在の日時 */
+  private time: number;
+  /** 再生時に1ステップ進むまでの時間 */
+  private interval: number;
+  /** 最後まで再生したら最初に戻るか */
+  private loop: boolean;
+  /** ステップの間も連続的に時刻を進めるか */
+  private smooth: boolean;
+  /** 再生中かどうか */
+  private playing: boolean = false;
+  /** 次のステップに進むタイマー */
+  private timer?: ReturnType<typeof setTimeout>;
+  /** 連続再生中の遷移 */
+  private transition?: TransitionHandle;
+  /** イベントエミッター */
+  private events: EventEmitter<TimeControllerEventMap> = new EventEmitter();
+
+  /**
+   * TimeControllerを初期化します
+   * @param options - 時間の範囲と再生の設定
+   */
+  constructor(options: TimeControllerOptions) {
+    this.times = TimeController.resolveTimes(options);
+    this.interval = options.interval ?? 1000;
+    this.loop = options.loop ?? false;
+    this.smooth = options.smooth ?? false;
+    this.time = options.current !== undefined ? this.clamp(toTimestamp(options.current)) : this.times[0];
+  }
+
+  /**
+   * 現在の日時を取得します
+   * @returns エポックミリ秒
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * 現在の日時をDateで取得します
+   * @returns 現在の日時
+   */
+  getDate(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * 現在の日時以前で最も新しいステップのインデックスを取得します
+   * @returns ステップのインデックス
+   */
+  getIndex(): number {
+    let index = 0;
+    while (index < this.times.length - 1 && this.times[index + 1] <= this.time) index++;
+    return index;
+  }
+
+  /**
+   * ステップの日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列
+   */
+  getTimes(): number[] {
+    return [...this.times];
+  }
+
+  /**
+   * 時間の範囲を取得します
+   * @returns [最初の日時, 最後の日時]
+   */
+  getExtent(): [number, number] {
+    return [this.times[0], this.times[this.times.length - 1]];
+  }
+
+  /**
+   * 連続再生が有効かどうかを取得します
+   * @returns smoothオプションの値
+   */
+  isSmooth(): boolean {
+    return this.smooth;
+  }
+
+  /**
+   * 現在の日時を設定します（範囲外の値は範囲内に収めます）
+   * @param value - 日時
+   */
+  setTime(value: TimeValue): void {
+    const time = this.clamp(toTimestamp(value));
+    if (time === this.time) return;
+
+    this.time = time;
+    this.events.emit('timechange', this.createEvent('timechange'));
+  }
+
+  /**
+   * ステップ単位で日時を移動します
+   * loopが有効な場合は範囲の端で反対側に戻ります
+   * @param delta - 移動するステップ数（デフォルト: 1、負の値で前に戻る）
+   */
+  step(delta: number = 1): void {
+    const index = this.getIndex();
+    // ステップの間にいる場合、前に戻る1ステップ目は直前のステップとする
+    const target = delta < 0 && this.time > this.times[index] ? index + delta + 1 : index + delta;
+    const count = this.times.length;
+    const resolved = this.loop
+      ? ((target % count) + count) % count
+      : Math.max(0, Math.min(count - 1, target));
+    this.setTime(this.times[resolved]);
+  }
+
+  /**
+   * 再生を開始します
+   * 最後まで再生済みでloopが無効な場合は最初から再生します
+   */
+  play(): void {
+    if (this.playing) return;
+
+    if (!this.loop && this.time >= this.times[this.times.length - 1]) {
+      this.setTime(this.times[0]);
+    }
+    this.playing = true;
+    this.events.emit('play', this.createEvent('play'));
+    this.scheduleNext();
+  }
+
+  /**
+   * 再生を一時停止します
+   */
+  pause(): void {
+    if (!this.playing) return;
+
+    this.stopTimers();
+    this.playing = false;
+    this.events.emit('pause', this.createEvent('pause'));
+  }
+
+  /**
+   * 再生と一時停止を切り替えます
+   */
+  toggle(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * 再生中かどうかを取得します
+   * @returns 再生中の場合true
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * イベントハンドラーを登録します
+   * @param type - イベント種別
+   * @param handler - イベントハンドラー
+   */
+  on<K extends keyof TimeControllerEventMap>(type: K, handler: EventHandler<TimeControllerEventMap[K]>): void {
+    this.events.on(type, handler);
+  }
+
+  /**
+   * イベントハンドラーを解除します
+   * @param type - イベント種別
+   * @param handler - 解除するイベントハンドラー（省略時は全て解除）
+   */
+  off<K extends keyof TimeControllerEventMap>(type: K, handler?: EventHandler<TimeControllerEventMap[K]>): void {
+    this.events.off(type, handler);
+  }
+
+  /**
+   * 再生を停止し、全てのイベントハンドラーを解除します
+   */
+  destroy(): void {
+    this.stopTimers();
+    this.playing = false;
+    this.events.clear();
+  }
+
+  /**
+   * 次のステップへの移動を予約します
+   * @private
+   */
+  private scheduleNext(): void {
+    const last = this.times.length - 1;
+    const index = this.getIndex();
+
+    if (this.smooth && index < last) {
+      const from = this.time;
+      const to = this.times[index + 1];
+      const duration = this.interval * (to - from) / (to - this.times[index]);
+      const transition = startTransition(t => this.setTime(from + (to - from) * t), { duration, easing: 'linear' });
+      this.transition = transition;
+      transition.finished.then(completed => {
+        if (completed && this.transition === transition) {
+          this.transition = undefined;
+          this.advance(false);
+        }
+      });
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.advance(true);
+    }, this.interval);
+  }
+
+  /**
+   * 再生中に次のステップへ進み、最後に達した場合は再生を終了します
+   * @private
+   * @param step - ステップを進めるか（連続再生では遷移で到達済みのため進めない）
+   */
+  private advance(step: boolean): void {
+    if (!this.playing) return;
+
+    const last = this.times.length - 1;
+    if (this.getIndex() >= last) {
+      if (!this.loop) {
+        this.finish();
+        return;
+      }
+      this.setTime(this.times[0]);
+    } else if (step) {
+      this.step(1);
+    }
+
+    if (!this.loop && this.getIndex() >= last) {
+      this.finish();
+    } else {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * 最後まで再生した時点で再生を終了します
+   * @private
+   */
+  private finish(): void {
+    this.stopTimers();
+    this.playing = false;
+    this.events.emit('end', this.createEvent('end'));
+  }
+
+  /**
+   * 再生用のタイマーと遷移を停止します
+   * @private
+   */
+  private stopTimers(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.transition?.cancel();
+    this.transition = undefined;
+  }
+
+  /**
+   * 日時を範囲内に収めます
+   * @private
+   * @param time - エポックミリ秒
+   * @returns 範囲内のエポックミリ秒
+   */
+  private clamp(time: number): number {
+    return Math.max(this.times[0], Math.min(this.times[this.times.length - 1], time));
+  }
+
+  /**
+   * イベントオブジェクトを作成します
+   * @private
+   * @param type - イベント種別
+   * @returns イベントオブジェクト
+   */
+  private createEvent(type: TimeChangeEvent['type']): TimeChangeEvent {
+    return { type, time: this.time, date: new Date(this.time), index: this.getIndex() };
+  }
+
+  /**
+   * オプションからステップの日時を求めます
+   * @private
+   * @param options - 初期化オプション
+   * @returns 昇順のエポックミリ秒の配列
+   */
+  private static resolveTimes(options: TimeControllerOptions): number[] {
+    if (options.times && options.times.length > 0) {
+      return Array.from(new Set(options.times.map(toTimestamp))).sort((a, b) => a - b);
+    }
+
+    if (options.start === undefined || options.end === undefined) {
+      throw new Error('時間の範囲を指定してください（timesまたはstartとend）');
+    }
+
+    const step = options.step ?? DEFAULT_STEP;
+    if (!(step > 0)) {
+      throw new Error(`stepは正の値で指定してください: ${step}`);
+    }
+
+    const start = toTimestamp(options.start);
+    const end = toTimestamp(options.end);
+    if (end < start) {
+      throw new Error('終了日時は開始日時以降を指定してください');
+    }
+
+    const times: number[] = [];
+    for (let time = start; time <= end; time += step) {
+      times.push(time);
+    }
+    return times;
+  }
+}
@@ -0,0 +1,198 @@
+import { Selection } from 'd3-selection';
+import { drag, D3DragEvent } from 'd3-drag';
+import { TimeSliderOptions } from '../types';
+import { TimeController } from './time-controller';
+
+/** 再生ボタンのアイコン */
+const PLAY_ICON = 'M-4,-6L7,0L-4,6Z';
+/** 一時停止ボタンのアイコン */
+const PAUSE_ICON = 'M-6,-6h4v12h-4zM2,-6h4v12h-4z';
+/** 再生ボタンの半径 */
+const BUTTON_RADIUS = 12;
+
+/**
+ * 日時をYYYY-MM-DD形式に変換します
+ * @param date - 日時
+ * @returns 日付文字列
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * TimeControllerを操作するSVGの時間スライダー
+ * 再生・一時停止ボタン、ステップの目盛り、ドラッグ可能なハンドルと日時ラベルで構成されます
+ * ドラッグ中は再生を一時停止し、最も近いステップに合わせます（連続再生が有効な場合は任意の時刻）
+ */
+export class TimeSlider {
+  /** 操作対象のコントローラー */
+  private controller: TimeController;
+  /** 表示オプション */
+  private options: TimeSliderOptions;
+  /** スライダーのグループ */
+  private group?: Selection<SVGGElement, unknown, HTMLElement, any>;
+  /** トラックの左端と右端のx座標 */
+  private trackRange: [number, number] = [0, 0];
+  /** コントローラーのイベントで表示を更新するハンドラー */
+  private readonly handleChange = () => this.update();
+
+  /**
+   * 時間スライダーを初期化します
+   * @param controller - 操作対象のコントローラー
+   * @param options - 表示オプション
+   */
+  constructor(controller: TimeController, options: TimeSliderOptions = {}) {
+    this.controller = controller;
+    this.options = options;
+  }
+
+  /**
+   * スライダーを描画します
+   * @param container - 描画先のSVG要素
+   * @param size - 地図のサイズ（既定の位置と幅の計算に使用）
+   */
+  render(container: Selection<any, unknown, HTMLElement, any>, size: { width: number; height: number }): void {
+    this.destroy();
+
+    const position = this.options.position ?? { top: size.height - 40, left: 20 };
+    const width = this.options.width ?? size.width - 40;
+    const playButton = this.options.playButton ?? true;
+    this.trackRange = [playButton ? BUTTON_RADIUS * 2 + 12 : 0, width];
+    const [x0, x1] = this.trackRange;
+
+    const group: Selection<SVGGElement, unknown, HTMLElement, any> = container.append('g')
+      .attr('class', 'thematika-time-slider')
+      .attr('transform', `translate(${position.left},${position.top})`);
+    this.group = group;
+
+    if (playButton) {
+      const button = group.append('g')
+        .attr('class', 'thematika-time-slider-button')
+        .attr('transform', `translate(${BUTTON_RADIUS},0)`)
+        .style('cursor', 'pointer')
+        .on('click', () => this.controller.toggle());
+      button.append('circle')
+        .attr('r', BUTTON_RADIUS)
+        .attr('fill', '#333333');
+      button.append('path')
+        .attr('class', 'thematika-time-slider-icon')
+        .attr('fill', '#ffffff');
+    }
+
+    group.append('line')
+      .attr('class', 'thematika-time-slider-track')
+      .attr('x1', x0)
+      .attr('x2', x1)
+      .attr('stroke', '#999999')
+      .attr('stroke-width', 4)
+      .attr('stroke-linecap', 'round');
+
+    // ステップが密な場合は目盛りを省略する
+    const times = this.controller.getTimes();
+    if (times.length > 1 && times.length <= (x1 - x0) / 4) {
+      group.append('g')
+        .attr('class', 'thematika-time-slider-ticks')
+        .attr('stroke', '#666666')
+        .selectAll('line')
+        .data(times)
+        .enter()
+        .append('line')
+        .attr('x1', d => this.toX(d))
+        .attr('x2', d => this.toX(d))
+        .attr('y1', 4)
+        .attr('y2', 8);
+    }
+
+    group.append('text')
+      .attr('class', 'thematika-time-slider-label')
+      .attr('y', -14)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', 12)
+      .attr('fill', '#333333');
+
+    const dragBehavior = drag<any, unknown>()
+      .container(() => group.node()!)
+      .on('start drag', (event: D3DragEvent<any, unknown, unknown>) => {
+        this.controller.pause();
+        this.controller.setTime(this.toTime(event.x));
+      });
+
+    group.append('rect')
+      .attr('class', 'thematika-time-slider-hitarea')
+      .attr('x', x0 - 8)
+      .attr('y', -12)
+      .attr('width', x1 - x0 + 16)
+      .attr('height', 24)
+      .attr('fill', 'transparent')
+      .style('cursor', 'pointer')
+      .call(dragBehavior);
+
+    group.append('circle')
+      .attr('class', 'thematika-time-slider-handle')
+      .attr('r', 7)
+      .attr('fill', '#ffffff')
+      .attr('stroke', '#333333')
+      .attr('stroke-width', 2)
+      .style('cursor', 'grab')
+      .call(dragBehavior);
+
+    (['timechange', 'play', 'pause', 'end'] as const).forEach(type => this.controller.on(type, this.handleChange));
+    this.update();
+  }
+
+  /**
+   * スライダーを削除し、コントローラーのイベントの購読を解除します
+   */
+  destroy(): void {
+    (['timechange', 'play', 'pause', 'end'] as const).forEach(type => this.controller.off(type, this.handleChange));
+    this.group?.remove();
+    this.group = undefined;
+  }
+
+  /**
+   * 現在の日時と再生状態を表示に反映します
+   * @private
+   */
+  private update(): void {
+    if (!this.group) return;
+
+    const time = this.controller.getTime();
+    const x = this.toX(time);
+    const format = this.options.format ?? formatDate;
+
+    this.group.select('.thematika-time-slider-handle').attr('cx', x);
+    this.group.select('.thematika-time-slider-label').attr('x', x).text(format(new Date(time)));
+    this.group.select('.thematika-time-slider-icon').attr('d', this.controller.isPlaying() ? PAUSE_ICON : PLAY_ICON);
+  }
+
+  /**
+   * 日時をトラック上のx座標に変換します
+   * @private
+   * @param time - エポックミリ秒
+   * @returns x座標
+   */
+  private toX(time: number): number {
+    const [t0, t1] = this.controller.getExtent();
+    const [x0, x1] = this.trackRange;
+    return t1 > t0 ? x0 + (time - t0) / (t1 - t0) * (x1 - x0) : x0;
+  }
+
+  /**
+   * トラック上のx座標を日時に変換します
+   * 連続再生が無効な場合は最も近いステップに合わせます
+   * @private
+   * @param x - x座標
+   * @returns エポックミリ秒
+   */
+  private toTime(x: number): number {
+    const [t0, t1] = this.controller.getExtent();
+    const [x0, x1] = this.trackRange;
+    const ratio = x1 > x0 ? Math.max(0, Math.min(1, (x - x0) / (x1 - x0))) : 0;
+    const time = t0 + ratio * (t1 - t0);
+    if (this.controller.isSmooth()) return time;
+
+    return this.controller.getTimes().reduce((nearest, step) =>
+      Math.abs(step - time) < Math.abs(nearest - time) ? step : nearest);
+  }
+}
@@ -0,0 +1,291 @@
+import { IInteractiveLayer, LayerEvent, TooltipOptions, TooltipTemplate } from '../types';
+import { EventHandler } from './event-emitter';
+
+/**
+ * レイヤーごとのツールチップ設定
+ */
+interface TooltipBinding {
+  /** 対象レイヤー */
+  layer: IInteractiveLayer;
+  /** 表示内容を生成するテンプレート関数 */
+  template: TooltipTemplate;
+  /** 表示オプション */
+  options: Required<Omit<TooltipOptions, 'className'>> & Pick<TooltipOptions, 'className'>;
+  /** レイヤーに登録したイベントハンドラー */
+  handlers: { type: LayerEvent['type']; handler: EventHandler<LayerEvent> }[];
+}
+
+/**
+ * TooltipControllerの初期化オプション
+ */
+export interface TooltipControllerOptions {
+  /** ツールチップを重ねるコンテナ要素 */
+  container: HTMLElement;
+  /** 地図のSVG要素（viewBoxとpreserveAspectRatioの取得に使用） */
+  svg: SVGSVGElement;
+}
+
+/**
+ * フィーチャーのプロパティをHTMLツールチップとして表示するクラス
+ * SVGの上にHTML要素を重ね、viewBoxの拡縮とコンテナ端を考慮して配置します
+ */
+export class TooltipController {
+  /** ツールチップを重ねるコンテナ要素 */
+  private container: HTMLElement;
+  /** 地図のSVG要素 */
+  private svg: SVGSVGElement;
+  /** ツールチップ要素（初回表示時に作成） */
+  private tooltipElement?: HTMLDivElement;
+  /** レイヤーIDごとのツールチップ設定 */
+  private bindings: Map<string, TooltipBinding> = new Map();
+  /** 現在ツールチップを表示しているレイヤーID */
+  private activeLayerId: string | null = null;
+
+  /**
+   * TooltipControllerを初期化します
+   * @param options - 初期化オプション
+   */
+  constructor(options: TooltipControllerOptions) {
+    this.container = options.container;
+    this.svg = options.svg;
+  }
+
+  /**
+   * レイヤーにツールチップを設定します
+   * 同じレイヤーIDに再設定した場合は以前の設定を置き換えます
+   * @param layerId - レイヤーID
+   * @param layer - 対象レイヤー
+   * @param template - 表示内容を生成するテンプレート関数（文字列はHTMLとして扱われます）
+   * @param options - 表示オプション
+   */
+  bind(layerId: string, layer: IInteractiveLayer, template: TooltipTemplate, options: TooltipOptions = {}): void {
+    this.unbind(layerId);
+
+    const binding: TooltipBinding = {
+      layer,
+      template,
+      options: {
+        trigger: options.trigger || 'hover',
+        offset: options.offset || [12, 12],
+        className: options.className
+      },
+      handlers: []
+    };
+
+    if (binding.options.trigger === 'hover') {
+      const show: EventHandler<LayerEvent> = event => this.showForEvent(layerId, event);
+      binding.handlers.push(
+        { type: 'mouseover', handler: show },
+        { type: 'mousemove', handler: show },
+        { type: 'mouseout', handler: () => this.hide() }
+      );
+    } else {
+      binding.handlers.push({ type: 'click', handler: event => this.showForEvent(layerId, event) });
+    }
+
+    binding.handlers.forEach(({ type, handler }) => layer.on(type, handler));
+    this.bindings.set(layerId, binding);
+  }
+
+  /**
+   * レイヤーのツールチップ設定を解除します
+   * @param layerId - レイヤーID
+   */
+  unbind(layerId: string): void {
+    const binding = this.bindings.get(layerId);
+    if (!binding) return;
+
+    binding.handlers.forEach(({ type, handler }) => binding.layer.off(type, handler));
+    this.bindings.delete(layerId);
+
+    if (this.activeLayerId === layerId) {
+      this.hide();
+    }
+  }
+
+  /**
+   * 地図座標（viewBox座標系）を指定してツールチップを表示します
+   * @param content - 表示内容（文字列はHTMLとして扱われます）
+   * @param point - 地図座標 [x, y]
+   * @param offset - 表示位置のオフセット [x, y]（デフォルト: [12, 12]）
+   */
+  showAt(content: string | HTMLElement, point: [number, number], offset: [number, number] = [12, 12]): void {
+    this.activeLayerId = null;
+    this.show(content, this.mapToContainer(point), offset);
+  }
+
+  /**
+   * ツールチップを非表示にします
+   */
+  hide(): void {
+    this.activeLayerId = null;
+    if (this.tooltipElement) {
+      this.tooltipElement.style.display = 'none';
+    }
+  }
+
+  /**
+   * 全ての設定を解除し、ツールチップ要素を削除します
+   */
+  destroy(): void {
+    Array.from(this.bindings.keys()).forEach(layerId => this.unbind(layerId));
+    if (this.tooltipElement) {
+      this.tooltipElement.remove();
+      this.tooltipElement = undefined;
+    }
+  }
+
+  /**
+   * 地図座標（viewBox座標系）をコンテナ内のCSSピクセル座標に変換します
+   * preserveAspectRatioによる拡縮と余白を考慮します
+   * @param point - 地図座標 [x, y]
+   * @returns コンテナ左上を原点とするCSSピクセル座標 [x, y]
+   */
+  mapToContainer(point: [number, number]): [number, number] {
+    const svgRect = this.svg.getBoundingClientRect();
+    const containerRect = this.container.getBoundingClientRect();
+    const viewBox = this.parseViewBox();
+
+    const originX = svgRect.left - containerRect.left;
+    const originY = svgRect.top - containerRect.top;
+
+    if (!viewBox || viewBox.width === 0 || viewBox.height === 0) {
+      return [originX + point[0], originY + point[1]];
+    }
+
+    const scaleX = svgRect.width / viewBox.width;
+    const scaleY = svgRect.height / viewBox.height;
+    const [align, meetOrSlice] = (this.svg.getAttribute('preserveAspectRatio') || 'xMidYMid meet').split(/\s+/);
+
+    if (align === 'none') {
+      return [
+        originX + (point[0] - viewBox.x) * scaleX,
+        originY + (point[1] - viewBox.y) * scaleY
+      ];
+    }
+
+    // meetは小さい方、sliceは大きい方の倍率で縦横比を維持
+    const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    const extraX = svgRect.width - viewBox.width * scale;
+    const extraY = svgRect.height - viewBox.height * scale;
+    const alignX = align.startsWith('xMid') ? 0.5 : align.startsWith('xMax') ? 1 : 0;
+    const alignY = align.endsWith('YMid') ? 0.5 : align.endsWith('YMax') ? 1 : 0;
+
+    return [
+      originX + extraX * alignX + (point[0] - viewBox.x) * scale,
+      originY + extraY * alignY + (point[1] - viewBox.y) * scale
+    ];
+  }
+
+  /**
+   * レイヤーイベントに応じてツールチップを表示します
+   * @private
+   * @param layerId - レイヤーID
+   * @param event - レイヤーイベント
+   */
+  private showForEvent(layerId: string, event: LayerEvent): void {
+    const binding = this.bindings.get(layerId);
+    if (!binding) return;
+
+    // マウス位置はズーム状態に関係なくクライアント座標から求める
+    const containerRect = this.container.getBoundingClientRect();
+    const position: [number, number] = [
+      event.sourceEvent.clientX - containerRect.left,
+      event.sourceEvent.clientY - containerRect.top
+    ];
+
+    this.show(binding.template(event.feature, event.index), position, binding.options.offset, binding.options.className);
+    this.activeLayerId = layerId;
+  }
+
+  /**
+   * コンテナ座標にツールチップを表示します
+   * コンテナの右端・下端からはみ出す場合はカーソルの反対側に配置します
+   * @private
+   * @param content - 表示内容
+   * @param position - コンテナ内の座標 [x, y]
+   * @param offset - オフセット [x, y]
+   * @param className - 追加のCSSクラス名
+   */
+  private show(content: string | HTMLElement, position: [number, number], offset: [number, number], className?: string): void {
+    const tooltip = this.ensureTooltipElement();
+
+    if (typeof content === 'string') {
+      tooltip.innerHTML = content;
+    } else {
+      tooltip.innerHTML = '';
+      tooltip.appendChild(content);
+    }
+    tooltip.className = ['thematika-tooltip', className].filter(Boolean).join(' ');
+    tooltip.style.display = 'block';
+
+    const containerWidth = this.container.clientWidth;
+    const containerHeight = this.container.clientHeight;
+    const tooltipWidth = tooltip.offsetWidth;
+    const tooltipHeight = tooltip.offsetHeight;
+
+    let left = position[0] + offset[0];
+    let top = position[1] + offset[1];
+
+    if (left + tooltipWidth > containerWidth) {
+      left = position[0] - offset[0] - tooltipWidth;
+    }
+    if (top + tooltipHeight > containerHeight) {
+      top = position[1] - offset[1] - tooltipHeight;
+    }
+
+    // 反対側にもはみ出す場合はコンテナ内に収める
+    left = Math.max(0, Math.min(left, containerWidth - tooltipWidth));
+    top = Math.max(0, Math.min(top, containerHeight - tooltipHeight));
+
+    tooltip.style.left = `${left}px`;
+    tooltip.style.top = `${top}px`;
+  }
+
+  /**
+   * ツールチップ要素を取得します（未作成の場合は作成）
+   * @private
+   * @returns ツールチップ要素
+   */
+  private ensureTooltipElement(): HTMLDivElement {
+    if (this.tooltipElement) return this.tooltipElement;
+
+    // 絶対配置の基準となるようにコンテナを調整
+    const view = this.container.ownerDocument.defaultView;
+    if (view && view.getComputedStyle(this.container).position === 'static') {
+      this.container.style.position = 'relative';
+    }
+
+    const tooltip = this.container.ownerDocument.createElement('div');
+    tooltip.className = 'thematika-tooltip';
+    tooltip.style.position = 'absolute';
+    tooltip.style.pointerEvents = 'none';
+    tooltip.style.display = 'none';
+    tooltip.style.zIndex = '1000';
+    tooltip.style.background = 'rgba(255, 255, 255, 0.95)';
+    tooltip.style.border = '1px solid #cccccc';
+    tooltip.style.borderRadius = '4px';
+    tooltip.style.padding = '4px 8px';
+    tooltip.style.fontSize = '12px';
+    tooltip.style.whiteSpace = 'nowrap';
+
+    this.container.appendChild(tooltip);
+    this.tooltipElement = tooltip;
+    return tooltip;
+  }
+
+  /**
+   * SVGのviewBox属性を解析します
+   * @private
+   * @returns viewBoxの値（未設定の場合はnull）
+   */
+  private parseViewBox(): { x: number; y: number; width: number; height: number } | null {
+    const value = this.svg.getAttribute('viewBox');
+    if (!value) return null;
+
+    const [x, y, width, height] = value.split(/[\s,]+/).map(Number);
+    if ([x, y, width, height].some(v => !isFinite(v))) return null;
+
+    return { x, y, width, height };
+  }
+}
@@ -0,0 +1,108 @@
+import { TransitionEasing, TransitionOptions } from '../types';
+
+/**
+ * 名前で指定できるイージング関数
+ */
+const EASINGS: Record<Exclude<TransitionEasing, Function>, (t: number) => number> = {
+  linear: t => t,
+  quadInOut: t => (t *= 2) <= 1 ? t * t / 2 : (--t * (2 - t) + 1) / 2,
+  cubicInOut: t => ((t *= 2) <= 1 ? t * t * t : (t -= 2) * t * t + 2) / 2,
+  sinInOut: t => (1 - Math.cos(Math.PI * t)) / 2,
+  expOut: t => t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)
+};
+
+/** 遷移時間の既定値（ミリ秒） */
+const DEFAULT_DURATION = 750;
+
+/**
+ * 実行中の遷移アニメーション
+ */
+export interface TransitionHandle {
+  /** 遷移の終了時に解決されるPromise（完了した場合はtrue、中断された場合はfalse） */
+  finished: Promise<boolean>;
+  /** 遷移を中断します（最後に描画したフレームのまま停止します） */
+  cancel(): void;
+}
+
+/**
+ * イージングの指定を関数に解決します
+ * @param easing - イージングの名前または関数（デフォルト: 'cubicInOut'）
+ * @returns 0〜1の経過時間を進行度に変換する関数
+ */
+export function resolveEasing(easing: TransitionEasing = 'cubicInOut'): (t: number) => number {
+  if (typeof easing === 'function') return easing;
+
+  const resolved = EASINGS[easing];
+  if (!resolved) {
+    throw new Error(`未知のイージングです: ${easing}`);
+  }
+  return resolved;
+}
+
+/**
+ * 遷移アニメーションを開始します
+ *
+ * フレームごとにイージング適用後の進行度（0〜1）でonFrameを呼び出し、最後のフレームは必ず1になります。
+ * requestAnimationFrameが使用できない環境ではsetTimeoutでフレームを進めます。
+ * durationが0以下の場合は、onFrame(1)を同期的に呼び出して完了します。
+ *
+ * @param onFrame - フレームごとに呼び出される関数
+ * @param options - 遷移のオプション
+ * @returns 実行中の遷移
+ *
+ * @example
+ * ```typescript
+ * const transition = startTransition(t => element.style.opacity = String(t), { duration: 500 });
+ * await transition.finished;
+ * ```
+ */
+export function startTransition(onFrame: (t: number) => void, options: TransitionOptions = {}): TransitionHandle {
+  const duration = options.duration ?? DEFAULT_DURATION;
+  const ease = resolveEasing(options.easing);
+
+  let resolveFinished!: (completed: boolean) => void;
+  const finished = new Promise<boolean>(resolve => {
+    resolveFinished = resolve;
+  });
+
+  if (!(duration > 0)) {
+    onFrame(1);
+    resolveFinished(true);
+    return { finished, cancel: () => {} };
+  }
+
+  const now = () => typeof performance !== 'undefined' ? performance.now() : Date.now();
+  const schedule = typeof requestAnimationFrame === 'function'
+    ? (callback: () => void) => { const id = requestAnimationFrame(callback); return () => cancelAnimationFrame(id); }
+    : (callback: () => void) => { const id = setTimeout(callback, 16); return () => clearTimeout(id); };
+
+  const start = now();
+  let active = true;
+  let cancelFrame = () => {};
+
+  const tick = () => {
+    if (!active) return;
+
+    const elapsed = Math.min((now() - start) / duration, 1);
+    onFrame(elapsed >= 1 ? 1 : ease(elapsed));
+
+    if (elapsed >= 1) {
+      active = false;
+      resolveFinished(true);
+    } else {
+      cancelFrame = schedule(tick);
+    }
+  };
+
+  cancelFrame = schedule(tick);
+
+  return {
+    finished,
+    cancel: () => {
+      if (!active) return;
+      active = false;
+      cancelFrame();
+      resolveFinished(false);
+    }
+  };
+}
@@ -35,15 +35,52 @@ export type {
   LayerAttr, 
   LayerStyle,
   ILayer,
+  IInteractiveLayer,
   ILineConnectionLayer,
   ArcControlPointType,
   ArcOffsetType,
+  PointPlacement,
+  TopologyGeometry,
+  Topology,
+  TopologyData,
+  LayerData,
   TileCoordinate,
   TileBounds,
   TileUrlInfo,
-  TileGenerationOptions
+  TileGenerationOptions,
+  ZoomMode,
+  ZoomOptions,
+  MapZoomEvent,
+  MapEventMap,
+  LayerEventType,
+  LayerEvent,
+  LayerEventMap,
+  TooltipTemplate,
+  TooltipOptions,
+  LayerRenderer,
+  IRendererSwitchableLayer,
+  ExportImageFormat,
+  ExportImageOptions,
+  ScreenRect,
+  FitPadding,
+  FitOptions,
+  IOverlayLayer,
+  TransitionEasing,
+  TransitionOptions,
+  DataTransitionOptions,
+  IDataUpdatableLayer,
+  TimeValue,
+  TimeAccessor,
+  TimeFilterMode,
+  TemporalLayerOptions,
+  TimeControllerOptions,
+  TimeChangeEvent,
+  TimeControllerEventMap,
+  TimeSliderOptions,
+  TimeOptions,
+  ITemporalLayer
 } from './types';
-export type { ImageLayerOptions } from './layers/image-layer';
+export type { ImageLayerOptions, ImageSourceProjection } from './layers/image-layer';
 export type { LegendLayerOptions, LegendPosition, LegendData, SupportedScale, LegendSymbolType, SymbolSize, LegendBackgroundStyle } from './layers/legend-layer';
 export type { PointCircleLayerOptions } from './layers/point-circle-layer';
 export type { PointSymbolLayerOptions } from './layers/point-symbol-layer';
@@ -53,9 +90,34 @@ export type { PointTextLayerOptions } from './layers/point-text-layer';
 export type { LineConnectionLayerOptions } from './layers/line-connection-layer';
 export type { LineEdgeBundlingLayerOptions } from './layers/line-edgebundling-layer';
 export type { LineTextLayerOptions } from './layers/line-text-layer';
+export type { ChoroplethLayerOptions } from './layers/choropleth-layer';
+export type { DorlingLayerOptions, DorlingNode } from './layers/dorling-layer';
+export type { CartogramLayerOptions } from './layers/cartogram-layer';
+export type { DotDensityLayerOptions } from './layers/dot-density-layer';
+export type { TileLayerOptions } from './layers/tile-layer';
+export type { VectorTileLayerOptions, VectorTileSourceLayerOptions } from './layers/vector-tile-layer';
+export type { RasterLayerOptions } from './layers/raster-layer';
+export type { ContourLayerOptions, ContourLabelOptions } from './layers/contour-layer';
+export type { HachureLayerOptions } from './layers/hachure-layer';
+export type { MeshLayerOptions } from './layers/mesh-layer';
 
 // コア機能
 export { LayerManager } from './core/layer-manager';
+export { EventEmitter } from './core/event-emitter';
+export type { EventHandler } from './core/event-emitter';
+export { TooltipController } from './core/tooltip-controller';
+export type { TooltipControllerOptions } from './core/tooltip-controller';
+export { CanvasRenderer, resolveCanvasStyle } from './core/canvas-renderer';
+export type { CanvasDrawStyle } from './core/canvas-renderer';
+export { renderToString } from './core/static-renderer';
+export type { StaticRenderOptions, StaticRenderLayer } from './core/static-renderer';
+export { exportSVGAsImage, prepareSVGForExport, collectFontFaceCss } from './core/image-exporter';
+export type { PrepareSVGOptions } from './core/image-exporter';
+export { startTransition, resolveEasing } from './core/transition';
+export type { TransitionHandle } from './core/transition';
+export { TimeController } from './core/time-controller';
+export { TemporalFeatures } from './core/temporal-features';
+export { TimeSlider } from './core/time-slider';
 
 // レイヤークラス
 export { BaseLayer } from './layers/base-layer';
@@ -72,6 +134,16 @@ export { PointTextLayer } from './layers/point-text-layer';
 export { LineConnectionLayer } from './layers/line-connection-layer';
 export { LineEdgeBundlingLayer } from './layers/line-edgebundling-layer';
 export { LineTextLayer } from './layers/line-text-layer';
+export { ChoroplethLayer } from './layers/choropleth-layer';
+export { DorlingLayer } from './layers/dorling-layer';
+export { CartogramLayer } from './layers/cartogram-layer';
+export { DotDensityLayer } from './layers/dot-density-layer';
+export { TileLayer } from './layers/tile-layer';
+export { VectorTileLayer } from './layers/vector-tile-layer';
+export { RasterLayer } from './layers/raster-layer';
+export { ContourLayer } from './layers/contour-layer';
+export { HachureLayer } from './layers/hachure-layer';
+export { MeshLayer } from './layers/mesh-layer';
 
 // ユーティリティ
 export * from './utils/effect-utils';
@@ -79,6 +151,16 @@ export * from './utils/texture-utils';
 export * from './utils/test-utils';
 export * from './utils/gis-utils';
 export * from './utils/cog-utils';
+export * from './utils/crs-utils';
 export * from './utils/tile-utils';
+export * from './utils/mvt-utils';
+export * from './utils/resample-utils';
+export * from './utils/projection-utils';
+export * from './utils/raster-utils';
+export * from './utils/contour-utils';
 export * from './utils/color-palette';
-export * from './utils/hachure-utils';
\ No newline at end of file
+export * from './utils/hachure-utils';
+export * from './utils/time-utils';
+export * from './utils/planar-utils';
+export * from './utils/geometry-utils';
+export * from './utils/topojson-utils';
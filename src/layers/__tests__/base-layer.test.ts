@@ -1,6 +1,6 @@
 import { BaseLayer } from '../base-layer';
 import { LayerAttr } from '../../types';
-import { Selection } from 'd3-selection';
+import { Selection, select, pointer } from 'd3-selection';
 
 // テスト用のBaseLayerの具象クラス
 class TestLayer extends BaseLayer {
@@ -100,4 +100,81 @@ describe('BaseLayer', () => {
     });
   });
 
-});
\ No newline at end of file
+
+  describe('pointer events', () => {
+    const feature: GeoJSON.Feature = {
+      type: 'Feature',
+      properties: { name: 'Test Feature' },
+      geometry: { type: 'Point', coordinates: [10, 20] }
+    };
+
+    test('on()で登録したハンドラーが描画後のレイヤーグループに設定される', () => {
+      testLayer.on('click', jest.fn());
+      testLayer.render(mockContainer);
+
+      const results = (select as jest.Mock).mock.results;
+      const selection = results[results.length - 1].value;
+      expect(selection.on).toHaveBeenCalledWith('click.thematika', expect.any(Function));
+    });
+
+    test('フィーチャーを持つ要素のイベントでハンドラーが呼ばれる', () => {
+      const handler = jest.fn();
+      testLayer.on('click', handler);
+      testLayer.render(mockContainer);
+      (pointer as jest.Mock).mockReturnValueOnce([100, 200]);
+
+      const element = testLayer['element'] as any;
+      const target = { __data__: { feature, index: 3 }, parentNode: element };
+      const sourceEvent = { target } as unknown as MouseEvent;
+      testLayer['dispatchPointerEvent']('click', sourceEvent);
+
+      expect(handler).toHaveBeenCalledWith({
+        type: 'click',
+        layerId: 'test-layer',
+        feature,
+        index: 3,
+        pixel: [100, 200],
+        coordinates: null,
+        sourceEvent
+      });
+    });
+
+    test('親要素のデータからフィーチャーを解決する', () => {
+      const handler = jest.fn();
+      testLayer.on('mouseover', handler);
+      testLayer.render(mockContainer);
+
+      const element = testLayer['element'] as any;
+      const parent = { __data__: { feature, featureIndex: 1 }, parentNode: element };
+      const target = { __data__: undefined, parentNode: parent };
+      testLayer['dispatchPointerEvent']('mouseover', { target } as unknown as MouseEvent);
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ feature, index: 1 }));
+    });
+
+    test('フィーチャーを持たない要素のイベントは無視される', () => {
+      const handler = jest.fn();
+      testLayer.on('click', handler);
+      testLayer.render(mockContainer);
+
+      const element = testLayer['element'] as any;
+      const target = { __data__: 'legend-item', parentNode: element };
+      testLayer['dispatchPointerEvent']('click', { target } as unknown as MouseEvent);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('off()で解除したハンドラーは呼ばれない', () => {
+      const handler = jest.fn();
+      testLayer.on('click', handler);
+      testLayer.render(mockContainer);
+      testLayer.off('click', handler);
+
+      const element = testLayer['element'] as any;
+      const target = { __data__: feature, parentNode: element };
+      testLayer['dispatchPointerEvent']('click', { target } as unknown as MouseEvent);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
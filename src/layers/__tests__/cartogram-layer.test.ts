@@ -0,0 +1,87 @@
+import { CartogramLayer } from '../cartogram-layer';
+import { getPlanarArea } from '../../utils/planar-utils';
+
+describe('CartogramLayer', () => {
+  let sampleGeoJSON: GeoJSON.FeatureCollection;
+
+  const square = (x: number, size: number, population: number): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { population },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[x, 0], [x + size, 0], [x + size, size], [x, size], [x, 0]]]
+    }
+  });
+
+  beforeEach(() => {
+    sampleGeoJSON = {
+      type: 'FeatureCollection',
+      features: [square(0, 2, 400), square(10, 2, 100)]
+    };
+  });
+
+  test('変形後のジオメトリがgetData()で取得できる', () => {
+    const layer = new CartogramLayer({
+      data: sampleGeoJSON,
+      value: f => f.properties?.population
+    });
+
+    const data = layer.getData();
+    expect(data.type).toBe('FeatureCollection');
+    expect(getPlanarArea(data.features[1].geometry)).toBeCloseTo(1);
+  });
+
+  test('変形前のデータが保持される', () => {
+    const layer = new CartogramLayer({
+      data: sampleGeoJSON.features,
+      value: f => f.properties?.population
+    });
+
+    expect(layer.getSourceData().features).toEqual(sampleGeoJSON.features);
+    expect(layer.getType()).toBe('noncontiguous');
+  });
+
+  test('contiguousを指定できる', () => {
+    const layer = new CartogramLayer({
+      data: sampleGeoJSON,
+      value: f => f.properties?.population,
+      type: 'contiguous',
+      attr: { fill: '#ff0000' }
+    });
+
+    expect(layer.getType()).toBe('contiguous');
+    expect(layer['attr'].fill).toBe('#ff0000');
+  });
+
+  describe('setData', () => {
+    test('新しいデータからカルトグラムを生成し直す', async () => {
+      const layer = new CartogramLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population
+      });
+
+      const next = [square(0, 2, 100), square(10, 2, 400)];
+      await layer.setData(next);
+
+      const data = layer.getData();
+      expect(data.features).toHaveLength(2);
+      expect(getPlanarArea(data.features[0].geometry)).toBeCloseTo(1);
+      expect(getPlanarArea(data.features[1].geometry)).toBeCloseTo(4);
+      expect(layer.getSourceData().features).toEqual(next);
+    });
+
+    test('生成時のオプションを引き継ぐ', async () => {
+      const layer = new CartogramLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        type: 'contiguous'
+      });
+
+      await layer.setData([square(0, 2, 100), square(2, 2, 400)]);
+
+      const [small, large] = layer.getData().features.map(f => getPlanarArea(f.geometry));
+      expect(large).toBeGreaterThan(small);
+      expect(layer.getType()).toBe('contiguous');
+    });
+  });
+});
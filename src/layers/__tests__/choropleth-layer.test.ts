@@ -0,0 +1,156 @@
+import { scaleThreshold } from 'd3-scale';
+import { ChoroplethLayer } from '../choropleth-layer';
+import { AllPalettes } from '../../utils/color-palette';
+
+describe('ChoroplethLayer', () => {
+  let sampleGeoJSON: GeoJSON.FeatureCollection;
+
+  const createFeature = (value: number | null): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { value },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+    }
+  });
+
+  const valueAccessor = (feature: GeoJSON.Feature) => feature.properties?.value;
+
+  beforeEach(() => {
+    (scaleThreshold as jest.Mock).mockClear();
+    sampleGeoJSON = {
+      type: 'FeatureCollection',
+      features: [10, 20, 30, 40, null].map(createFeature)
+    };
+  });
+
+  describe('constructor', () => {
+    test('階級区分の境界値と配色がスケールに設定される', () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        classification: 'equalInterval',
+        classes: 3,
+        palette: 'Blues'
+      });
+
+      expect(layer.getBreaks()).toEqual([20, 30]);
+      expect(layer.getScale().domain()).toEqual([20, 30]);
+      expect(layer.getScale().range()).toHaveLength(3);
+      expect(layer.getClassification()).toBe('equalInterval');
+    });
+
+    test('manualでは境界値の数から階級数が決まる', () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        classification: 'manual',
+        breaks: [15, 25, 35]
+      });
+
+      expect(layer.getBreaks()).toEqual([15, 25, 35]);
+      expect(layer.getScale().range()).toHaveLength(4);
+    });
+
+    test('存在しないパレット名はエラーになる', () => {
+      expect(() => new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        palette: 'Unknown'
+      })).toThrow('パレットが見つかりません');
+    });
+
+    test('パレットの色数を超える階級数はエラーになる', () => {
+      const classes = AllPalettes.Blues.colors.length + 1;
+      expect(() => new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        classes
+      })).toThrow('階級数');
+    });
+  });
+
+  describe('fill', () => {
+    test('データなしのフィーチャーはnoDataFillで塗られる', () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        noDataFill: '#eeeeee'
+      });
+
+      const fill = layer['attr'].fill as (feature: GeoJSON.Feature, index: number) => string;
+      expect(fill(sampleGeoJSON.features[4], 4)).toBe('#eeeeee');
+      expect(layer.getNoDataFill()).toBe('#eeeeee');
+    });
+
+    test('値のあるフィーチャーはスケールの色で塗られる', () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor
+      });
+
+      const fill = layer['attr'].fill as (feature: GeoJSON.Feature, index: number) => string;
+      expect(fill(sampleGeoJSON.features[0], 0)).toBe(layer.getScale()(10));
+    });
+
+    test('他の属性設定は保持される', () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        attr: { stroke: '#ffffff', strokeWidth: 0.5 }
+      });
+
+      expect(layer['attr'].stroke).toBe('#ffffff');
+      expect(layer['attr'].strokeWidth).toBe(0.5);
+    });
+  });
+
+  describe('setData', () => {
+    test('新しいデータで階級区分をやり直し、取得済みのスケールも更新する', async () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        classification: 'equalInterval',
+        classes: 3
+      });
+      const scale = layer.getScale();
+
+      await layer.setData({
+        type: 'FeatureCollection',
+        features: [100, 200, 300, 400].map(createFeature)
+      });
+
+      expect(layer.getBreaks()).toEqual([200, 300]);
+      expect(layer.getScale()).toBe(scale);
+      expect(scale.domain()).toEqual([200, 300]);
+      expect(scale.range()).toHaveLength(3);
+      expect(layer.getData().features).toHaveLength(4);
+    });
+
+    test('更新後のフィーチャーは新しい階級で塗られる', async () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor
+      });
+
+      const features = [null, 5].map(createFeature);
+      await layer.setData(features);
+
+      const fill = layer['attr'].fill as (feature: GeoJSON.Feature, index: number) => string;
+      expect(fill(features[0], 0)).toBe(layer.getNoDataFill());
+      expect(fill(features[1], 1)).toBe(layer.getScale()(5));
+    });
+
+    test('manualでは指定した境界値を維持する', async () => {
+      const layer = new ChoroplethLayer({
+        data: sampleGeoJSON,
+        valueAccessor,
+        classification: 'manual',
+        breaks: [15, 25, 35]
+      });
+
+      await layer.setData([1000, 2000].map(createFeature));
+      expect(layer.getBreaks()).toEqual([15, 25, 35]);
+    });
+  });
+});
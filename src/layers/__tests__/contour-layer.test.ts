@@ -0,0 +1,138 @@
+import { ContourLayer } from '../contour-layer';
+
+// d3-contourはjest.config.cjsでモック化されている（閾値ごとに[0,0]-[1,1]の正方形を返す）
+
+/** 子要素とattrの呼び出しを記録するセレクションのモック */
+const createSelection = (tag = 'g'): any => {
+  const selection: any = { tag, children: [], attrs: {}, texts: [], items: [] };
+  selection.append = jest.fn((childTag: string) => {
+    const child = createSelection(childTag);
+    child.items = selection.items;
+    selection.children.push(child);
+    return child;
+  });
+  selection.attr = jest.fn((name: string, value: any) => {
+    selection.attrs[name] = typeof value === 'function' ? selection.items.map(value) : value;
+    return selection;
+  });
+  selection.style = jest.fn(() => selection);
+  selection.on = jest.fn(() => selection);
+  selection.selectAll = jest.fn(() => selection);
+  selection.remove = jest.fn(() => selection);
+  selection.enter = jest.fn(() => selection);
+  selection.data = jest.fn((items: any[]) => {
+    selection.items = items;
+    return selection;
+  });
+  selection.text = jest.fn((value: any) => {
+    selection.texts = selection.items.map(value);
+    return selection;
+  });
+  selection.node = jest.fn(() => ({ remove: jest.fn() }));
+  return selection;
+};
+
+/** クラス名でグループを探す */
+const findGroup = (root: any, className: string): any => {
+  if (root.attrs.class === className) return root;
+  for (const child of root.children) {
+    const found = findGroup(child, className);
+    if (found) return found;
+  }
+  return null;
+};
+
+describe('ContourLayer', () => {
+  /** 0〜15の値を持つ4×4のグリッド（先頭の行が北端） */
+  const data = [
+    [0, 1, 2, 3],
+    [4, 5, 6, 7],
+    [8, 9, 10, 11],
+    [12, 13, 14, 15]
+  ];
+  const bounds: [number, number, number, number] = [0, 0, 4, 4];
+  /** 1度を100ピクセルとする投影法 */
+  const projection: any = ([lon, lat]: [number, number]) => [lon * 100, (4 - lat) * 100];
+  let container: any;
+
+  beforeEach(() => {
+    container = createSelection();
+  });
+
+  test('間隔が正の値でない場合はエラーになる', () => {
+    expect(() => new ContourLayer({ data: { data, bounds }, interval: -1 }))
+      .toThrow('等値線の間隔は正の値で指定してください: -1');
+  });
+
+  test('2次元配列とラスタバンドのどちらからも等値線を生成する', () => {
+    const fromArray = new ContourLayer({ data: { data, bounds }, interval: 5 });
+    const fromBand = new ContourLayer({
+      data: { data: Float32Array.from(data.flat()), width: 4, height: 4, bounds, nodata: null },
+      interval: 5
+    });
+
+    expect(fromArray.getIsolines()).toEqual(fromBand.getIsolines());
+    expect(fromArray.getIsolines().features.map(feature => feature.properties.value)).toEqual([0, 5, 10, 15]);
+  });
+
+  test('等値線を描画し、計曲線を太くする', () => {
+    const layer = new ContourLayer({ data: { data, bounds }, interval: 5, indexInterval: 2, attr: { stroke: '#654321', strokeWidth: 0.5 } });
+    layer.setProjection(projection);
+    layer.render(container);
+
+    const lines = findGroup(container, 'thematika-contour-lines');
+    expect(lines.attrs.stroke).toBe('#654321');
+    expect(lines.attrs.fill).toBe('none');
+
+    const paths = lines.children[0];
+    expect(paths.attrs.class).toEqual([
+      'thematika-contour-line thematika-contour-line--index',
+      'thematika-contour-line',
+      'thematika-contour-line thematika-contour-line--index',
+      'thematika-contour-line'
+    ]);
+    expect(paths.attrs['stroke-width']).toEqual([1, null, 1, null]);
+    expect(findGroup(container, 'thematika-contour-bands')).toBeNull();
+    expect(findGroup(container, 'thematika-contour-labels')).toBeNull();
+  });
+
+  test('等値帯をカラーランプで塗りつぶす', () => {
+    const layer = new ContourLayer({ data: { data, bounds }, interval: 5, filled: true, lines: false, colors: ['#000000', '#ffffff'] });
+    layer.setProjection(projection);
+    layer.render(container);
+
+    const bands = findGroup(container, 'thematika-contour-bands').children[0];
+    expect(bands.attrs.fill).toEqual(['rgb(0,0,0)', 'rgb(128,128,128)', 'rgb(255,255,255)']);
+    expect(findGroup(container, 'thematika-contour-lines')).toBeNull();
+  });
+
+  test('計曲線に沿って数値ラベルを配置する', () => {
+    const layer = new ContourLayer({
+      data: { data, bounds },
+      interval: 5,
+      indexInterval: 2,
+      labels: { format: value => `${value}m` }
+    });
+    layer.setProjection(projection);
+    layer.render(container);
+
+    const labels = findGroup(container, 'thematika-contour-labels');
+    expect(labels.attrs['paint-order']).toBe('stroke');
+    const texts = labels.children[0];
+    expect(texts.texts).toEqual(['0m', '10m']);
+    // 等値線 (100,0)-(100,100)-(0,100) の中点に、ラベルの両端を結ぶ向きで配置される
+    expect(texts.attrs.transform[0]).toBe('translate(100,100) rotate(-45)');
+  });
+
+  test('投影法を変更すると再描画する', () => {
+    const layer = new ContourLayer({ data: { data, bounds }, interval: 5 });
+    layer.setProjection(projection);
+    layer.render(container);
+    const group = container.children[0];
+
+    layer.setProjection(projection);
+
+    expect(group.selectAll).toHaveBeenCalledWith('.thematika-contour-layer');
+    expect(group.children.filter((child: any) => child.attrs.class === 'thematika-contour-layer')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,135 @@
+import { forceCollide, forceX, forceY } from 'd3-force';
+import { DorlingLayer } from '../dorling-layer';
+
+describe('DorlingLayer', () => {
+  let mockProjection: any;
+  let sampleGeoJSON: GeoJSON.FeatureCollection;
+
+  const createPoint = (coordinates: [number, number], population: number): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { population },
+    geometry: { type: 'Point', coordinates }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    sampleGeoJSON = {
+      type: 'FeatureCollection',
+      features: [
+        createPoint([0, 0], 100),
+        createPoint([1, 1], 25),
+        createPoint([2, 2], 0)
+      ]
+    };
+
+    mockProjection = jest.fn((coord) => [coord[0] * 10, coord[1] * 10]);
+  });
+
+  describe('constructor', () => {
+    test('valueを指定すると面積が値に比例する半径になる', () => {
+      const layer = new DorlingLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        maxRadius: 20
+      });
+
+      const radiusFunction = layer['radiusFunction'];
+      expect(radiusFunction(sampleGeoJSON.features[0], 0)).toBe(20);
+      expect(radiusFunction(sampleGeoJSON.features[1], 1)).toBe(10);
+      expect(radiusFunction(sampleGeoJSON.features[2], 2)).toBe(0);
+    });
+
+    test('valueを指定しない場合はrが使用される', () => {
+      const layer = new DorlingLayer({ data: sampleGeoJSON, r: 8 });
+
+      expect(layer['radiusFunction']({} as any, 0)).toBe(8);
+    });
+
+    test('デフォルト設定が適用される', () => {
+      const layer = new DorlingLayer({ data: sampleGeoJSON });
+
+      expect(layer['padding']).toBe(1);
+      expect(layer['strength']).toBe(0.1);
+      expect(layer['leaderLines']).toBe(false);
+    });
+  });
+
+  describe('computeLayout', () => {
+    test('投影座標を本来の位置としたノードを作成する', () => {
+      const layer = new DorlingLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        maxRadius: 20
+      });
+      layer.setProjection(mockProjection);
+
+      const nodes = layer['computeLayout']();
+
+      // 値が0のフィーチャーは除外される
+      expect(nodes).toHaveLength(2);
+      expect(nodes[1]).toMatchObject({ featureIndex: 1, originX: 10, originY: 10, r: 10 });
+    });
+
+    test('半径と間隔から衝突判定のフォースが設定される', () => {
+      const layer = new DorlingLayer({ data: sampleGeoJSON, r: 5, padding: 2, strength: 0.3 });
+      layer.setProjection(mockProjection);
+
+      layer['computeLayout']();
+
+      const radius = (forceCollide as jest.Mock).mock.calls[0][0];
+      expect(radius({ r: 5 })).toBe(7);
+      expect((forceX as jest.Mock).mock.results[0].value.strength).toHaveBeenCalledWith(0.3);
+      expect((forceY as jest.Mock).mock.results[0].value.strength).toHaveBeenCalledWith(0.3);
+    });
+
+    test('投影できない座標は除外される', () => {
+      const layer = new DorlingLayer({ data: sampleGeoJSON });
+      layer.setProjection(jest.fn(() => null) as any);
+
+      expect(layer['computeLayout']()).toHaveLength(0);
+    });
+  });
+});
+
+describe('DorlingLayer（実際のフォースシミュレーション）', () => {
+  const modulePath = (name: string) => `${__dirname}/../../../node_modules/${name}/dist/${name}.js`;
+
+  test('除外されたフィーチャーがあってもフィーチャーのインデックスを保持する', () => {
+    jest.isolateModules(() => {
+      // 依存関係ごとUMD版を読み込み、シミュレーションが設定するindexを再現する
+      jest.doMock('d3-quadtree', () => jest.requireActual(modulePath('d3-quadtree')));
+      jest.doMock('d3-dispatch', () => jest.requireActual(modulePath('d3-dispatch')));
+      jest.doMock('d3-timer', () => jest.requireActual(modulePath('d3-timer')));
+      jest.doMock('d3-force', () => jest.requireActual(modulePath('d3-force')));
+      const { DorlingLayer: RealDorlingLayer } = require('../dorling-layer');
+
+      const features: GeoJSON.Feature[] = [0, 1, 2].map(i => ({
+        type: 'Feature',
+        properties: { population: i === 0 ? 0 : i * 100 },
+        geometry: { type: 'Point', coordinates: [i, i] }
+      }));
+      const fill = jest.fn((feature: GeoJSON.Feature, index?: number) => `#00000${index}`);
+      const layer = new RealDorlingLayer({
+        data: { type: 'FeatureCollection', features },
+        value: (f: GeoJSON.Feature) => f.properties?.population,
+        attr: { fill }
+      });
+      layer.setProjection(jest.fn((coord: [number, number]) => [coord[0] * 10, coord[1] * 10]));
+
+      const nodes = layer['computeLayout']();
+      expect(nodes.map((node: any) => node.index)).toEqual([0, 1]);
+      expect(nodes.map((node: any) => node.featureIndex)).toEqual([1, 2]);
+
+      const circles: any = { attr: jest.fn((name: string, value: any) => {
+        if (typeof value === 'function') nodes.forEach((node: any) => value(node));
+        return circles;
+      }), style: jest.fn(() => circles) };
+      layer['layerGroup'] = { attr: jest.fn(), style: jest.fn() };
+      layer['applyNodeStyles'](circles);
+      expect(fill.mock.calls).toEqual([[features[1], 1], [features[2], 2]]);
+
+      expect(layer['resolveEventFeature'](nodes[0])).toEqual({ feature: features[1], index: 1 });
+    });
+  });
+});
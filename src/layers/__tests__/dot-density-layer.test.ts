@@ -0,0 +1,145 @@
+import { DotDensityLayer } from '../dot-density-layer';
+
+/** attrとstyleの呼び出しを記録するセレクションのモック */
+const createSelection = (): any => {
+  const selection: any = { children: [], attrs: {}, styles: {}, items: [] };
+  const record = (target: Record<string, any>) => jest.fn((name: string, value: any) => {
+    target[name] = typeof value === 'function' ? selection.items.map(value) : value;
+    return selection;
+  });
+  selection.append = jest.fn(() => {
+    const child = createSelection();
+    child.items = selection.items;
+    selection.children.push(child);
+    return child;
+  });
+  selection.attr = record(selection.attrs);
+  selection.style = record(selection.styles);
+  selection.on = jest.fn(() => selection);
+  selection.selectAll = jest.fn(() => selection);
+  selection.remove = jest.fn(() => selection);
+  selection.enter = jest.fn(() => selection);
+  selection.data = jest.fn((items: any[]) => {
+    selection.items = items;
+    return selection;
+  });
+  selection.node = jest.fn(() => ({ remove: jest.fn() }));
+  return selection;
+};
+
+describe('DotDensityLayer', () => {
+  let sampleGeoJSON: GeoJSON.FeatureCollection;
+
+  beforeEach(() => {
+    sampleGeoJSON = {
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { population: 1000, households: 400 },
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]]
+        }
+      }]
+    };
+  });
+
+  describe('constructor', () => {
+    test('単一カテゴリのドットが生成される', () => {
+      const layer = new DotDensityLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        valuePerDot: 100
+      });
+
+      expect(layer.getDots().features).toHaveLength(10);
+      expect(layer.getData()).toEqual(sampleGeoJSON);
+    });
+
+    test('複数カテゴリのドットが生成される', () => {
+      const layer = new DotDensityLayer({
+        data: sampleGeoJSON.features,
+        categories: [
+          { name: 'population', value: f => f.properties?.population, color: '#e41a1c' },
+          { name: 'households', value: f => f.properties?.households, color: '#377eb8' }
+        ],
+        valuePerDot: 100
+      });
+
+      const categories = layer.getDots().features.map(d => d.properties.category);
+      expect(categories.filter(c => c === 'population')).toHaveLength(10);
+      expect(categories.filter(c => c === 'households')).toHaveLength(4);
+    });
+
+    test('valueもcategoriesもない場合はエラーになる', () => {
+      expect(() => new DotDensityLayer({
+        data: sampleGeoJSON,
+        valuePerDot: 100
+      })).toThrow('valueまたはcategories');
+    });
+  });
+
+  describe('projection management', () => {
+    test('setProjection()で投影法を設定できる', () => {
+      const layer = new DotDensityLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        valuePerDot: 100
+      });
+      const mockProjection: any = jest.fn((coord) => coord);
+
+      layer.setProjection(mockProjection);
+
+      expect(layer['projection']).toBe(mockProjection);
+    });
+  });
+
+  describe('attr/style', () => {
+    /** 描画してレイヤーグループとドットのサークル要素を取得する */
+    const renderLayer = (layer: DotDensityLayer) => {
+      const container = createSelection();
+      layer.setProjection(((coord: [number, number]) => coord) as any);
+      layer.render(container);
+      const layerGroup = container.children[0];
+      const circles = layerGroup.children[0].children[0];
+      return { layerGroup, circles };
+    };
+
+    test('関数で指定した値は元のフィーチャーとそのインデックスで評価される', () => {
+      const fill = jest.fn((f: GeoJSON.Feature) => f.properties?.population > 500 ? 'red' : 'blue');
+      const opacity = (_f: GeoJSON.Feature, index?: number) => String(index! + 0.5);
+      const layer = new DotDensityLayer({
+        data: sampleGeoJSON,
+        value: f => f.properties?.population,
+        valuePerDot: 100,
+        attr: { fill, stroke: '#000000' },
+        style: { opacity }
+      });
+
+      const { layerGroup, circles } = renderLayer(layer);
+
+      expect(circles.attrs.fill).toEqual(Array(10).fill('red'));
+      expect(circles.styles.opacity).toEqual(Array(10).fill('0.5'));
+      expect(fill).toHaveBeenCalledWith(sampleGeoJSON.features[0], 0);
+      expect(layerGroup.attrs.stroke).toBe('#000000');
+    });
+
+    test('カテゴリの色はレイヤー全体のfillより優先される', () => {
+      const layer = new DotDensityLayer({
+        data: sampleGeoJSON,
+        categories: [
+          { name: 'population', value: f => f.properties?.population, color: '#e41a1c' },
+          { name: 'households', value: f => f.properties?.households }
+        ],
+        valuePerDot: 100,
+        attr: { fill: () => '#cccccc' }
+      });
+
+      const { circles } = renderLayer(layer);
+      const fills: string[] = circles.attrs.fill;
+
+      expect(fills.filter(fill => fill === '#e41a1c')).toHaveLength(10);
+      expect(fills.filter(fill => fill === '#cccccc')).toHaveLength(4);
+    });
+  });
+});
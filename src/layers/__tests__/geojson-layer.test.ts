@@ -1,3 +1,4 @@
+import { geoContains } from 'd3-geo';
 import { GeojsonLayer } from '../geojson-layer';
 import { LayerAttr } from '../../types';
 
@@ -100,6 +101,24 @@ describe('GeojsonLayer', () => {
       expect(result.features).toEqual(arrayData);
     });
 
+    test('TopoJSONのオブジェクトがFeatureCollectionに変換される', () => {
+      const layer = new GeojsonLayer({
+        data: {
+          topology: {
+            type: 'Topology',
+            arcs: [[[0, 0], [1, 0], [1, 1], [0, 0]]],
+            objects: { areas: { type: 'GeometryCollection', geometries: [{ type: 'Polygon', arcs: [[0]], id: 1 }] } }
+          },
+          object: 'areas'
+        }
+      });
+
+      const result = layer.getData();
+      expect(result.features).toHaveLength(1);
+      expect(result.features[0].id).toBe(1);
+      expect(result.features[0].geometry).toEqual({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] });
+    });
+
     test('スタイル設定が正しく適用される', () => {
       const customStyle = {
         fill: 'blue',
@@ -232,4 +251,237 @@ describe('GeojsonLayer', () => {
       expect(feature.properties?.class).toBe('country-feature');
     });
   });
-});
\ No newline at end of file
+
+  describe('pointer events', () => {
+    test('バインドされたフィーチャーからインデックスを求めてハンドラーに渡す', () => {
+      const handler = jest.fn();
+      geojsonLayer.on('click', handler);
+      geojsonLayer.render(mockContainer);
+
+      const feature = sampleGeoJSON.features[1];
+      const element = geojsonLayer['element'] as any;
+      const target = { __data__: feature, parentNode: element };
+      geojsonLayer['dispatchPointerEvent']('click', { target } as unknown as MouseEvent);
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ feature, index: 1 }));
+    });
+  });
+
+  describe('renderer', () => {
+    test('描画方式を指定・変更できる', () => {
+      const layer = new GeojsonLayer({ data: sampleGeoJSON, renderer: 'canvas' });
+      expect(layer.getRenderer()).toBe('canvas');
+
+      layer.setRenderer('svg');
+      expect(layer.getRenderer()).toBe('svg');
+      expect(geojsonLayer.getRenderer()).toBeUndefined();
+    });
+
+    test('Canvas描画時は座標を含むポリゴンをイベント対象にする', () => {
+      (geoContains as jest.Mock).mockImplementation((feature: GeoJSON.Feature) => feature.geometry.type === 'Polygon');
+
+      const layer = new GeojsonLayer({ data: sampleGeoJSON, renderer: 'canvas' });
+      layer['path'] = { projection: () => ({ invert: () => [5, 5] }) } as any;
+
+      expect(layer['hitTest']([10, 10])).toEqual({ feature: sampleGeoJSON.features[0], index: 0 });
+
+      (geoContains as jest.Mock).mockReset();
+    });
+  });
+
+  describe('data update', () => {
+    /** 属性・スタイルの設定を記録する要素群のモック */
+    const createNodes = (items: GeoJSON.Feature[]): any => {
+      const nodes: any = { items, attrs: {}, styles: {} };
+      const record = (target: Record<string, any>) => jest.fn((name: string, value: any) => {
+        target[name] = typeof value === 'function' ? nodes.items.map(value) : value;
+        return nodes;
+      });
+      nodes.attr = record(nodes.attrs);
+      nodes.style = record(nodes.styles);
+      nodes.remove = jest.fn(() => nodes);
+      nodes.order = jest.fn(() => nodes);
+      nodes.empty = jest.fn(() => items.length === 0);
+      return nodes;
+    };
+
+    /** 既存のフィーチャーが描画されたレイヤーグループのモック（キーでデータ結合を行う） */
+    const createLayerGroup = (existing: GeoJSON.Feature[]): any => {
+      const join: any = {};
+      const paths = createNodes(existing);
+      paths.data = jest.fn((features: GeoJSON.Feature[], key: (d: GeoJSON.Feature, i: number) => string) => {
+        const oldKeys = existing.map(key);
+        const newKeys = features.map(key);
+        join.update = createNodes(features.filter((_, i) => oldKeys.includes(newKeys[i])));
+        join.enter = createNodes(features.filter((_, i) => !oldKeys.includes(newKeys[i])));
+        join.exit = createNodes(existing.filter((_, i) => !newKeys.includes(oldKeys[i])));
+        join.enter.merge = jest.fn((other: any) => {
+          join.merged = createNodes([...join.enter.items, ...other.items]);
+          return join.merged;
+        });
+        join.update.enter = () => ({ append: () => join.enter });
+        join.update.exit = () => join.exit;
+        return join.update;
+      });
+
+      const group = { empty: () => false, selectAll: jest.fn(() => paths) };
+      return {
+        join,
+        paths,
+        select: jest.fn(() => group),
+        selectAll: jest.fn(() => paths),
+        attr: jest.fn().mockReturnThis(),
+        style: jest.fn().mockReturnThis()
+      };
+    };
+
+    const feature = (id: string, name: string): GeoJSON.Feature => ({
+      type: 'Feature',
+      id,
+      properties: { name },
+      geometry: { type: 'Point', coordinates: [0, 0] }
+    });
+
+    const setupLayer = (existing: GeoJSON.Feature[], attr: LayerAttr = {}) => {
+      const layer = new GeojsonLayer({ data: existing, attr });
+      const layerGroup = createLayerGroup(existing);
+      layer['layerGroup'] = layerGroup;
+      layer['path'] = jest.fn() as any;
+      return { layer, layerGroup };
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('描画前はデータのみを置き換える', async () => {
+      const layer = new GeojsonLayer({ data: sampleGeoJSON });
+      await layer.setData([feature('a', 'A')]);
+
+      expect(layer.getData().features).toHaveLength(1);
+    });
+
+    test('キーでフィーチャーを対応付けて追加・更新・削除する', async () => {
+      const { layer, layerGroup } = setupLayer(
+        [feature('a', 'A'), feature('b', 'B')],
+        { fill: (f: GeoJSON.Feature) => f.properties!.name === 'B' ? 'red' : 'blue' }
+      );
+
+      await layer.setData([feature('b', 'B'), feature('c', 'C')], { duration: 0 });
+
+      const { join } = layerGroup;
+      expect(join.exit.items.map((f: GeoJSON.Feature) => f.id)).toEqual(['a']);
+      expect(join.exit.remove).toHaveBeenCalled();
+      expect(join.enter.items.map((f: GeoJSON.Feature) => f.id)).toEqual(['c']);
+      expect(join.merged.attrs.fill).toEqual(['blue', 'red']);
+      expect(join.merged.attrs.class).toEqual(['thematika-feature', 'thematika-feature']);
+      expect(join.enter.styles.opacity).toBeNull();
+      expect(layer.getData().features.map(f => f.id)).toEqual(['b', 'c']);
+    });
+
+    test('キーを指定しない場合はidで対応付ける', async () => {
+      const { layer, layerGroup } = setupLayer([feature('a', 'A')]);
+      await layer.setData([feature('a', 'A2')], { duration: 0 });
+
+      expect(layerGroup.join.enter.items).toHaveLength(0);
+      expect(layerGroup.join.exit.items).toHaveLength(0);
+    });
+
+    test('追加されたフィーチャーをフェードインし、削除されたフィーチャーをフェードアウトする', async () => {
+      jest.useFakeTimers();
+      const { layer, layerGroup } = setupLayer([feature('a', 'A')]);
+
+      const finished = layer.setData([feature('b', 'B')], {
+        duration: 100,
+        easing: 'linear',
+        key: f => f.properties!.name
+      });
+      const { join } = layerGroup;
+      expect(join.enter.styles.opacity).toBe(0);
+
+      jest.advanceTimersByTime(50);
+      expect(join.enter.styles.opacity).toBeGreaterThan(0);
+      expect(join.enter.styles.opacity).toBeLessThan(1);
+      expect(join.exit.styles.opacity).toBeCloseTo(1 - join.enter.styles.opacity);
+      expect(join.exit.remove).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      await finished;
+      expect(join.exit.remove).toHaveBeenCalled();
+      expect(join.enter.styles.opacity).toBeNull();
+    });
+
+    test('遷移中に更新すると実行中の遷移を終了させる', () => {
+      jest.useFakeTimers();
+      const { layer, layerGroup } = setupLayer([feature('a', 'A')]);
+
+      layer.setData([feature('b', 'B')], { duration: 100 });
+      const firstJoin = { ...layerGroup.join };
+      layer.setData([feature('c', 'C')], { duration: 100 });
+
+      expect(firstJoin.exit.remove).toHaveBeenCalled();
+      expect(firstJoin.enter.styles.opacity).toBeNull();
+    });
+
+    test('日時を設定すると該当するフィーチャーのみを遷移なしで表示する', async () => {
+      const dated = [
+        { ...feature('a', 'A'), properties: { name: 'A', date: '2024-04-01' } },
+        { ...feature('b', 'B'), properties: { name: 'B', date: '2024-04-02' } }
+      ];
+      const layer = new GeojsonLayer({ data: dated, timeAccessor: f => f.properties!.date });
+      const layerGroup = createLayerGroup(dated);
+      layer['layerGroup'] = layerGroup;
+      layer['path'] = jest.fn() as any;
+
+      layer.setTime(Date.parse('2024-04-02'));
+
+      expect(layer.getData().features.map(f => f.id)).toEqual(['b']);
+      expect(layerGroup.join.exit.items.map((f: GeoJSON.Feature) => f.id)).toEqual(['a']);
+      expect(layerGroup.join.exit.remove).toHaveBeenCalled();
+      expect(layer.getTimeSteps()).toEqual([Date.parse('2024-04-01'), Date.parse('2024-04-02')]);
+    });
+
+    test('simplifyを指定すると投影後のピクセルで簡略化したフィーチャーを描画する', async () => {
+      const line: GeoJSON.Feature = {
+        type: 'Feature',
+        id: 'a',
+        properties: {},
+        geometry: { type: 'LineString', coordinates: [[0, 0], [1, 0.01], [2, 0]] }
+      };
+      const layer = new GeojsonLayer({ data: [line], simplify: 0.5 });
+      const layerGroup = createLayerGroup([line]);
+      const projection = (scale: number) => Object.assign((p: [number, number]) => [p[0] * scale, p[1] * scale], {
+        invert: (p: [number, number]) => [p[0] / scale, p[1] / scale],
+        translate: () => [0, 0]
+      });
+      layer['layerGroup'] = layerGroup;
+      layer['path'] = Object.assign(jest.fn(), { projection: () => projection(10) }) as any;
+
+      await layer.setData([line], { duration: 0 });
+      const rendered = layerGroup.paths.data.mock.calls[0][0];
+      expect(rendered[0].geometry.coordinates).toEqual([[0, 0], [2, 0]]);
+      expect(rendered[0].id).toBe('a');
+      expect(layer.getData().features[0]).toBe(line);
+      expect(layer['getRenderData']()).toBe(layer['getRenderData']());
+
+      // 拡大すると頂点が残る（頂点の重要度は計算し直さない）
+      const simplify = layer['simplified']!.simplify;
+      layer['path'] = Object.assign(jest.fn(), { projection: () => projection(100) }) as any;
+      expect((layer['getRenderData']().features[0].geometry as GeoJSON.LineString).coordinates).toHaveLength(3);
+      expect(layer['simplified']!.simplify).toBe(simplify);
+
+      // イベントでは元のフィーチャーを返す
+      expect(layer['resolveEventFeature'](layer['getRenderData']().features[0])).toEqual({ feature: line, index: 0 });
+      expect(layer['resolveEventFeature'](layer['getRenderData']().features[0])!.feature).toBe(line);
+    });
+
+    test('投影法の変更時は要素を作り直さずに形状を更新する', () => {
+      const { layer, layerGroup } = setupLayer([feature('a', 'A')]);
+
+      layer.setProjection(mockProjection);
+
+      expect(layerGroup.paths.attr).toHaveBeenCalledWith('d', layer['path']);
+      expect(layerGroup.paths.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { HachureLayer } from '../hachure-layer';
+import { generateHachures } from '../../utils/hachure-utils';
+
+// hachure-utilsは@turf/turfに依存するためモック化する
+jest.mock('../../utils/hachure-utils', () => ({
+  generateHachures: jest.fn(() => ({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { elevation: 5 }, geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } }
+    ]
+  }))
+}));
+
+// ハッチング線の数を実際の等値線で検証するため、モックではなくd3-contourのUMD版を使用する
+jest.mock('d3-contour', () => jest.requireActual('../../../node_modules/d3-contour/dist/d3-contour.js'));
+jest.mock('d3-array', () => jest.requireActual('../../../node_modules/d3-array/dist/d3-array.js'));
+
+const mockGenerateHachures = generateHachures as jest.Mock;
+
+describe('HachureLayer', () => {
+  const data = [
+    [0, 1, 2, 3],
+    [4, 5, 6, 7],
+    [8, 9, 10, 11],
+    [12, 13, 14, 15]
+  ];
+  const bounds: [number, number, number, number] = [0, 0, 4, 4];
+  // 1画素（1度四方）の大きさ（メートル、経度方向と緯度方向の平均）
+  const cellSize = (111320 * Math.cos(2 * Math.PI / 180) + 110540) / 2;
+
+  afterEach(() => {
+    mockGenerateHachures.mockClear();
+  });
+
+  test('間隔が正の値でない場合はエラーになる', () => {
+    expect(() => new HachureLayer({ data: { data, bounds }, interval: 0 }))
+      .toThrow('等値線の間隔は正の値で指定してください: 0');
+  });
+
+  test('グリッドから生成した等値線をもとにハッチング線を生成する', () => {
+    const layer = new HachureLayer({ data: { data, bounds }, interval: 5, base: 2 });
+
+    const hachures = layer.getHachures();
+
+    expect(hachures.features).toHaveLength(1);
+    expect(mockGenerateHachures).toHaveBeenCalledTimes(1);
+    const [isolines, options] = mockGenerateHachures.mock.calls[0];
+    expect(isolines.features.map((feature: any) => feature.properties.value)).toEqual([2, 7, 12]);
+    // 間隔と長さは画素数（既定は2と1.5）からメートルに換算される（境界は1画素 = 1度）
+    expect(options.spacing).toBeCloseTo(2 * cellSize);
+    expect(options.length).toBeCloseTo(1.5 * cellSize);
+    expect(options).toMatchObject({ angle: undefined, density: undefined, randomness: undefined });
+  });
+
+  test('ハッチング線の間隔が正の値でない場合はエラーになる', () => {
+    expect(() => new HachureLayer({ data: { data, bounds }, interval: 5, spacing: 0 }))
+      .toThrow('ハッチング線の間隔は正の値で指定してください: 0');
+  });
+
+  test('県域程度の範囲のグリッドでもハッチング線の数は画素数に見合った数に収まる', () => {
+    mockGenerateHachures.mockImplementationOnce(jest.requireActual('../../utils/hachure-utils').generateHachures);
+
+    // 1度四方を100×100画素（約1km）で表した、0〜2000mの標高グリッド
+    const size = 100;
+    const dem = Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => 2000 * (1 - Math.hypot(row - size / 2, col - size / 2) / size))
+    );
+    const layer = new HachureLayer({ data: { data: dem, bounds: [138.5, 35.5, 139.5, 36.5] }, interval: 100 });
+
+    const hachures = layer.getHachures();
+    const [isolines] = mockGenerateHachures.mock.calls[0];
+    const cellDegrees = 1 / size;
+    const totalCells = isolines.features.reduce((sum: number, feature: any) =>
+      sum + feature.geometry.coordinates.reduce((lineSum: number, line: number[][]) =>
+        lineSum + line.slice(1).reduce((d, point, i) =>
+          d + Math.hypot(point[0] - line[i][0], point[1] - line[i][1]) / cellDegrees, 0), 0), 0);
+
+    // 既定の間隔（2画素）で並ぶため、等値線の総延長（画素数）の半分程度になる（経度方向の画素は緯度方向より短いため幅を持たせる）
+    expect(hachures.features.length).toBeGreaterThan(totalCells / 4);
+    expect(hachures.features.length).toBeLessThan(totalCells);
+  });
+
+  test('ハッチングのオプションをgenerateHachuresに渡す', () => {
+    const layer = new HachureLayer({ data: { data, bounds }, interval: 5, spacing: 4, length: 3, randomness: 0.2 });
+
+    layer.getHachures();
+    layer.getHachures();
+
+    expect(mockGenerateHachures).toHaveBeenCalledTimes(1);
+    const options = mockGenerateHachures.mock.calls[0][1];
+    expect(options.spacing).toBeCloseTo(4 * cellSize);
+    expect(options.length).toBeCloseTo(3 * cellSize);
+    expect(options.randomness).toBe(0.2);
+  });
+
+  test('ハッチング線を描画する', () => {
+    const paths: any = {
+      attr: jest.fn(() => paths),
+      style: jest.fn(() => paths),
+      on: jest.fn(() => paths)
+    };
+    const group: any = {
+      attr: jest.fn(() => group),
+      selectAll: jest.fn(() => group),
+      data: jest.fn(() => group),
+      enter: jest.fn(() => group),
+      append: jest.fn(() => paths)
+    };
+    const layerGroup: any = {
+      attr: jest.fn(() => layerGroup),
+      style: jest.fn(() => layerGroup),
+      append: jest.fn(() => group),
+      node: jest.fn(() => ({}))
+    };
+    const container: any = { append: jest.fn(() => layerGroup) };
+
+    const layer = new HachureLayer({ data: { data, bounds }, interval: 5, attr: { stroke: '#5b4636' } });
+    layer.setProjection(((coordinates: [number, number]) => coordinates) as any);
+    layer.render(container);
+
+    expect(group.attr).toHaveBeenCalledWith('class', 'thematika-hachure-layer');
+    expect(paths.attr).toHaveBeenCalledWith('class', 'thematika-hachure');
+    expect(layerGroup.attr).toHaveBeenCalledWith('stroke', '#5b4636');
+    expect(layerGroup.attr).toHaveBeenCalledWith('fill', 'none');
+  });
+});
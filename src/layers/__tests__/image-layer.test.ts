@@ -1,5 +1,5 @@
 import { ImageLayer, ImageLayerOptions } from '../image-layer';
-import { Selection } from 'd3-selection';
+import { Selection, select } from 'd3-selection';
 import * as d3 from 'd3-geo';
 
 // HTMLImageElement のモック
@@ -281,24 +281,97 @@ describe('ImageLayer', () => {
     });
   });
 
-  describe('isEquirectangularProjection', () => {
-    test('Equirectangular投影法を正しく判定する', () => {
-      const equirectProj = { toString: () => 'geoEquirectangular' };
-      expect(imageLayer['isEquirectangularProjection'](equirectProj as any)).toBe(true);
+  describe('canUseDirectRendering', () => {
+    const radians = Math.PI / 180;
+    const mercator: any = ([lon, lat]: [number, number]) =>
+      [lon * radians * 100, -Math.log(Math.tan(Math.PI / 4 + lat * radians / 2)) * 100];
+    const orthographic: any = ([lon, lat]: [number, number]) =>
+      [Math.cos(lat * radians) * Math.sin(lon * radians) * 100, -Math.sin(lat * radians) * 100];
+
+    test('名前に関わらず範囲内でアフィン変換とみなせる投影法は直接描画する', () => {
+      const unnamed: any = ([lon, lat]: [number, number]) => [lon * 3 + 10, -lat * 3 + 20];
+      expect(imageLayer['canUseDirectRendering'](mockProjection)).toBe(true);
+      expect(imageLayer['canUseDirectRendering'](unnamed)).toBe(true);
+    });
+
+    test('名前がequirectangularでも非線形な投影法は直接描画しない', () => {
+      orthographic.toString = () => 'geoEquirectangular';
+      expect(imageLayer['canUseDirectRendering'](orthographic)).toBe(false);
+      expect(imageLayer['canUseDirectRendering'](mercator)).toBe(false);
+    });
 
-      const equirectProj2 = { toString: () => 'equirectangular' };
-      expect(imageLayer['isEquirectangularProjection'](equirectProj2 as any)).toBe(true);
+    test('メルカトル画像はメルカトル投影法で直接描画する', () => {
+      const tile = new ImageLayer('tile', { src: './tile.png', bounds: [130, 0, 140, 60], sourceProjection: 'mercator' });
+      expect(tile['canUseDirectRendering'](mercator)).toBe(true);
+      expect(tile['canUseDirectRendering'](mockProjection)).toBe(false);
     });
 
-    test('他の投影法はfalseを返す', () => {
-      const mercatorProj = { toString: () => 'geoMercator' };
-      expect(imageLayer['isEquirectangularProjection'](mercatorProj as any)).toBe(false);
+    test('回転を含む配置はtransform行列で描画する', async () => {
+      const rotated: any = ([lon, lat]: [number, number]) => [lat * 2, lon * 2];
+      imageLayer.setProjection(rotated);
+      await imageLayer.render(mockContainer);
 
-      const orthographicProj = { toString: () => 'geoOrthographic' };
-      expect(imageLayer['isEquirectangularProjection'](orthographicProj as any)).toBe(false);
+      // 画像はd3のselect経由でレイヤーグループに追加される
+      const { results } = (select as jest.Mock).mock;
+      const { attr } = results[results.length - 1].value;
+      expect(attr).toHaveBeenCalledWith('width', 1);
+      expect(attr).toHaveBeenCalledWith('transform', expect.stringMatching(/^matrix\(/));
     });
   });
 
+  describe('再投影', () => {
+    let mercatorProjection: any;
+
+    beforeEach(() => {
+      const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + lat * Math.PI / 360));
+      mercatorProjection = jest.fn(([lon, lat]) => [lon * 2 + 100, -mercatorY(lat) * 100 + 100]);
+      mercatorProjection.invert = jest.fn(([x, y]) => [(x - 100) / 2, (2 * Math.atan(Math.exp((100 - y) / 100)) - Math.PI / 2) * 180 / Math.PI]);
+      mercatorProjection.toString = () => 'geoMercator';
+      mercatorProjection.scale = jest.fn(() => 100);
+      mercatorProjection.translate = jest.fn(() => [100, 100]);
+      mockCanvas.toDataURL.mockClear();
+    });
+
+    test('補間方法と進捗通知のオプションが設定される', () => {
+      const onProgress = jest.fn();
+      const layer = new ImageLayer('interpolation', { ...defaultOptions, interpolation: 'bicubic', onProgress });
+
+      expect(layer['interpolation']).toBe('bicubic');
+      expect(layer['onProgress']).toBe(onProgress);
+      expect(imageLayer['interpolation']).toBe('nearest');
+    });
+
+    test('Equirectangular以外の投影法では再投影して進捗を通知する', async () => {
+      const onProgress = jest.fn();
+      const layer = new ImageLayer('reproject', { ...defaultOptions, interpolation: 'bilinear', onProgress });
+      layer.setProjection(mercatorProjection);
+
+      await layer.render(mockContainer);
+
+      expect(mercatorProjection.invert).toHaveBeenCalled();
+      expect(mockCanvas.toDataURL).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+
+    test('同じ投影法の状態では再投影結果をキャッシュから使用する', async () => {
+      const layer = new ImageLayer('cache', defaultOptions);
+      layer.setProjection(mercatorProjection);
+      await layer.render(mockContainer);
+
+      const invertCalls = mercatorProjection.invert.mock.calls.length;
+      await layer['renderReprojected'](await layer['loadImage']('./test-image.png'), layer['renderRequest']);
+
+      expect(mercatorProjection.invert).toHaveBeenCalledTimes(invertCalls);
+      expect(mockCanvas.toDataURL).toHaveBeenCalledTimes(1);
+
+      // 投影法のパラメータが変わった場合は再計算する
+      mercatorProjection.scale.mockReturnValue(200);
+      await layer['renderReprojected'](await layer['loadImage']('./test-image.png'), layer['renderRequest']);
+
+      expect(mercatorProjection.invert.mock.calls.length).toBeGreaterThan(invertCalls);
+      expect(mockCanvas.toDataURL).toHaveBeenCalledTimes(2);
+    });
+  });
 
   describe('loadImage', () => {
     test('画像の読み込みが成功する', async () => {
@@ -164,6 +164,29 @@ describe('LegendLayer', () => {
     });
   });
 
+  describe('overlay bounds', () => {
+    it('描画前はnullを返す', () => {
+      const legend = new LegendLayer({
+        scale: scaleOrdinal().domain(['A', 'B']).range(['#ff0000', '#00ff00']) as any,
+        position: { top: 50, left: 400 }
+      });
+
+      expect(legend.getOverlayBounds()).toBeNull();
+    });
+
+    it('背景ボックスを含む矩形を地図上の座標で返す', () => {
+      const legend = new LegendLayer({
+        scale: scaleOrdinal().domain(['A', 'B']).range(['#ff0000', '#00ff00']) as any,
+        position: { top: 50, left: 400 }
+      });
+
+      legend.render(container);
+
+      // getBBoxを使用できない環境では縦向き2項目の推定サイズ（150 x 40）に余白8を加える
+      expect(legend.getOverlayBounds()).toEqual({ x: 392, y: 42, width: 166, height: 56 });
+    });
+  });
+
   describe('scale management', () => {
     it('スケールを更新できる', () => {
       const initialScale = scaleOrdinal()
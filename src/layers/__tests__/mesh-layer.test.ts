@@ -0,0 +1,72 @@
+import { MeshLayer } from '../mesh-layer';
+import { Topology } from '../../types';
+
+const topology: Topology = {
+  type: 'Topology',
+  arcs: [
+    [[1, 0], [1, 1]],
+    [[1, 1], [0, 1], [0, 0], [1, 0]],
+    [[1, 0], [2, 0], [2, 1], [1, 1]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]] },
+        { type: 'Polygon', arcs: [[~0, 2]] }
+      ]
+    }
+  }
+};
+
+describe('MeshLayer', () => {
+  let mockContainer: any;
+
+  beforeEach(() => {
+    mockContainer = {
+      append: jest.fn().mockReturnThis(),
+      attr: jest.fn().mockReturnThis(),
+      style: jest.fn().mockReturnThis(),
+      selectAll: jest.fn().mockReturnThis(),
+      datum: jest.fn().mockReturnThis(),
+      remove: jest.fn().mockReturnThis(),
+      node: jest.fn(() => ({ tagName: 'g', remove: jest.fn() }))
+    };
+  });
+
+  test('デフォルトでは内部の境界のみを抽出する', () => {
+    const layer = new MeshLayer({ topology, object: 'squares' });
+
+    expect(layer.id).toMatch(/^mesh-/);
+    expect(layer.getData()).toEqual({ type: 'MultiLineString', coordinates: [[[1, 0], [1, 1]]] });
+    expect(layer['attr'].fill).toBe('none');
+    expect(layer['attr'].stroke).toBe('#333333');
+  });
+
+  test('filterとattrを指定できる', () => {
+    const layer = new MeshLayer({
+      topology,
+      object: 'squares',
+      filter: 'exterior',
+      attr: { stroke: '#ff0000', strokeDasharray: '4 2' }
+    });
+
+    expect(layer.getData().coordinates[0]).toHaveLength(7);
+    expect(layer['attr'].stroke).toBe('#ff0000');
+    expect(layer['attr'].fill).toBe('none');
+  });
+
+  test('存在しないオブジェクトはエラーになる', () => {
+    expect(() => new MeshLayer({ topology, object: 'missing' }))
+      .toThrow('TopoJSONにオブジェクトが見つかりません: missing');
+  });
+
+  test('投影法の設定後にメッシュを描画する', () => {
+    const layer = new MeshLayer({ topology, object: 'squares' });
+    layer.setProjection(jest.fn() as any);
+    layer.render(mockContainer);
+
+    expect(mockContainer.datum).toHaveBeenCalledWith(layer.getData());
+    expect(mockContainer.attr).toHaveBeenCalledWith('class', 'thematika-mesh-layer');
+  });
+});
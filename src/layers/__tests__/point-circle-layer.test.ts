@@ -266,6 +266,28 @@ describe('PointCircleLayer', () => {
       // 中心点が計算されて投影法に渡されることを確認（具体的な値は getCentroid の実装に依存）
       expect(mockProjection).toHaveBeenCalled();
     });
+
+    test('placementを指定するとポリゴンの面積の重心に配置される', () => {
+      const polygonFeature: GeoJSON.Feature = {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]]
+        }
+      };
+
+      const layer = new PointCircleLayer({
+        data: { type: 'FeatureCollection', features: [polygonFeature] },
+        placement: 'planar-centroid'
+      });
+      layer['projection'] = mockProjection;
+      layer['layerGroup'] = mockContainer;
+      layer.render(mockContainer);
+
+      // 頂点の平均（4, 4）ではなく面積の重心（5, 5）を使用する
+      expect(mockProjection).toHaveBeenCalledWith([5, 5]);
+    });
   });
 
   describe('feature properties', () => {
@@ -317,4 +339,73 @@ describe('PointCircleLayer', () => {
       expect(feature.properties?.class).toBe('important-point');
     });
   });
-});
\ No newline at end of file
+
+  describe('renderer', () => {
+    test('Canvas描画時は半径内のサークルをイベント対象にする', () => {
+      const layer = new PointCircleLayer({ data: sampleGeoJSON, r: 5, renderer: 'canvas' });
+      layer['circleData'] = [
+        { feature: sampleGeoJSON.features[0], index: 0, x: 50, y: 50, r: 5 },
+        { feature: sampleGeoJSON.features[1], index: 1, x: 100, y: 100, r: 5 }
+      ];
+
+      expect(layer['hitTest']([102, 101])).toEqual({ feature: sampleGeoJSON.features[1], index: 1 });
+      expect(layer['hitTest']([70, 70])).toBeNull();
+    });
+
+    test('SVG描画時は座標による判定を行わない', () => {
+      const layer = new PointCircleLayer({ data: sampleGeoJSON, r: 5 });
+      layer['circleData'] = [{ feature: sampleGeoJSON.features[0], index: 0, x: 50, y: 50, r: 5 }];
+
+      expect(layer['hitTest']([50, 50])).toBeNull();
+    });
+  });
+
+  describe('time series', () => {
+    const dated = (name: string, date: string, value: number): GeoJSON.Feature => ({
+      type: 'Feature',
+      properties: { name, date, value },
+      geometry: { type: 'Point', coordinates: [value, value] }
+    });
+    const features = [
+      dated('a', '2024-04-01', 1),
+      dated('b', '2024-04-01', 2),
+      dated('a', '2024-04-02', 3)
+    ];
+
+    test('設定した日時のフィーチャーのみでサークルを描画する', () => {
+      const layer = new PointCircleLayer({ data: features, timeAccessor: f => f.properties!.date });
+      layer.setProjection(mockProjection);
+      layer.render(mockContainer);
+
+      layer.setTime(Date.parse('2024-04-02'));
+
+      expect(layer['circleData'].map(d => d.feature.properties!.value)).toEqual([3]);
+      expect(layer.getData().features).toHaveLength(1);
+
+      layer.setTime(null);
+      expect(layer['circleData']).toHaveLength(3);
+    });
+
+    test('interpolateでは補間したフィーチャーの位置に描画する', () => {
+      const layer = new PointCircleLayer({
+        data: features,
+        timeAccessor: f => f.properties!.date,
+        timeMode: 'interpolate',
+        timeKey: f => f.properties!.name
+      });
+      layer.setProjection(mockProjection);
+      layer.render(mockContainer);
+
+      layer.setTime(Date.parse('2024-04-01') + 12 * 60 * 60 * 1000);
+
+      expect(layer['circleData'].map(d => [d.x, d.feature.properties!.value])).toEqual([[20, 2], [20, 2]]);
+    });
+
+    test('日時の一覧を取得する（timeAccessorがない場合は空）', () => {
+      const layer = new PointCircleLayer({ data: features, timeAccessor: f => f.properties!.date });
+
+      expect(layer.getTimeSteps()).toEqual([Date.parse('2024-04-01'), Date.parse('2024-04-02')]);
+      expect(pointCircleLayer.getTimeSteps()).toEqual([]);
+    });
+  });
+});
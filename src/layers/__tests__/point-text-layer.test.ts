@@ -478,10 +478,7 @@ describe('PointTextLayer', () => {
     beforeEach(() => {
       // SVG要素のモック
       mockSVGElement = {
-        getBoundingClientRect: jest.fn(() => ({
-          width: 800,
-          height: 600
-        }))
+        getAttribute: jest.fn((name: string) => name === 'viewBox' ? '0 0 800 600' : null)
       };
 
       // layerGroupのnodeメソッドがclosest('svg')を返すように設定
@@ -520,6 +517,23 @@ describe('PointTextLayer', () => {
       expect(Delaunay.from).toHaveBeenCalled();
     });
 
+    it('Voronoi図の範囲にはSVGのviewBoxのサイズが使用される', () => {
+      const layer = new PointTextLayer({
+        data: testDataFeatureCollection,
+        avoidOverlap: true,
+        voronoiMargin: 10,
+        showConnectors: false
+      });
+
+      layer.setProjection(mockProjection);
+      layer.render(container);
+
+      const { Delaunay } = require('d3-delaunay');
+      const results = Delaunay.from.mock.results;
+      const delaunay = results[results.length - 1].value;
+      expect(delaunay.voronoi).toHaveBeenCalledWith([-10, -10, 810, 610]);
+    });
+
     it('showConnectorsがtrueの場合は接続線が描画される', () => {
       const layer = new PointTextLayer({
         data: testDataFeatureCollection,
@@ -0,0 +1,120 @@
+import { RasterLayer } from '../raster-layer';
+import { ImageLayer } from '../image-layer';
+import { createRasterImage } from '../../utils/raster-utils';
+
+jest.mock('../image-layer');
+jest.mock('../../utils/raster-utils', () => ({
+  createRasterImage: jest.fn()
+}));
+
+describe('RasterLayer', () => {
+  const MockImageLayer = ImageLayer as unknown as jest.Mock;
+  const mockCreateRasterImage = createRasterImage as jest.Mock;
+  const band = {
+    data: new Float32Array([100, 200, 300, -9999]),
+    width: 2,
+    height: 2,
+    bounds: [138, 35, 139, 36] as [number, number, number, number],
+    nodata: -9999
+  };
+  let mockGroup: any;
+  let mockContainer: any;
+
+  beforeEach(() => {
+    MockImageLayer.mockReset();
+    MockImageLayer.mockImplementation(() => ({
+      setProjection: jest.fn(),
+      render: jest.fn(() => Promise.resolve()),
+      destroy: jest.fn()
+    }));
+    mockCreateRasterImage.mockReset();
+    mockCreateRasterImage.mockReturnValue({
+      dataUri: 'data:image/png;base64,raster',
+      bounds: band.bounds,
+      width: 2,
+      height: 2,
+      range: [100, 300]
+    });
+
+    mockGroup = {
+      attr: jest.fn(() => mockGroup),
+      style: jest.fn(() => mockGroup),
+      on: jest.fn(() => mockGroup),
+      node: jest.fn(() => ({ remove: jest.fn() }))
+    };
+    mockContainer = { append: jest.fn(() => mockGroup) };
+  });
+
+  test('値の数が幅×高さと一致しない場合はエラーになる', () => {
+    expect(() => new RasterLayer({ band: { ...band, data: [1, 2, 3] } }))
+      .toThrow('ラスタの値の数（3）が幅×高さ（4）と一致しません');
+  });
+
+  test('ラスタから生成した画像をImageLayerで描画する', async () => {
+    const projection: any = jest.fn();
+    const layer = new RasterLayer({
+      band,
+      colors: 'Viridis',
+      stretch: 'percentile',
+      interpolation: 'bilinear',
+      attr: { opacity: 0.6 }
+    });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+
+    expect(mockCreateRasterImage).toHaveBeenCalledWith(band, { colors: 'Viridis', stretch: 'percentile' });
+    expect(MockImageLayer).toHaveBeenCalledWith(`${layer.id}-image`, expect.objectContaining({
+      src: 'data:image/png;base64,raster',
+      bounds: band.bounds,
+      interpolation: 'bilinear',
+      attr: { opacity: 0.6 }
+    }));
+    const instance = MockImageLayer.mock.results[0].value;
+    expect(instance.setProjection).toHaveBeenCalledWith(projection);
+    expect(instance.render).toHaveBeenCalledWith(mockGroup);
+    expect(layer.getRange()).toEqual([100, 300]);
+  });
+
+  test('陰影起伏のオプションを画像の生成に渡し、画像は一度だけ生成する', async () => {
+    const layer = new RasterLayer({ band, mode: 'hillshade', hillshade: { azimuth: 270, zFactor: 2 } });
+    await layer.render(mockContainer);
+    layer.getImage();
+
+    expect(mockCreateRasterImage).toHaveBeenCalledTimes(1);
+    expect(mockCreateRasterImage).toHaveBeenCalledWith(band, { mode: 'hillshade', hillshade: { azimuth: 270, zFactor: 2 } });
+  });
+
+  test('投影法の変更をImageLayerに伝え、destroy()で要素を削除する', async () => {
+    const layer = new RasterLayer({ band });
+    await layer.render(mockContainer);
+    const instance = MockImageLayer.mock.results[0].value;
+
+    const projection: any = jest.fn();
+    layer.setProjection(projection);
+    expect(instance.setProjection).toHaveBeenCalledWith(projection);
+
+    layer.destroy();
+    expect(instance.destroy).toHaveBeenCalled();
+  });
+
+  test('destroy()後の再描画ではImageLayerを再利用し、dispose()で破棄する', async () => {
+    const layer = new RasterLayer({ band });
+    const projection: any = jest.fn();
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+    const instance = MockImageLayer.mock.results[0].value;
+
+    layer.destroy();
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+
+    expect(MockImageLayer).toHaveBeenCalledTimes(1);
+    expect(instance.render).toHaveBeenCalledTimes(2);
+    expect(instance.setProjection).toHaveBeenLastCalledWith(projection);
+
+    layer.destroy();
+    layer.dispose();
+    await layer.render(mockContainer);
+    expect(MockImageLayer).toHaveBeenCalledTimes(2);
+  });
+});
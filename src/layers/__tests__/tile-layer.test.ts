@@ -0,0 +1,152 @@
+import { TileLayer } from '../tile-layer';
+import { ImageLayer } from '../image-layer';
+
+jest.mock('../image-layer');
+
+describe('TileLayer', () => {
+  const MockImageLayer = ImageLayer as unknown as jest.Mock;
+  let groupNode: any;
+  let mockContainer: any;
+  let projection: any;
+
+  /** 800x400の地図に世界全体を等距円筒図法で表示する投影法 */
+  const createProjection = () => {
+    const project: any = ([lon, lat]: [number, number]) => [(lon + 180) * 800 / 360, (90 - lat) * 400 / 180];
+    project.invert = ([x, y]: [number, number]) => [x * 360 / 800 - 180, 90 - y * 180 / 400];
+    project.scale = () => 127.32;
+    project.translate = () => [400, 200];
+    return project;
+  };
+
+  beforeEach(() => {
+    MockImageLayer.mockReset();
+    MockImageLayer.mockImplementation(() => ({
+      setProjection: jest.fn(),
+      render: jest.fn(),
+      destroy: jest.fn(),
+      getLayerGroup: jest.fn(() => ({ node: () => ({}) }))
+    }));
+
+    groupNode = {
+      ownerSVGElement: { getAttribute: (name: string) => name === 'viewBox' ? '0 0 800 400' : null },
+      appendChild: jest.fn(),
+      remove: jest.fn()
+    };
+    const mockGroup: any = {
+      attr: jest.fn(() => mockGroup),
+      style: jest.fn(() => mockGroup),
+      on: jest.fn(() => mockGroup),
+      selectAll: jest.fn(() => ({ remove: jest.fn() })),
+      node: jest.fn(() => groupNode)
+    };
+    mockContainer = { append: jest.fn(() => mockGroup) };
+    projection = createProjection();
+  });
+
+  test('URLテンプレートにプレースホルダーがない場合はエラーになる', () => {
+    expect(() => new TileLayer({ urlTemplate: 'https://example.com/tile.png' }))
+      .toThrow('{x}, {y}, {z}');
+  });
+
+  test('地図のサイズと投影法からズームレベルを決定してタイルを配置する', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png' });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+
+    expect(layer.getZoom()).toBe(1);
+    const tiles = layer.getTiles();
+    expect(tiles).toHaveLength(4);
+    expect(MockImageLayer).toHaveBeenCalledTimes(4);
+    tiles.forEach((tile, i) => {
+      expect(MockImageLayer.mock.calls[i][1]).toEqual(expect.objectContaining({
+        src: tile.url,
+        bounds: tile.bounds.bounds,
+        sourceProjection: 'mercator'
+      }));
+      const instance = MockImageLayer.mock.results[i].value;
+      expect(instance.setProjection).toHaveBeenCalledWith(projection);
+      expect(instance.render).toHaveBeenCalled();
+    });
+  });
+
+  test('ズームレベルはmaxZoomを超えない', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png', maxZoom: 0 });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+
+    expect(layer.getZoom()).toBe(0);
+    expect(layer.getTiles()).toHaveLength(1);
+  });
+
+  test('サブドメインがURLに割り当てられる', () => {
+    const layer = new TileLayer({
+      urlTemplate: 'https://{s}.example.com/{z}/{x}/{y}.png',
+      subdomains: ['a', 'b']
+    });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+
+    layer.getTiles().forEach(tile => {
+      expect(tile.url).toMatch(/^https:\/\/[ab]\.example\.com\/1\/\d\/\d\.png$/);
+    });
+  });
+
+  test('再描画ではキャッシュしたタイルを再利用する', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png' });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+    layer.render(mockContainer);
+    layer.setProjection(createProjection());
+
+    expect(MockImageLayer).toHaveBeenCalledTimes(4);
+    expect(groupNode.appendChild).toHaveBeenCalledTimes(8);
+    MockImageLayer.mock.results.forEach(({ value }) => {
+      expect(value.setProjection).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  test('投影法の状態が変わった場合はキャッシュしたタイルを配置し直す', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png' });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+
+    const rotated = createProjection();
+    rotated.rotate = () => [10, 0, 0];
+    layer.setProjection(rotated);
+
+    expect(MockImageLayer).toHaveBeenCalledTimes(4);
+    MockImageLayer.mock.results.forEach(({ value }) => {
+      expect(value.setProjection).toHaveBeenLastCalledWith(rotated);
+    });
+  });
+
+  test('destroy()後の再描画ではキャッシュしたタイルを再利用する', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png' });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+    layer.destroy();
+
+    expect(layer.getTiles()).toEqual([]);
+    MockImageLayer.mock.results.forEach(({ value }) => {
+      expect(value.destroy).not.toHaveBeenCalled();
+    });
+
+    layer.render(mockContainer);
+    expect(MockImageLayer).toHaveBeenCalledTimes(4);
+    expect(groupNode.appendChild).toHaveBeenCalledTimes(4);
+  });
+
+  test('dispose()でキャッシュしたタイルを破棄する', () => {
+    const layer = new TileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.png' });
+    layer.setProjection(projection);
+    layer.render(mockContainer);
+    layer.destroy();
+    layer.dispose();
+
+    MockImageLayer.mock.results.forEach(({ value }) => {
+      expect(value.destroy).toHaveBeenCalled();
+    });
+    layer.render(mockContainer);
+    expect(MockImageLayer).toHaveBeenCalledTimes(8);
+  });
+});
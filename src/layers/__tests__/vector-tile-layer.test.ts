@@ -0,0 +1,159 @@
+import { VectorTileLayer } from '../vector-tile-layer';
+import { GeojsonLayer } from '../geojson-layer';
+import { createVectorTileFixture } from '../../../tests/fixtures/vector-tile';
+
+jest.mock('../geojson-layer');
+
+describe('VectorTileLayer', () => {
+  const MockGeojsonLayer = GeojsonLayer as unknown as jest.Mock;
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let mockGroup: any;
+  let mockContainer: any;
+  let projection: any;
+
+  /** 800x400の地図に世界全体を等距円筒図法で表示する投影法 */
+  const createProjection = () => {
+    const project: any = ([lon, lat]: [number, number]) => [(lon + 180) * 800 / 360, (90 - lat) * 400 / 180];
+    project.invert = ([x, y]: [number, number]) => [x * 360 / 800 - 180, 90 - y * 180 / 400];
+    return project;
+  };
+
+  beforeEach(() => {
+    MockGeojsonLayer.mockClear();
+
+    // ローカルのタイルサーバーの代わりにフィクスチャを返す
+    fetchMock = jest.fn(async (url: string) => url.includes('/1/1/1.pbf')
+      ? { ok: false, status: 404 }
+      : { ok: true, status: 200, arrayBuffer: async () => createVectorTileFixture().buffer });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const groupNode = {
+      ownerSVGElement: { getAttribute: (name: string) => name === 'viewBox' ? '0 0 800 400' : null },
+      remove: jest.fn()
+    };
+    mockGroup = {
+      append: jest.fn(() => mockGroup),
+      attr: jest.fn(() => mockGroup),
+      style: jest.fn(() => mockGroup),
+      on: jest.fn(() => mockGroup),
+      selectAll: jest.fn(() => ({ remove: jest.fn() })),
+      node: jest.fn(() => groupNode)
+    };
+    mockContainer = { append: jest.fn(() => mockGroup) };
+    projection = createProjection();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('URLテンプレートにプレースホルダーがない場合はエラーになる', () => {
+    expect(() => new VectorTileLayer({ urlTemplate: 'https://example.com/tile.pbf' }))
+      .toThrow('{x}, {y}, {z}');
+  });
+
+  test('表示範囲のタイルを取得してソースレイヤーごとに結合する', async () => {
+    const layer = new VectorTileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf' });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(layer.getTiles()).toHaveLength(4);
+    expect(layer.getSourceLayerNames()).toEqual(['water', 'roads', 'pois']);
+    // 404のタイルはスキップされる
+    expect(layer.getFeatures('water').features).toHaveLength(3);
+    expect(layer.getFeatures('unknown').features).toEqual([]);
+  });
+
+  test('ソースレイヤーごとの設定でGeojsonLayerを作成する', async () => {
+    const waterFill = (feature: GeoJSON.Feature) => feature.properties?.name === 'lake' ? '#a0c8f0' : '#ffffff';
+    const layer = new VectorTileLayer({
+      urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf',
+      layers: {
+        roads: { attr: { fill: 'none', stroke: '#ffffff' } },
+        water: { attr: { fill: waterFill }, style: { cursor: 'pointer' } }
+      }
+    });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+
+    expect(layer.getSourceLayerNames()).toEqual(['roads', 'water']);
+    expect(MockGeojsonLayer).toHaveBeenCalledTimes(2);
+
+    const [roadsOptions, waterOptions] = MockGeojsonLayer.mock.calls.map(call => call[0]);
+    expect(roadsOptions.attr).toEqual({ fill: 'none', stroke: '#ffffff' });
+    expect(roadsOptions.data).toBe(layer.getFeatures('roads'));
+    expect(waterOptions.attr.fill).toBe(waterFill);
+    expect(waterOptions.style).toEqual({ cursor: 'pointer' });
+
+    MockGeojsonLayer.mock.instances.forEach((instance: any) => {
+      expect(instance.setProjection).toHaveBeenCalledWith(projection);
+      expect(instance.render).toHaveBeenCalled();
+    });
+    expect(mockGroup.attr).toHaveBeenCalledWith('class', 'thematika-vector-tile-layer thematika-vector-tile-layer--roads');
+  });
+
+  test('layersを指定しない場合は共通のattr/styleを使用する', async () => {
+    const layer = new VectorTileLayer({
+      urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf',
+      attr: { stroke: '#333333' }
+    });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+
+    expect(MockGeojsonLayer).toHaveBeenCalledTimes(3);
+    MockGeojsonLayer.mock.calls.forEach(([options]) => {
+      expect(options.attr).toEqual({ stroke: '#333333' });
+    });
+  });
+
+  test('再描画では取得済みのタイルを再利用する', async () => {
+    const layer = new VectorTileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf' });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+    await layer.render(mockContainer);
+
+    // 取得に失敗したタイルのみ再取得する
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(MockGeojsonLayer.mock.instances[0].destroy).toHaveBeenCalled();
+  });
+
+  test('destroy()後の再描画では取得済みのタイルを再利用し、dispose()で破棄する', async () => {
+    const layer = new VectorTileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf' });
+    layer.setProjection(projection);
+    await layer.render(mockContainer);
+    layer.destroy();
+    await layer.render(mockContainer);
+
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(layer.getSourceLayerNames()).toEqual(['water', 'roads', 'pois']);
+
+    layer.destroy();
+    layer.dispose();
+    await layer.render(mockContainer);
+    expect(fetchMock).toHaveBeenCalledTimes(9);
+  });
+
+  test('描画の失敗はPromiseを拒否せずにコンソールに出力する', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (global as any).fetch = undefined;
+    const layer = new VectorTileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf' });
+    layer.setProjection(projection);
+
+    await expect(layer.render(mockContainer)).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith('VectorTileLayer: 描画に失敗しました', expect.any(TypeError));
+    consoleError.mockRestore();
+  });
+
+  test('destroy()後に完了した取得結果は描画しない', async () => {
+    const layer = new VectorTileLayer({ urlTemplate: 'https://example.com/{z}/{x}/{y}.pbf' });
+    layer.setProjection(projection);
+    const rendering = layer.render(mockContainer);
+    layer.destroy();
+    await rendering;
+
+    expect(MockGeojsonLayer).not.toHaveBeenCalled();
+    expect(layer.getSourceLayerNames()).toEqual([]);
+  });
+});
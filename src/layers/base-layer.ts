@@ -1,12 +1,19 @@
-import { Selection, select } from 'd3-selection';
-import { ILayer, LayerAttr, LayerStyle } from '../types';
+import { Selection, select, pointer } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { IInteractiveLayer, LayerAttr, LayerStyle, LayerEventType, LayerEventMap } from '../types';
+import { EventEmitter, EventHandler } from '../core/event-emitter';
+
+/**
+ * レイヤーが購読するポインターイベントの種別一覧
+ */
+const LAYER_EVENT_TYPES: LayerEventType[] = ['click', 'dblclick', 'contextmenu', 'mouseover', 'mouseout', 'mousemove'];
 
 
 /**
  * 全レイヤーの基底となる抽象クラス
  * 共通の機能と振る舞いを定義します
  */
-export abstract class BaseLayer implements ILayer {
+export abstract class BaseLayer implements IInteractiveLayer {
   /** レイヤーの一意識別子 */
   public readonly id: string;
   /** レイヤーの表示状態 */
@@ -19,6 +26,8 @@ export abstract class BaseLayer implements ILayer {
   protected style?: LayerStyle;
   /** レイヤーのSVGグループ要素 */
   protected element?: SVGGElement;
+  /** ポインターイベントのエミッター */
+  protected events: EventEmitter<LayerEventMap> = new EventEmitter();
 
 
   /**
@@ -90,6 +99,26 @@ export abstract class BaseLayer implements ILayer {
     return select(this.element) as unknown as Selection<SVGGElement, unknown, HTMLElement, any>;
   }
 
+  /**
+   * ポインターイベントのハンドラーを登録します
+   * ハンドラーはレイヤーに保持されるため、再描画後も有効です
+   * @param type - イベント種別
+   * @param handler - イベントハンドラー
+   */
+  on<K extends LayerEventType>(type: K, handler: EventHandler<LayerEventMap[K]>): void {
+    this.events.on(type, handler);
+    this.bindPointerEvent(type);
+  }
+
+  /**
+   * ポインターイベントのハンドラーを解除します
+   * @param type - イベント種別
+   * @param handler - 解除するイベントハンドラー（省略時は全て解除）
+   */
+  off<K extends LayerEventType>(type: K, handler?: EventHandler<LayerEventMap[K]>): void {
+    this.events.off(type, handler);
+  }
+
   /**
    * 表示状態を更新します
    * @protected
@@ -117,10 +146,135 @@ export abstract class BaseLayer implements ILayer {
       .style('display', this.visible ? '' : 'none');
 
     this.element = group.node()!;
+
+    // 登録済みのイベントを新しいレイヤーグループに再設定
+    LAYER_EVENT_TYPES
+      .filter(type => this.events.has(type))
+      .forEach(type => this.bindPointerEvent(type));
     
     return group;
   }
 
+  /**
+   * SVGの座標系のサイズを取得します
+   * viewBoxが未設定の場合はwidth/height属性を使用します
+   * @param svg - SVG要素
+   * @returns [幅, 高さ]（SVG要素がない場合は[0, 0]）
+   * @protected
+   */
+  protected getSvgSize(svg: SVGSVGElement | null): [number, number] {
+    if (!svg) return [0, 0];
+    const viewBox = svg.getAttribute('viewBox');
+    if (viewBox) {
+      const [, , width, height] = viewBox.split(/[\s,]+/).map(Number);
+      if (isFinite(width) && isFinite(height)) {
+        return [width, height];
+      }
+    }
+    return [
+      parseFloat(svg.getAttribute('width') || '') || 0,
+      parseFloat(svg.getAttribute('height') || '') || 0
+    ];
+  }
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します（サブクラスで実装）
+   * @returns 投影法（未設定の場合はundefined）
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return undefined;
+  }
+
+  /**
+   * 要素にバインドされたデータからフィーチャーとインデックスを取得します
+   * フィーチャー自体、または { feature, index } / { feature, featureIndex } 形式のデータに対応します
+   * @param datum - 要素にバインドされたデータ
+   * @returns フィーチャーとインデックス、対象外の場合はnull
+   * @protected
+   */
+  protected resolveEventFeature(datum: any): { feature: GeoJSON.Feature; index: number } | null {
+    if (!datum || typeof datum !== 'object') return null;
+
+    if (datum.type === 'Feature') {
+      return { feature: datum, index: -1 };
+    }
+
+    if (datum.feature && datum.feature.type === 'Feature') {
+      // featureIndexを優先（d3-forceのノードなど、indexが別の意味で設定される場合がある）
+      const index = typeof datum.featureIndex === 'number'
+        ? datum.featureIndex
+        : typeof datum.index === 'number' ? datum.index : -1;
+      return { feature: datum.feature, index };
+    }
+
+    return null;
+  }
+
+  /**
+   * 座標からフィーチャーを判定します（Canvas描画に対応するサブクラスで実装）
+   * @param pixel - レイヤーグループ座標系での位置 [x, y]
+   * @returns フィーチャーとインデックス、該当なしの場合はnull
+   * @protected
+   */
+  protected hitTest(pixel: [number, number]): { feature: GeoJSON.Feature; index: number } | null {
+    return null;
+  }
+
+  /**
+   * レイヤーグループにポインターイベントのリスナーを設定します
+   * 個々の要素ではなくレイヤーグループで受け取り、イベント対象のデータから発火します
+   * @param type - イベント種別
+   * @private
+   */
+  private bindPointerEvent(type: LayerEventType): void {
+    if (!this.element) return;
+
+    select(this.element).on(`${type}.thematika`, (event: MouseEvent) => {
+      this.dispatchPointerEvent(type, event);
+    });
+  }
+
+  /**
+   * DOMイベントからレイヤーイベントを生成して発火します
+   * @param type - イベント種別
+   * @param event - DOMイベント
+   * @protected
+   */
+  protected dispatchPointerEvent(type: LayerEventType, event: MouseEvent): void {
+    if (!this.element || !this.events.has(type)) return;
+
+    // イベント対象からレイヤーグループまで遡り、フィーチャーを持つ要素を探す
+    let node = event.target as (Node & { __data__?: any }) | null;
+    let resolved: { feature: GeoJSON.Feature; index: number } | null = null;
+    while (node && node !== this.element) {
+      resolved = this.resolveEventFeature(node.__data__);
+      if (resolved) break;
+      node = node.parentNode;
+    }
+
+    const pixel = pointer(event, this.element) as [number, number];
+
+    // Canvas描画など要素にデータがない場合は座標から判定
+    if (!resolved) {
+      resolved = this.hitTest(pixel);
+    }
+    if (!resolved) return;
+
+    const projection = this.getEventProjection();
+    const inverted = projection && projection.invert ? projection.invert(pixel) : null;
+
+    this.events.emit(type, {
+      type,
+      layerId: this.id,
+      feature: resolved.feature,
+      index: resolved.index,
+      pixel,
+      coordinates: inverted ? [inverted[0], inverted[1]] : null,
+      sourceEvent: event
+    });
+  }
+
   /**
    * 単一要素にSVG属性を適用します
    * @param element - 対象要素
@@ -0,0 +1,90 @@
+import { GeojsonLayer, GeojsonLayerOptions } from './geojson-layer';
+import { LayerAttr, LayerStyle, LayerData, DataTransitionOptions } from '../types';
+import { createCartogram, CartogramType, CartogramOptions } from '../utils/cartogram-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
+
+/**
+ * CartogramLayerの初期化オプション
+ */
+export interface CartogramLayerOptions {
+  /** GeoJSONデータ（ポリゴン、TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
+  /** フィーチャーから面積に対応させる値を取得する関数 */
+  value: (feature: GeoJSON.Feature, index: number) => number | null | undefined;
+  /** カルトグラムの種類（デフォルト: 'noncontiguous'） */
+  type?: CartogramType;
+  /** contiguousの場合の反復回数（デフォルト: 8） */
+  iterations?: number;
+  /** レイヤーのSVG属性設定 */
+  attr?: LayerAttr;
+  /** レイヤーのCSS style属性設定 */
+  style?: LayerStyle;
+  /** 描画前の形状の簡略化（GeojsonLayerOptionsのsimplifyを参照） */
+  simplify?: GeojsonLayerOptions['simplify'];
+}
+
+/**
+ * 値に応じてポリゴンを変形して描画するカルトグラムレイヤークラス
+ * 変形後のジオメトリはgetData()で取得でき、他のレイヤーのデータとして再利用できます
+ */
+export class CartogramLayer extends GeojsonLayer {
+  /** 変形前のGeoJSONデータ */
+  private sourceData: GeoJSON.FeatureCollection;
+  /** カルトグラムの種類 */
+  private type: CartogramType;
+  /** カルトグラムの生成オプション */
+  private cartogramOptions: CartogramOptions;
+
+  /**
+   * カルトグラムレイヤーを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: CartogramLayerOptions) {
+    // データの正規化
+    const sourceData: GeoJSON.FeatureCollection = normalizeLayerData(options.data);
+    const cartogramOptions: CartogramOptions = {
+      value: options.value,
+      type: options.type,
+      iterations: options.iterations
+    };
+
+    super({
+      data: createCartogram(sourceData, cartogramOptions),
+      attr: options.attr,
+      style: options.style,
+      simplify: options.simplify
+    });
+
+    this.sourceData = sourceData;
+    this.type = options.type || 'noncontiguous';
+    this.cartogramOptions = cartogramOptions;
+  }
+
+  /**
+   * データを更新します
+   * 新しいデータからカルトグラムを生成し直し、キーで対応付けたフィーチャーの追加・更新・削除を反映します
+   * @param data - 変形前の新しいGeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名）
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise
+   */
+  setData(data: LayerData, options?: DataTransitionOptions): Promise<void> {
+    this.sourceData = normalizeLayerData(data);
+    return super.setData(createCartogram(this.sourceData, this.cartogramOptions), options);
+  }
+
+  /**
+   * 変形前のGeoJSONデータを取得します
+   * @returns 変形前のGeoJSONデータ
+   */
+  getSourceData(): GeoJSON.FeatureCollection {
+    return this.sourceData;
+  }
+
+  /**
+   * カルトグラムの種類を取得します
+   * @returns カルトグラムの種類
+   */
+  getType(): CartogramType {
+    return this.type;
+  }
+}
@@ -0,0 +1,175 @@
+import { scaleThreshold, ScaleThreshold } from 'd3-scale';
+import { GeojsonLayer, GeojsonLayerOptions } from './geojson-layer';
+import { LayerAttr, LayerStyle, LayerData, DataTransitionOptions, ColorPalette } from '../types';
+import { AllPalettes, generateOptimizedPalette } from '../utils/color-palette';
+import { normalizeLayerData } from '../utils/topojson-utils';
+import { classify, ClassificationMethod } from '../utils/classification-utils';
+
+/**
+ * ChoroplethLayerの初期化オプション
+ */
+export interface ChoroplethLayerOptions {
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
+  /** フィーチャーから分類対象の値を取得する関数（null/undefined/NaNはデータなしとして扱われます） */
+  valueAccessor: (feature: GeoJSON.Feature, index: number) => number | null | undefined;
+  /** 階級区分の方法（デフォルト: 'quantile'） */
+  classification?: ClassificationMethod;
+  /** 階級数（デフォルト: 5、manualの場合はbreaksから決まります） */
+  classes?: number;
+  /** manualの場合の境界値（昇順、階級数 - 1 個） */
+  breaks?: number[];
+  /** 配色パレット名（AllPalettesのキー、デフォルト: 'Blues'） */
+  palette?: string;
+  /** データなしのフィーチャーの塗りつぶし色（デフォルト: '#cccccc'） */
+  noDataFill?: string;
+  /** レイヤーのSVG属性設定（fillは分類結果で上書きされます） */
+  attr?: LayerAttr;
+  /** レイヤーのCSS style属性設定 */
+  style?: LayerStyle;
+  /** 描画前の形状の簡略化（GeojsonLayerOptionsのsimplifyを参照） */
+  simplify?: GeojsonLayerOptions['simplify'];
+}
+
+/**
+ * 数値データを階級区分して塗り分けるコロプレスレイヤークラス
+ * 分類に使用したScaleThresholdはgetScale()で取得でき、LegendLayerにそのまま渡せます
+ */
+export class ChoroplethLayer extends GeojsonLayer {
+  /** 値の取得関数 */
+  private valueAccessor: (feature: GeoJSON.Feature, index: number) => number | null | undefined;
+  /** 階級区分の方法 */
+  private classification: ClassificationMethod;
+  /** 階級の境界値 */
+  private breaks: number[];
+  /** 値から色への変換スケール */
+  private scale: ScaleThreshold<number, string>;
+  /** データなしの塗りつぶし色 */
+  private noDataFill: string;
+  /** 配色パレット */
+  private palette: ColorPalette;
+  /** 階級数 */
+  private classes: number;
+  /** manualの場合の境界値 */
+  private manualBreaks?: number[];
+
+  /**
+   * コロプレスレイヤーを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: ChoroplethLayerOptions) {
+    super({ data: options.data, attr: options.attr, style: options.style, simplify: options.simplify });
+
+    this.valueAccessor = options.valueAccessor;
+    this.classification = options.classification || 'quantile';
+    this.noDataFill = options.noDataFill || '#cccccc';
+
+    const paletteName = options.palette || 'Blues';
+    const palette = AllPalettes[paletteName];
+    if (!palette) {
+      throw new Error(`パレットが見つかりません: ${paletteName}`);
+    }
+
+    const classes = this.classification === 'manual'
+      ? (options.breaks?.length ?? 0) + 1
+      : options.classes ?? 5;
+    if (classes > palette.colors.length) {
+      throw new Error(`パレット「${paletteName}」の色数（${palette.colors.length}）を超える階級数は指定できません: ${classes}`);
+    }
+
+    this.palette = palette;
+    this.classes = classes;
+    this.manualBreaks = options.breaks;
+    this.breaks = [];
+    this.scale = scaleThreshold<number, string>();
+    this.classifyFeatures(this.getData().features);
+
+    this.attr.fill = (feature: GeoJSON.Feature, index?: number) => {
+      const value = this.getValue(feature, index ?? this.getData().features.indexOf(feature));
+      return value === null ? this.noDataFill : this.scale(value);
+    };
+  }
+
+  /**
+   * データを更新します
+   * 新しいデータで階級区分をやり直し、getScale()で取得したスケールの境界値と色も更新したうえで、
+   * キーで対応付けたフィーチャーの追加・更新・削除を反映します
+   * スケールを渡したLegendLayerは、次の描画時に新しい階級を表示します
+   * @param data - 新しいGeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名）
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise
+   */
+  setData(data: LayerData, options?: DataTransitionOptions): Promise<void> {
+    const normalized = normalizeLayerData(data);
+    this.classifyFeatures(normalized.features);
+    return super.setData(normalized, options);
+  }
+
+  /**
+   * 分類に使用したスケールを取得します
+   * LegendLayerのscaleにそのまま指定できます
+   * @returns 値から色へのScaleThreshold
+   */
+  getScale(): ScaleThreshold<number, string> {
+    return this.scale;
+  }
+
+  /**
+   * 階級の境界値を取得します
+   * @returns 境界値（昇順）
+   */
+  getBreaks(): number[] {
+    return [...this.breaks];
+  }
+
+  /**
+   * 階級区分の方法を取得します
+   * @returns 階級区分の方法
+   */
+  getClassification(): ClassificationMethod {
+    return this.classification;
+  }
+
+  /**
+   * データなしの塗りつぶし色を取得します
+   * @returns 塗りつぶし色
+   */
+  getNoDataFill(): string {
+    return this.noDataFill;
+  }
+
+  /**
+   * フィーチャーの値を階級区分し、境界値とスケールを更新します
+   * スケールは作り直さずに境界値と色を設定し直すため、取得済みのスケールにも反映されます
+   * @private
+   * @param features - 分類対象のフィーチャー
+   */
+  private classifyFeatures(features: GeoJSON.Feature[]): void {
+    const values = features
+      .map((feature, index) => this.getValue(feature, index))
+      .filter((value): value is number => value !== null);
+
+    this.breaks = classify(values, this.classification, this.classes, this.manualBreaks).breaks;
+
+    // 境界値が計算できない場合（有効な値がない場合）は単一階級として扱う
+    const colors = this.breaks.length > 0
+      ? generateOptimizedPalette(this.palette, this.breaks.length + 1)
+      : [this.palette.colors[this.palette.colors.length - 1]];
+
+    this.scale
+      .domain(this.breaks)
+      .range(colors);
+  }
+
+  /**
+   * フィーチャーの分類値を取得します
+   * @private
+   * @param feature - フィーチャー
+   * @param index - フィーチャーのインデックス
+   * @returns 有効な数値、データなしの場合はnull
+   */
+  private getValue(feature: GeoJSON.Feature, index: number): number | null {
+    const value = this.valueAccessor(feature, index);
+    return typeof value === 'number' && isFinite(value) ? value : null;
+  }
+}
@@ -0,0 +1,325 @@
+import { Selection } from 'd3-selection';
+import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { LayerAttr, LayerStyle, ColorPalette } from '../types';
+import { createColorRamp } from '../utils/color-palette';
+import {
+  ContourGridSource,
+  ContourLineProperties,
+  ContourBandProperties,
+  generateIsolines,
+  generateIsobands,
+  placeLineLabels
+} from '../utils/contour-utils';
+
+/**
+ * 等値線ラベルの設定
+ */
+export interface ContourLabelOptions {
+  /** 計曲線のみにラベルを表示するか（デフォルト: true） */
+  indexOnly?: boolean;
+  /** 同じ線上のラベルの間隔（ピクセル、デフォルト: 200） */
+  spacing?: number;
+  /** フォントサイズ（ピクセル、デフォルト: 10） */
+  fontSize?: number;
+  /** 文字色（デフォルト: '#333333'） */
+  fill?: string;
+  /** 文字の縁取りの色（デフォルト: '#ffffff'） */
+  halo?: string;
+  /** 文字の縁取りの幅（デフォルト: 3） */
+  haloWidth?: number;
+  /** 値の表示形式 */
+  format?: (value: number) => string;
+}
+
+/**
+ * ContourLayerの初期化オプション
+ */
+export interface ContourLayerOptions {
+  /** グリッド（readCOGBandの結果などのラスタバンド、または2次元配列と境界） */
+  data: ContourGridSource;
+  /** 等値線の間隔（データ単位） */
+  interval: number;
+  /** 基準値（等値線は基準値 + 間隔の整数倍、デフォルト: 0） */
+  base?: number;
+  /** 計曲線とする等値線の間隔（何本ごとか、デフォルト: 5、0で計曲線なし） */
+  indexInterval?: number;
+  /** 計曲線の線幅（デフォルト: 等値線の線幅の2倍） */
+  indexStrokeWidth?: number;
+  /** 等値帯を塗りつぶすか（デフォルト: false） */
+  filled?: boolean;
+  /** 等値帯のカラーランプ（パレット名、パレット、または16進数カラーの配列、デフォルト: 'Viridis'） */
+  colors?: string | string[] | ColorPalette;
+  /** 等値線を表示するか（デフォルト: true） */
+  lines?: boolean;
+  /** 等値線に沿った数値ラベル（trueで既定の設定、デフォルト: false） */
+  labels?: boolean | ContourLabelOptions;
+  /** 等値線のSVG属性設定 */
+  attr?: LayerAttr;
+  /** 等値線のCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * ラベルの描画データ
+ */
+interface ContourLabel {
+  x: number;
+  y: number;
+  angle: number;
+  text: string;
+  index: boolean;
+}
+
+/**
+ * 標高などのグリッドから等値線・等値帯を描画するレイヤークラス
+ *
+ * 計曲線（indexIntervalごとの等値線）は太く描画され、数値ラベルを線に沿って配置できます。
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif');
+ * map.addLayer('contours', new ContourLayer({
+ *   data: dem,
+ *   interval: 20,
+ *   indexInterval: 5,
+ *   filled: true,
+ *   colors: 'Viridis',
+ *   labels: { spacing: 250 },
+ *   attr: { stroke: '#6b4f2a', strokeWidth: 0.5 }
+ * }));
+ * ```
+ */
+export class ContourLayer extends BaseLayer {
+  /** グリッド */
+  private data: ContourGridSource;
+  /** 等値線の生成オプション */
+  private levelOptions: { interval: number; base: number; indexInterval: number };
+  /** 計曲線の線幅 */
+  private indexStrokeWidth: number;
+  /** 等値帯を塗りつぶすか */
+  private filled: boolean;
+  /** 等値帯のカラーランプ */
+  private colors: string | string[] | ColorPalette;
+  /** 等値線を表示するか */
+  private lines: boolean;
+  /** ラベルの設定（表示しない場合はnull） */
+  private labels: ContourLabelOptions | null;
+  /** 生成した等値線 */
+  private isolines?: GeoJSON.FeatureCollection<GeoJSON.MultiLineString, ContourLineProperties>;
+  /** 生成した等値帯 */
+  private isobands?: GeoJSON.FeatureCollection<GeoJSON.MultiPolygon, ContourBandProperties>;
+  /** 投影法 */
+  private projection?: GeoProjection;
+  /** パス生成器 */
+  private path?: GeoPath;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * ContourLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: ContourLayerOptions) {
+    // 一意のIDを自動生成（等値線は塗りつぶさない）
+    super(`contour-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, { fill: 'none', ...options.attr }, options.style);
+
+    if (!(options.interval > 0)) {
+      throw new Error(`等値線の間隔は正の値で指定してください: ${options.interval}`);
+    }
+
+    this.data = options.data;
+    this.levelOptions = {
+      interval: options.interval,
+      base: options.base ?? 0,
+      indexInterval: options.indexInterval ?? 5
+    };
+    this.indexStrokeWidth = options.indexStrokeWidth ??
+      (typeof this.attr.strokeWidth === 'number' ? this.attr.strokeWidth * 2 : 1);
+    this.filled = options.filled ?? false;
+    this.colors = options.colors ?? 'Viridis';
+    this.lines = options.lines ?? true;
+    this.labels = options.labels === true ? {} : options.labels || null;
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 地図投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    this.path = geoPath(projection);
+    if (this.layerGroup) {
+      this.layerGroup.selectAll('.thematika-contour-layer').remove();
+      this.renderContours();
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderContours();
+  }
+
+  /**
+   * 等値線を取得します（初回の呼び出し時に生成）
+   * @returns 等値線のGeoJSON
+   */
+  getIsolines(): GeoJSON.FeatureCollection<GeoJSON.MultiLineString, ContourLineProperties> {
+    if (!this.isolines) {
+      this.isolines = generateIsolines(this.data, this.levelOptions);
+    }
+    return this.isolines;
+  }
+
+  /**
+   * 等値帯を取得します（初回の呼び出し時に生成）
+   * @returns 等値帯のGeoJSON
+   */
+  getIsobands(): GeoJSON.FeatureCollection<GeoJSON.MultiPolygon, ContourBandProperties> {
+    if (!this.isobands) {
+      this.isobands = generateIsobands(this.data, this.levelOptions);
+    }
+    return this.isobands;
+  }
+
+  /**
+   * 等値帯・等値線・ラベルを描画します
+   * @private
+   */
+  private renderContours(): void {
+    if (!this.layerGroup || !this.path) return;
+
+    const group = this.layerGroup.append('g').attr('class', 'thematika-contour-layer');
+
+    if (this.filled) {
+      this.renderBands(group);
+    }
+    if (this.lines) {
+      this.renderLines(group);
+    }
+    if (this.labels) {
+      this.renderLabels(group, this.labels);
+    }
+  }
+
+  /**
+   * 等値帯を描画します
+   * @private
+   * @param group - 描画先のグループ
+   */
+  private renderBands(group: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    const bands = this.getIsobands().features;
+    const ramp = createColorRamp(this.colors);
+    const bandCount = bands.reduce((count, band) => Math.max(count, band.properties.band + 1), 0);
+
+    group.append('g')
+      .attr('class', 'thematika-contour-bands')
+      .attr('stroke', 'none')
+      .selectAll('path')
+      .data(bands)
+      .enter()
+      .append('path')
+      .attr('class', 'thematika-contour-band')
+      .attr('d', this.path!)
+      .attr('fill', d => {
+        const [r, g, b] = ramp(bandCount > 1 ? d.properties.band / (bandCount - 1) : 0.5);
+        return `rgb(${r},${g},${b})`;
+      });
+  }
+
+  /**
+   * 等値線を描画します（計曲線は太く描画）
+   * @private
+   * @param group - 描画先のグループ
+   */
+  private renderLines(group: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    const linesGroup = group.append('g').attr('class', 'thematika-contour-lines');
+    const customClass = this.attr.className || '';
+
+    const paths = linesGroup
+      .selectAll('path')
+      .data(this.getIsolines().features)
+      .enter()
+      .append('path')
+      .attr('d', this.path!)
+      .attr('class', d => ['thematika-contour-line', d.properties.index ? 'thematika-contour-line--index' : '', customClass]
+        .filter(Boolean).join(' '));
+
+    this.applyAllStylesToElements(paths, linesGroup);
+
+    paths.attr('stroke-width', d => d.properties.index ? this.indexStrokeWidth : null);
+  }
+
+  /**
+   * 等値線に沿って数値ラベルを描画します
+   * @private
+   * @param group - 描画先のグループ
+   * @param options - ラベルの設定
+   */
+  private renderLabels(group: Selection<SVGGElement, unknown, HTMLElement, any>, options: ContourLabelOptions): void {
+    if (!this.projection) return;
+
+    const fontSize = options.fontSize ?? 10;
+    const format = options.format ?? ((value: number) => String(Math.round(value * 1e6) / 1e6));
+    const labels: ContourLabel[] = [];
+
+    this.getIsolines().features.forEach(feature => {
+      const { value, index } = feature.properties;
+      if ((options.indexOnly ?? true) && !index) return;
+
+      const text = format(value);
+      const labelLength = text.length * fontSize * 0.6 + fontSize;
+      feature.geometry.coordinates.forEach(line => {
+        this.projectLine(line).forEach(points => {
+          placeLineLabels(points, { spacing: options.spacing, labelLength }).forEach(position => {
+            labels.push({ ...position, text, index });
+          });
+        });
+      });
+    });
+
+    group.append('g')
+      .attr('class', 'thematika-contour-labels')
+      .attr('font-size', fontSize)
+      .attr('text-anchor', 'middle')
+      .attr('dominant-baseline', 'central')
+      .attr('fill', options.fill ?? '#333333')
+      .attr('stroke', options.halo ?? '#ffffff')
+      .attr('stroke-width', options.haloWidth ?? 3)
+      .attr('stroke-linejoin', 'round')
+      .attr('paint-order', 'stroke')
+      .selectAll('text')
+      .data(labels)
+      .enter()
+      .append('text')
+      .attr('class', d => d.index ? 'thematika-contour-label thematika-contour-label--index' : 'thematika-contour-label')
+      .attr('transform', d => `translate(${d.x},${d.y}) rotate(${d.angle})`)
+      .text(d => d.text);
+  }
+
+  /**
+   * 線を投影し、投影できない点で分割します
+   * @private
+   * @param line - 線の地理座標
+   * @returns 投影した線の配列
+   */
+  private projectLine(line: GeoJSON.Position[]): [number, number][][] {
+    const parts: [number, number][][] = [];
+    let current: [number, number][] = [];
+    line.forEach(coordinate => {
+      const point = this.projection!([coordinate[0], coordinate[1]]);
+      if (point && isFinite(point[0]) && isFinite(point[1])) {
+        current.push([point[0], point[1]]);
+      } else if (current.length > 0) {
+        parts.push(current);
+        current = [];
+      }
+    });
+    if (current.length > 0) parts.push(current);
+    return parts;
+  }
+}
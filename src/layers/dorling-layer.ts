@@ -0,0 +1,322 @@
+import { Selection } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { forceSimulation, forceX, forceY, forceCollide } from 'd3-force';
+import { BaseLayer } from './base-layer';
+import { LayerAttr, LayerStyle, IGeojsonLayer, PointPlacement, LayerData } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
+
+/**
+ * DorlingLayerの初期化オプション
+ */
+export interface DorlingLayerOptions {
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
+  /** レイヤーの属性設定 */
+  attr?: LayerAttr;
+  /** レイヤーのCSS style属性設定 */
+  style?: LayerStyle;
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
+  /** サークルの面積に対応させる値を取得する関数（指定時は面積が値に比例するよう平方根で半径を決定） */
+  value?: (feature: GeoJSON.Feature, index: number) => number;
+  /** 最大値のフィーチャーに対応する半径（valueを指定した場合に使用、デフォルト: 30） */
+  maxRadius?: number;
+  /** サークルの半径（固定値または関数、valueを指定した場合は無視されます） */
+  r?: number | ((feature: GeoJSON.Feature, index: number) => number);
+  /** サークル同士の間隔（ピクセル単位、デフォルト: 1） */
+  padding?: number;
+  /** 本来の位置に引き戻す力の強さ（0-1、デフォルト: 0.1） */
+  strength?: number;
+  /** シミュレーションの反復回数（デフォルト: 200） */
+  iterations?: number;
+  /** 本来の位置への引き出し線を描画するか（デフォルト: false） */
+  leaderLines?: boolean;
+  /** 引き出し線の色（デフォルト: '#666666'） */
+  leaderLineStroke?: string;
+  /** 引き出し線の幅（デフォルト: 0.5） */
+  leaderLineWidth?: number;
+}
+
+/**
+ * Dorling配置のノード
+ */
+export interface DorlingNode {
+  /** 元のフィーチャー */
+  feature: GeoJSON.Feature;
+  /** フィーチャーのインデックス（フォースシミュレーションが設定するindexとは異なります） */
+  featureIndex: number;
+  /** 本来の投影座標X */
+  originX: number;
+  /** 本来の投影座標Y */
+  originY: number;
+  /** 配置後の座標X */
+  x: number;
+  /** 配置後の座標Y */
+  y: number;
+  /** サークルの半径 */
+  r: number;
+}
+
+/**
+ * 比例シンボルを重ならないように配置するDorlingカルトグラムレイヤークラス
+ * 投影後の画面座標上で衝突判定のフォースシミュレーションを実行し、サークルを配置します
+ */
+export class DorlingLayer extends BaseLayer implements IGeojsonLayer {
+  /** GeoJSONデータ */
+  private data: GeoJSON.FeatureCollection;
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
+  /** 投影法 */
+  private projection?: GeoProjection;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+  /** サークルの半径設定 */
+  private radiusFunction: (feature: GeoJSON.Feature, index: number) => number;
+  /** サークル同士の間隔 */
+  private padding: number;
+  /** 本来の位置に引き戻す力の強さ */
+  private strength: number;
+  /** シミュレーションの反復回数 */
+  private iterations: number;
+  /** 引き出し線を描画するか */
+  private leaderLines: boolean;
+  /** 引き出し線の色 */
+  private leaderLineStroke: string;
+  /** 引き出し線の幅 */
+  private leaderLineWidth: number;
+  /** 最後に計算した配置 */
+  private nodes: DorlingNode[] = [];
+
+  /**
+   * DorlingLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: DorlingLayerOptions) {
+    // 一意のIDを自動生成
+    super(`dorling-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
+
+    // データの正規化
+    this.data = normalizeLayerData(options.data);
+    this.placement = options.placement ?? 'vertex-mean';
+
+    this.padding = options.padding ?? 1;
+    this.strength = options.strength ?? 0.1;
+    this.iterations = options.iterations ?? 200;
+    this.leaderLines = options.leaderLines ?? false;
+    this.leaderLineStroke = options.leaderLineStroke || '#666666';
+    this.leaderLineWidth = options.leaderLineWidth ?? 0.5;
+
+    // 半径設定の処理
+    if (options.value) {
+      this.radiusFunction = this.createSqrtRadius(options.value, options.maxRadius ?? 30);
+    } else if (typeof options.r === 'function') {
+      this.radiusFunction = options.r;
+    } else {
+      const radius = options.r || 5; // デフォルト半径は5
+      this.radiusFunction = () => radius;
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderCircles();
+  }
+
+  /**
+   * 投影法を設定します
+   * 画面座標が変わるため配置を再計算します
+   * @param projection - 新しい投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    if (this.layerGroup) {
+      this.renderCircles();
+    }
+  }
+
+  /**
+   * 最後に計算した配置を取得します
+   * @returns 配置済みのノード一覧
+   */
+  getNodes(): DorlingNode[] {
+    return this.nodes;
+  }
+
+  /**
+   * GeoJSONデータを取得します
+   * @returns 現在のGeoJSONデータ
+   */
+  getData(): GeoJSON.FeatureCollection {
+    return this.data;
+  }
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
+  /**
+   * サークルと引き出し線を描画します
+   * @private
+   */
+  private renderCircles(): void {
+    if (!this.layerGroup || !this.projection) return;
+
+    // 既存の要素を削除
+    this.layerGroup.selectAll('g.thematika-dorling-layer').remove();
+
+    this.nodes = this.computeLayout();
+
+    const group = this.layerGroup
+      .append('g')
+      .attr('class', 'thematika-dorling-layer');
+
+    // 引き出し線はサークルの下に描画
+    if (this.leaderLines) {
+      group
+        .append('g')
+        .attr('class', 'thematika-dorling-leader-lines')
+        .selectAll('line')
+        .data(this.nodes.filter(d => Math.hypot(d.x - d.originX, d.y - d.originY) > d.r))
+        .enter()
+        .append('line')
+        .attr('class', 'thematika-dorling-leader-line')
+        .attr('x1', d => d.originX)
+        .attr('y1', d => d.originY)
+        .attr('x2', d => d.x)
+        .attr('y2', d => d.y)
+        .attr('stroke', this.leaderLineStroke)
+        .attr('stroke-width', this.leaderLineWidth);
+    }
+
+    const circles = group
+      .selectAll('circle')
+      .data(this.nodes)
+      .enter()
+      .append('circle')
+      .attr('cx', d => d.x)
+      .attr('cy', d => d.y)
+      .attr('r', d => d.r)
+      .attr('class', d => {
+        const baseClass = 'thematika-dorling-circle';
+        const customClass = this.attr.className || '';
+        const featureClass = (d.feature.properties?.class as string) || '';
+        return [baseClass, customClass, featureClass].filter(Boolean).join(' ');
+      });
+
+    // 属性とスタイルを適用
+    this.applyNodeStyles(circles);
+  }
+
+  /**
+   * サークルに属性とスタイルを適用します
+   * 関数で指定された値は、除外されたフィーチャーがあっても元のフィーチャーとそのインデックスで評価されます
+   * @private
+   * @param circles - サークル要素
+   */
+  private applyNodeStyles(circles: Selection<SVGCircleElement, DorlingNode, SVGGElement, unknown>): void {
+    if (!this.layerGroup) return;
+
+    Object.entries(this.attr).forEach(([property, value]) => {
+      if (value === undefined) return;
+      if (typeof value === 'function') {
+        circles.attr(property, d => value(d.feature, d.featureIndex));
+      } else {
+        this.layerGroup!.attr(property, value);
+      }
+    });
+
+    Object.entries(this.style || {}).forEach(([property, value]) => {
+      if (value === undefined) return;
+      if (typeof value === 'function') {
+        circles.style(property, d => value(d.feature, d.featureIndex));
+      } else {
+        this.layerGroup!.style(property, value);
+      }
+    });
+  }
+
+  /**
+   * 衝突判定のフォースシミュレーションでサークルの配置を計算します
+   * @private
+   * @returns 配置済みのノード一覧
+   */
+  private computeLayout(): DorlingNode[] {
+    if (!this.projection) return [];
+
+    const nodes: DorlingNode[] = [];
+    this.data.features.forEach((feature, index) => {
+      if (!feature.geometry) return;
+
+      let coordinates: [number, number];
+      if (feature.geometry.type === 'Point') {
+        coordinates = feature.geometry.coordinates as [number, number];
+      } else {
+        // ポリゴンやラインの場合は配置方法に応じた代表点を使用
+        const centroid = getRepresentativePoint(feature, this.placement);
+        coordinates = [centroid.x, centroid.y];
+      }
+
+      const projected = this.projection!(coordinates);
+      if (!projected || !isFinite(projected[0]) || !isFinite(projected[1])) return;
+
+      const r = this.radiusFunction(feature, index);
+      if (!(r > 0)) return;
+
+      nodes.push({
+        feature,
+        featureIndex: index,
+        originX: projected[0],
+        originY: projected[1],
+        x: projected[0],
+        y: projected[1],
+        r
+      });
+    });
+
+    // アニメーションは行わず、固定回数実行して即座に収束させる
+    const simulation = forceSimulation<DorlingNode>(nodes)
+      .force('x', forceX<DorlingNode>(d => d.originX).strength(this.strength))
+      .force('y', forceY<DorlingNode>(d => d.originY).strength(this.strength))
+      .force('collide', forceCollide<DorlingNode>(d => d.r + this.padding).iterations(3))
+      .stop();
+
+    for (let i = 0; i < this.iterations; i++) {
+      simulation.tick();
+    }
+
+    return nodes;
+  }
+
+  /**
+   * 面積が値に比例する半径関数を作成します
+   * @private
+   * @param value - 値の取得関数
+   * @param maxRadius - 最大値に対応する半径
+   * @returns 半径関数
+   */
+  private createSqrtRadius(
+    value: (feature: GeoJSON.Feature, index: number) => number,
+    maxRadius: number
+  ): (feature: GeoJSON.Feature, index: number) => number {
+    const maxValue = this.data.features.reduce((max, feature, index) => {
+      const v = value(feature, index);
+      return isFinite(v) && v > max ? v : max;
+    }, 0);
+
+    return (feature, index) => {
+      const v = value(feature, index);
+      if (!isFinite(v) || v <= 0 || maxValue <= 0) return 0;
+      return maxRadius * Math.sqrt(v / maxValue);
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { Selection } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { LayerAttr, LayerStyle, IGeojsonLayer, LayerData } from '../types';
+import {
+  generateDotDensityPoints,
+  DotDensityCategory,
+  DotDensityProperties
+} from '../utils/dot-density-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
+
+/**
+ * DotDensityLayerの初期化オプション
+ */
+export interface DotDensityLayerOptions {
+  /** GeoJSONデータ（ポリゴン、TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
+  /** フィーチャーから値を取得する関数（単一カテゴリの場合） */
+  value?: (feature: GeoJSON.Feature, index: number) => number | null | undefined;
+  /** カテゴリ一覧（複数カテゴリの場合、valueより優先されます） */
+  categories?: DotDensityCategory[];
+  /** ドット1個あたりの値 */
+  valuePerDot: number;
+  /** 乱数のシード値（デフォルト: 1） */
+  seed?: number;
+  /** ドットの半径（デフォルト: 1） */
+  r?: number;
+  /** レイヤーの属性設定 */
+  attr?: LayerAttr;
+  /** レイヤーのCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * ドットの描画データ
+ */
+interface DotDatum {
+  /** 元のフィーチャー */
+  feature: GeoJSON.Feature;
+  /** 元のフィーチャーのインデックス */
+  index: number;
+  /** ドットの色（カテゴリに色が指定されている場合） */
+  color?: string;
+  /** 投影後の座標X */
+  x: number;
+  /** 投影後の座標Y */
+  y: number;
+}
+
+/**
+ * ポリゴン内部にランダムなドットを描画するドット密度図レイヤークラス
+ * ドットはシード値から決定的に生成されるため、再描画しても配置は変わりません
+ */
+export class DotDensityLayer extends BaseLayer implements IGeojsonLayer {
+  /** GeoJSONデータ */
+  private data: GeoJSON.FeatureCollection;
+  /** カテゴリ一覧 */
+  private categories: DotDensityCategory[];
+  /** 生成したドット */
+  private dots: GeoJSON.FeatureCollection<GeoJSON.Point, DotDensityProperties>;
+  /** ドットの半径 */
+  private radius: number;
+  /** 投影法 */
+  private projection?: GeoProjection;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * DotDensityLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: DotDensityLayerOptions) {
+    // 一意のIDを自動生成
+    super(`dot-density-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
+
+    // データの正規化
+    this.data = normalizeLayerData(options.data);
+
+    if (options.categories && options.categories.length > 0) {
+      this.categories = options.categories;
+    } else if (options.value) {
+      this.categories = [{ name: 'value', value: options.value }];
+    } else {
+      throw new Error('valueまたはcategoriesの指定が必要です');
+    }
+
+    this.radius = options.r ?? 1;
+    this.dots = generateDotDensityPoints(this.data, {
+      categories: this.categories,
+      valuePerDot: options.valuePerDot,
+      seed: options.seed
+    });
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderDots();
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 新しい投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    if (this.layerGroup) {
+      this.renderDots();
+    }
+  }
+
+  /**
+   * 生成したドットを取得します
+   * @returns ドットのFeatureCollection（経緯度座標）
+   */
+  getDots(): GeoJSON.FeatureCollection<GeoJSON.Point, DotDensityProperties> {
+    return this.dots;
+  }
+
+  /**
+   * GeoJSONデータを取得します
+   * @returns 現在のGeoJSONデータ
+   */
+  getData(): GeoJSON.FeatureCollection {
+    return this.data;
+  }
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
+  /**
+   * ドットを描画します
+   * @private
+   */
+  private renderDots(): void {
+    if (!this.layerGroup || !this.projection) return;
+
+    // 既存のドットを削除
+    this.layerGroup.selectAll('g.thematika-dot-density-layer').remove();
+
+    const dotData: DotDatum[] = [];
+    this.dots.features.forEach(dot => {
+      const projected = this.projection!(dot.geometry.coordinates as [number, number]);
+      if (!projected) return;
+
+      const { featureIndex, categoryIndex } = dot.properties;
+      dotData.push({
+        feature: this.data.features[featureIndex],
+        index: featureIndex,
+        color: this.categories[categoryIndex].color,
+        x: projected[0],
+        y: projected[1]
+      });
+    });
+
+    const circles = this.layerGroup
+      .append('g')
+      .attr('class', 'thematika-dot-density-layer')
+      .selectAll('circle')
+      .data(dotData)
+      .enter()
+      .append('circle')
+      .attr('cx', d => d.x)
+      .attr('cy', d => d.y)
+      .attr('r', this.radius)
+      .attr('class', d => {
+        const baseClass = 'thematika-dot';
+        const customClass = this.attr.className || '';
+        const featureClass = (d.feature.properties?.class as string) || '';
+        return [baseClass, customClass, featureClass].filter(Boolean).join(' ');
+      });
+
+    this.applyDotStyles(circles);
+  }
+
+  /**
+   * ドットに属性とスタイルを適用します
+   * 関数で指定された値は、ドットを生成した元のフィーチャーとそのインデックスで評価されます。
+   * カテゴリの色は要素に直接指定し、レイヤー全体のfillより優先させます
+   * @private
+   * @param circles - ドットのサークル要素
+   */
+  private applyDotStyles(circles: Selection<SVGCircleElement, DotDatum, SVGGElement, unknown>): void {
+    if (!this.layerGroup) return;
+
+    Object.entries(this.attr).forEach(([property, value]) => {
+      if (value === undefined) return;
+      if (typeof value === 'function') {
+        circles.attr(property, d => (property === 'fill' && d.color) || value(d.feature, d.index));
+      } else {
+        this.layerGroup!.attr(property, value);
+      }
+    });
+
+    if (this.categories.some(category => category.color) && typeof this.attr.fill !== 'function') {
+      circles.attr('fill', d => d.color || null);
+    }
+
+    Object.entries(this.style || {}).forEach(([property, value]) => {
+      if (value === undefined) return;
+      if (typeof value === 'function') {
+        circles.style(property, d => (property === 'fill' && d.color) || value(d.feature, d.index));
+      } else {
+        this.layerGroup!.style(property, value);
+      }
+    });
+  }
+}
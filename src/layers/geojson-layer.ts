@@ -1,30 +1,57 @@
 import { Selection } from 'd3-selection';
-import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
+import { geoPath, geoContains, GeoPath, GeoProjection } from 'd3-geo';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer } from '../types';
+import { LayerAttr, LayerStyle, LayerRenderer, IGeojsonLayer, IRendererSwitchableLayer, IDataUpdatableLayer, ITemporalLayer, DataTransitionOptions, TemporalLayerOptions, LayerData } from '../types';
+import { CanvasRenderer, resolveCanvasStyle } from '../core/canvas-renderer';
+import { startTransition } from '../core/transition';
+import { TemporalFeatures } from '../core/temporal-features';
+import { createSimplifier, SimplifyOptions } from '../utils/geometry-utils';
+import { getProjectionPixelsPerDegree } from '../utils/projection-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * GeojsonLayerの初期化オプション
  */
-export interface GeojsonLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+export interface GeojsonLayerOptions extends TemporalLayerOptions {
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** レイヤーのSVG属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
   style?: LayerStyle;
+  /** 描画方式（未指定の場合はMapの設定に従い、既定は'svg'） */
+  renderer?: LayerRenderer;
+  /**
+   * 描画前の形状の簡略化（許容誤差は投影後のピクセル、数値の場合はDouglas-Peucker法の許容誤差）
+   * 縮尺に合わせて簡略化されるため、小縮尺で細かな形状を含むデータの描画を軽くできます
+   * 頂点の重要度はデータごとに1度だけ計算し、許容誤差は投影の中心付近の縮尺で経緯度に換算します
+   */
+  simplify?: number | Omit<SimplifyOptions, 'projection'>;
 }
 
 /**
  * GeoJSONデータを描画するレイヤークラス
  */
-export class GeojsonLayer extends BaseLayer implements IGeojsonLayer {
-  /** GeoJSONデータ */
-  private data: GeoJSON.FeatureCollection;
+export class GeojsonLayer extends BaseLayer implements IGeojsonLayer, IRendererSwitchableLayer, IDataUpdatableLayer, ITemporalLayer {
+  /** 全ての日時を含むGeoJSONデータと表示中のデータ */
+  private temporal: TemporalFeatures;
   /** パス生成器 */
   private path?: GeoPath;
   /** レイヤーグループ */
   private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+  /** 描画方式 */
+  private renderer?: LayerRenderer;
+  /** 実行中のデータ更新の遷移を終了させる関数 */
+  private finishDataTransition?: () => void;
+  /** 形状の簡略化の設定 */
+  private simplifyOptions?: Omit<SimplifyOptions, 'projection'>;
+  /** 簡略化のキャッシュ（元のデータが同じ間は頂点の重要度を、許容誤差も同じ間は簡略化したデータを再利用） */
+  private simplified?: {
+    source: GeoJSON.FeatureCollection;
+    simplify: (tolerance: number) => GeoJSON.FeatureCollection;
+    tolerance?: number;
+    data?: GeoJSON.FeatureCollection;
+  };
 
   /**
    * GeoJSONレイヤーを初期化します
@@ -35,19 +62,151 @@ export class GeojsonLayer extends BaseLayer implements IGeojsonLayer {
     super(`geojson-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.temporal = new TemporalFeatures(normalizeLayerData(options.data), options);
+    this.renderer = options.renderer;
+    this.simplifyOptions = typeof options.simplify === 'number' ? { tolerance: options.simplify } : options.simplify;
   }
 
   /**
    * 投影法を設定します
+   * SVGで描画済みの場合は要素を作り直さずに形状のみを更新するため、要素ごとの状態は保持されます
+   * 簡略化が有効な場合は、新しい投影法で簡略化したフィーチャーを要素に結び付け直します
    * @param projection - 地図投影法
    */
   setProjection(projection: GeoProjection): void {
     this.path = geoPath(projection);
+    if (!this.layerGroup) return;
+
+    if (this.renderer !== 'canvas') {
+      let paths = this.layerGroup.selectAll<SVGPathElement, GeoJSON.Feature>('.thematika-geojson-layer path');
+      if (!paths.empty()) {
+        if (this.simplifyOptions) {
+          // 削除中の要素が残らないよう遷移を終えてから、表示中のフィーチャーと同じ順で結び付け直す
+          this.finishDataTransition?.();
+          paths = this.layerGroup
+            .selectAll<SVGPathElement, GeoJSON.Feature>('.thematika-geojson-layer path')
+            .data(this.getRenderData().features);
+        }
+        paths.attr('d', this.path);
+        return;
+      }
+    }
+
+    this.layerGroup.selectAll('.thematika-geojson-layer').remove();
+    this.renderFeatures();
+  }
+
+  /**
+   * データを更新します
+   *
+   * SVGで描画済みの場合はキーでフィーチャーを対応付け、追加されたフィーチャーをフェードイン、
+   * 削除されたフィーチャーをフェードアウトし、残ったフィーチャーは要素を保ったまま形状とスタイルを更新します。
+   * Canvas描画の場合は即座に再描画します。
+   *
+   * @param data - 新しいGeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名）
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise
+   */
+  setData(data: LayerData, options: DataTransitionOptions = {}): Promise<void> {
+    this.temporal.setData(normalizeLayerData(data));
+    return this.updateFeatures(options);
+  }
+
+  /**
+   * 表示する日時を設定します
+   * timeAccessorが設定されている場合、日時に該当するフィーチャーのみを遷移なしで表示します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   */
+  setTime(time: number | null): void {
+    if (this.temporal.setTime(time)) {
+      this.updateFeatures({ key: this.temporal.getTimeKey(), duration: 0 });
+    }
+  }
+
+  /**
+   * データに含まれる日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列（timeAccessorが未設定の場合は空配列）
+   */
+  getTimeSteps(): number[] {
+    return this.temporal.getTimeSteps();
+  }
+
+  /**
+   * 表示するデータを更新し、描画済みの要素に反映します
+   * @private
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise
+   */
+  private updateFeatures(options: DataTransitionOptions): Promise<void> {
+    this.finishDataTransition?.();
+    if (!this.layerGroup || !this.path) return Promise.resolve();
+
+    const group = this.layerGroup.select<SVGGElement>('g.thematika-geojson-layer');
+    if (this.renderer === 'canvas' || group.empty()) {
+      this.layerGroup.selectAll('.thematika-geojson-layer').remove();
+      this.renderFeatures();
+      return Promise.resolve();
+    }
+
+    const key = options.key ?? ((feature: GeoJSON.Feature, index: number) => feature.id ?? index);
+    const paths = group
+      .selectAll<SVGPathElement, GeoJSON.Feature>('path')
+      .data(this.getRenderData().features, (feature, index) => String(key(feature, index)));
+
+    const exiting = paths.exit<GeoJSON.Feature>();
+    const entering = paths.enter().append('path');
+    const merged = entering.merge(paths)
+      .attr('d', this.path)
+      .attr('class', d => this.getFeatureClass(d))
+      .order();
+    this.applyAllStylesToElements(merged, this.layerGroup);
+    entering.style('opacity', 0);
+
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      this.finishDataTransition = undefined;
+      exiting.remove();
+      // フェード用の透明度を解除し、style設定の透明度に戻す
+      entering.style('opacity', null);
+      this.applyAllStylesToElements(entering, this.layerGroup!);
+    };
+
+    // 最後のフレームで終了させる（durationが0の場合は同期的に反映される）
+    const transition = startTransition(t => {
+      if (finished) return;
+      entering.style('opacity', t);
+      exiting.style('opacity', 1 - t);
+      if (t >= 1) finish();
+    }, options);
+    if (!finished) {
+      this.finishDataTransition = () => {
+        transition.cancel();
+        finish();
+      };
+    }
+
+    return transition.finished.then(finish);
+  }
+
+  /**
+   * 描画方式を取得します
+   * @returns 描画方式（未設定の場合はundefined）
+   */
+  getRenderer(): LayerRenderer | undefined {
+    return this.renderer;
+  }
+
+  /**
+   * 描画方式を設定します
+   * 描画済みの場合は新しい方式で再描画します
+   * @param renderer - 描画方式
+   */
+  setRenderer(renderer: LayerRenderer): void {
+    this.renderer = renderer;
     if (this.layerGroup) {
-      this.layerGroup.selectAll('path').remove();
+      this.layerGroup.selectAll('.thematika-geojson-layer').remove();
       this.renderFeatures();
     }
   }
@@ -71,34 +230,144 @@ export class GeojsonLayer extends BaseLayer implements IGeojsonLayer {
   private renderFeatures(): void {
     if (!this.layerGroup || !this.path) return;
 
+    if (this.renderer === 'canvas') {
+      this.renderFeaturesToCanvas();
+      return;
+    }
+
     // パス要素を作成
     const paths = this.layerGroup
       .append('g')
       .attr('class', 'thematika-geojson-layer')
       .selectAll('path')
-      .data(this.data.features)
+      .data(this.getRenderData().features)
       .enter()
       .append('path')
       .attr('d', this.path)
-      .attr('class', d => {
-        const baseClass = 'thematika-feature';
-        const customClass = this.attr.className || '';
-        const featureClass = (d.properties?.class as string) || '';
-        return [baseClass, customClass, featureClass].filter(Boolean).join(' ');
-      })
+      .attr('class', d => this.getFeatureClass(d))
 
     // SVG属性とスタイルを適用（共通メソッドを使用）
     this.applyAllStylesToElements(paths, this.layerGroup);
   }
 
+  /**
+   * 描画するデータを取得します
+   * 簡略化が有効な場合は現在の縮尺で簡略化したデータを返します（フィーチャーの順序と数は表示中のデータと同じ）
+   * @private
+   * @returns 描画するFeatureCollection
+   */
+  private getRenderData(): GeoJSON.FeatureCollection {
+    if (!this.simplifyOptions || !this.path) return this.temporal.getData();
+
+    const pixelsPerDegree = getProjectionPixelsPerDegree(this.path.projection() as GeoProjection);
+    if (!(pixelsPerDegree > 0)) return this.temporal.getData();
+
+    // ズーム中に縮尺が変わるたびに簡略化し直さないよう、許容誤差を2^(1/4)倍ごとの段階に切り下げる
+    const tolerance = Math.pow(2, Math.floor(Math.log2(this.simplifyOptions.tolerance / pixelsPerDegree) * 4) / 4);
+
+    const data = this.temporal.getData();
+    if (!this.simplified || this.simplified.source !== data) {
+      this.simplified = { source: data, simplify: createSimplifier(data, this.simplifyOptions.method) };
+    }
+    if (this.simplified.tolerance !== tolerance || !this.simplified.data) {
+      this.simplified.tolerance = tolerance;
+      this.simplified.data = this.simplified.simplify(tolerance);
+    }
+    return this.simplified.data;
+  }
+
+  /**
+   * フィーチャーの要素に設定するクラス名を取得します
+   * @private
+   * @param feature - フィーチャー
+   * @returns クラス名
+   */
+  private getFeatureClass(feature: GeoJSON.Feature): string {
+    const baseClass = 'thematika-feature';
+    const customClass = this.attr.className || '';
+    const featureClass = (feature.properties?.class as string) || '';
+    return [baseClass, customClass, featureClass].filter(Boolean).join(' ');
+  }
+
+  /**
+   * フィーチャーをCanvasに描画します
+   * attr/styleはSVG描画と同じくフィーチャーとインデックスで評価されます
+   * @private
+   */
+  private renderFeaturesToCanvas(): void {
+    if (!this.layerGroup || !this.path) return;
 
+    const renderer = CanvasRenderer.create(this.layerGroup, 'thematika-geojson-layer');
+    if (!renderer) return;
+
+    const canvasPath = geoPath(this.path.projection() as GeoProjection, renderer.getContext());
+    this.getRenderData().features.forEach((feature, index) => {
+      renderer.draw(() => canvasPath(feature), resolveCanvasStyle(this.attr, this.style, feature, index));
+    });
+  }
+
+  /**
+   * Canvas描画時に座標からフィーチャーを判定します
+   * ポリゴンを含むフィーチャーのみが対象で、上に描画されたフィーチャーを優先します
+   * @param pixel - レイヤーグループ座標系での位置 [x, y]
+   * @returns フィーチャーとインデックス、該当なしの場合はnull
+   * @protected
+   */
+  protected hitTest(pixel: [number, number]): { feature: GeoJSON.Feature; index: number } | null {
+    if (this.renderer !== 'canvas') return null;
+
+    const projection = this.getEventProjection();
+    const coordinates = projection && projection.invert ? projection.invert(pixel) : null;
+    if (!coordinates) return null;
+
+    // 描画した形状で判定し、簡略化前のフィーチャーを返す
+    const features = this.getRenderData().features;
+    for (let index = features.length - 1; index >= 0; index--) {
+      const feature = features[index];
+      const type = feature.geometry?.type;
+      if ((type === 'Polygon' || type === 'MultiPolygon') && geoContains(feature, coordinates)) {
+        return { feature: this.temporal.getData().features[index], index };
+      }
+    }
+    return null;
+  }
+
+
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.path ? this.path.projection() as GeoProjection : undefined;
+  }
+
+  /**
+   * 要素のデータからフィーチャーとインデックスを取得します
+   * フィーチャーが直接バインドされているため、インデックスはデータ配列から求めます
+   * 簡略化が有効な場合は、要素に結び付けた簡略化後のフィーチャーではなく元のフィーチャーを返します
+   * @param datum - 要素にバインドされたデータ
+   * @returns フィーチャーとインデックス、対象外の場合はnull
+   * @protected
+   */
+  protected resolveEventFeature(datum: any): { feature: GeoJSON.Feature; index: number } | null {
+    const resolved = super.resolveEventFeature(datum);
+    if (resolved && resolved.index < 0) {
+      resolved.index = this.getRenderData().features.indexOf(resolved.feature);
+      if (resolved.index >= 0) {
+        resolved.feature = this.temporal.getData().features[resolved.index];
+      }
+    }
+    return resolved;
+  }
 
   /**
    * GeoJSONデータを取得します
-   * @returns 現在のGeoJSONデータ
+   * @returns 現在表示しているGeoJSONデータ
    */
   getData(): GeoJSON.FeatureCollection {
-    return this.data;
+    return this.temporal.getData();
   }
 
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { Selection } from 'd3-selection';
+import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { LayerAttr, LayerStyle } from '../types';
+import { generateHachures, HachureOptions } from '../utils/hachure-utils';
+import { ContourGridSource, generateIsolines, toContourGrid } from '../utils/contour-utils';
+import { getRasterCellSize } from '../utils/raster-utils';
+
+/**
+ * HachureLayerの初期化オプション
+ */
+export interface HachureLayerOptions extends Partial<Omit<HachureOptions, 'spacing' | 'length'>> {
+  /** グリッド（readCOGBandの結果などのラスタバンド、または2次元配列と境界） */
+  data: ContourGridSource;
+  /**
+   * ハッチング線の間隔（グリッドの画素数、デフォルト: 2）
+   * 画素の大きさは境界から求め、経緯度の境界はメートルに換算します
+   */
+  spacing?: number;
+  /** ハッチング線の長さ（グリッドの画素数、デフォルト: 1.5） */
+  length?: number;
+  /** ハッチングの基準とする等値線の間隔（データ単位） */
+  interval: number;
+  /** 基準値（等値線は基準値 + 間隔の整数倍、デフォルト: 0） */
+  base?: number;
+  /** ハッチング線のSVG属性設定 */
+  attr?: LayerAttr;
+  /** ハッチング線のCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * 標高などのグリッドからケバ（ハッチング）で地形を表現するレイヤークラス
+ *
+ * グリッドから等値線を生成し、generateHachuresで等値線に直交する短い線を配置します。
+ * 間隔と長さはグリッドの画素数で指定するため、グリッドの範囲や解像度によらず同程度の密度になります。
+ * ハッチング線の各フィーチャーはproperties.elevationに基準とした等値線の値を持ちます。
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif');
+ * map.addLayer('hachures', new HachureLayer({
+ *   data: dem,
+ *   interval: 50,
+ *   spacing: 3,
+ *   length: 2,
+ *   attr: { stroke: '#5b4636', strokeWidth: 0.4 }
+ * }));
+ * ```
+ */
+export class HachureLayer extends BaseLayer {
+  /** グリッド */
+  private data: ContourGridSource;
+  /** 等値線の間隔 */
+  private interval: number;
+  /** 基準値 */
+  private base: number;
+  /** ハッチングの生成オプション（間隔と長さはグリッドの画素数） */
+  private hachureOptions: HachureOptions;
+  /** 生成したハッチング線 */
+  private hachures?: GeoJSON.FeatureCollection<GeoJSON.LineString>;
+  /** パス生成器 */
+  private path?: GeoPath;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * HachureLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: HachureLayerOptions) {
+    // 一意のIDを自動生成（ハッチング線は塗りつぶさない）
+    super(`hachure-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, { fill: 'none', ...options.attr }, options.style);
+
+    if (!(options.interval > 0)) {
+      throw new Error(`等値線の間隔は正の値で指定してください: ${options.interval}`);
+    }
+
+    if (options.spacing !== undefined && !(options.spacing > 0)) {
+      throw new Error(`ハッチング線の間隔は正の値で指定してください: ${options.spacing}`);
+    }
+
+    this.data = options.data;
+    this.interval = options.interval;
+    this.base = options.base ?? 0;
+    this.hachureOptions = {
+      spacing: options.spacing ?? 2,
+      length: options.length ?? 1.5,
+      angle: options.angle,
+      density: options.density,
+      randomness: options.randomness
+    };
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 地図投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.path = geoPath(projection);
+    if (this.layerGroup) {
+      this.layerGroup.selectAll('.thematika-hachure-layer').remove();
+      this.renderHachures();
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderHachures();
+  }
+
+  /**
+   * ハッチング線を取得します（初回の呼び出し時に生成）
+   * @returns ハッチング線のGeoJSON
+   */
+  getHachures(): GeoJSON.FeatureCollection<GeoJSON.LineString> {
+    if (!this.hachures) {
+      const grid = toContourGrid(this.data);
+      const isolines = generateIsolines(grid, { interval: this.interval, base: this.base, indexInterval: 0 });
+
+      // 画素数で指定した間隔と長さを、generateHachuresが扱うメートルに換算する
+      const [cellX, cellY] = getRasterCellSize(grid);
+      const cellSize = (Math.abs(cellX) + Math.abs(cellY)) / 2;
+      this.hachures = generateHachures(isolines, {
+        ...this.hachureOptions,
+        spacing: this.hachureOptions.spacing * cellSize,
+        length: this.hachureOptions.length * cellSize
+      });
+    }
+    return this.hachures;
+  }
+
+  /**
+   * ハッチング線を描画します
+   * @private
+   */
+  private renderHachures(): void {
+    if (!this.layerGroup || !this.path) return;
+
+    const customClass = this.attr.className || '';
+    const paths = this.layerGroup
+      .append('g')
+      .attr('class', 'thematika-hachure-layer')
+      .selectAll('path')
+      .data(this.getHachures().features)
+      .enter()
+      .append('path')
+      .attr('d', this.path)
+      .attr('class', ['thematika-hachure', customClass].filter(Boolean).join(' '));
+
+    this.applyAllStylesToElements(paths, this.layerGroup);
+  }
+}
@@ -2,6 +2,14 @@ import { Selection, select } from 'd3-selection';
 import { GeoProjection, geoPath, geoEquirectangular } from 'd3-geo';
 import { BaseLayer } from './base-layer';
 import { LayerAttr, LayerStyle } from '../types';
+import { reprojectRaster, ImageInterpolation } from '../utils/resample-utils';
+import { getProjectionKey } from '../utils/projection-utils';
+import { probeAffineProjection, ProjectionProbeResult } from '../utils/test-utils';
+
+/**
+ * 保持する再投影結果の最大数
+ */
+const REPROJECTION_CACHE_SIZE = 8;
 
 /**
  * 画像レイヤーのオプション
@@ -17,11 +25,43 @@ export interface ImageLayerOptions {
   style?: LayerStyle;
   /** bboxの四隅にマーカーを表示するかどうか */
   showBboxMarkers?: boolean;
+  /** 画像自体の投影法（デフォルト: 'equirectangular'。XYZタイルなどWeb Mercator画像は'mercator'） */
+  sourceProjection?: ImageSourceProjection;
+  /** 再投影時の画素値の補間方法（デフォルト: 'nearest'） */
+  interpolation?: ImageInterpolation;
+  /** 再投影の補間をWeb Workerで行うか（デフォルト: true） */
+  useWorker?: boolean;
+  /** 再投影の進捗の通知（0〜1） */
+  onProgress?: (progress: number) => void;
 }
 
+/**
+ * 再投影した画像
+ */
+interface ReprojectedImage {
+  /** 画像のData URL */
+  dataUrl: string;
+  /** 配置位置X */
+  x: number;
+  /** 配置位置Y */
+  y: number;
+  /** 幅 */
+  width: number;
+  /** 高さ */
+  height: number;
+}
+
+/**
+ * 画像自体の投影法
+ * - equirectangular: 経緯度が画像の縦横に線形に対応
+ * - mercator: Web Mercator（EPSG:3857）で作成された画像
+ */
+export type ImageSourceProjection = 'equirectangular' | 'mercator';
+
 /**
  * 画像を地図上に表示するレイヤー
- * Equirectangular投影法の場合は高速に描画し、
+ * 画像の範囲で投影法がアフィン変換とみなせる場合（Equirectangular画像とEquirectangular投影法、
+ * Web Mercatorタイルとメルカトル投影法など）は画像をそのまま配置して高速に描画し、
  * その他の投影法では画像を再投影して表示します
  */
 export class ImageLayer extends BaseLayer {
@@ -30,6 +70,14 @@ export class ImageLayer extends BaseLayer {
   private projection?: GeoProjection;
   private imageElement?: Selection<SVGImageElement, unknown, any, any>;
   private showBboxMarkers: boolean;
+  private sourceProjection: ImageSourceProjection;
+  private interpolation: ImageInterpolation;
+  private useWorker: boolean;
+  private onProgress?: (progress: number) => void;
+  /** 再投影結果のキャッシュ（キーは投影法の状態と補間方法、挿入順が古い順） */
+  private reprojectionCache: Map<string, ReprojectedImage> = new Map();
+  /** 最新の描画要求の番号（古い要求の結果を破棄するために使用） */
+  private renderRequest: number = 0;
 
   /**
    * ImageLayerを初期化します
@@ -41,6 +89,10 @@ export class ImageLayer extends BaseLayer {
     this.src = options.src;
     this.bounds = options.bounds;
     this.showBboxMarkers = options.showBboxMarkers ?? false;
+    this.sourceProjection = options.sourceProjection ?? 'equirectangular';
+    this.interpolation = options.interpolation ?? 'nearest';
+    this.useWorker = options.useWorker ?? true;
+    this.onProgress = options.onProgress;
   }
 
   /**
@@ -58,11 +110,13 @@ export class ImageLayer extends BaseLayer {
       selection.selectAll('.bbox-marker').remove();
       selection.selectAll('.bbox-marker-label').remove();
       
+      const request = ++this.renderRequest;
       this.loadImage(this.src).then(img => {
+        if (request !== this.renderRequest) return;
         if (this.canUseDirectRendering(this.projection!)) {
           this.renderDirect(img);
         } else {
-          this.renderReprojected(img);
+          this.renderReprojected(img, request);
         }
       }).catch(error => {
         console.error('ImageLayer: 更新に失敗しました', error);
@@ -89,11 +143,13 @@ export class ImageLayer extends BaseLayer {
     }
     
     this.element = g.node() as SVGGElement;
+    const request = ++this.renderRequest;
 
 
 
     try {
       const img = await this.loadImage(this.src);
+      if (request !== this.renderRequest) return;
 
       
       if (this.canUseDirectRendering(this.projection)) {
@@ -101,7 +157,7 @@ export class ImageLayer extends BaseLayer {
         await this.renderDirect(img);
       } else {
         console.log("repuro")
-        await this.renderReprojected(img);
+        await this.renderReprojected(img, request);
       }
     } catch (error) {
       console.error('ImageLayer: 画像の描画に失敗しました', error);
@@ -129,65 +185,75 @@ export class ImageLayer extends BaseLayer {
    * @returns 高速描画が可能な場合はtrue
    */
   private canUseDirectRendering(projection: GeoProjection): boolean {
-    // Equirectangular投影法のみ高速描画を使用
-    return this.isEquirectangularProjection(projection);
+    return this.probeProjection(projection).isAffine;
   }
 
   /**
-   * Equirectangular投影法かどうかを判定します
+   * 画像の範囲で投影法がアフィン変換とみなせるかを格子点の投影結果から判定します
    * @param projection - 投影法
-   * @returns Equirectangular投影法の場合はtrue
+   * @returns 判定結果
    */
-  private isEquirectangularProjection(projection: GeoProjection): boolean {
-    const projString = projection.toString ? projection.toString() : '';
-    return projString.includes('equirectangular') || 
-           projString.includes('Equirectangular');
+  private probeProjection(projection: GeoProjection): ProjectionProbeResult {
+    return probeAffineProjection(projection, this.bounds, { kind: this.sourceProjection });
   }
 
   /**
-   * 画像を高速に直接描画します（Equirectangular投影法用）
+   * 画像を高速に直接描画します（画像の範囲で投影法がアフィン変換とみなせる場合）
    * @param img - 画像要素
    */
   private renderDirect(img: HTMLImageElement): void {
     if (!this.element || !this.projection) return;
 
-
-    console.log(this.bounds)
-
-
     const [west, south, east, north] = this.bounds;
 
-    
-
     // 境界の四隅を投影法で座標変換
     const topLeft = this.projection([west, north]);
     const topRight = this.projection([east, north]);
     const bottomLeft = this.projection([west, south]);
     const bottomRight = this.projection([east, south]);
+    const { transform } = this.probeProjection(this.projection);
     
-    if (!topLeft || !bottomRight) {
+    if (!topLeft || !topRight || !bottomLeft || !bottomRight || !transform) {
       console.warn('ImageLayer: 境界が投影範囲外です');
       return;
     }
-    
-    const projectedX = topLeft[0];
-    const projectedY = topLeft[1];
-    const projectedWidth = Math.abs(bottomRight[0] - topLeft[0]);
-    const projectedHeight = Math.abs(bottomRight[1] - topLeft[1]);
+
+    // 画像の右方向・下方向に対応するピクセル座標上のベクトル
+    const [a, b, , d, e] = transform;
+    const vNorth = this.getSourceV(north);
+    const vSouth = this.getSourceV(south);
+    const rightX = a * (east - west);
+    const rightY = d * (east - west);
+    const downX = b * (vSouth - vNorth);
+    const downY = e * (vSouth - vNorth);
 
     // 画像要素を作成
     const selection = select(this.element as any) as Selection<SVGGElement, unknown, any, any>;
 
-
-    this.imageElement = selection
+    const image = selection
       .append('image')
-      .attr('x', projectedX)
-      .attr('y', projectedY)
-      .attr('width', projectedWidth)
-      .attr('height', projectedHeight)
       .attr('href', img.src)
       .attr('preserveAspectRatio', 'none');
 
+    const epsilon = 1e-9 * (Math.abs(rightX) + Math.abs(downY));
+    if (Math.abs(rightY) <= epsilon && Math.abs(downX) <= epsilon && rightX > 0 && downY > 0) {
+      // 軸に平行で反転のない配置はx/y/width/heightで表す
+      image
+        .attr('x', topLeft[0])
+        .attr('y', topLeft[1])
+        .attr('width', rightX)
+        .attr('height', downY);
+    } else {
+      // 回転・反転・せん断を含む配置は単位正方形の画像を行列で変換する
+      image
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('width', 1)
+        .attr('height', 1)
+        .attr('transform', `matrix(${rightX},${rightY},${downX},${downY},${topLeft[0]},${topLeft[1]})`);
+    }
+    this.imageElement = image;
+
     // bbox マーカーを表示（オプション）
     if (this.showBboxMarkers) {
       this.addBboxMarkers(selection, [topLeft, topRight, bottomLeft, bottomRight]);
@@ -200,14 +266,17 @@ export class ImageLayer extends BaseLayer {
   }
 
   /**
-   * 画像を再投影して描画します（その他の投影法用）
+   * 画像を再投影して描画します（アフィン変換とみなせない投影法用）
    * @param img - 画像要素
+   * @param request - 描画要求の番号
    */
-  private async renderReprojected(img: HTMLImageElement): Promise<void> {
+  private async renderReprojected(img: HTMLImageElement, request: number): Promise<void> {
     if (!this.element || !this.projection) return;
 
     try {
-      const result = await this.reprojectImage(img);
+      const result = await this.getReprojectedImage(img);
+      // 再投影中に投影法が変更された場合は結果を破棄
+      if (request !== this.renderRequest || !this.element) return;
       
       const selection = select(this.element as any) as Selection<SVGGElement, unknown, any, any>;
       this.imageElement = selection
@@ -237,12 +306,40 @@ export class ImageLayer extends BaseLayer {
     }
   }
 
+  /**
+   * 再投影した画像を取得します
+   * 同じ投影法の状態と補間方法での結果はキャッシュから返します
+   * @param img - 元画像
+   * @returns 変換後の画像の情報
+   */
+  private async getReprojectedImage(img: HTMLImageElement): Promise<ReprojectedImage> {
+    if (!this.projection) throw new Error('投影法が設定されていません');
+
+    const key = `${getProjectionKey(this.projection)}|${this.interpolation}`;
+    const cached = this.reprojectionCache.get(key);
+    if (cached) {
+      // 最近使用した結果として末尾に移動
+      this.reprojectionCache.delete(key);
+      this.reprojectionCache.set(key, cached);
+      this.onProgress?.(1);
+      return cached;
+    }
+
+    const result = await this.reprojectImage(img);
+    this.reprojectionCache.set(key, result);
+    if (this.reprojectionCache.size > REPROJECTION_CACHE_SIZE) {
+      this.reprojectionCache.delete(this.reprojectionCache.keys().next().value!);
+    }
+    return result;
+  }
+
   /**
    * 画像を再投影変換します
+   * 処理は行単位に分割して実行し、補間は可能な場合Web Workerで行います
    * @param img - 元画像
    * @returns 変換後の画像の情報
    */
-  private async reprojectImage(img: HTMLImageElement): Promise<{ dataUrl: string; x: number; y: number; width: number; height: number }> {
+  private async reprojectImage(img: HTMLImageElement): Promise<ReprojectedImage> {
     if (!this.projection) throw new Error('投影法が設定されていません');
 
     const [west, south, east, north] = this.bounds;
@@ -271,41 +368,35 @@ export class ImageLayer extends BaseLayer {
     destCanvas.width = width;
     destCanvas.height = height;
     
-    const destImageData = destCtx.createImageData(width, height);
-    
-    // 各ピクセルを変換
-    for (let row = 0; row < height; row++) {
-      for (let col = 0; col < width; col++) {
-        const screenX = col + minX;
-        const screenY = row + minY;
-        
+    const projection = this.projection;
+    const pixels = await reprojectRaster(
+      { data: srcImageData.data, width: img.width, height: img.height },
+      width,
+      height,
+      (col, row) => {
         // 投影の逆変換
-        if (this.projection.invert) {
-          try {
-            const geoCoord = this.projection.invert([screenX, screenY]);
-            if (geoCoord && 
-                geoCoord[0] >= west && geoCoord[0] <= east &&
-                geoCoord[1] >= south && geoCoord[1] <= north) {
-              
-              // ソース画像の座標を計算
-              const srcX = (geoCoord[0] - west) / (east - west) * (img.width - 1);
-              const srcY = (north - geoCoord[1]) / (north - south) * (img.height - 1);
-              
-              // 最近傍補間
-              const pixel = this.nearestNeighborInterpolate(srcImageData, srcX, srcY);
-              const destIndex = (row * width + col) * 4;
-              
-              destImageData.data[destIndex] = pixel[0];
-              destImageData.data[destIndex + 1] = pixel[1];
-              destImageData.data[destIndex + 2] = pixel[2];
-              destImageData.data[destIndex + 3] = pixel[3];
-            }
-          } catch (e) {
-            // 投影が失敗した場合はスキップ
-          }
+        const geoCoord = projection.invert ? projection.invert([col + minX, row + minY]) : null;
+        if (!geoCoord ||
+            geoCoord[0] < west || geoCoord[0] > east ||
+            geoCoord[1] < south || geoCoord[1] > north) {
+          return null;
         }
+
+        // ソース画像の座標を計算
+        return [
+          (geoCoord[0] - west) / (east - west) * (img.width - 1),
+          this.getSourceRatioY(geoCoord[1], south, north) * (img.height - 1)
+        ];
+      },
+      {
+        interpolation: this.interpolation,
+        useWorker: this.useWorker,
+        onProgress: this.onProgress
       }
-    }
+    );
+
+    const destImageData = destCtx.createImageData(width, height);
+    destImageData.data.set(pixels);
 
     destCtx.putImageData(destImageData, 0, 0);
     
@@ -319,27 +410,27 @@ export class ImageLayer extends BaseLayer {
   }
 
   /**
-   * 最近傍補間を行います
-   * @param imageData - 画像データ
-   * @param x - X座標（小数）
-   * @param y - Y座標（小数）
-   * @returns RGBA値の配列
+   * 緯度に対応するソース画像上の縦方向の位置（上端0〜下端1）を計算します
+   * @param latitude - 緯度
+   * @param south - 画像の南端の緯度
+   * @param north - 画像の北端の緯度
+   * @returns 縦方向の位置
    */
-  private nearestNeighborInterpolate(imageData: ImageData, x: number, y: number): [number, number, number, number] {
-    const nearestX = Math.round(x);
-    const nearestY = Math.round(y);
-    
-    if (nearestX < 0 || nearestX >= imageData.width || nearestY < 0 || nearestY >= imageData.height) {
-      return [0, 0, 0, 0];
+  private getSourceRatioY(latitude: number, south: number, north: number): number {
+    const vNorth = this.getSourceV(north);
+    return (vNorth - this.getSourceV(latitude)) / (vNorth - this.getSourceV(south));
+  }
+
+  /**
+   * 緯度をソース画像の縦方向に線形な座標に変換します
+   * @param latitude - 緯度
+   * @returns 緯度（equirectangular）またはWeb Mercatorの縦座標（mercator）
+   */
+  private getSourceV(latitude: number): number {
+    if (this.sourceProjection === 'mercator') {
+      return Math.log(Math.tan(Math.PI / 4 + latitude * Math.PI / 360));
     }
-    
-    const idx = (nearestY * imageData.width + nearestX) * 4;
-    return [
-      imageData.data[idx],
-      imageData.data[idx + 1],
-      imageData.data[idx + 2],
-      imageData.data[idx + 3]
-    ];
+    return latitude;
   }
 
   /**
@@ -2,7 +2,7 @@ import { Selection } from 'd3-selection';
 import { drag } from 'd3-drag';
 import { ScaleOrdinal, ScaleSequential, ScaleLinear, ScaleThreshold } from 'd3-scale';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle } from '../types';
+import { LayerAttr, LayerStyle, IOverlayLayer, ScreenRect } from '../types';
 
 /**
  * 凡例の位置設定
@@ -126,7 +126,7 @@ type ScaleType = 'quantized' | 'continuous' | 'ordinal';
 /**
  * D3スケールを受け取って地図に凡例を表示するレイヤークラス
  */
-export class LegendLayer extends BaseLayer {
+export class LegendLayer extends BaseLayer implements IOverlayLayer {
   /** D3スケール */
   private scale: SupportedScale;
   /** 凡例の位置 */
@@ -163,6 +163,8 @@ export class LegendLayer extends BaseLayer {
   private backgroundStyle: LegendBackgroundStyle;
   /** 重ね表示モード */
   private overlapping: boolean;
+  /** 背景ボックスの矩形（凡例の位置を基準とした座標） */
+  private backgroundBounds?: ScreenRect;
 
   /**
    * LegendLayerを初期化します
@@ -250,6 +252,20 @@ export class LegendLayer extends BaseLayer {
   }
 
 
+  /**
+   * 凡例が地図上で占める矩形を取得します（ドラッグによる移動を反映します）
+   * @returns 背景ボックスを含む矩形（未描画の場合はnull）
+   */
+  getOverlayBounds(): ScreenRect | null {
+    if (!this.layerGroup || !this.backgroundBounds) return null;
+
+    return {
+      ...this.backgroundBounds,
+      x: this.position.left + this.backgroundBounds.x,
+      y: this.position.top + this.backgroundBounds.y
+    };
+  }
+
   /**
    * d3-legendの設計思想に基づいてスケール型を自動判別します
    * @returns スケール型
@@ -352,6 +368,13 @@ export class LegendLayer extends BaseLayer {
         if (extent[0] != null && extent[1] != null) {
           return `${extent[0]} - ${extent[1]}`;
         }
+        // ScaleThresholdの両端の階級は片側が開いている
+        if (extent[0] == null && extent[1] != null) {
+          return `< ${extent[1]}`;
+        }
+        if (extent[0] != null && extent[1] == null) {
+          return `≥ ${extent[0]}`;
+        }
         return value.toString();
       }),
       colors: isNumericRange 
@@ -1189,14 +1212,21 @@ export class LegendLayer extends BaseLayer {
       ? (this.backgroundStyle.opacity || 0.9) 
       : 0;
 
+    this.backgroundBounds = {
+      x: legendBBox.x - padding,
+      y: legendBBox.y - padding,
+      width: legendBBox.width + padding * 2,
+      height: legendBBox.height + padding * 2
+    };
+
     // 背景矩形を最初に挿入（z-orderを背面にするため）
     const background = this.layerGroup
       .insert('rect', ':first-child')
       .attr('class', 'thematika-legend-background')
-      .attr('x', legendBBox.x - padding)
-      .attr('y', legendBBox.y - padding)
-      .attr('width', legendBBox.width + padding * 2)
-      .attr('height', legendBBox.height + padding * 2)
+      .attr('x', this.backgroundBounds.x)
+      .attr('y', this.backgroundBounds.y)
+      .attr('width', this.backgroundBounds.width)
+      .attr('height', this.backgroundBounds.height)
       .attr('fill', this.backgroundStyle.fill || '#ffffff')
       .attr('stroke', this.backgroundStyle.stroke || '#cccccc')
       .attr('stroke-width', this.backgroundStyle.strokeWidth || 1)
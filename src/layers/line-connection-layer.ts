@@ -3,7 +3,9 @@ import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
 import { path as d3Path } from 'd3-path';
 import { line, curveBasis, curveCardinal, curveCatmullRom, curveLinear, curveMonotoneX, curveMonotoneY, curveNatural, curveStep, curveStepAfter, curveStepBefore } from 'd3-shape';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, ILineConnectionLayer, ArcControlPointType, ArcOffsetType } from '../types';
+import { LayerAttr, LayerStyle, ILineConnectionLayer, ITemporalLayer, TemporalLayerOptions, ArcControlPointType, ArcOffsetType, LayerData } from '../types';
+import { TemporalFeatures } from '../core/temporal-features';
+import { isTopologyData, topologyToFeatures } from '../utils/topojson-utils';
 import * as GeoJSON from 'geojson';
 
 /**
@@ -29,9 +31,9 @@ interface LineData {
 /**
  * LineConnectionLayerの初期化オプション
  */
-export interface LineConnectionLayerOptions {
-  /** GeoJSONデータ（LineString/MultiLineString） */
-  data: GeoJSON.Feature | GeoJSON.Feature[] | GeoJSON.FeatureCollection;
+export interface LineConnectionLayerOptions extends TemporalLayerOptions {
+  /** GeoJSONデータ（LineString/MultiLineString、TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: GeoJSON.Feature | LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
@@ -58,9 +60,9 @@ export interface LineConnectionLayerOptions {
  * 複数点間をラインで接続するレイヤークラス
  * LineString/MultiLineString形式のGeoJSONデータをサポート
  */
-export class LineConnectionLayer extends BaseLayer implements ILineConnectionLayer {
-  /** GeoJSONデータ */
-  private data: GeoJSON.FeatureCollection;
+export class LineConnectionLayer extends BaseLayer implements ILineConnectionLayer, ITemporalLayer {
+  /** 全ての日時を含むGeoJSONデータと表示中のデータ */
+  private temporal: TemporalFeatures;
   /** パス生成器 */
   private path?: GeoPath;
   /** レイヤーグループ */
@@ -95,19 +97,24 @@ export class LineConnectionLayer extends BaseLayer implements ILineConnectionLay
     super(`line-connection-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データをFeatureCollectionに正規化
-    if (Array.isArray(options.data)) {
+    let data: GeoJSON.FeatureCollection;
+    if (isTopologyData(options.data)) {
+      // TopoJSONの場合
+      data = topologyToFeatures(options.data.topology, options.data.object);
+    } else if (Array.isArray(options.data)) {
       // Feature配列の場合
-      this.data = { type: 'FeatureCollection', features: options.data };
+      data = { type: 'FeatureCollection', features: options.data };
     } else if (options.data.type === 'Feature') {
       // 単一Featureの場合
-      this.data = { type: 'FeatureCollection', features: [options.data as GeoJSON.Feature] };
+      data = { type: 'FeatureCollection', features: [options.data as GeoJSON.Feature] };
     } else {
       // FeatureCollectionの場合
-      this.data = options.data as GeoJSON.FeatureCollection;
+      data = options.data as GeoJSON.FeatureCollection;
     }
     
     // データ検証
-    this.validateData(this.data);
+    this.validateData(data);
+    this.temporal = new TemporalFeatures(data, options);
     
     this.lineType = options.lineType || 'straight';
     this.arcHeight = options.arcHeight || 0.3;
@@ -198,6 +205,28 @@ export class LineConnectionLayer extends BaseLayer implements ILineConnectionLay
     }
   }
 
+  /**
+   * 表示する日時を設定します
+   * timeAccessorが設定されている場合、日時に該当するフィーチャーのみを表示します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   */
+  setTime(time: number | null): void {
+    if (this.temporal.setTime(time) && this.layerGroup) {
+      this.layerGroup.selectAll('.thematika-line-connection-layer').remove();
+      this.layerGroup.selectAll('defs').remove();
+      this.createArrowMarkers();
+      this.renderLines();
+    }
+  }
+
+  /**
+   * データに含まれる日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列（timeAccessorが未設定の場合は空配列）
+   */
+  getTimeSteps(): number[] {
+    return this.temporal.getTimeSteps();
+  }
+
   /**
    * レイヤーを描画します
    * @param container - 描画先のSVGコンテナ
@@ -273,7 +302,7 @@ export class LineConnectionLayer extends BaseLayer implements ILineConnectionLay
   private prepareAllLinesData(): LineData[] {
     const allLinesData: LineData[] = [];
 
-    this.data.features.forEach((feature, featureIndex) => {
+    this.temporal.getData().features.forEach((feature, featureIndex) => {
       const geometry = feature.geometry;
       
       if (geometry.type === 'LineString') {
@@ -701,12 +730,21 @@ export class LineConnectionLayer extends BaseLayer implements ILineConnectionLay
     return this.geoSmoothPath(coordinates);
   }
 
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
   /**
    * GeoJSONデータを取得します
    * @returns GeoJSONデータ
    */
   getData(): GeoJSON.FeatureCollection {
-    return this.data;
+    return this.temporal.getData();
   }
 
 }
\ No newline at end of file
@@ -3,7 +3,8 @@ import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
 import { line, curveBundle } from 'd3-shape';
 import { forceSimulation, forceLink, forceManyBody } from 'd3-force';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, ILineConnectionLayer } from '../types';
+import { LayerAttr, LayerStyle, ILineConnectionLayer, LayerData } from '../types';
+import { isTopologyData, topologyToFeatures } from '../utils/topojson-utils';
 import * as GeoJSON from 'geojson';
 
 /**
@@ -70,8 +71,8 @@ interface BundlingData {
  * LineEdgeBundlingLayerの初期化オプション
  */
 export interface LineEdgeBundlingLayerOptions {
-  /** GeoJSONデータ（LineString/MultiLineString） */
-  data: GeoJSON.Feature | GeoJSON.Feature[] | GeoJSON.FeatureCollection;
+  /** GeoJSONデータ（LineString/MultiLineString、TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: GeoJSON.Feature | LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
@@ -137,7 +138,9 @@ export class LineEdgeBundlingLayer extends BaseLayer implements ILineConnectionL
     super(`line-edgebundling-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データをFeatureCollectionに正規化
-    if (Array.isArray(options.data)) {
+    if (isTopologyData(options.data)) {
+      this.data = topologyToFeatures(options.data.topology, options.data.object);
+    } else if (Array.isArray(options.data)) {
       this.data = { type: 'FeatureCollection', features: options.data };
     } else if (options.data.type === 'Feature') {
       this.data = { type: 'FeatureCollection', features: [options.data as GeoJSON.Feature] };
@@ -652,4 +655,28 @@ export class LineEdgeBundlingLayer extends BaseLayer implements ILineConnectionL
       this.updatePositions();
     }
   }
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
+  /**
+   * 要素のデータからフィーチャーとインデックスを取得します
+   * フィーチャーが直接バインドされているため、インデックスはデータ配列から求めます
+   * @param datum - 要素にバインドされたデータ
+   * @returns フィーチャーとインデックス、対象外の場合はnull
+   * @protected
+   */
+  protected resolveEventFeature(datum: any): { feature: GeoJSON.Feature; index: number } | null {
+    const resolved = super.resolveEventFeature(datum);
+    if (resolved && resolved.index < 0) {
+      resolved.index = this.data.features.indexOf(resolved.feature);
+    }
+    return resolved;
+  }
 }
\ No newline at end of file
@@ -2,7 +2,8 @@ import { Selection } from 'd3-selection';
 import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
 import { line, curveBasis, curveCardinal, curveCatmullRom, curveLinear, curveMonotoneX, curveMonotoneY, curveNatural, curveStep, curveStepAfter, curveStepBefore } from 'd3-shape';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer, ArcControlPointType, ArcOffsetType } from '../types';
+import { LayerAttr, LayerStyle, IGeojsonLayer, ArcControlPointType, ArcOffsetType, LayerData } from '../types';
+import { isTopologyData, topologyToFeatures } from '../utils/topojson-utils';
 import * as GeoJSON from 'geojson';
 
 /**
@@ -29,8 +30,8 @@ interface LineTextData {
  * LineTextLayerの初期化オプション
  */
 export interface LineTextLayerOptions {
-  /** GeoJSONデータ（LineString/MultiLineString） */
-  data: GeoJSON.Feature | GeoJSON.Feature[] | GeoJSON.FeatureCollection;
+  /** GeoJSONデータ（LineString/MultiLineString、TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: GeoJSON.Feature | LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
@@ -150,7 +151,10 @@ export class LineTextLayer extends BaseLayer implements IGeojsonLayer {
     super(`line-text-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データをFeatureCollectionに正規化（line-connection-layerと同じロジック）
-    if (Array.isArray(options.data)) {
+    if (isTopologyData(options.data)) {
+      // TopoJSONの場合
+      this.data = topologyToFeatures(options.data.topology, options.data.object);
+    } else if (Array.isArray(options.data)) {
       // Feature配列の場合
       this.data = { type: 'FeatureCollection', features: options.data };
     } else if (options.data.type === 'Feature') {
@@ -940,6 +944,15 @@ export class LineTextLayer extends BaseLayer implements IGeojsonLayer {
     return reversedPath;
   }
 
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
   /**
    * GeoJSONデータを取得します
    * @returns GeoJSONデータ
@@ -0,0 +1,114 @@
+import { Selection } from 'd3-selection';
+import { geoPath, GeoPath, GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { LayerAttr, LayerStyle, IGeojsonLayer, Topology } from '../types';
+import { topologyMesh, MeshFilter } from '../utils/topojson-utils';
+
+/**
+ * MeshLayerの初期化オプション
+ */
+export interface MeshLayerOptions {
+  /** TopoJSONのトポロジー */
+  topology: Topology;
+  /** 境界を抽出するオブジェクトの名前 */
+  object: string;
+  /** 描画する境界（デフォルト: 'interior'） */
+  filter?: MeshFilter;
+  /** レイヤーの属性設定 */
+  attr?: LayerAttr;
+  /** レイヤーのCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * TopoJSONのフィーチャー間の境界線を描画するレイヤークラス
+ * 隣接するフィーチャーが共有する境界を1本の線として描画するため、線が二重に描画されず、破線も正しく表示されます
+ *
+ * @example
+ * ```typescript
+ * const borders = new MeshLayer({
+ *   topology: japan,
+ *   object: 'prefectures',
+ *   attr: { stroke: '#666666', strokeDasharray: '4 2' }
+ * });
+ * ```
+ */
+export class MeshLayer extends BaseLayer implements IGeojsonLayer {
+  /** 境界線のジオメトリ */
+  private mesh: GeoJSON.MultiLineString;
+  /** パス生成器 */
+  private path?: GeoPath;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * MeshLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   * @throws オブジェクトがトポロジーに存在しない場合
+   */
+  constructor(options: MeshLayerOptions) {
+    // 一意のIDを自動生成
+    const defaultAttr: LayerAttr = {
+      fill: 'none',
+      stroke: '#333333',
+      strokeWidth: 1
+    };
+
+    super(`mesh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          { ...defaultAttr, ...options.attr }, options.style || {});
+
+    this.mesh = topologyMesh(options.topology, options.object, options.filter ?? 'interior');
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 地図投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.path = geoPath(projection);
+    if (this.layerGroup) {
+      this.layerGroup.selectAll('.thematika-mesh-layer').remove();
+      this.renderMesh();
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderMesh();
+  }
+
+  /**
+   * 境界線を描画します
+   * @private
+   */
+  private renderMesh(): void {
+    if (!this.layerGroup || !this.path) return;
+
+    const meshPath = this.layerGroup
+      .append('g')
+      .attr('class', 'thematika-mesh-layer')
+      .append('path')
+      .datum(this.mesh)
+      .attr('d', this.path)
+      .attr('class', () => {
+        const baseClass = 'thematika-mesh';
+        const customClass = this.attr.className || '';
+        return [baseClass, customClass].filter(Boolean).join(' ');
+      });
+
+    // 属性とスタイルを適用（共通メソッドを使用）
+    this.applyAllStylesToElement(meshPath, this.layerGroup);
+  }
+
+  /**
+   * 境界線のジオメトリを取得します
+   * @returns 境界線のMultiLineString
+   */
+  getData(): GeoJSON.MultiLineString {
+    return this.mesh;
+  }
+}
@@ -1,8 +1,9 @@
 import { Selection } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer } from '../types';
-import { getCentroid } from '../utils/gis-utils';
+import { LayerAttr, LayerStyle, IGeojsonLayer, PointPlacement, LayerData } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * アノテーションタイプの定義
@@ -95,8 +96,8 @@ export interface NoteOptions {
  * PointAnnotationLayerの初期化オプション
  */
 export interface PointAnnotationLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** アノテーションタイプ */
   annotationType?: AnnotationType;
   /** テキスト内容のアクセサー */
@@ -115,6 +116,8 @@ export interface PointAnnotationLayerOptions {
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
   style?: LayerStyle;
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
 }
 
 /**
@@ -138,6 +141,8 @@ interface AnnotationData {
 export class PointAnnotationLayer extends BaseLayer implements IGeojsonLayer {
   /** GeoJSONデータ */
   private data: GeoJSON.FeatureCollection;
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
   /** 投影法 */
   private projection?: GeoProjection;
   /** レイヤーグループ */
@@ -166,9 +171,8 @@ export class PointAnnotationLayer extends BaseLayer implements IGeojsonLayer {
     super(`point-annotation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.data = normalizeLayerData(options.data);
+    this.placement = options.placement ?? 'vertex-mean';
     
     // オプションの設定
     this.annotationType = options.annotationType || 'callout';
@@ -332,8 +336,8 @@ export class PointAnnotationLayer extends BaseLayer implements IGeojsonLayer {
         // ポイントの場合はそのまま使用
         coordinates = feature.geometry.coordinates as [number, number];
       } else {
-        // ポリゴンやラインの場合は中心点を計算
-        const centroid = getCentroid(feature);
+        // ポリゴンやラインの場合は配置方法に応じた代表点を計算
+        const centroid = getRepresentativePoint(feature, this.placement);
         coordinates = [centroid.x, centroid.y];
       }
 
@@ -664,7 +668,10 @@ export class PointAnnotationLayer extends BaseLayer implements IGeojsonLayer {
 
     // 背景サイズ調整
     setTimeout(() => {
-      const bbox = textElement.node()?.getBBox();
+      // レイアウト情報を持たない環境（jsdomなど）ではgetBBoxが使えないため調整しない
+      const node = textElement.node();
+      if (!node || typeof node.getBBox !== 'function') return;
+      const bbox = node.getBBox();
       if (bbox) {
         textBackground
           .attr('x', bbox.x - textPadding)
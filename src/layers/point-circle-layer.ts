@@ -1,36 +1,65 @@
 import { Selection } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer } from '../types';
-import { getCentroid } from '../utils/gis-utils';
+import { LayerAttr, LayerStyle, LayerRenderer, IGeojsonLayer, IRendererSwitchableLayer, ITemporalLayer, TemporalLayerOptions, PointPlacement, LayerData } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { TemporalFeatures } from '../core/temporal-features';
+import { CanvasRenderer, resolveCanvasStyle } from '../core/canvas-renderer';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * PointCircleLayerの初期化オプション
  */
-export interface PointCircleLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+export interface PointCircleLayerOptions extends TemporalLayerOptions {
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
   style?: LayerStyle;
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
   /** サークルの半径（固定値または関数） */
   r?: number | ((feature: GeoJSON.Feature, index: number) => number);
+  /** 描画方式（未指定の場合はMapの設定に従い、既定は'svg'） */
+  renderer?: LayerRenderer;
+}
+
+/**
+ * サークルの描画データ
+ */
+interface CircleDatum {
+  /** 元のフィーチャー */
+  feature: GeoJSON.Feature;
+  /** フィーチャーのインデックス */
+  index: number;
+  /** 投影後の座標X */
+  x: number;
+  /** 投影後の座標Y */
+  y: number;
+  /** 半径 */
+  r: number;
 }
 
 /**
  * GeoJSONデータをサークル要素として描画するレイヤークラス
  * ポイントならそのまま、ポリゴンやラインなら中心点にサークルを配置
  */
-export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
-  /** GeoJSONデータ */
-  private data: GeoJSON.FeatureCollection;
+export class PointCircleLayer extends BaseLayer implements IGeojsonLayer, IRendererSwitchableLayer, ITemporalLayer {
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
+  /** 全ての日時を含むGeoJSONデータと表示中のデータ */
+  private temporal: TemporalFeatures;
   /** 投影法 */
   private projection?: GeoProjection;
   /** レイヤーグループ */
   private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
   /** サークルの半径設定 */
   private radiusFunction: (feature: GeoJSON.Feature, index: number) => number;
+  /** 描画方式 */
+  private renderer?: LayerRenderer;
+  /** 最後に描画したサークル（Canvas描画時の判定に使用） */
+  private circleData: CircleDatum[] = [];
 
   /**
    * PointCircleLayerを初期化します
@@ -41,9 +70,8 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
     super(`point-circle-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.temporal = new TemporalFeatures(normalizeLayerData(options.data), options);
+    this.placement = options.placement ?? 'vertex-mean';
     
     // 半径設定の処理
     if (typeof options.r === 'function') {
@@ -52,6 +80,8 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
       const radius = options.r || 5; // デフォルト半径は5
       this.radiusFunction = () => radius;
     }
+
+    this.renderer = options.renderer;
   }
 
   /**
@@ -78,6 +108,45 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
     }
   }
 
+  /**
+   * 描画方式を取得します
+   * @returns 描画方式（未設定の場合はundefined）
+   */
+  getRenderer(): LayerRenderer | undefined {
+    return this.renderer;
+  }
+
+  /**
+   * 描画方式を設定します
+   * 描画済みの場合は新しい方式で再描画します
+   * @param renderer - 描画方式
+   */
+  setRenderer(renderer: LayerRenderer): void {
+    this.renderer = renderer;
+    if (this.layerGroup) {
+      this.renderCircles();
+    }
+  }
+
+  /**
+   * 表示する日時を設定します
+   * timeAccessorが設定されている場合、日時に該当するフィーチャーのみを表示します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   */
+  setTime(time: number | null): void {
+    if (this.temporal.setTime(time) && this.layerGroup) {
+      this.renderCircles();
+    }
+  }
+
+  /**
+   * データに含まれる日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列（timeAccessorが未設定の場合は空配列）
+   */
+  getTimeSteps(): number[] {
+    return this.temporal.getTimeSteps();
+  }
+
   /**
    * サークルを描画します
    * @private
@@ -86,18 +155,18 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
     if (!this.layerGroup || !this.projection) return;
 
     // 既存のサークルを削除
-    this.layerGroup.selectAll('g.thematika-point-circle-layer').remove();
+    this.layerGroup.selectAll('.thematika-point-circle-layer').remove();
 
     // 各フィーチャーの座標を取得
-    const circleData = this.data.features.map((feature, index) => {
+    const circleData: CircleDatum[] = this.temporal.getData().features.map((feature, index) => {
       let coordinates: [number, number];
 
       if (feature.geometry.type === 'Point') {
         // ポイントの場合はそのまま使用
         coordinates = feature.geometry.coordinates as [number, number];
       } else {
-        // ポリゴンやラインの場合は中心点を計算
-        const centroid = getCentroid(feature);
+        // ポリゴンやラインの場合は配置方法に応じた代表点を計算
+        const centroid = getRepresentativePoint(feature, this.placement);
         coordinates = [centroid.x, centroid.y];
       }
 
@@ -112,6 +181,12 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
         r: this.radiusFunction(feature, index)
       };
     }).filter(d => d.x !== null && d.y !== null); // 投影できない座標を除外
+    this.circleData = circleData;
+
+    if (this.renderer === 'canvas') {
+      this.renderCirclesToCanvas();
+      return;
+    }
 
     // サークル要素を作成
     const circles = this.layerGroup
@@ -135,12 +210,59 @@ export class PointCircleLayer extends BaseLayer implements IGeojsonLayer {
     this.applyAllStylesToElements(circles, this.layerGroup);
   }
 
+  /**
+   * サークルをCanvasに描画します
+   * attr/styleはSVG描画と同じくサークルのデータとインデックスで評価されます
+   * @private
+   */
+  private renderCirclesToCanvas(): void {
+    if (!this.layerGroup) return;
+
+    const renderer = CanvasRenderer.create(this.layerGroup, 'thematika-point-circle-layer');
+    if (!renderer) return;
+
+    this.circleData.forEach((d, i) => {
+      renderer.draw(context => {
+        context.moveTo(d.x + d.r, d.y);
+        context.arc(d.x, d.y, d.r, 0, 2 * Math.PI);
+      }, resolveCanvasStyle(this.attr, this.style, d, i));
+    });
+  }
+
+  /**
+   * Canvas描画時に座標からサークルを判定します
+   * 上に描画されたサークルを優先します
+   * @param pixel - レイヤーグループ座標系での位置 [x, y]
+   * @returns フィーチャーとインデックス、該当なしの場合はnull
+   * @protected
+   */
+  protected hitTest(pixel: [number, number]): { feature: GeoJSON.Feature; index: number } | null {
+    if (this.renderer !== 'canvas') return null;
+
+    for (let i = this.circleData.length - 1; i >= 0; i--) {
+      const d = this.circleData[i];
+      if (Math.hypot(pixel[0] - d.x, pixel[1] - d.y) <= d.r) {
+        return { feature: d.feature, index: d.index };
+      }
+    }
+    return null;
+  }
+
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
 
   /**
    * GeoJSONデータを取得します
    * @returns 現在のGeoJSONデータ
    */
   getData(): GeoJSON.FeatureCollection {
-    return this.data;
+    return this.temporal.getData();
   }
 }
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { Selection } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer, PointSpikeLayerOptions } from '../types';
-import { getCentroid } from '../utils/gis-utils';
+import { LayerAttr, LayerStyle, IGeojsonLayer, PointSpikeLayerOptions, PointPlacement } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * GeoJSONデータをスパイク要素として描画するレイヤークラス
@@ -11,6 +12,8 @@ import { getCentroid } from '../utils/gis-utils';
 export class PointSpikeLayer extends BaseLayer implements IGeojsonLayer {
   /** GeoJSONデータ */
   private data: GeoJSON.FeatureCollection;
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
   /** 投影法 */
   private projection?: GeoProjection;
   /** レイヤーグループ */
@@ -29,9 +32,8 @@ export class PointSpikeLayer extends BaseLayer implements IGeojsonLayer {
     super(`point-spike-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.data = normalizeLayerData(options.data);
+    this.placement = options.placement ?? 'vertex-mean';
     
     // 長さ設定の処理
     if (typeof options.length === 'function') {
@@ -85,8 +87,8 @@ export class PointSpikeLayer extends BaseLayer implements IGeojsonLayer {
         // ポイントの場合はそのまま使用
         coordinates = feature.geometry.coordinates as [number, number];
       } else {
-        // ポリゴンやラインの場合は中心点を計算
-        const centroid = getCentroid(feature);
+        // ポリゴンやラインの場合は配置方法に応じた代表点を計算
+        const centroid = getRepresentativePoint(feature, this.placement);
         coordinates = [centroid.x, centroid.y];
       }
 
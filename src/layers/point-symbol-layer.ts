@@ -2,19 +2,23 @@ import { Selection } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
 import { symbol, symbolCircle, symbolCross, symbolDiamond, symbolSquare, symbolStar, symbolTriangle, symbolWye, SymbolType } from 'd3-shape';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer } from '../types';
-import { getCentroid } from '../utils/gis-utils';
+import { LayerAttr, LayerStyle, IGeojsonLayer, ITemporalLayer, TemporalLayerOptions, PointPlacement, LayerData } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { TemporalFeatures } from '../core/temporal-features';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * PointSymbolLayerの初期化オプション
  */
-export interface PointSymbolLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+export interface PointSymbolLayerOptions extends TemporalLayerOptions {
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
   style?: LayerStyle;
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
   /** シンボルのサイズ（固定値または関数） */
   size?: number | ((feature: GeoJSON.Feature, index: number) => number);
   /** シンボルタイプ（固定値または関数） */
@@ -25,9 +29,11 @@ export interface PointSymbolLayerOptions {
  * GeoJSONデータをシンボル要素として描画するレイヤークラス
  * ポイントならそのまま、ポリゴンやラインなら中心点にシンボルを配置
  */
-export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer {
-  /** GeoJSONデータ */
-  private data: GeoJSON.FeatureCollection;
+export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer, ITemporalLayer {
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
+  /** 全ての日時を含むGeoJSONデータと表示中のデータ */
+  private temporal: TemporalFeatures;
   /** 投影法 */
   private projection?: GeoProjection;
   /** レイヤーグループ */
@@ -46,9 +52,8 @@ export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer {
     super(`point-symbol-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.temporal = new TemporalFeatures(normalizeLayerData(options.data), options);
+    this.placement = options.placement ?? 'vertex-mean';
     
     // サイズ設定の処理
     if (typeof options.size === 'function') {
@@ -91,6 +96,25 @@ export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer {
     }
   }
 
+  /**
+   * 表示する日時を設定します
+   * timeAccessorが設定されている場合、日時に該当するフィーチャーのみを表示します
+   * @param time - エポックミリ秒（nullで日時によらず全て表示）
+   */
+  setTime(time: number | null): void {
+    if (this.temporal.setTime(time) && this.layerGroup) {
+      this.renderSymbols();
+    }
+  }
+
+  /**
+   * データに含まれる日時の一覧を取得します
+   * @returns 昇順のエポックミリ秒の配列（timeAccessorが未設定の場合は空配列）
+   */
+  getTimeSteps(): number[] {
+    return this.temporal.getTimeSteps();
+  }
+
   /**
    * シンボルを描画します
    * @private
@@ -102,15 +126,15 @@ export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer {
     this.layerGroup.selectAll('g.thematika-point-symbol-layer').remove();
 
     // 各フィーチャーの座標を取得
-    const symbolData = this.data.features.map((feature, index) => {
+    const symbolData = this.temporal.getData().features.map((feature, index) => {
       let coordinates: [number, number];
 
       if (feature.geometry.type === 'Point') {
         // ポイントの場合はそのまま使用
         coordinates = feature.geometry.coordinates as [number, number];
       } else {
-        // ポリゴンやラインの場合は中心点を計算
-        const centroid = getCentroid(feature);
+        // ポリゴンやラインの場合は配置方法に応じた代表点を計算
+        const centroid = getRepresentativePoint(feature, this.placement);
         coordinates = [centroid.x, centroid.y];
       }
 
@@ -154,11 +178,20 @@ export class PointSymbolLayer extends BaseLayer implements IGeojsonLayer {
   }
 
 
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
   /**
    * GeoJSONデータを取得します
    * @returns 現在のGeoJSONデータ
    */
   getData(): GeoJSON.FeatureCollection {
-    return this.data;
+    return this.temporal.getData();
   }
 }
\ No newline at end of file
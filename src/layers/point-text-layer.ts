@@ -3,8 +3,9 @@ import { GeoProjection } from 'd3-geo';
 import { Delaunay } from 'd3-delaunay';
 import { polygonCentroid } from 'd3-polygon';
 import { BaseLayer } from './base-layer';
-import { LayerAttr, LayerStyle, IGeojsonLayer } from '../types';
-import { getCentroid } from '../utils/gis-utils';
+import { LayerAttr, LayerStyle, IGeojsonLayer, PointPlacement, LayerData } from '../types';
+import { getRepresentativePoint } from '../utils/gis-utils';
+import { normalizeLayerData } from '../utils/topojson-utils';
 
 /**
  * テキストデータの内部型
@@ -33,12 +34,14 @@ interface TextDataItem {
  * PointTextLayerの初期化オプション
  */
 export interface PointTextLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
   style?: LayerStyle;
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
   /** テキストの内容を取得するプロパティ名（デフォルト: 'text'、次候補: 'name'） */
   textProperty?: string;
   /** X方向のオフセット（デフォルト: 0） */
@@ -76,6 +79,8 @@ export interface PointTextLayerOptions {
 export class PointTextLayer extends BaseLayer implements IGeojsonLayer {
   /** GeoJSONデータ */
   private data: GeoJSON.FeatureCollection;
+  /** ポイント以外のジオメトリの配置方法 */
+  private placement: PointPlacement;
   /** 投影法 */
   private projection?: GeoProjection;
   /** レイヤーグループ */
@@ -118,9 +123,8 @@ export class PointTextLayer extends BaseLayer implements IGeojsonLayer {
     super(`point-text-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, options.attr || {}, options.style || {});
     
     // データの正規化
-    this.data = Array.isArray(options.data)
-      ? { type: 'FeatureCollection', features: options.data }
-      : options.data as GeoJSON.FeatureCollection;
+    this.data = normalizeLayerData(options.data);
+    this.placement = options.placement ?? 'vertex-mean';
     
     // テキストプロパティ名
     this.textProperty = options.textProperty || 'text';
@@ -223,8 +227,8 @@ export class PointTextLayer extends BaseLayer implements IGeojsonLayer {
         // ポイントの場合はそのまま使用
         coordinates = feature.geometry.coordinates as [number, number];
       } else {
-        // ポリゴンやラインの場合は中心点を計算
-        const centroid = getCentroid(feature);
+        // ポリゴンやラインの場合は配置方法に応じた代表点を計算
+        const centroid = getRepresentativePoint(feature, this.placement);
         coordinates = [centroid.x, centroid.y];
       }
 
@@ -348,13 +352,11 @@ export class PointTextLayer extends BaseLayer implements IGeojsonLayer {
       return textData;
     }
 
-    // SVGのサイズを取得
+    // SVGの座標系のサイズを取得（画面上の表示サイズに依存しないようviewBoxを使用）
     const svg = this.layerGroup?.node()?.closest('svg');
     if (!svg) return textData;
-    
-    const svgRect = svg.getBoundingClientRect();
-    const width = svgRect.width;
-    const height = svgRect.height;
+
+    const [width, height] = this.getSvgSize(svg);
 
     // Delaunay三角分割を作成
     const delaunay = Delaunay.from(
@@ -0,0 +1,154 @@
+import { Selection } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { ImageLayer, ImageSourceProjection } from './image-layer';
+import { LayerAttr, LayerStyle } from '../types';
+import { ImageInterpolation } from '../utils/resample-utils';
+import { RasterBand, RasterImage, RasterImageOptions, createRasterImage } from '../utils/raster-utils';
+
+/**
+ * RasterLayerの初期化オプション
+ */
+export interface RasterLayerOptions extends RasterImageOptions {
+  /** 表示するラスタバンド（readCOGBandの結果をそのまま指定できます） */
+  band: RasterBand;
+  /** 画像自体の投影法（デフォルト: 'equirectangular'） */
+  sourceProjection?: ImageSourceProjection;
+  /** 再投影時の画素値の補間方法（デフォルト: 'nearest'） */
+  interpolation?: ImageInterpolation;
+  /** 画像に適用する属性設定 */
+  attr?: LayerAttr;
+  /** 画像に適用するCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * 値を持つラスタ（標高、NDVIなど）を色付けまたは陰影起伏にして表示するレイヤークラス
+ *
+ * ラスタバンドをカラーランプ（ストレッチ付き）または陰影起伏で画像に変換し、ImageLayerで配置します。
+ * NoDataの画素は透明になります。
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif');
+ * map.addLayer('hillshade', new RasterLayer({ band: dem, mode: 'hillshade', hillshade: { azimuth: 315, zFactor: 2 } }));
+ * map.addLayer('elevation', new RasterLayer({
+ *   band: dem,
+ *   colors: 'Viridis',
+ *   stretch: { mode: 'percentile', percentiles: [2, 98] },
+ *   attr: { opacity: 0.6 }
+ * }));
+ * ```
+ */
+export class RasterLayer extends BaseLayer {
+  /** ラスタバンド */
+  private band: RasterBand;
+  /** 画像の生成オプション */
+  private imageOptions: RasterImageOptions;
+  /** 画像自体の投影法 */
+  private sourceProjection?: ImageSourceProjection;
+  /** 再投影時の補間方法 */
+  private interpolation?: ImageInterpolation;
+  /** 画像の属性設定 */
+  private imageAttr?: LayerAttr;
+  /** 画像のCSS style属性設定 */
+  private imageStyle?: LayerStyle;
+  /** 生成した画像 */
+  private image?: RasterImage;
+  /** 画像を描画するImageLayer */
+  private imageLayer?: ImageLayer;
+  /** 投影法 */
+  private projection?: GeoProjection;
+
+  /**
+   * RasterLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: RasterLayerOptions) {
+    // 一意のIDを自動生成
+    super(`raster-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, {}, {});
+
+    const { band, sourceProjection, interpolation, attr, style, ...imageOptions } = options;
+    if (band.data.length !== band.width * band.height) {
+      throw new Error(`ラスタの値の数（${band.data.length}）が幅×高さ（${band.width * band.height}）と一致しません`);
+    }
+
+    this.band = band;
+    this.imageOptions = imageOptions;
+    this.sourceProjection = sourceProjection;
+    this.interpolation = interpolation;
+    this.imageAttr = attr;
+    this.imageStyle = style;
+  }
+
+  /**
+   * レイヤーを描画します
+   * 再投影した画像のキャッシュを再利用できるように、ImageLayerは再描画でも作り直しません
+   * @param container - 描画先のSVGコンテナ
+   */
+  async render(container: Selection<SVGGElement, unknown, HTMLElement, any>): Promise<void> {
+    const layerGroup = this.createLayerGroup(container);
+
+    if (this.imageLayer) {
+      this.imageLayer.destroy();
+    } else {
+      const image = this.getImage();
+      this.imageLayer = new ImageLayer(`${this.id}-image`, {
+        src: image.dataUri,
+        bounds: image.bounds,
+        sourceProjection: this.sourceProjection,
+        interpolation: this.interpolation,
+        attr: this.imageAttr,
+        style: this.imageStyle
+      });
+    }
+    if (this.projection) {
+      this.imageLayer.setProjection(this.projection);
+    }
+    await this.imageLayer.render(layerGroup);
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 新しい投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    this.imageLayer?.setProjection(projection);
+  }
+
+  /**
+   * 表示する画像を取得します（初回の呼び出し時に生成）
+   * @returns 生成した画像
+   */
+  getImage(): RasterImage {
+    if (!this.image) {
+      this.image = createRasterImage(this.band, this.imageOptions);
+    }
+    return this.image;
+  }
+
+  /**
+   * 色付けに使用した値の範囲を取得します（凡例の作成などに使用）
+   * @returns [最小値, 最大値]（有効な値がない場合や陰影起伏の場合はnull）
+   */
+  getRange(): [number, number] | null {
+    return this.getImage().range;
+  }
+
+  /**
+   * レイヤーを削除します
+   * 再描画で再利用できるように、画像を描画するImageLayerは保持します
+   */
+  destroy(): void {
+    this.imageLayer?.destroy();
+    super.destroy();
+  }
+
+  /**
+   * 画像を描画するImageLayerと再投影した画像のキャッシュを破棄します
+   */
+  dispose(): void {
+    this.imageLayer = undefined;
+  }
+}
@@ -0,0 +1,246 @@
+import { Selection } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { ImageLayer } from './image-layer';
+import { LayerAttr, LayerStyle, TileUrlInfo } from '../types';
+import { generateTileUrls, calculateOptimalZoom, getViewBounds } from '../utils/tile-utils';
+import { getProjectionKey } from '../utils/projection-utils';
+
+/**
+ * TileLayerの初期化オプション
+ */
+export interface TileLayerOptions {
+  /** URLテンプレート（例: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'） */
+  urlTemplate: string;
+  /** タイルサイズ（ピクセル、デフォルト: 256） */
+  tileSize?: number;
+  /** 最小ズームレベル（デフォルト: 0） */
+  minZoom?: number;
+  /** 最大ズームレベル（デフォルト: 18） */
+  maxZoom?: number;
+  /** URLテンプレートの{s}に割り当てるサブドメイン（例: ['a', 'b', 'c']または'abc'） */
+  subdomains?: string | string[];
+  /** 保持するタイルの最大数（デフォルト: 256） */
+  cacheSize?: number;
+  /** タイル画像に適用する属性設定 */
+  attr?: LayerAttr;
+  /** タイル画像に適用するCSS style属性設定 */
+  style?: LayerStyle;
+}
+
+/**
+ * キャッシュしたタイル
+ */
+interface CachedTile {
+  /** タイルを描画するImageLayer */
+  layer: ImageLayer;
+  /** 描画時の投影法の状態 */
+  projectionKey: string;
+}
+
+/**
+ * XYZ形式のラスタタイルを地図に合成するレイヤークラス
+ *
+ * 地図のサイズと投影法の現在のスケールから表示範囲とズームレベルを決定し、
+ * 必要なタイルをImageLayerで配置します（Web Mercator以外の投影法では再投影されます）。
+ * 読み込んだタイルは再描画をまたいで保持され、投影法が変わらない限り再利用されます。
+ *
+ * @example
+ * ```typescript
+ * map.addLayer('basemap', new TileLayer({
+ *   urlTemplate: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+ *   subdomains: 'abc',
+ *   maxZoom: 19
+ * }));
+ * ```
+ */
+export class TileLayer extends BaseLayer {
+  /** URLテンプレート */
+  private urlTemplate: string;
+  /** タイルサイズ */
+  private tileSize: number;
+  /** 最小ズームレベル */
+  private minZoom: number;
+  /** 最大ズームレベル */
+  private maxZoom: number;
+  /** サブドメイン */
+  private subdomains?: string | string[];
+  /** 保持するタイルの最大数 */
+  private cacheSize: number;
+  /** タイル画像の属性設定 */
+  private tileAttr?: LayerAttr;
+  /** タイル画像のCSS style属性設定 */
+  private tileStyle?: LayerStyle;
+  /** タイルのキャッシュ（キーは'z/x/y'、挿入順が古い順） */
+  private tileCache: Map<string, CachedTile> = new Map();
+  /** 現在表示しているタイル */
+  private tiles: TileUrlInfo[] = [];
+  /** 現在のズームレベル */
+  private zoom?: number;
+  /** 投影法 */
+  private projection?: GeoProjection;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * TileLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: TileLayerOptions) {
+    // 一意のIDを自動生成
+    super(`tile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, {}, {});
+
+    if (!options.urlTemplate || !['{x}', '{y}', '{z}'].every(key => options.urlTemplate.includes(key))) {
+      throw new Error('URLテンプレートには{x}, {y}, {z}のプレースホルダーを含める必要があります');
+    }
+
+    this.urlTemplate = options.urlTemplate;
+    this.tileSize = options.tileSize ?? 256;
+    this.minZoom = options.minZoom ?? 0;
+    this.maxZoom = options.maxZoom ?? 18;
+    this.subdomains = options.subdomains;
+    this.cacheSize = options.cacheSize ?? 256;
+    this.tileAttr = options.attr;
+    this.tileStyle = options.style;
+
+    if (this.minZoom > this.maxZoom) {
+      throw new Error(`minZoom（${this.minZoom}）はmaxZoom（${this.maxZoom}）以下で指定してください`);
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * @param container - 描画先のSVGコンテナ
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void {
+    this.layerGroup = this.createLayerGroup(container);
+    this.renderTiles();
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 新しい投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    if (this.layerGroup) {
+      this.renderTiles();
+    }
+  }
+
+  /**
+   * 現在表示しているタイルを取得します
+   * @returns タイルURL情報の配列
+   */
+  getTiles(): TileUrlInfo[] {
+    return this.tiles;
+  }
+
+  /**
+   * 現在のズームレベルを取得します
+   * @returns ズームレベル（未描画の場合はundefined）
+   */
+  getZoom(): number | undefined {
+    return this.zoom;
+  }
+
+  /**
+   * レイヤーを削除します
+   * 再描画で再利用できるように、キャッシュしたタイルは保持します
+   */
+  destroy(): void {
+    this.tiles = [];
+    this.layerGroup = undefined;
+    super.destroy();
+  }
+
+  /**
+   * キャッシュしたタイルを破棄します
+   */
+  dispose(): void {
+    this.tileCache.forEach(({ layer }) => layer.destroy());
+    this.tileCache.clear();
+  }
+
+  /**
+   * 表示範囲のタイルを描画します
+   * @private
+   */
+  private renderTiles(): void {
+    if (!this.layerGroup || !this.projection) return;
+
+    const groupNode = this.layerGroup.node();
+    const [width, height] = this.getSvgSize(groupNode?.ownerSVGElement ?? null);
+    const bounds = getViewBounds(this.projection, width, height);
+
+    // 前回のタイル要素を取り外す（キャッシュしたレイヤーは要素を保持している）
+    this.layerGroup.selectAll('g.image-layer').remove();
+
+    if (!bounds) {
+      this.tiles = [];
+      return;
+    }
+
+    this.zoom = calculateOptimalZoom(bounds, width, height, {
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
+      tileSize: this.tileSize
+    });
+    this.tiles = generateTileUrls(bounds, this.zoom, {
+      urlTemplate: this.urlTemplate,
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
+      tileSize: this.tileSize,
+      subdomains: this.subdomains
+    });
+
+    const projectionKey = getProjectionKey(this.projection);
+    this.tiles.forEach(tile => {
+      const { x, y, z } = tile.coordinate;
+      const key = `${z}/${x}/${y}`;
+      const cached = this.tileCache.get(key);
+      const cachedNode = cached?.layer.getLayerGroup()?.node();
+
+      if (cached && cachedNode && groupNode) {
+        groupNode.appendChild(cachedNode);
+        if (cached.projectionKey !== projectionKey) {
+          // 投影法が変わった場合は配置し直す
+          cached.layer.setProjection(this.projection!);
+          cached.projectionKey = projectionKey;
+        }
+        // 最近使用したタイルとして末尾に移動
+        this.tileCache.delete(key);
+        this.tileCache.set(key, cached);
+        return;
+      }
+
+      const layer = new ImageLayer(`${this.id}-${z}-${x}-${y}`, {
+        src: tile.url,
+        bounds: tile.bounds.bounds,
+        sourceProjection: 'mercator',
+        attr: this.tileAttr,
+        style: this.tileStyle
+      });
+      layer.setProjection(this.projection!);
+      layer.render(this.layerGroup!);
+      this.tileCache.set(key, { layer, projectionKey });
+    });
+
+    this.evictTiles();
+  }
+
+  /**
+   * キャッシュの上限を超えたタイルを古い順に破棄します
+   * 表示中のタイルは破棄しません
+   * @private
+   */
+  private evictTiles(): void {
+    const visibleKeys = new Set(this.tiles.map(({ coordinate: { x, y, z } }) => `${z}/${x}/${y}`));
+    for (const [key, { layer }] of this.tileCache) {
+      if (this.tileCache.size <= this.cacheSize) break;
+      if (visibleKeys.has(key)) continue;
+      layer.destroy();
+      this.tileCache.delete(key);
+    }
+  }
+}
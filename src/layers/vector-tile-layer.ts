@@ -0,0 +1,360 @@
+import { Selection } from 'd3-selection';
+import { GeoProjection } from 'd3-geo';
+import { BaseLayer } from './base-layer';
+import { GeojsonLayer } from './geojson-layer';
+import { LayerAttr, LayerStyle, TileUrlInfo } from '../types';
+import { generateTileUrls, calculateOptimalZoom, getViewBounds } from '../utils/tile-utils';
+import { decodeVectorTile, DecodedVectorTile } from '../utils/mvt-utils';
+
+/**
+ * ソースレイヤーごとの描画設定
+ */
+export interface VectorTileSourceLayerOptions {
+  /** ソースレイヤーのSVG属性設定（関数型はフィーチャーごとに評価されます） */
+  attr?: LayerAttr;
+  /** ソースレイヤーのCSS style属性設定（関数型はフィーチャーごとに評価されます） */
+  style?: LayerStyle;
+}
+
+/**
+ * VectorTileLayerの初期化オプション
+ */
+export interface VectorTileLayerOptions {
+  /** URLテンプレート（例: 'https://example.com/tiles/{z}/{x}/{y}.pbf'） */
+  urlTemplate: string;
+  /** タイルサイズ（ピクセル、デフォルト: 256） */
+  tileSize?: number;
+  /** 最小ズームレベル（デフォルト: 0） */
+  minZoom?: number;
+  /** 最大ズームレベル（デフォルト: 14。これより拡大した場合は最大ズームのタイルを使用） */
+  maxZoom?: number;
+  /** URLテンプレートの{s}に割り当てるサブドメイン */
+  subdomains?: string | string[];
+  /** 保持するタイルの最大数（デフォルト: 256） */
+  cacheSize?: number;
+  /**
+   * ソースレイヤーごとの描画設定（キーの順に重ねて描画します）
+   * 指定した場合は指定したソースレイヤーのみを描画します
+   */
+  layers?: Record<string, VectorTileSourceLayerOptions>;
+  /** layersを指定しない場合に全ソースレイヤーに適用するSVG属性設定 */
+  attr?: LayerAttr;
+  /** layersを指定しない場合に全ソースレイヤーに適用するCSS style属性設定 */
+  style?: LayerStyle;
+  /** タイル取得時のfetchオプション */
+  fetchOptions?: RequestInit;
+}
+
+/**
+ * Mapbox Vector Tile（MVT/PBF）を描画するレイヤークラス
+ *
+ * 地図のサイズと投影法の現在のスケールから必要なタイルを決定して取得し、
+ * ソースレイヤーごとのGeoJSONに変換してGeojsonLayerと同じ方法で描画します。
+ * 取得したタイルは再描画をまたいで保持されます。
+ *
+ * @example
+ * ```typescript
+ * map.addLayer('basemap', new VectorTileLayer({
+ *   urlTemplate: 'https://example.com/tiles/{z}/{x}/{y}.pbf',
+ *   layers: {
+ *     water: { attr: { fill: '#a0c8f0', stroke: 'none' } },
+ *     road: { attr: { fill: 'none', stroke: d => d.properties?.class === 'motorway' ? '#e892a2' : '#ffffff' } }
+ *   }
+ * }));
+ * ```
+ */
+export class VectorTileLayer extends BaseLayer {
+  /** URLテンプレート */
+  private urlTemplate: string;
+  /** タイルサイズ */
+  private tileSize: number;
+  /** 最小ズームレベル */
+  private minZoom: number;
+  /** 最大ズームレベル */
+  private maxZoom: number;
+  /** サブドメイン */
+  private subdomains?: string | string[];
+  /** 保持するタイルの最大数 */
+  private cacheSize: number;
+  /** ソースレイヤーごとの描画設定 */
+  private sourceLayers?: Record<string, VectorTileSourceLayerOptions>;
+  /** 全ソースレイヤー共通のSVG属性設定 */
+  private featureAttr?: LayerAttr;
+  /** 全ソースレイヤー共通のCSS style属性設定 */
+  private featureStyle?: LayerStyle;
+  /** タイル取得時のfetchオプション */
+  private fetchOptions?: RequestInit;
+  /** デコード済みタイルのキャッシュ（キーは'z/x/y'、挿入順が古い順） */
+  private tileCache: Map<string, Promise<DecodedVectorTile | null>> = new Map();
+  /** 現在表示しているタイル */
+  private tiles: TileUrlInfo[] = [];
+  /** 現在表示しているソースレイヤーごとのフィーチャー */
+  private features: DecodedVectorTile = {};
+  /** ソースレイヤーを描画するGeojsonLayer */
+  private childLayers: GeojsonLayer[] = [];
+  /** 最新の描画要求の番号（古い要求の結果を破棄するために使用） */
+  private renderRequest: number = 0;
+  /** 投影法 */
+  private projection?: GeoProjection;
+  /** レイヤーグループ */
+  private layerGroup?: Selection<SVGGElement, unknown, HTMLElement, any>;
+
+  /**
+   * VectorTileLayerを初期化します
+   * @param options - レイヤーの設定オプション
+   */
+  constructor(options: VectorTileLayerOptions) {
+    // 一意のIDを自動生成
+    super(`vector-tile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, {}, {});
+
+    if (!options.urlTemplate || !['{x}', '{y}', '{z}'].every(key => options.urlTemplate.includes(key))) {
+      throw new Error('URLテンプレートには{x}, {y}, {z}のプレースホルダーを含める必要があります');
+    }
+
+    this.urlTemplate = options.urlTemplate;
+    this.tileSize = options.tileSize ?? 256;
+    this.minZoom = options.minZoom ?? 0;
+    this.maxZoom = options.maxZoom ?? 14;
+    this.subdomains = options.subdomains;
+    this.cacheSize = options.cacheSize ?? 256;
+    this.sourceLayers = options.layers;
+    this.featureAttr = options.attr;
+    this.featureStyle = options.style;
+    this.fetchOptions = options.fetchOptions;
+
+    if (this.minZoom > this.maxZoom) {
+      throw new Error(`minZoom（${this.minZoom}）はmaxZoom（${this.maxZoom}）以下で指定してください`);
+    }
+  }
+
+  /**
+   * レイヤーを描画します
+   * タイルは非同期に取得され、取得後に描画されます
+   * @param container - 描画先のSVGコンテナ
+   * @returns タイルの描画完了時に解決されるPromise（描画の失敗はコンソールに出力）
+   */
+  render(container: Selection<SVGGElement, unknown, HTMLElement, any>): Promise<void> {
+    this.layerGroup = this.createLayerGroup(container);
+    return this.renderTiles().catch(error => {
+      console.error('VectorTileLayer: 描画に失敗しました', error);
+    });
+  }
+
+  /**
+   * 投影法を設定します
+   * @param projection - 新しい投影法
+   */
+  setProjection(projection: GeoProjection): void {
+    this.projection = projection;
+    if (this.layerGroup) {
+      this.renderTiles().catch(error => {
+        console.error('VectorTileLayer: 更新に失敗しました', error);
+      });
+    }
+  }
+
+  /**
+   * 現在表示しているタイルを取得します
+   * @returns タイルURL情報の配列
+   */
+  getTiles(): TileUrlInfo[] {
+    return this.tiles;
+  }
+
+  /**
+   * 現在表示しているフィーチャーを取得します
+   * @param sourceLayer - ソースレイヤー名
+   * @returns ソースレイヤーのFeatureCollection（存在しない場合は空のFeatureCollection）
+   */
+  getFeatures(sourceLayer: string): GeoJSON.FeatureCollection {
+    return this.features[sourceLayer] ?? { type: 'FeatureCollection', features: [] };
+  }
+
+  /**
+   * 現在表示しているソースレイヤー名の一覧を取得します
+   * @returns ソースレイヤー名の配列（描画順）
+   */
+  getSourceLayerNames(): string[] {
+    return Object.keys(this.features);
+  }
+
+  /**
+   * レイヤーを削除します
+   * 再描画で再利用できるように、取得したタイルのキャッシュは保持します
+   */
+  destroy(): void {
+    this.renderRequest++;
+    this.childLayers.forEach(layer => layer.destroy());
+    this.childLayers = [];
+    this.tiles = [];
+    this.features = {};
+    this.layerGroup = undefined;
+    super.destroy();
+  }
+
+  /**
+   * 取得したタイルのキャッシュを破棄します
+   */
+  dispose(): void {
+    this.tileCache.clear();
+  }
+
+  /**
+   * イベント座標の逆投影に使用する投影法を取得します
+   * @returns 投影法
+   * @protected
+   */
+  protected getEventProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
+  /**
+   * 表示範囲のタイルを取得して描画します
+   * @private
+   * @returns 描画完了時に解決されるPromise
+   */
+  private async renderTiles(): Promise<void> {
+    if (!this.layerGroup || !this.projection) return;
+
+    const request = ++this.renderRequest;
+    const [width, height] = this.getSvgSize(this.layerGroup.node()?.ownerSVGElement ?? null);
+    const bounds = getViewBounds(this.projection, width, height);
+    if (!bounds) {
+      this.tiles = [];
+      this.features = {};
+      this.renderFeatures();
+      return;
+    }
+
+    const zoom = calculateOptimalZoom(bounds, width, height, {
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
+      tileSize: this.tileSize
+    });
+    const tiles = generateTileUrls(bounds, zoom, {
+      urlTemplate: this.urlTemplate,
+      minZoom: this.minZoom,
+      maxZoom: this.maxZoom,
+      tileSize: this.tileSize,
+      subdomains: this.subdomains
+    });
+
+    const decoded = await Promise.all(tiles.map(tile => this.loadTile(tile)));
+    this.evictTiles(tiles);
+
+    // 取得中に新しい描画要求があった場合は結果を破棄
+    if (request !== this.renderRequest || !this.layerGroup) return;
+
+    this.tiles = tiles;
+    this.features = this.mergeTiles(decoded);
+    this.renderFeatures();
+  }
+
+  /**
+   * タイルを取得してデコードします（キャッシュ済みの場合は再利用）
+   * 取得に失敗したタイルは警告を出してスキップします
+   * @private
+   * @param tile - タイルURL情報
+   * @returns デコード済みのタイル（失敗した場合はnull）
+   */
+  private loadTile(tile: TileUrlInfo): Promise<DecodedVectorTile | null> {
+    const { x, y, z } = tile.coordinate;
+    const key = `${z}/${x}/${y}`;
+    const cached = this.tileCache.get(key);
+    if (cached) {
+      // 最近使用したタイルとして末尾に移動
+      this.tileCache.delete(key);
+      this.tileCache.set(key, cached);
+      return cached;
+    }
+
+    const layerNames = this.sourceLayers ? Object.keys(this.sourceLayers) : undefined;
+    const promise = fetch(tile.url, this.fetchOptions)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`タイルの取得に失敗しました: ${tile.url} (${response.status})`);
+        }
+        return response.arrayBuffer();
+      })
+      .then(buffer => decodeVectorTile(buffer, tile.coordinate, { layers: layerNames }))
+      .catch(error => {
+        console.warn(`VectorTileLayer: タイル(${x}, ${y}, ${z})をスキップしました`, error);
+        // 失敗したタイルは次回の描画で再取得する
+        this.tileCache.delete(key);
+        return null;
+      });
+
+    this.tileCache.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * キャッシュの上限を超えたタイルを古い順に破棄します
+   * 表示中のタイルは破棄しません
+   * @private
+   * @param visibleTiles - 表示中のタイル
+   */
+  private evictTiles(visibleTiles: TileUrlInfo[]): void {
+    const visibleKeys = new Set(visibleTiles.map(({ coordinate: { x, y, z } }) => `${z}/${x}/${y}`));
+    for (const key of this.tileCache.keys()) {
+      if (this.tileCache.size <= this.cacheSize) break;
+      if (visibleKeys.has(key)) continue;
+      this.tileCache.delete(key);
+    }
+  }
+
+  /**
+   * 複数タイルのフィーチャーをソースレイヤーごとに結合します
+   * layersを指定している場合はその順序、それ以外はタイル内の出現順に並べます
+   * @private
+   * @param tiles - デコード済みのタイル
+   * @returns ソースレイヤーごとのFeatureCollection
+   */
+  private mergeTiles(tiles: (DecodedVectorTile | null)[]): DecodedVectorTile {
+    const merged: DecodedVectorTile = {};
+    if (this.sourceLayers) {
+      Object.keys(this.sourceLayers).forEach(name => {
+        merged[name] = { type: 'FeatureCollection', features: [] };
+      });
+    }
+
+    tiles.forEach(tile => {
+      if (!tile) return;
+      Object.entries(tile).forEach(([name, collection]) => {
+        if (!merged[name]) {
+          if (this.sourceLayers) return;
+          merged[name] = { type: 'FeatureCollection', features: [] };
+        }
+        merged[name].features.push(...collection.features);
+      });
+    });
+
+    return merged;
+  }
+
+  /**
+   * ソースレイヤーごとにGeojsonLayerで描画します
+   * @private
+   */
+  private renderFeatures(): void {
+    if (!this.layerGroup || !this.projection) return;
+
+    this.childLayers.forEach(layer => layer.destroy());
+    this.childLayers = [];
+    this.layerGroup.selectAll('g.thematika-vector-tile-layer').remove();
+
+    Object.entries(this.features).forEach(([name, collection]) => {
+      if (collection.features.length === 0) return;
+
+      const options = this.sourceLayers?.[name] ?? { attr: this.featureAttr, style: this.featureStyle };
+      const sourceGroup = this.layerGroup!
+        .append('g')
+        .attr('class', `thematika-vector-tile-layer thematika-vector-tile-layer--${name}`);
+
+      const layer = new GeojsonLayer({ data: collection, attr: options.attr, style: options.style });
+      layer.setProjection(this.projection!);
+      layer.render(sourceGroup);
+      this.childLayers.push(layer);
+    });
+  }
+}
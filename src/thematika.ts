@@ -1,7 +1,16 @@
 import { select, Selection } from 'd3-selection';
 import { GeoProjection } from 'd3-geo';
-import { ThematikaOptions, LayerAttr, ILayer } from './types';
+import { zoom, zoomIdentity, zoomTransform, ZoomBehavior, ZoomTransform, D3ZoomEvent } from 'd3-zoom';
+import { ThematikaOptions, LayerAttr, ILayer, IInteractiveLayer, ZoomOptions, ZoomMode, MapEventMap, MapZoomEvent, LayerEventType, LayerEvent, TooltipTemplate, TooltipOptions, ExportImageOptions, TransitionOptions, DataTransitionOptions, IDataUpdatableLayer, TimeOptions, FitOptions, LayerData } from './types';
 import { LayerManager } from './core/layer-manager';
+import { EventEmitter, EventHandler } from './core/event-emitter';
+import { TooltipController } from './core/tooltip-controller';
+import { exportSVGAsImage } from './core/image-exporter';
+import { startTransition, TransitionHandle } from './core/transition';
+import { TimeController } from './core/time-controller';
+import { TimeSlider } from './core/time-slider';
+import { interpolateProjection, getFitExtent, fitProjection, ProjectionParameters, readProjectionParameters, applyProjectionParameters } from './utils/projection-utils';
+import { BBox, getBboxCenter, getBboxDimensions } from './utils/gis-utils';
 
 /**
  * 主題図描画を行うメインクラス（リファクタリング版）
@@ -22,6 +31,30 @@ export class Map {
   private width: number;
   /** 地図の高さ */
   private height: number;
+  /** イベントエミッター */
+  private events: EventEmitter<MapEventMap> = new EventEmitter();
+  /** ズーム動作（enableZoom呼び出し後に設定） */
+  private zoomBehavior?: ZoomBehavior<SVGSVGElement, unknown>;
+  /** ズームの描画モード */
+  private zoomMode: ZoomMode = 'transform';
+  /** ズーム倍率1のときの投影法のscale/translate */
+  private zoomBase?: { scale: number; translate: [number, number] };
+  /** 最後に投影法へ反映したズーム状態（reprojectモード用） */
+  private renderedZoomTransform: ZoomTransform = zoomIdentity;
+  /** プログラムによるズーム状態の同期中かどうか */
+  private isSyncingZoom: boolean = false;
+  /** ツールチップコントローラー（初回使用時に作成） */
+  private tooltipController?: TooltipController;
+  /** 実行中の投影法の遷移 */
+  private projectionTransition?: TransitionHandle;
+  /** 投影法の遷移で最後に描画した投影法（遷移の中断時に次の遷移の始点とする） */
+  private transitionFrame?: GeoProjection;
+  /** 投影法の遷移で補間のために変更した投影法と、その本来のパラメータ（遷移の終了・中断時に元に戻す） */
+  private transitionTargets: Array<{ projection: GeoProjection; parameters: ProjectionParameters }> = [];
+  /** 時系列の再生コントローラー（enableTime呼び出し後に設定） */
+  private timeController?: TimeController;
+  /** 時間スライダー */
+  private timeSlider?: TimeSlider;
 
   /**
    * Mapインスタンスを作成します
@@ -32,7 +65,9 @@ export class Map {
     this.height = options.height;
 
     // コンテナを選択
-    this.container = select(options.container);
+    this.container = typeof options.container === 'string'
+      ? select<HTMLElement, unknown>(options.container)
+      : select(options.container) as unknown as Selection<HTMLElement, unknown, HTMLElement, any>;
     if (this.container.empty()) {
       throw new Error(`Container not found: ${options.container}`);
     }
@@ -74,6 +109,9 @@ export class Map {
     // レイヤーマネージャーを初期化
     this.layerManager = new LayerManager();
     this.layerManager.setContext(this.svgGroup, this.projection);
+    if (options.renderer) {
+      this.layerManager.setDefaultRenderer(options.renderer);
+    }
   }
 
   /**
@@ -91,6 +129,7 @@ export class Map {
    * @param id - 削除するレイヤーのID
    */
   removeLayer(id: string): void {
+    this.tooltipController?.unbind(id);
     this.layerManager.removeLayer(id);
   }
 
@@ -117,7 +156,9 @@ export class Map {
    * @param projection - 新しい投影法オブジェクト
    */
   setProjection(projection: GeoProjection): void {
+    this.cancelProjectionTransition();
     this.projection = projection;
+    this.resetZoomState();
     
     // レイヤーマネージャーの投影法を更新
     this.layerManager.updateProjection(this.projection);
@@ -126,6 +167,87 @@ export class Map {
     this.layerManager.rerenderAllLayers();
   }
 
+  /**
+   * 地図の投影法をアニメーションしながら変更します
+   *
+   * 同じ種類の投影法ではscale/translate/rotate/centerを補間し、種類が異なる投影法では
+   * 両方の投影結果を補間します（interpolateProjectionを参照）。
+   * レイヤーは破棄・再作成されず、各フレームで投影法のみが更新されます。
+   * 遷移中に再度呼び出した場合は、実行中の遷移を中断して現在の表示から遷移します。
+   *
+   * @param projection - 新しい投影法オブジェクト
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise（完了した場合はtrue、中断された場合はfalse）
+   *
+   * @example
+   * ```typescript
+   * await map.transitionProjection(d3.geoOrthographic().rotate([-135, -35]), { duration: 1000 });
+   * ```
+   */
+  transitionProjection(projection: GeoProjection, options: TransitionOptions = {}): Promise<boolean> {
+    const from = this.transitionFrame ?? this.projection;
+    const fromParameters = readProjectionParameters(from);
+    this.projectionTransition?.cancel();
+    this.projectionTransition = undefined;
+    this.transitionFrame = undefined;
+
+    // 中断した遷移で変更された投影法を元に戻す（異なる種類の投影法との補間で始点として使うfromは遷移の終了まで残す）
+    this.restoreTransitionTargets(target => target !== from || target === projection);
+    if (!this.transitionTargets.some(target => target.projection === projection)) {
+      this.transitionTargets.push({ projection, parameters: readProjectionParameters(projection) });
+    }
+
+    // ズーム中のtransformを解除してから遷移する
+    this.layerManager.setLayerTransform(null);
+
+    // 遷移先が中断した遷移の投影法自体の場合に備え、最初のフレームまで現在の表示を保つ
+    const interpolate = interpolateProjection(from, projection, fromParameters);
+    this.transitionFrame = interpolate(0);
+    const transition = startTransition(t => {
+      this.transitionFrame = interpolate(t);
+      this.layerManager.updateProjection(this.transitionFrame);
+    }, options);
+    this.projectionTransition = transition;
+
+    return transition.finished.then(completed => {
+      if (completed) {
+        this.projectionTransition = undefined;
+        this.transitionFrame = undefined;
+        this.restoreTransitionTargets();
+        this.projection = projection;
+        this.resetZoomState();
+      }
+      return completed;
+    });
+  }
+
+  /**
+   * レイヤーのデータを更新します
+   * 描画済みのレイヤーは再作成されず、追加されたフィーチャーはフェードイン、
+   * 削除されたフィーチャーはフェードアウトし、残ったフィーチャーは形状とスタイルが更新されます
+   * 対応するのはIDataUpdatableLayerを実装したレイヤー（GeojsonLayer、ChoroplethLayer、CartogramLayer）のみで、
+   * それ以外のレイヤーではエラーになります
+   * @param id - レイヤーのID
+   * @param data - 新しいGeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名）
+   * @param options - 遷移のオプション
+   * @returns 遷移の終了時に解決されるPromise
+   *
+   * @example
+   * ```typescript
+   * await map.setLayerData('prefectures', nextYearData, { key: f => f.properties!.code, duration: 500 });
+   * ```
+   */
+  setLayerData(id: string, data: LayerData, options?: DataTransitionOptions): Promise<void> {
+    const layer = this.layerManager.getLayer(id);
+    if (!layer) {
+      throw new Error(`Layer not found: ${id}`);
+    }
+    if (!('setData' in layer)) {
+      throw new Error(`Layer does not support data updates: ${id}`);
+    }
+    return (layer as IDataUpdatableLayer).setData(data, options);
+  }
+
   /**
    * 地図のサイズを変更します
    * @param width - 新しい幅
@@ -152,14 +274,44 @@ export class Map {
 
   /**
    * 地図を指定された境界にフィットさせます
+   * west > eastの境界は日付変更線をまたぐ範囲として扱い、投影法の経度の切れ目（中央経線の反対側）が
+   * 範囲の内側にある場合は、範囲の中央が中央経線になるように投影法を回転します
    * @param bounds - 境界ボックス [minLng, minLat, maxLng, maxLat]
    * @param padding - パディング（ピクセル）
    */
   fitBounds(bounds: [number, number, number, number], padding: number = 20): void {
-    const [[x0, y0], [x1, y1]] = this.projection.invert ? [
-      this.projection([bounds[0], bounds[3]])!,
-      this.projection([bounds[2], bounds[1]])!
-    ] : [[0, 0], [this.width, this.height]];
+    const [west, south, east, north] = bounds;
+    const bbox: BBox = { minX: west, minY: south, maxX: east, maxY: north };
+    const span = getBboxDimensions(bbox).width;
+
+    this.cancelProjectionTransition();
+
+    const [lambda, phi, gamma] = this.projection.rotate();
+    const cutOffset = ((180 - lambda - west) % 360 + 360) % 360;
+    if (cutOffset > 0 && cutOffset < span) {
+      this.projection.rotate([-getBboxCenter(bbox).x, phi, gamma]);
+    }
+
+    // 境界に沿った点を投影し、縮尺1・原点を基準とした画面上の範囲を求める
+    const currentScale = this.projection.scale();
+    const [tx, ty] = this.projection.translate();
+    const steps = 16;
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (let i = 0; i <= steps; i++) {
+      const lon = west + span * i / steps;
+      const lat = south + (north - south) * i / steps;
+      ([[lon, south], [lon, north], [west, lat], [west + span, lat]] as [number, number][]).forEach(coordinate => {
+        const point = this.projection(coordinate);
+        if (!point || !isFinite(point[0]) || !isFinite(point[1])) return;
+        const x = (point[0] - tx) / currentScale;
+        const y = (point[1] - ty) / currentScale;
+        x0 = Math.min(x0, x);
+        y0 = Math.min(y0, y);
+        x1 = Math.max(x1, x);
+        y1 = Math.max(y1, y);
+      });
+    }
+    if (!(x1 > x0) && !(y1 > y0)) return;
 
     const scale = Math.min(
       (this.width - padding * 2) / Math.abs(x1 - x0),
@@ -172,14 +324,372 @@ export class Map {
     ];
 
     this.projection.scale(scale).translate(translate);
+    this.resetZoomState();
+    this.layerManager.updateProjection(this.projection);
+    this.layerManager.rerenderAllLayers();
+  }
+
+  /**
+   * 地図をGeoJSONにフィットさせます
+   * 投影法のfitExtentで投影後の形状の範囲を求めるため、円錐図法や方位図法、回転した投影法でもデータ全体が収まります。
+   * 表示中の凡例（LegendLayer）と重なる場合は、凡例を避けた範囲に収めます
+   * @param geojson - 収めるGeoJSONオブジェクト
+   * @param options - フィットのオプション
+   *
+   * @example
+   * ```typescript
+   * map.fitFeatures(prefectures, { padding: { top: 40, right: 20, bottom: 20, left: 20 }, maxScale: 20000 });
+   * ```
+   */
+  fitFeatures(geojson: GeoJSON.GeoJSON, options: FitOptions = {}): void {
+    this.cancelProjectionTransition();
+
+    const overlays = options.avoidOverlays === false ? [] : this.layerManager.getOverlayBounds();
+    const extent = getFitExtent(this.width, this.height, options.padding, overlays);
+    fitProjection(this.projection, geojson, extent, options.maxScale);
+
+    this.resetZoomState();
+    this.layerManager.updateProjection(this.projection);
+    this.layerManager.rerenderAllLayers();
+  }
+
+  /**
+   * 地図をレイヤーのデータにフィットさせます
+   * @param id - レイヤーのID
+   * @param options - フィットのオプション
+   */
+  fitLayer(id: string, options: FitOptions = {}): void {
+    const layer = this.layerManager.getLayer(id);
+    if (!layer) {
+      throw new Error(`Layer not found: ${id}`);
+    }
+    if (!('getData' in layer)) {
+      throw new Error(`Layer does not support fitting: ${id}`);
+    }
+    this.fitFeatures((layer as ILayer & { getData(): GeoJSON.FeatureCollection }).getData(), options);
+  }
+
+  /**
+   * マウスホイールやドラッグによるズーム・パンを有効にします
+   * @param options - ズームの設定オプション
+   */
+  enableZoom(options: ZoomOptions = {}): void {
+    const minScale = options.minScale ?? 1;
+    const maxScale = options.maxScale ?? 8;
+
+    if (minScale <= 0 || maxScale < minScale) {
+      throw new Error(`無効なズーム範囲です: minScale=${minScale}, maxScale=${maxScale}`);
+    }
+
+    // 既存のズーム設定があれば解除してから再設定
+    if (this.zoomBehavior) {
+      this.disableZoom();
+    }
+
+    this.zoomMode = options.mode || 'transform';
+    this.zoomBase = {
+      scale: this.projection.scale(),
+      translate: this.projection.translate()
+    };
+    this.renderedZoomTransform = zoomIdentity;
+
+    this.zoomBehavior = zoom<SVGSVGElement, unknown>()
+      .scaleExtent([minScale, maxScale])
+      .on('start', (event: D3ZoomEvent<SVGSVGElement, unknown>) => this.handleZoom('zoomstart', event))
+      .on('zoom', (event: D3ZoomEvent<SVGSVGElement, unknown>) => this.handleZoom('zoom', event))
+      .on('end', (event: D3ZoomEvent<SVGSVGElement, unknown>) => this.handleZoom('zoomend', event));
+
+    this.svg.call(this.zoomBehavior);
+  }
+
+  /**
+   * ズーム・パンを無効にし、初期表示に戻します
+   */
+  disableZoom(): void {
+    if (!this.zoomBehavior) return;
+
+    this.resetZoom();
+    this.svg.on('.zoom', null);
+    this.zoomBehavior = undefined;
+    this.zoomBase = undefined;
+  }
+
+  /**
+   * ズーム・パンを初期表示（倍率1）に戻します
+   */
+  resetZoom(): void {
+    if (!this.zoomBehavior) return;
+    this.svg.call(this.zoomBehavior.transform, zoomIdentity);
+  }
+
+  /**
+   * 現在のズーム倍率を取得します
+   * @returns ズーム倍率（ズーム無効時は1）
+   */
+  getZoomScale(): number {
+    if (!this.zoomBehavior) return 1;
+    return zoomTransform(this.svg.node()!).k;
+  }
+
+  /**
+   * 時系列レイヤーの再生を有効にします
+   * 作成したコントローラーの日時が変わると、timeAccessorを持つレイヤーの表示が更新されます
+   * @param options - 時間の範囲と再生の設定（範囲を省略した場合は追加済みの時系列レイヤーの日時を使用）
+   * @returns 再生を操作するコントローラー
+   *
+   * @example
+   * ```typescript
+   * map.addLayer('cases', new PointCircleLayer({ data, timeAccessor: f => f.properties!.date }));
+   * const time = map.enableTime({ interval: 500, slider: true });
+   * time.on('timechange', e => console.log(e.date));
+   * time.play();
+   * ```
+   */
+  enableTime(options: TimeOptions = {}): TimeController {
+    this.disableTime();
+
+    const { slider, ...controllerOptions } = options;
+    if (!controllerOptions.times && (controllerOptions.start === undefined || controllerOptions.end === undefined)) {
+      controllerOptions.times = this.layerManager.getTimeSteps();
+    }
+
+    const controller = new TimeController(controllerOptions);
+    controller.on('timechange', event => this.layerManager.setTime(event.time));
+    this.layerManager.setTime(controller.getTime());
+    this.timeController = controller;
+
+    if (slider) {
+      this.timeSlider = new TimeSlider(controller, slider === true ? {} : slider);
+      this.timeSlider.render(this.svg, { width: this.width, height: this.height });
+    }
+    return controller;
+  }
+
+  /**
+   * 時系列レイヤーの再生を無効にし、全ての日時のフィーチャーを表示します
+   */
+  disableTime(): void {
+    if (!this.timeController) return;
+
+    this.timeSlider?.destroy();
+    this.timeSlider = undefined;
+    this.timeController.destroy();
+    this.timeController = undefined;
+    this.layerManager.setTime(null);
+  }
+
+  /**
+   * 時系列の再生コントローラーを取得します
+   * @returns コントローラー（enableTime前はundefined）
+   */
+  getTimeController(): TimeController | undefined {
+    return this.timeController;
+  }
+
+  /**
+   * イベントハンドラーを登録します
+   * レイヤーIDを指定した場合は、そのレイヤーのフィーチャーに対するポインターイベントを購読します
+   * @param type - イベント種別
+   * @param layerIdOrHandler - レイヤーID、またはMapイベントのハンドラー
+   * @param handler - レイヤーイベントのハンドラー
+   * 
+   * @example
+   * ```typescript
+   * map.on('zoomend', e => console.log(e.scale));
+   * map.on('click', 'countries', e => console.log(e.feature.properties));
+   * ```
+   */
+  on<K extends keyof MapEventMap>(type: K, handler: EventHandler<MapEventMap[K]>): void;
+  on(type: LayerEventType, layerId: string, handler: EventHandler<LayerEvent>): void;
+  on(type: string, layerIdOrHandler: string | EventHandler<any>, handler?: EventHandler<any>): void {
+    if (typeof layerIdOrHandler === 'string') {
+      this.getInteractiveLayer(layerIdOrHandler).on(type as LayerEventType, handler!);
+      return;
+    }
+    this.events.on(type as keyof MapEventMap, layerIdOrHandler);
+  }
+
+  /**
+   * イベントハンドラーを解除します
+   * @param type - イベント種別
+   * @param layerIdOrHandler - レイヤーID、またはMapイベントのハンドラー（省略時は全て解除）
+   * @param handler - レイヤーイベントのハンドラー（省略時は全て解除）
+   */
+  off<K extends keyof MapEventMap>(type: K, handler?: EventHandler<MapEventMap[K]>): void;
+  off(type: LayerEventType, layerId: string, handler?: EventHandler<LayerEvent>): void;
+  off(type: string, layerIdOrHandler?: string | EventHandler<any>, handler?: EventHandler<any>): void {
+    if (typeof layerIdOrHandler === 'string') {
+      this.getInteractiveLayer(layerIdOrHandler).off(type as LayerEventType, handler);
+      return;
+    }
+    this.events.off(type as keyof MapEventMap, layerIdOrHandler);
+  }
+
+  /**
+   * レイヤーにツールチップを設定します
+   * @param layerId - レイヤーID
+   * @param template - 表示内容を生成するテンプレート関数（文字列はHTMLとして扱われます）
+   * @param options - 表示オプション
+   * 
+   * @example
+   * ```typescript
+   * map.setTooltip('prefectures', f => `<strong>${f.properties?.name}</strong>`);
+   * ```
+   */
+  setTooltip(layerId: string, template: TooltipTemplate, options?: TooltipOptions): void {
+    const layer = this.getInteractiveLayer(layerId);
+    this.getTooltipController().bind(layerId, layer, template, options);
+  }
+
+  /**
+   * レイヤーのツールチップ設定を解除します
+   * @param layerId - レイヤーID
+   */
+  removeTooltip(layerId: string): void {
+    this.tooltipController?.unbind(layerId);
+  }
+
+  /**
+   * ツールチップコントローラーを取得します
+   * @returns ツールチップコントローラー
+   */
+  getTooltipController(): TooltipController {
+    if (!this.tooltipController) {
+      this.tooltipController = new TooltipController({
+        container: this.container.node()!,
+        svg: this.svg.node()!
+      });
+    }
+    return this.tooltipController;
+  }
+
+  /**
+   * ポインターイベントを購読できるレイヤーを取得します
+   * @private
+   * @param id - レイヤーID
+   * @returns レイヤーインスタンス
+   */
+  private getInteractiveLayer(id: string): IInteractiveLayer {
+    const layer = this.layerManager.getLayer(id);
+    if (!layer) {
+      throw new Error(`Layer not found: ${id}`);
+    }
+    if (!('on' in layer) || !('off' in layer)) {
+      throw new Error(`Layer does not support events: ${id}`);
+    }
+    return layer as IInteractiveLayer;
+  }
+
+  /**
+   * 実行中の投影法の遷移を中断します
+   * @private
+   */
+  private cancelProjectionTransition(): void {
+    if (!this.projectionTransition) return;
+    this.projectionTransition.cancel();
+    this.projectionTransition = undefined;
+    this.transitionFrame = undefined;
+    this.restoreTransitionTargets();
+  }
+
+  /**
+   * 投影法の遷移で変更した投影法のパラメータを本来の状態に戻します
+   * @private
+   * @param filter - 戻す対象の投影法を判定する関数（省略時は全て戻す）
+   */
+  private restoreTransitionTargets(filter: (projection: GeoProjection) => boolean = () => true): void {
+    this.transitionTargets = this.transitionTargets.filter(target => {
+      if (!filter(target.projection)) return true;
+      applyProjectionParameters(target.projection, target.parameters);
+      return false;
+    });
+  }
+
+  /**
+   * d3-zoomのイベントを処理します
+   * @private
+   * @param type - 発火するイベント種別
+   * @param event - d3-zoomのイベント
+   */
+  private handleZoom(type: MapZoomEvent['type'], event: D3ZoomEvent<SVGSVGElement, unknown>): void {
+    if (this.isSyncingZoom) return;
+
+    const transform = event.transform;
+
+    if (this.zoomMode === 'transform') {
+      this.layerManager.setLayerTransform(
+        transform.k === 1 && transform.x === 0 && transform.y === 0 ? null : transform.toString()
+      );
+    } else if (type === 'zoomend') {
+      this.reprojectForZoom(transform);
+    } else if (type === 'zoom') {
+      // ズーム中は最後に再投影した状態からの差分をtransformで仮表示
+      const rendered = this.renderedZoomTransform;
+      const k = transform.k / rendered.k;
+      const preview = zoomIdentity
+        .translate(transform.x - k * rendered.x, transform.y - k * rendered.y)
+        .scale(k);
+      this.layerManager.setLayerTransform(preview.toString());
+    }
+
+    this.events.emit(type, {
+      type,
+      scale: transform.k,
+      translate: [transform.x, transform.y],
+      projectionScale: this.projection.scale(),
+      sourceEvent: event.sourceEvent || null
+    });
+  }
+
+  /**
+   * ズーム状態を投影法に反映して全レイヤーを再描画します
+   * @private
+   * @param transform - 反映するズーム状態
+   */
+  private reprojectForZoom(transform: ZoomTransform): void {
+    if (!this.zoomBase) return;
+
+    const [tx, ty] = this.zoomBase.translate;
+    this.projection
+      .scale(this.zoomBase.scale * transform.k)
+      .translate([transform.x + transform.k * tx, transform.y + transform.k * ty]);
+    this.renderedZoomTransform = transform;
+
+    this.layerManager.setLayerTransform(null);
     this.layerManager.updateProjection(this.projection);
     this.layerManager.rerenderAllLayers();
   }
 
+  /**
+   * 投影法が外部から変更された際に、ズーム状態を初期化します
+   * 現在の投影法を新たな倍率1の状態として扱います
+   * @private
+   */
+  private resetZoomState(): void {
+    this.layerManager.setLayerTransform(null);
+    if (!this.zoomBehavior) return;
+
+    this.zoomBase = {
+      scale: this.projection.scale(),
+      translate: this.projection.translate()
+    };
+    this.renderedZoomTransform = zoomIdentity;
+
+    // d3-zoomが保持する状態のみを初期化（イベントは処理しない）
+    this.isSyncingZoom = true;
+    try {
+      this.svg.call(this.zoomBehavior.transform, zoomIdentity);
+    } finally {
+      this.isSyncingZoom = false;
+    }
+  }
+
   /**
    * 全レイヤーを削除します
    */
   clearAllLayers(): void {
+    this.tooltipController?.destroy();
+    this.tooltipController = undefined;
     this.layerManager.clearAllLayers();
   }
 
@@ -236,66 +746,50 @@ export class Map {
 
     const svgData = new XMLSerializer().serializeToString(svgElement);
     const blob = new Blob([svgData], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${filename}.svg`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    this.downloadBlob(blob, `${filename}.svg`);
   }
 
   /**
-   * 地図をPNGファイルとしてダウンロードします
-   * @param filename - ダウンロードするファイル名（拡張子なし）
+   * 地図を画像として出力します
+   * 画面上の表示サイズではなく地図の幅・高さと倍率から出力サイズを決定します
+   * 外部画像の取得や画像生成の失敗はPromiseのエラーとして通知されます
+   * @param options - 出力オプション
+   * @returns 画像のBlob
    */
-  savePNG(filename: string): void {
+  exportImage(options: ExportImageOptions = {}): Promise<Blob> {
     const svgElement = this.svg.node();
     if (!svgElement) {
-      throw new Error('SVG要素が見つかりません');
-    }
-
-    const svgData = new XMLSerializer().serializeToString(svgElement);
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Canvas 2Dコンテキストを取得できません');
+      return Promise.reject(new Error('SVG要素が見つかりません'));
     }
-    
-    const img = new Image();
-
-    // SVGのサイズを取得
-    const svgRect = svgElement.getBoundingClientRect();
-    canvas.width = svgRect.width || this.width;
-    canvas.height = svgRect.height || this.height;
-
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0);
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          throw new Error('PNG Blobの生成に失敗しました');
-        }
-        
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${filename}.png`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      });
-    };
+    return exportSVGAsImage(svgElement, this.width, this.height, options);
+  }
 
-    img.onerror = () => {
-      throw new Error('画像の読み込みに失敗しました');
-    };
+  /**
+   * 地図をPNGファイルとしてダウンロードします
+   * @param filename - ダウンロードするファイル名（拡張子なし）
+   * @param options - 出力オプション（formatは'png'に固定されます）
+   * @returns ダウンロード完了時に解決されるPromise
+   */
+  savePNG(filename: string, options: Omit<ExportImageOptions, 'format'> = {}): Promise<void> {
+    return this.exportImage({ ...options, format: 'png' })
+      .then(blob => this.downloadBlob(blob, `${filename}.png`));
+  }
 
-    const blob = new Blob([svgData], { type: 'image/svg+xml' });
+  /**
+   * Blobをファイルとしてダウンロードします
+   * @private
+   * @param blob - ダウンロードするデータ
+   * @param filename - ファイル名
+   */
+  private downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
-    img.src = url;
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -5,8 +5,8 @@ import { Selection } from 'd3-selection';
  * Thematikaインスタンスの初期化オプション
  */
 export interface ThematikaOptions {
-  /** 主題図を描画するDOM要素のCSSセレクタ */
-  container: string;
+  /** 主題図を描画するDOM要素のCSSセレクタ、またはDOM要素 */
+  container: string | HTMLElement;
   /** 主題図の幅（ピクセル） */
   width: number;
   /** 主題図の高さ（ピクセル） */
@@ -17,7 +17,239 @@ export interface ThematikaOptions {
   defs?: any[];
   /** 背景色 */
   backgroundColor?: string;
+  /** Canvas描画に対応したレイヤーの既定レンダラー（デフォルト: 'svg'） */
+  renderer?: LayerRenderer;
+}
+
+/**
+ * レイヤーの描画方式
+ * - svg: フィーチャーごとにSVG要素を作成
+ * - canvas: レイヤーグループ内のCanvasにまとめて描画（大量のフィーチャー向け）
+ */
+export type LayerRenderer = 'svg' | 'canvas';
+
+
+/**
+ * ズームの描画モード
+ * - transform: レイヤーグループのtransformのみを変更する軽量モード
+ * - reproject: 投影法のscale/translateを変更して再描画するモード
+ */
+export type ZoomMode = 'transform' | 'reproject';
+
+/**
+ * 画像出力の形式
+ */
+export type ExportImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * Map.exportImageのオプション
+ */
+export interface ExportImageOptions {
+  /** 出力形式（デフォルト: 'png'） */
+  format?: ExportImageFormat;
+  /** 地図サイズに対する出力解像度の倍率（デフォルト: window.devicePixelRatio） */
+  scale?: number;
+  /** 背景色（未指定の場合、pngとwebpは透明、jpegは白） */
+  background?: string;
+  /** jpeg/webpの画質（0-1） */
+  quality?: number;
+  /** 外部画像をData URLとして埋め込むか（デフォルト: true） */
+  embedImages?: boolean;
+  /** ドキュメントの@font-faceをフォントデータごと埋め込むか（デフォルト: true） */
+  embedFonts?: boolean;
+}
+
+/**
+ * Map.enableZoomのオプション
+ */
+export interface ZoomOptions {
+  /** 最小ズーム倍率（デフォルト: 1） */
+  minScale?: number;
+  /** 最大ズーム倍率（デフォルト: 8） */
+  maxScale?: number;
+  /** 描画モード（デフォルト: 'transform'） */
+  mode?: ZoomMode;
+}
+
+/**
+ * 画面上の矩形（ピクセル）
+ */
+export interface ScreenRect {
+  /** 左端のx座標 */
+  x: number;
+  /** 上端のy座標 */
+  y: number;
+  /** 幅 */
+  width: number;
+  /** 高さ */
+  height: number;
+}
+
+/**
+ * フィット時の地図の端からの余白（ピクセル、数値の場合は全ての辺に同じ余白）
+ */
+export type FitPadding = number | { top?: number; right?: number; bottom?: number; left?: number };
+
+/**
+ * Map.fitFeatures・Map.fitLayerのオプション
+ */
+export interface FitOptions {
+  /** 地図の端からの余白（デフォルト: 20） */
+  padding?: FitPadding;
+  /** 投影法のscaleの上限（ポイントのみのデータなどで拡大しすぎないようにする） */
+  maxScale?: number;
+  /** 凡例など地図に重ねて表示するレイヤーを避けて配置するか（デフォルト: true） */
+  avoidOverlays?: boolean;
+}
+
+/**
+ * 遷移アニメーションのイージング
+ * 名前、または0〜1の経過時間を0〜1の進行度に変換する関数で指定します
+ */
+export type TransitionEasing = 'linear' | 'quadInOut' | 'cubicInOut' | 'sinInOut' | 'expOut' | ((t: number) => number);
 
+/**
+ * 遷移アニメーションのオプション
+ */
+export interface TransitionOptions {
+  /** 遷移にかける時間（ミリ秒、デフォルト: 750、0で即時に反映） */
+  duration?: number;
+  /** イージング（デフォルト: 'cubicInOut'） */
+  easing?: TransitionEasing;
+}
+
+/**
+ * データ更新時の遷移オプション
+ */
+export interface DataTransitionOptions extends TransitionOptions {
+  /** 更新前後のフィーチャーを対応付けるキー（デフォルト: feature.id、未設定の場合はインデックス） */
+  key?: (feature: GeoJSON.Feature, index: number) => string | number;
+}
+
+/**
+ * 日時の値（Date、エポックミリ秒、またはDate.parseで解釈できる文字列）
+ */
+export type TimeValue = Date | number | string;
+
+/**
+ * フィーチャーの日時を取得する関数
+ * 単一の日時、または期間 [開始, 終了]（nullは期限なし）を返します。null/undefinedの場合は常に表示されます
+ */
+export type TimeAccessor = (feature: GeoJSON.Feature, index: number) => TimeValue | [TimeValue | null, TimeValue | null] | null | undefined;
+
+/**
+ * 単一の日時を持つフィーチャーの表示方法
+ * - 'snapshot': 現在時刻以前で最も新しい日時のフィーチャーのみを表示
+ * - 'cumulative': 現在時刻以前の日時のフィーチャーをすべて表示
+ * - 'interpolate': 'snapshot'と同じフィーチャーを、次の日時の同じキーのフィーチャーとの間で補間して表示
+ */
+export type TimeFilterMode = 'snapshot' | 'cumulative' | 'interpolate';
+
+/**
+ * 時系列データを扱うレイヤーのオプション
+ */
+export interface TemporalLayerOptions {
+  /** フィーチャーの日時を取得する関数（未指定の場合は時刻によらず全て表示） */
+  timeAccessor?: TimeAccessor;
+  /** 単一の日時を持つフィーチャーの表示方法（デフォルト: 'snapshot'） */
+  timeMode?: TimeFilterMode;
+  /** 'interpolate'で日時の異なるフィーチャーを対応付けるキー（デフォルト: feature.id、未設定の場合は同じ日時内のインデックス） */
+  timeKey?: (feature: GeoJSON.Feature, index: number) => string | number;
+}
+
+/**
+ * TimeControllerの初期化オプション
+ * timesまたはstartとendのいずれかで時間の範囲を指定します
+ */
+export interface TimeControllerOptions {
+  /** 再生する日時の一覧 */
+  times?: TimeValue[];
+  /** 開始日時 */
+  start?: TimeValue;
+  /** 終了日時 */
+  end?: TimeValue;
+  /** startからendまでの間隔（ミリ秒、デフォルト: 86400000 = 1日） */
+  step?: number;
+  /** 初期の日時（デフォルト: 最初の日時） */
+  current?: TimeValue;
+  /** 再生時に1ステップ進むまでの時間（ミリ秒、デフォルト: 1000） */
+  interval?: number;
+  /** 最後まで再生したら最初に戻るか（デフォルト: false） */
+  loop?: boolean;
+  /** 再生時にステップの間も連続的に時刻を進めるか（'interpolate'のレイヤー向け、デフォルト: false） */
+  smooth?: boolean;
+}
+
+/**
+ * TimeControllerが発火するイベントの内容
+ */
+export interface TimeChangeEvent {
+  /** イベント種別 */
+  type: 'timechange' | 'play' | 'pause' | 'end';
+  /** 現在の日時（エポックミリ秒） */
+  time: number;
+  /** 現在の日時 */
+  date: Date;
+  /** 現在の日時以前で最も新しいステップのインデックス */
+  index: number;
+}
+
+/**
+ * TimeControllerが発火するイベントの一覧
+ */
+export interface TimeControllerEventMap {
+  timechange: TimeChangeEvent;
+  play: TimeChangeEvent;
+  pause: TimeChangeEvent;
+  end: TimeChangeEvent;
+}
+
+/**
+ * 時間スライダーの表示オプション
+ */
+export interface TimeSliderOptions {
+  /** 表示位置（デフォルト: 地図の左下） */
+  position?: { top: number; left: number };
+  /** スライダー全体の幅（ピクセル、デフォルト: 地図の幅 - 40） */
+  width?: number;
+  /** 日時ラベルの表示形式（デフォルト: YYYY-MM-DD） */
+  format?: (date: Date) => string;
+  /** 再生・一時停止ボタンを表示するか（デフォルト: true） */
+  playButton?: boolean;
+}
+
+/**
+ * Map.enableTimeのオプション
+ * 時間の範囲を省略した場合は、追加済みの時系列レイヤーの日時が使用されます
+ */
+export interface TimeOptions extends TimeControllerOptions {
+  /** 時間スライダーを表示するか（trueで既定の設定、デフォルト: false） */
+  slider?: boolean | TimeSliderOptions;
+}
+
+/**
+ * ズームイベントの内容
+ */
+export interface MapZoomEvent {
+  /** イベント種別 */
+  type: 'zoomstart' | 'zoom' | 'zoomend';
+  /** 初期状態からのズーム倍率 */
+  scale: number;
+  /** 初期状態からの平行移動量 [x, y] */
+  translate: [number, number];
+  /** 現在の投影法のスケール値（reprojectモードではズーム終了時に更新されます） */
+  projectionScale: number;
+  /** 元となったDOMイベント（プログラムによる操作の場合はnull） */
+  sourceEvent: Event | null;
+}
+
+/**
+ * Mapが発火するイベントの一覧
+ */
+export interface MapEventMap {
+  zoomstart: MapZoomEvent;
+  zoom: MapZoomEvent;
+  zoomend: MapZoomEvent;
 }
 
 
@@ -68,6 +300,8 @@ export interface ILayer {
   render(container: Selection<SVGGElement, unknown, HTMLElement, any>): void;
   /** レイヤーを削除する */
   destroy(): void;
+  /** レイヤーが保持するキャッシュなどを破棄する（地図からレイヤーを取り除く際に呼ばれる） */
+  dispose?(): void;
   /** 表示状態を設定する */
   setVisible(visible: boolean): void;
   /** 描画順序を設定する */
@@ -78,6 +312,66 @@ export interface ILayer {
   getLayerGroup(): Selection<SVGGElement, unknown, HTMLElement, any> | null;
 }
 
+/**
+ * レイヤーが発火するポインターイベントの種別
+ */
+export type LayerEventType = 'click' | 'dblclick' | 'contextmenu' | 'mouseover' | 'mouseout' | 'mousemove';
+
+/**
+ * レイヤーのポインターイベントの内容
+ */
+export interface LayerEvent {
+  /** イベント種別 */
+  type: LayerEventType;
+  /** イベントが発生したレイヤーのID */
+  layerId: string;
+  /** 対象のGeoJSONフィーチャー */
+  feature: GeoJSON.Feature;
+  /** フィーチャーのインデックス（特定できない場合は-1） */
+  index: number;
+  /** 投影座標 [x, y]（ズームのtransformを除いた地図座標系） */
+  pixel: [number, number];
+  /** 地理座標 [経度, 緯度]（逆投影できない場合はnull） */
+  coordinates: [number, number] | null;
+  /** 元となったDOMイベント */
+  sourceEvent: MouseEvent;
+}
+
+/**
+ * レイヤーが発火するイベントの一覧
+ */
+export type LayerEventMap = {
+  [K in LayerEventType]: LayerEvent;
+};
+
+/**
+ * ポインターイベントを購読できるレイヤーのインターフェース
+ */
+export interface IInteractiveLayer extends ILayer {
+  /** イベントハンドラーを登録する */
+  on<K extends LayerEventType>(type: K, handler: (event: LayerEventMap[K]) => void): void;
+  /** イベントハンドラーを解除する */
+  off<K extends LayerEventType>(type: K, handler?: (event: LayerEventMap[K]) => void): void;
+}
+
+/**
+ * ツールチップの表示内容を生成するテンプレート関数
+ * 文字列を返した場合はHTMLとして扱われます
+ */
+export type TooltipTemplate = (feature: GeoJSON.Feature, index: number) => string | HTMLElement;
+
+/**
+ * ツールチップの表示オプション
+ */
+export interface TooltipOptions {
+  /** 表示のきっかけ（デフォルト: 'hover'） */
+  trigger?: 'hover' | 'click';
+  /** カーソル位置からのオフセット [x, y]（デフォルト: [12, 12]） */
+  offset?: [number, number];
+  /** ツールチップ要素に追加するCSSクラス名 */
+  className?: string;
+}
+
 /**
  * GeoJSONレイヤーインターフェース
  */
@@ -86,6 +380,45 @@ export interface IGeojsonLayer extends ILayer {
   setProjection(projection: GeoProjection): void;
 }
 
+/**
+ * 再描画せずにデータを更新できるレイヤーインターフェース
+ * GeojsonLayerとそのサブクラス（ChoroplethLayer、CartogramLayer）が実装しています
+ * PointCircleLayerやPointSymbolLayerなどの他のレイヤーは未対応のため、データを変更する場合はレイヤーを追加し直してください
+ */
+export interface IDataUpdatableLayer extends ILayer {
+  /** データを更新する（描画済みの場合は追加・更新・削除されたフィーチャーのみを反映） */
+  setData(data: LayerData, options?: DataTransitionOptions): Promise<void>;
+}
+
+/**
+ * 時系列データを扱うレイヤーインターフェース
+ */
+export interface ITemporalLayer extends ILayer {
+  /** 表示する日時を設定する（nullで日時によらず全て表示） */
+  setTime(time: number | null): void;
+  /** データに含まれる日時の一覧を昇順で取得する */
+  getTimeSteps(): number[];
+}
+
+/**
+ * 凡例など地図の上に重ねて表示するレイヤーインターフェース
+ * Map.fitFeaturesは表示中のレイヤーが占める矩形を避けてデータを配置します
+ */
+export interface IOverlayLayer extends ILayer {
+  /** 地図上で占める矩形を取得する（未描画の場合はnull） */
+  getOverlayBounds(): ScreenRect | null;
+}
+
+/**
+ * 描画方式を切り替え可能なレイヤーインターフェース
+ */
+export interface IRendererSwitchableLayer extends ILayer {
+  /** レイヤーに設定された描画方式を取得する（未設定の場合はundefined） */
+  getRenderer(): LayerRenderer | undefined;
+  /** 描画方式を設定する */
+  setRenderer(renderer: LayerRenderer): void;
+}
+
 
 /**
  * アーク制御点の位置タイプ
@@ -109,8 +442,8 @@ export interface ILineConnectionLayer extends ILayer {
  * PointSpikeLayerの初期化オプション
  */
 export interface PointSpikeLayerOptions {
-  /** GeoJSONデータ */
-  data: GeoJSON.FeatureCollection | GeoJSON.Feature[];
+  /** GeoJSONデータ（TopoJSONの場合はトポロジーとオブジェクト名） */
+  data: LayerData;
   /** レイヤーの属性設定 */
   attr?: LayerAttr;
   /** レイヤーのCSS style属性設定 */
@@ -119,8 +452,67 @@ export interface PointSpikeLayerOptions {
   length?: number | ((feature: GeoJSON.Feature, index: number) => number);
   /** スパイクの方向 */
   direction?: 'up' | 'down' | 'left' | 'right';
+  /** ポイント以外のジオメトリにシンボルを配置する位置（デフォルト: 'vertex-mean'） */
+  placement?: PointPlacement;
 }
 
+/**
+ * ポイント系レイヤーでポイント以外のジオメトリにシンボルを配置する位置
+ * - 'vertex-mean': 全頂点の単純な平均（getCentroid）
+ * - 'planar-centroid': 経緯度平面での面積で重み付けした重心（getPlanarCentroid）
+ * - 'spherical-centroid': 球面上の面積で重み付けした重心（getSphericalCentroid）
+ * - 'label-point': ポリゴンの内部で境界から最も遠い点（getLabelPoint）
+ */
+export type PointPlacement = 'vertex-mean' | 'planar-centroid' | 'spherical-centroid' | 'label-point';
+
+/**
+ * TopoJSONのジオメトリオブジェクト
+ * arcsはトポロジーの弧のインデックスで、負の値は~indexの弧を逆向きにたどることを表します
+ */
+export type TopologyGeometry = (
+  | { type: 'Point'; coordinates: number[] }
+  | { type: 'MultiPoint'; coordinates: number[][] }
+  | { type: 'LineString'; arcs: number[] }
+  | { type: 'MultiLineString'; arcs: number[][] }
+  | { type: 'Polygon'; arcs: number[][] }
+  | { type: 'MultiPolygon'; arcs: number[][][] }
+  | { type: 'GeometryCollection'; geometries: TopologyGeometry[] }
+  | { type: null }
+) & {
+  id?: string | number;
+  properties?: GeoJSON.GeoJsonProperties;
+  bbox?: number[];
+};
+
+/**
+ * TopoJSONのトポロジー
+ */
+export interface Topology {
+  type: 'Topology';
+  /** 名前ごとのジオメトリオブジェクト */
+  objects: Record<string, TopologyGeometry>;
+  /** 弧の座標（transformがある場合は量子化した差分座標） */
+  arcs: number[][][];
+  /** 量子化した座標を元の座標に戻す変換 */
+  transform?: { scale: [number, number]; translate: [number, number] };
+  bbox?: number[];
+}
+
+/**
+ * TopoJSONのトポロジーと、フィーチャーとして使用するオブジェクトの名前
+ */
+export interface TopologyData {
+  /** トポロジー */
+  topology: Topology;
+  /** objectsのうち使用するオブジェクトの名前 */
+  object: string;
+}
+
+/**
+ * データレイヤーが受け付けるデータ（GeoJSON、またはTopoJSONのオブジェクト）
+ */
+export type LayerData = GeoJSON.FeatureCollection | GeoJSON.Feature[] | TopologyData;
+
 /**
  * タイル座標の型定義
  */
@@ -175,6 +567,8 @@ export interface TileGenerationOptions {
   tileSize?: number;
   /** 境界をタイル境界にクランプするかどうか（デフォルト: true） */
   clampToBounds?: boolean;
+  /** URLテンプレートの{s}に割り当てるサブドメイン（例: ['a', 'b', 'c']または'abc'） */
+  subdomains?: string | string[];
 }
 
 /**
@@ -0,0 +1,73 @@
+import { createCartogram } from '../cartogram-utils';
+import { getPlanarArea } from '../planar-utils';
+
+describe('cartogram-utils', () => {
+  const square = (x: number, y: number, size: number, value: number | null): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { value },
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]]
+    }
+  });
+
+  const value = (feature: GeoJSON.Feature) => feature.properties?.value;
+
+  describe('createCartogram', () => {
+    test('noncontiguousでは密度が最大のポリゴンを基準に面積が値に比例する', () => {
+      const data: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [square(0, 0, 2, 100), square(5, 0, 2, 25)]
+      };
+
+      const result = createCartogram(data, { value });
+
+      expect(getPlanarArea(result.features[0].geometry)).toBeCloseTo(4);
+      expect(getPlanarArea(result.features[1].geometry)).toBeCloseTo(1);
+    });
+
+    test('値がないフィーチャーは変形しない', () => {
+      const data: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [square(0, 0, 2, 100), square(5, 0, 2, null)]
+      };
+
+      const result = createCartogram(data, { value });
+
+      expect(result.features[1].geometry).toEqual(data.features[1].geometry);
+    });
+
+    test('入力データは変更されない', () => {
+      const data: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [square(0, 0, 2, 100), square(5, 0, 2, 1)]
+      };
+      const original = JSON.parse(JSON.stringify(data));
+
+      createCartogram(data, { value, type: 'contiguous' });
+
+      expect(data).toEqual(original);
+    });
+
+    test('contiguousでは隣接関係を保ったまま面積比が値の比に近づく', () => {
+      const data: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [square(0, 0, 1, 3), square(1, 0, 1, 1)]
+      };
+
+      const result = createCartogram(data, { value, type: 'contiguous', iterations: 10 });
+
+      const area0 = getPlanarArea(result.features[0].geometry);
+      const area1 = getPlanarArea(result.features[1].geometry);
+      expect(area0 / area1).toBeGreaterThan(2);
+
+      // 共有していた境界の頂点は同じ位置に移動する
+      const ring0 = (result.features[0].geometry as GeoJSON.Polygon).coordinates[0];
+      const ring1 = (result.features[1].geometry as GeoJSON.Polygon).coordinates[0];
+      expect(ring0[1][0]).toBeCloseTo(ring1[0][0], 10);
+      expect(ring0[1][1]).toBeCloseTo(ring1[0][1], 10);
+      expect(ring0[2][0]).toBeCloseTo(ring1[3][0], 10);
+      expect(ring0[2][1]).toBeCloseTo(ring1[3][1], 10);
+    });
+  });
+});
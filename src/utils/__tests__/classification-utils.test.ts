@@ -0,0 +1,59 @@
+import { classify } from '../classification-utils';
+
+describe('classification-utils', () => {
+  const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  describe('classify', () => {
+    test('quantileで各階級のデータ数が等しくなる境界値を返す', () => {
+      const result = classify(values, 'quantile', 2);
+      expect(result.breaks).toEqual([5.5]);
+      expect(result.min).toBe(1);
+      expect(result.max).toBe(10);
+    });
+
+    test('equalIntervalで等間隔の境界値を返す', () => {
+      const result = classify([0, 10, 20, 100], 'equalInterval', 4);
+      expect(result.breaks).toEqual([25, 50, 75]);
+    });
+
+    test('jenksで値の集まりの切れ目を境界値にする', () => {
+      const result = classify([1, 2, 3, 50, 51, 52, 100, 101, 102], 'jenks', 3);
+      expect(result.breaks).toEqual([50, 100]);
+    });
+
+    test('jenksでデータ数より多い階級数はデータ数に制限される', () => {
+      const result = classify([1, 5], 'jenks', 4);
+      expect(result.breaks).toEqual([5]);
+    });
+
+    test('stddevで平均値を中心に標準偏差の幅で区分する', () => {
+      // 平均5、標準偏差2
+      const data = [3, 3, 3, 3, 7, 7, 7, 7];
+      expect(classify(data, 'stddev', 4).breaks).toEqual([3, 5, 7]);
+      expect(classify(data, 'stddev', 3).breaks).toEqual([4, 6]);
+    });
+
+    test('manualで指定した境界値を昇順に並べて返す', () => {
+      const result = classify(values, 'manual', 0, [8, 2, 5]);
+      expect(result.breaks).toEqual([2, 5, 8]);
+    });
+
+    test('manualで境界値がない場合はエラーになる', () => {
+      expect(() => classify(values, 'manual', 3)).toThrow('breaks');
+    });
+
+    test('NaNや無限大は除外される', () => {
+      const result = classify([NaN, 0, 10, Infinity], 'equalInterval', 2);
+      expect(result.breaks).toEqual([5]);
+      expect(result.max).toBe(10);
+    });
+
+    test('有効な値がない場合は空の境界値を返す', () => {
+      expect(classify([], 'quantile', 5).breaks).toEqual([]);
+    });
+
+    test('階級数が2未満の場合はエラーになる', () => {
+      expect(() => classify(values, 'quantile', 1)).toThrow('階級数');
+    });
+  });
+});
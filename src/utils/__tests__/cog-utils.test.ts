@@ -1,4 +1,5 @@
-import { readCOG, type ReadCOGOptions, type ReadCOGResult } from '../cog-utils';
+import { readCOG, readCOGBand, readCOGBands, type ReadCOGOptions, type ReadCOGResult } from '../cog-utils';
+import { getCRSTransform, transformBoundsToGeographic } from '../crs-utils';
 import { fromUrl } from 'geotiff';
 
 // GeoTIFFライブラリのモック
@@ -7,7 +8,9 @@ const mockImage = {
   getHeight: jest.fn(),
   getBoundingBox: jest.fn(),
   readRGB: jest.fn(),
-  readRasters: jest.fn()
+  readRasters: jest.fn(),
+  getSamplesPerPixel: jest.fn(),
+  getGDALNoData: jest.fn()
 };
 
 const mockTiff = {
@@ -88,7 +91,10 @@ describe('cog-utils', () => {
         height: 2,
         originalWidth: 100,
         originalHeight: 100,
-        wasResampled: false
+        imageIndex: 0,
+        crs: null,
+        wasResampled: false,
+        wasReprojected: false
       });
     });
 
@@ -346,4 +352,287 @@ describe('cog-utils', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('readCOGBand', () => {
+    const setBandData = (data: Float32Array, width: number, height: number) => {
+      const rasters = [data];
+      Object.defineProperty(rasters, 'width', { value: width });
+      Object.defineProperty(rasters, 'height', { value: height });
+      mockImage.readRasters.mockResolvedValue(rasters);
+    };
+
+    beforeEach(() => {
+      mockImage.getSamplesPerPixel.mockReturnValue(2);
+      mockImage.getGDALNoData.mockReturnValue(-9999);
+      setBandData(new Float32Array([1.5, -9999, 3, 4]), 2, 2);
+    });
+
+    it('指定したバンドを型付き配列のまま読み込みNoData値を返す', async () => {
+      const result = await readCOGBand('dem.tif', { band: 1 });
+
+      expect(mockImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({
+        samples: [1],
+        interleave: false
+      }));
+      expect(result.data).toBeInstanceOf(Float32Array);
+      expect(Array.from(result.data)).toEqual([1.5, -9999, 3, 4]);
+      expect(result.width).toBe(2);
+      expect(result.height).toBe(2);
+      expect(result.bounds).toEqual([0, 0, 10, 10]);
+      expect(result.nodata).toBe(-9999);
+      expect(mockCanvas.toDataURL).not.toHaveBeenCalled();
+    });
+
+    it('NoData値をオプションで上書きできる', async () => {
+      expect((await readCOGBand('dem.tif', { nodata: null })).nodata).toBeNull();
+      expect((await readCOGBand('dem.tif', { nodata: 0 })).nodata).toBe(0);
+    });
+
+    it('サイズ制限とbboxはreadCOGと同様に適用される', async () => {
+      const result = await readCOGBand('dem.tif', {
+        bbox: [2, 2, 8, 8],
+        sizeLimit: { maxWidth: 30, maxHeight: 30 }
+      });
+
+      expect(mockImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({
+        window: [20, 20, 80, 80],
+        width: 30,
+        height: 30
+      }));
+      expect(result.bounds).toEqual([2, 2, 8, 8]);
+      expect(result.wasResampled).toBe(true);
+    });
+
+    it('範囲外のバンドでエラーを投げる', async () => {
+      await expect(readCOGBand('dem.tif', { band: 2 }))
+        .rejects.toThrow('COGの読み込みに失敗しました: バンド 2 は範囲外です。利用可能なバンド: 0-1');
+    });
+
+    it('NoDataを除いた統計量を返す', async () => {
+      const { statistics } = await readCOGBand('dem.tif');
+
+      expect(statistics.min).toBe(1.5);
+      expect(statistics.max).toBe(4);
+      expect(statistics.mean).toBeCloseTo(8.5 / 3);
+      expect(statistics.validCount).toBe(3);
+      expect(statistics.nodataCount).toBe(1);
+    });
+
+    it('バンド演算式の結果を読み込む', async () => {
+      const rasters = [new Float32Array([1, 2, -9999, 0]), new Float32Array([3, 2, 5, 0])];
+      Object.defineProperty(rasters, 'width', { value: 2 });
+      Object.defineProperty(rasters, 'height', { value: 2 });
+      mockImage.readRasters.mockResolvedValue(rasters);
+
+      const result = await readCOGBand('landsat.tif', { expression: '(b2 - b1) / (b2 + b1)' });
+
+      expect(mockImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({ samples: [0, 1] }));
+      expect(result.data).toBeInstanceOf(Float32Array);
+      expect(Array.from(result.data)).toEqual([0.5, 0, NaN, NaN]);
+      expect(result.nodata).toBeNull();
+      expect(result.statistics.validCount).toBe(2);
+    });
+
+    it('バンド演算式の範囲外のバンドや構文の誤りでエラーを投げる', async () => {
+      await expect(readCOGBand('landsat.tif', { expression: 'b3 * 2' }))
+        .rejects.toThrow('COGの読み込みに失敗しました: バンド演算式のb3は範囲外です。利用可能なバンド: b1-b2');
+      await expect(readCOGBand('landsat.tif', { expression: '(b1 + ' }))
+        .rejects.toThrow('バンド演算式を解析できません');
+      expect(fromUrl).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('readCOGBands', () => {
+    beforeEach(() => {
+      mockImage.getSamplesPerPixel.mockReturnValue(3);
+      mockImage.getGDALNoData.mockReturnValue(0);
+      const rasters = [
+        new Uint16Array([0, 10, 20, 30]),
+        new Uint16Array([5, 5, 5, 5]),
+        new Uint16Array([0, 0, 0, 0])
+      ];
+      Object.defineProperty(rasters, 'width', { value: 2 });
+      Object.defineProperty(rasters, 'height', { value: 2 });
+      mockImage.readRasters.mockResolvedValue(rasters);
+    });
+
+    it('すべてのバンドを読み込みバンドごとの統計量を返す', async () => {
+      const result = await readCOGBands('multi.tif');
+
+      expect(mockImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({
+        samples: [0, 1, 2],
+        interleave: false
+      }));
+      expect(result.bands.map(band => band.sample)).toEqual([0, 1, 2]);
+      expect(result.bands[0].statistics).toEqual({ min: 10, max: 30, mean: 20, stdDev: Math.sqrt(200 / 3), validCount: 3, nodataCount: 1 });
+      expect(result.bands[1].statistics).toMatchObject({ min: 5, max: 5, mean: 5, stdDev: 0 });
+      expect(result.bands[2].statistics).toMatchObject({ min: NaN, max: NaN, validCount: 0, nodataCount: 4 });
+      expect(result.bands[0]).toMatchObject({ width: 2, height: 2, bounds: [0, 0, 10, 10], nodata: 0 });
+      expect(result.imageIndex).toBe(0);
+    });
+
+    it('指定したバンドのみ読み込む', async () => {
+      await readCOGBands('multi.tif', { samples: [2, 0] });
+      expect(mockImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({ samples: [2, 0] }));
+
+      await expect(readCOGBands('multi.tif', { samples: [3] }))
+        .rejects.toThrow('COGの読み込みに失敗しました: バンド 3 は範囲外です。利用可能なバンド: 0-2');
+    });
+  });
+
+  describe('オーバービューの自動選択', () => {
+    /** フル解像度 4096×2048 と 1/2, 1/4, 1/8 のオーバービュー、マスク画像 */
+    const createImages = () => [4096, 2048, 1024, 512].flatMap((width, index) => {
+      const image = {
+        ...mockImage,
+        getWidth: jest.fn().mockReturnValue(width),
+        getHeight: jest.fn().mockReturnValue(width / 2),
+        getBoundingBox: jest.fn().mockReturnValue([0, 0, 40, 20]),
+        fileDirectory: { NewSubfileType: index === 0 ? 0 : 1 }
+      };
+      const mask = { ...image, fileDirectory: { NewSubfileType: index === 0 ? 4 : 5 } };
+      return index === 0 ? [image] : [image, mask];
+    });
+
+    beforeEach(() => {
+      const images = createImages();
+      mockTiff.getImageCount.mockResolvedValue(images.length);
+      mockTiff.getImage.mockImplementation(async (index: number) => images[index]);
+    });
+
+    it('サイズ制限を満たす最も小さいオーバービューを選択する', async () => {
+      const result = await readCOG('large.tif');
+
+      // 512×256に収めるには1/8のオーバービュー（512×256）で足りる
+      expect(result.imageIndex).toBe(5);
+      expect(result.originalWidth).toBe(512);
+      expect(result.wasResampled).toBe(false);
+    });
+
+    it('bboxが小さい場合はより詳細な画像を選択する', async () => {
+      // 画像の1/4の範囲を512ピクセルで表示するには1/2のオーバービューが必要
+      const result = await readCOG('large.tif', { bbox: [0, 0, 10, 5] });
+
+      expect(result.imageIndex).toBe(1);
+      expect(mockImage.readRGB).toHaveBeenCalledWith(expect.objectContaining({ window: [0, 768, 512, 1024] }));
+    });
+
+    it('出力サイズと目標の解像度から選択する', async () => {
+      expect((await readCOG('large.tif', { outputWidth: 1500, outputHeight: 200, sizeLimit: { maxWidth: 2048, maxHeight: 2048 } })).imageIndex).toBe(1);
+      expect((await readCOGBand('large.tif', { resolution: 0.04 })).imageIndex).toBe(3);
+      expect((await readCOGBand('large.tif', { resolution: 0.001 })).imageIndex).toBe(0);
+    });
+
+    it('サイズ制限を超えるとエラーとする設定では制限内に収まる最も大きい画像を選択する', async () => {
+      const result = await readCOG('large.tif', { sizeLimit: { maxWidth: 1500, maxHeight: 1500, onExceed: 'error' } });
+      expect(result.imageIndex).toBe(3);
+    });
+
+    it('bboxとエラーとする設定ではbboxの範囲のサイズで制限を判定する', async () => {
+      // 画像の1/10の範囲ならフル解像度でも410×205ピクセルで制限内に収まる
+      const result = await readCOG('large.tif', { bbox: [0, 0, 4, 2], sizeLimit: { maxWidth: 512, maxHeight: 512, onExceed: 'error' } });
+
+      expect(result.imageIndex).toBe(0);
+      expect(result.wasResampled).toBe(false);
+      expect(mockImage.readRGB).toHaveBeenCalledWith(expect.objectContaining({ window: [0, 1843, 410, 2048] }));
+
+      await expect(readCOG('large.tif', { bbox: [0, 0, 40, 20], sizeLimit: { maxWidth: 256, maxHeight: 256, onExceed: 'error' } }))
+        .rejects.toThrow('画像サイズ（512x256）が制限（256x256）を超えています');
+    });
+
+    it('imageIndexを指定した場合はその画像を読み込む', async () => {
+      const result = await readCOG('large.tif', { imageIndex: 0 });
+      expect(result.imageIndex).toBe(0);
+      expect(result.wasResampled).toBe(true);
+    });
+  });
+
+  describe('投影座標系の画像の再投影', () => {
+    /** 平面直角座標系IX系の原点を中心とする20km四方（メートル） */
+    const sourceBounds: [number, number, number, number] = [-10000, -10000, 10000, 10000];
+    let projectedImage: any;
+
+    beforeEach(() => {
+      projectedImage = {
+        ...mockImage,
+        getBoundingBox: jest.fn().mockReturnValue(sourceBounds),
+        getGeoKeys: jest.fn().mockReturnValue({ GTModelTypeGeoKey: 1, ProjectedCSTypeGeoKey: 6677 }),
+        getSamplesPerPixel: jest.fn().mockReturnValue(1),
+        getGDALNoData: jest.fn().mockReturnValue(-9999)
+      };
+      mockTiff.getImageCount.mockResolvedValue(1);
+      mockTiff.getImage.mockResolvedValue(projectedImage);
+      const rasters = [new Float32Array([1.5, -9999, 3, 4])];
+      Object.defineProperty(rasters, 'width', { value: 2 });
+      Object.defineProperty(rasters, 'height', { value: 2 });
+      mockImage.readRasters.mockResolvedValue(rasters);
+    });
+
+    it('GeoKeysのEPSGコードから経緯度の範囲に再投影する', async () => {
+      const result = await readCOGBand('dem_jgd2011.tif');
+      const expectedBounds = transformBoundsToGeographic(sourceBounds, getCRSTransform(6677)!);
+
+      expect(result.crs).toBe(6677);
+      expect(result.wasReprojected).toBe(true);
+      expect(result.bounds).toEqual(expectedBounds);
+      expect(result.bounds[0]).toBeCloseTo(139.722, 3);
+      expect(result.bounds[3]).toBeCloseTo(36.090, 3);
+      // 画素の位置関係を保ち、NoDataはNaNになる
+      expect(Array.from(result.data)).toEqual([1.5, NaN, 3, 4]);
+      expect(result.nodata).toBeNull();
+    });
+
+    it('RGB画像も再投影してから画像に変換する', async () => {
+      const result = await readCOG('ortho_utm.tif', { sourceCRS: 32654 });
+
+      expect(result.crs).toBe(32654);
+      expect(result.wasReprojected).toBe(true);
+      expect(result.bounds).toEqual(transformBoundsToGeographic(sourceBounds, getCRSTransform(32654)!));
+      expect(mockContext.putImageData).toHaveBeenCalled();
+    });
+
+    it('経緯度のbboxを画像の座標参照系に変換して読み込む範囲を決める', async () => {
+      const transform = getCRSTransform(6677)!;
+      const [west, south] = transform.inverse([0, 0]);
+      const [east, north] = transform.inverse([5000, 5000]);
+
+      await readCOGBand('dem_jgd2011.tif', { bbox: [west, south, east, north] });
+
+      // 子午線収差により経緯度の範囲は平面直角座標の(0,0)-(5000,5000)よりわずかに広がる
+      expect(projectedImage.readRasters).toHaveBeenCalledWith(expect.objectContaining({ window: [50, 24, 76, 50] }));
+    });
+
+    it('座標変換を直接指定できる', async () => {
+      const sourceCRS = {
+        forward: ([x, y]: [number, number]): [number, number] => [x * 1000, y * 1000],
+        inverse: ([x, y]: [number, number]): [number, number] => [x / 1000, y / 1000]
+      };
+      const result = await readCOGBand('custom.tif', { sourceCRS });
+
+      expect(result.crs).toBeNull();
+      expect(result.bounds).toEqual([-10, -10, 10, 10]);
+    });
+
+    it('対応していない座標参照系や判定できない座標参照系ではエラーを投げる', async () => {
+      projectedImage.getGeoKeys.mockReturnValue({ GTModelTypeGeoKey: 1, ProjectedCSTypeGeoKey: 2154 });
+      await expect(readCOGBand('lambert93.tif')).rejects.toThrow(
+        '座標参照系 EPSG:2154 には対応していません。registerCRSTransformで座標変換を登録してください'
+      );
+
+      projectedImage.getGeoKeys.mockReturnValue({ GTModelTypeGeoKey: 1, ProjectedCSTypeGeoKey: 32767 });
+      await expect(readCOGBand('user-defined.tif')).rejects.toThrow('GeoTIFFの座標参照系を判定できません');
+    });
+
+    it('地理座標系の画像は再投影しない', async () => {
+      projectedImage.getGeoKeys.mockReturnValue({ GTModelTypeGeoKey: 2, GeographicTypeGeoKey: 6668 });
+      projectedImage.getBoundingBox.mockReturnValue([139, 35, 140, 36]);
+
+      const result = await readCOGBands('dem_latlon.tif');
+
+      expect(result.crs).toBe(6668);
+      expect(result.wasReprojected).toBe(false);
+      expect(result.bounds).toEqual([139, 35, 140, 36]);
+      expect(result.nodata).toBe(-9999);
+    });
+  });
+});
@@ -6,7 +6,8 @@ import {
   recommendPalette,
   generateOptimizedPalette,
   checkColorBlindnessSafety,
-  simulateColorBlindness
+  simulateColorBlindness,
+  createColorRamp
 } from '../color-palette';
 
 describe('color-palette', () => {
@@ -160,4 +161,30 @@ describe('color-palette', () => {
       expect(isSafe).toBe(true);
     });
   });
+
+  describe('createColorRamp', () => {
+    test('色の間を線形補間する', () => {
+      const ramp = createColorRamp(['#000000', '#ff8000']);
+
+      expect(ramp(0)).toEqual([0, 0, 0]);
+      expect(ramp(0.5)).toEqual([128, 64, 0]);
+      expect(ramp(1)).toEqual([255, 128, 0]);
+      expect(ramp(-1)).toEqual([0, 0, 0]);
+      expect(ramp(2)).toEqual([255, 128, 0]);
+    });
+
+    test('パレット名からカラーランプを作成する', () => {
+      const ramp = createColorRamp('Viridis');
+
+      expect(ramp(0)).toEqual([0x44, 0x01, 0x54]);
+      expect(ramp(1)).toEqual([0xfe, 0xe8, 0x25]);
+      expect(createColorRamp(ViridisPalettes.Viridis)(1)).toEqual(ramp(1));
+    });
+
+    test('存在しないパレット名や16進数以外の色はエラーになる', () => {
+      expect(() => createColorRamp('Unknown')).toThrow('カラーパレットが見つかりません: Unknown');
+      expect(() => createColorRamp(['red'])).toThrow('カラーランプの色は16進数で指定してください: red');
+      expect(() => createColorRamp([])).toThrow('カラーランプには1色以上を指定してください');
+    });
+  });
 });
\ No newline at end of file
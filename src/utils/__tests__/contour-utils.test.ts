@@ -0,0 +1,154 @@
+import * as d3 from 'd3-contour';
+import {
+  toContourGrid,
+  getContourLevels,
+  generateIsolines,
+  generateIsobands,
+  placeLineLabels
+} from '../contour-utils';
+import type { RasterBand } from '../raster-utils';
+
+// d3-contourはjest.config.cjsでモック化されている（閾値ごとに[0,0]-[1,1]の正方形を返す）
+jest.mock('d3-contour', () => {
+  const mock = jest.requireActual('d3-contour');
+  return { contours: jest.fn(mock.contours) };
+});
+
+describe('contour-utils', () => {
+  /** 0〜15の値を持つ4×4のグリッド（先頭の行が北端） */
+  const createGrid = (): RasterBand => ({
+    data: Float64Array.from({ length: 16 }, (_, i) => i),
+    width: 4,
+    height: 4,
+    bounds: [0, 0, 4, 4],
+    nodata: null
+  });
+
+  const mockContours = d3.contours as unknown as jest.Mock;
+
+  afterEach(() => {
+    mockContours.mockClear();
+  });
+
+  describe('toContourGrid', () => {
+    test('2次元配列を行順の配列に変換する', () => {
+      const grid = toContourGrid({ data: [[1, 2, 3], [4, 5, 6]], bounds: [0, 0, 3, 2], nodata: -1 });
+
+      expect(Array.from(grid.data)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(grid.width).toBe(3);
+      expect(grid.height).toBe(2);
+      expect(grid.bounds).toEqual([0, 0, 3, 2]);
+      expect(grid.nodata).toBe(-1);
+    });
+
+    test('ラスタバンドはそのまま返す', () => {
+      const band = createGrid();
+      expect(toContourGrid(band)).toBe(band);
+    });
+
+    test('行ごとの列数が異なる場合はエラーになる', () => {
+      expect(() => toContourGrid({ data: [[1, 2], [3]], bounds: [0, 0, 1, 1] }))
+        .toThrow('グリッドの2行目の列数（1）が1行目（2）と一致しません');
+    });
+  });
+
+  describe('getContourLevels', () => {
+    test('基準値と間隔から値の範囲に含まれる等値線の値を求める', () => {
+      expect(getContourLevels(createGrid(), { interval: 5 })).toEqual([0, 5, 10, 15]);
+      expect(getContourLevels(createGrid(), { interval: 5, base: 2 })).toEqual([2, 7, 12]);
+    });
+
+    test('NoDataを除いて範囲を求める', () => {
+      const grid = { ...createGrid(), nodata: 15 };
+      expect(getContourLevels(grid, { interval: 5 })).toEqual([0, 5, 10]);
+      expect(getContourLevels({ ...grid, data: new Float64Array(16).fill(NaN) }, { interval: 5 })).toEqual([]);
+    });
+
+    test('間隔が正の値でない場合はエラーになる', () => {
+      expect(() => getContourLevels(createGrid(), { interval: 0 })).toThrow('等値線の間隔は正の値で指定してください: 0');
+    });
+  });
+
+  describe('generateIsolines', () => {
+    test('グリッドの外周に沿った区間を除いて地理座標の等値線を生成する', () => {
+      const result = generateIsolines(createGrid(), { interval: 5, base: 3 });
+
+      expect(result.features.map(feature => feature.properties.value)).toEqual([3, 8, 13]);
+      // モックの正方形 (0,0)-(1,0)-(1,1)-(0,1) のうち上端と左端の区間を除いた線（行0が北端）
+      expect(result.features[0].geometry.coordinates).toEqual([[[1, 4], [1, 3], [0, 3]]]);
+    });
+
+    test('indexIntervalごとの等値線を計曲線とする', () => {
+      const result = generateIsolines(createGrid(), { interval: 5, indexInterval: 2 });
+      expect(result.features.map(feature => feature.properties.index)).toEqual([true, false, true, false]);
+    });
+
+    test('NoDataを除いた範囲でグリッドの等値線を生成する', () => {
+      generateIsolines({ data: [[1, -9999], [3, 4]], bounds: [0, 0, 2, 2], nodata: -9999 }, { interval: 1 });
+
+      const generator = mockContours.mock.results[0].value;
+      expect(generator.size()).toEqual([2, 2]);
+      expect(generator.thresholds()).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe('generateIsobands', () => {
+    test('最小値から最大値までの等値帯をd3-geoの向きのポリゴンとして生成する', () => {
+      const result = generateIsobands(createGrid(), { interval: 5 });
+
+      expect(result.features.map(feature => feature.properties)).toEqual([
+        { lower: 0, upper: 5, band: 0 },
+        { lower: 5, upper: 10, band: 1 },
+        { lower: 10, upper: 15, band: 2 }
+      ]);
+      // 行を緯度に反転した上でリングの向きを反転する
+      expect(result.features[0].geometry.coordinates).toEqual([[[[0, 4], [0, 3], [1, 3], [1, 4], [0, 4]]]]);
+    });
+
+    test('各等値帯の範囲内で0以上となる値から境界を求める', () => {
+      const values: number[][] = [];
+      mockContours.mockImplementationOnce(() => {
+        const generator: any = (data: Float64Array) => {
+          values.push(Array.from(data));
+          return [{ type: 'MultiPolygon', value: 0, coordinates: [] }];
+        };
+        generator.size = () => generator;
+        generator.thresholds = () => generator;
+        return generator;
+      });
+
+      const result = generateIsobands({ data: [[0, 4], [NaN, 10]], bounds: [0, 0, 2, 2] }, { interval: 5 });
+
+      expect(result.features).toEqual([]);
+      expect(values).toHaveLength(2);
+      expect(values[0]).toEqual([0, 1, NaN, -5]);
+      expect(values[1]).toEqual([-5, -1, NaN, 0]);
+    });
+  });
+
+  describe('placeLineLabels', () => {
+    test('線の長さに沿って一定間隔で配置する', () => {
+      const positions = placeLineLabels([[0, 0], [250, 0], [500, 0]], { spacing: 200 });
+
+      expect(positions).toEqual([
+        { x: 125, y: 0, angle: 0 },
+        { x: 375, y: 0, angle: 0 }
+      ]);
+    });
+
+    test('文字が逆さにならないように角度を調整する', () => {
+      const [leftward] = placeLineLabels([[100, 0], [0, 0]]);
+      const [upward] = placeLineLabels([[0, 100], [0, 0]]);
+      const [diagonal] = placeLineLabels([[100, 100], [0, 0]]);
+
+      expect(Math.abs(leftward.angle)).toBe(0);
+      expect(upward.angle).toBe(-90);
+      expect(diagonal.angle).toBeCloseTo(45);
+    });
+
+    test('ラベルより短い線には配置しない', () => {
+      expect(placeLineLabels([[0, 0], [20, 0]], { labelLength: 30 })).toEqual([]);
+      expect(placeLineLabels([[0, 0]])).toEqual([]);
+    });
+  });
+});
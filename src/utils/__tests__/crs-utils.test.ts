@@ -0,0 +1,122 @@
+import {
+  getEPSGCode,
+  isGeographicCRS,
+  getCRSTransform,
+  registerCRSTransform,
+  createTransverseMercator,
+  transformBoundsToGeographic,
+  transformBoundsFromGeographic
+} from '../crs-utils';
+
+describe('crs-utils', () => {
+  describe('getEPSGCode', () => {
+    test('投影座標系と地理座標系のEPSGコードを取得する', () => {
+      expect(getEPSGCode({ GTModelTypeGeoKey: 1, ProjectedCSTypeGeoKey: 6677, GeographicTypeGeoKey: 6668 })).toBe(6677);
+      expect(getEPSGCode({ GTModelTypeGeoKey: 2, GeographicTypeGeoKey: 4326 })).toBe(4326);
+      expect(getEPSGCode({ GeographicTypeGeoKey: 4326 })).toBe(4326);
+    });
+
+    test('ユーザー定義やGeoKeysがない場合はnullを返す', () => {
+      expect(getEPSGCode({ GTModelTypeGeoKey: 1, ProjectedCSTypeGeoKey: 32767 })).toBeNull();
+      expect(getEPSGCode({})).toBeNull();
+      expect(getEPSGCode(null)).toBeNull();
+    });
+  });
+
+  describe('getCRSTransform', () => {
+    test('UTMの座標を計算する', () => {
+      // CNタワー（UTM 17T 630084E 4833438N）
+      const utm17 = getCRSTransform(32617)!;
+      const [x, y] = utm17.forward([-79.387139, 43.642567]);
+
+      expect(Math.abs(x - 630084)).toBeLessThan(1);
+      expect(Math.abs(y - 4833438)).toBeLessThan(1);
+    });
+
+    test('南半球のUTMは北方向に10000kmを加算する', () => {
+      const [x, y] = getCRSTransform(32754)!.forward([141, 0]);
+      expect(x).toBeCloseTo(500000, 6);
+      expect(y).toBeCloseTo(10000000, 6);
+    });
+
+    test('平面直角座標系は系の原点を(0, 0)とする', () => {
+      const zone9 = getCRSTransform(6677)!;
+      const origin = zone9.forward([139 + 50 / 60, 36]);
+      expect(origin[0]).toBeCloseTo(0, 6);
+      expect(origin[1]).toBeCloseTo(0, 6);
+
+      // JGD2000とJGD2011の同じ系は同じ座標になる
+      expect(getCRSTransform(2451)!.forward([139.7671, 35.6812])).toEqual(zone9.forward([139.7671, 35.6812]));
+      expect(getCRSTransform(6669)!.forward([129.5, 33])[0]).toBeCloseTo(0, 6);
+      expect(getCRSTransform(6687)!.forward([154, 26])[1]).toBeCloseTo(0, 6);
+    });
+
+    test('順変換と逆変換で元の経緯度に戻る', () => {
+      [6677, 2443, 32654, 3099, 6690, 3857].forEach(epsg => {
+        const transform = getCRSTransform(epsg)!;
+        const [longitude, latitude] = transform.inverse(transform.forward([139.7671, 35.6812]));
+        expect(longitude).toBeCloseTo(139.7671, 8);
+        expect(latitude).toBeCloseTo(35.6812, 8);
+      });
+    });
+
+    test('Web Mercatorの座標を計算する', () => {
+      const mercator = getCRSTransform(3857)!;
+      const [x, y] = mercator.forward([180, 85.051128779807]);
+      expect(x).toBeCloseTo(20037508.34, 2);
+      expect(y).toBeCloseTo(20037508.34, 2);
+      expect(mercator.inverse([0, 0])).toEqual([0, 0]);
+    });
+
+    test('地理座標系は恒等変換、未対応の座標参照系はnullを返す', () => {
+      expect(isGeographicCRS(6668)).toBe(true);
+      expect(isGeographicCRS(6677)).toBe(false);
+      expect(getCRSTransform(4326)!.inverse([139, 35])).toEqual([139, 35]);
+      expect(getCRSTransform(2154)).toBeNull();
+    });
+
+    test('登録した座標変換を組み込みの変換より優先する', () => {
+      const transform = {
+        forward: ([x, y]: [number, number]): [number, number] => [x, y],
+        inverse: ([x, y]: [number, number]): [number, number] => [x, y]
+      };
+      registerCRSTransform(27700, transform);
+
+      expect(getCRSTransform(27700)).toBe(transform);
+    });
+  });
+
+  describe('createTransverseMercator', () => {
+    test('中央子午線上の北方向の座標は子午線弧長に縮尺係数を掛けた値になる', () => {
+      const transform = createTransverseMercator({ centralMeridian: 0, scaleFactor: 1 });
+      // GRS80楕円体の赤道から北緯45度までの子午線弧長
+      expect(transform.forward([0, 45])[1]).toBeCloseTo(4984944.378, 2);
+      expect(createTransverseMercator({ centralMeridian: 0, scaleFactor: 0.5 }).forward([0, 45])[1])
+        .toBeCloseTo(4984944.378 / 2, 2);
+    });
+  });
+
+  describe('transformBoundsToGeographic / transformBoundsFromGeographic', () => {
+    test('辺上の点を変換して範囲を求める', () => {
+      const zone9 = getCRSTransform(6677)!;
+      const bounds = transformBoundsToGeographic([-10000, -10000, 10000, 10000], zone9);
+
+      // 南端は辺の中央（中央子午線上）より隅の方が南になる
+      expect(bounds[1]).toBeLessThan(zone9.inverse([0, -10000])[1]);
+      expect(bounds[1]).toBeCloseTo(zone9.inverse([10000, -10000])[1], 8);
+      expect(bounds[0]).toBeCloseTo(zone9.inverse([-10000, 0])[0], 3);
+
+      const [minX, minY, maxX, maxY] = transformBoundsFromGeographic(bounds, zone9);
+      expect(minX).toBeLessThanOrEqual(-10000);
+      expect(maxY).toBeGreaterThanOrEqual(10000);
+      expect(maxX - minX).toBeLessThan(20100);
+      expect(maxY - minY).toBeLessThan(20100);
+    });
+
+    test('Web Mercatorでは緯度を有効な範囲に制限する', () => {
+      const [, minY, , maxY] = transformBoundsFromGeographic([-180, -90, 180, 90], getCRSTransform(3857)!);
+      expect(minY).toBeCloseTo(-20037508.34, 2);
+      expect(maxY).toBeCloseTo(20037508.34, 2);
+    });
+  });
+});
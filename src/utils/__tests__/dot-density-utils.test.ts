@@ -0,0 +1,139 @@
+import {
+  createSeededRandom,
+  randomPointsInPolygon,
+  generateDotDensityPoints
+} from '../dot-density-utils';
+import { isPointInPolygon } from '../planar-utils';
+
+describe('dot-density-utils', () => {
+  const squareWithHole: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: [
+      [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+      [[2, 2], [2, 8], [8, 8], [8, 2], [2, 2]]
+    ]
+  };
+
+  describe('createSeededRandom', () => {
+    test('同じシード値からは同じ乱数列が生成される', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      const sequenceA = [a(), a(), a()];
+      const sequenceB = [b(), b(), b()];
+
+      expect(sequenceA).toEqual(sequenceB);
+      sequenceA.forEach(v => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThan(1);
+      });
+    });
+
+    test('異なるシード値からは異なる乱数列が生成される', () => {
+      expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+    });
+  });
+
+  describe('randomPointsInPolygon', () => {
+    test('生成した点は全て穴を除いたポリゴン内部にある', () => {
+      const points = randomPointsInPolygon(squareWithHole, 50, createSeededRandom(1));
+
+      expect(points).toHaveLength(50);
+      points.forEach(point => {
+        expect(isPointInPolygon(point, squareWithHole.coordinates)).toBe(true);
+      });
+    });
+
+    test('MultiPolygonではいずれかのポリゴン内部に生成される', () => {
+      const multi: GeoJSON.MultiPolygon = {
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+          [[[9, 9], [10, 9], [10, 10], [9, 10], [9, 9]]]
+        ]
+      };
+
+      const points = randomPointsInPolygon(multi, 20, createSeededRandom(3));
+
+      expect(points).toHaveLength(20);
+      points.forEach(([x, y]) => {
+        const inFirst = x <= 1 && y <= 1;
+        const inSecond = x >= 9 && y >= 9;
+        expect(inFirst || inSecond).toBe(true);
+      });
+    });
+
+    test('離れた小さなポリゴンからなるMultiPolygonでも面積に比例して全ての点を生成する', () => {
+      const square = (x: number, size: number) => [[[x, 0], [x + size, 0], [x + size, size], [x, size], [x, 0]]];
+      const islands: GeoJSON.MultiPolygon = {
+        type: 'MultiPolygon',
+        coordinates: [square(0, 0.02), square(1000, 0.01), square(2000, 0.01)]
+      };
+
+      const points = randomPointsInPolygon(islands, 600, createSeededRandom(5));
+
+      expect(points).toHaveLength(600);
+      const inFirst = points.filter(([x]) => x < 1).length;
+      // 最初のポリゴンの面積は全体の2/3
+      expect(inFirst).toBeGreaterThan(350);
+      expect(inFirst).toBeLessThan(450);
+    });
+
+    test('点を生成できない場合は警告を出力する', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      // 面積はあるが、棄却サンプリングではほぼ当たらない細長い斜めのポリゴン
+      const sliver: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1000, 1000], [1000, 1000.000001], [0, 0]]]
+      };
+
+      const points = randomPointsInPolygon(sliver, 3, createSeededRandom(1));
+
+      expect(points.length).toBeLessThan(3);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('点を生成できませんでした'));
+      warn.mockRestore();
+    });
+
+    test('ポリゴン以外のジオメトリでは空配列を返す', () => {
+      expect(randomPointsInPolygon({ type: 'Point', coordinates: [0, 0] }, 5, Math.random)).toEqual([]);
+    });
+  });
+
+  describe('generateDotDensityPoints', () => {
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { men: 300, women: 260 },
+        geometry: squareWithHole
+      }]
+    };
+
+    const categories = [
+      { name: 'men', value: (f: GeoJSON.Feature) => f.properties?.men },
+      { name: 'women', value: (f: GeoJSON.Feature) => f.properties?.women }
+    ];
+
+    test('値 / valuePerDot の数だけカテゴリごとにドットが生成される', () => {
+      const dots = generateDotDensityPoints(data, { categories, valuePerDot: 20 });
+
+      const men = dots.features.filter(d => d.properties.category === 'men');
+      const women = dots.features.filter(d => d.properties.category === 'women');
+      expect(men).toHaveLength(15);
+      expect(women).toHaveLength(13);
+      expect(dots.features[0].properties.featureIndex).toBe(0);
+    });
+
+    test('同じシード値では同じドットが生成される', () => {
+      const a = generateDotDensityPoints(data, { categories, valuePerDot: 20, seed: 7 });
+      const b = generateDotDensityPoints(data, { categories, valuePerDot: 20, seed: 7 });
+      const c = generateDotDensityPoints(data, { categories, valuePerDot: 20, seed: 8 });
+
+      expect(a).toEqual(b);
+      expect(a).not.toEqual(c);
+    });
+
+    test('valuePerDotが正の数でない場合はエラーになる', () => {
+      expect(() => generateDotDensityPoints(data, { categories, valuePerDot: 0 })).toThrow('valuePerDot');
+    });
+  });
+});
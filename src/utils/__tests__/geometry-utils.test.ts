@@ -0,0 +1,263 @@
+import {
+  simplify,
+  createSimplifier,
+  clipByBbox,
+  clipByPolygon,
+  dissolve,
+  buffer
+} from '../geometry-utils';
+import { getRingArea, getPlanarArea } from '../planar-utils';
+import type { Feature, FeatureCollection, Geometry, Position, Polygon, MultiPolygon } from 'geojson';
+
+function feature(geometry: Geometry, properties: Record<string, any> = {}): Feature {
+  return { type: 'Feature', properties, geometry };
+}
+
+function square(x: number, y: number, size: number = 1): Polygon {
+  // d3-geoの規約（外周が時計回り）
+  return { type: 'Polygon', coordinates: [[[x, y], [x, y + size], [x + size, y + size], [x + size, y], [x, y]]] };
+}
+
+describe('geometry-utils', () => {
+  describe('simplify', () => {
+    const wiggly = feature({
+      type: 'LineString',
+      coordinates: [[0, 0], [1, 0.01], [2, -0.01], [3, 0], [3.5, 2], [4, 0], [5, 0.02], [6, 0]]
+    });
+
+    test('Douglas-Peucker法で許容誤差以下の頂点を削除する', () => {
+      const result = simplify([wiggly], { tolerance: 0.1 });
+      expect((result.features[0].geometry as any).coordinates).toEqual([[0, 0], [3, 0], [3.5, 2], [4, 0], [6, 0]]);
+    });
+
+    test('Visvalingam法では三角形の面積で頂点を削除する', () => {
+      const result = simplify([wiggly], { tolerance: 0.2, method: 'visvalingam' });
+      expect((result.features[0].geometry as any).coordinates).toEqual([[0, 0], [3, 0], [3.5, 2], [4, 0], [6, 0]]);
+    });
+
+    test('projectionを指定すると投影後のピクセルで誤差を測る', () => {
+      const projection = ((p: [number, number]) => [p[0] * 100, p[1] * 100]) as any;
+      const result = simplify([wiggly], { tolerance: 0.1, projection });
+      expect((result.features[0].geometry as any).coordinates).toHaveLength(8);
+    });
+
+    test('隣接するポリゴンの共有境界は同じ頂点を残す', () => {
+      // 共有境界（x=1）に細かな凹凸がある2つのポリゴン
+      const border: Position[] = [[1, 0], [1.01, 0.25], [0.99, 0.5], [1.2, 0.75], [1, 1]];
+      const left = feature({ type: 'Polygon', coordinates: [[[0, 0], ...border, [0, 1], [0, 0]]] });
+      const right = feature({ type: 'Polygon', coordinates: [[[1, 0], [2, 0], [2, 1], ...[...border].reverse()]] });
+
+      const result = simplify([left, right], { tolerance: 0.05 });
+      const keys = (f: Feature) => new Set((f.geometry as Polygon).coordinates[0]
+        .filter(p => p[0] > 0.5 && p[0] < 1.5)
+        .map(p => p.join(',')));
+
+      expect(keys(result.features[0])).toEqual(keys(result.features[1]));
+      expect(keys(result.features[0])).toEqual(new Set(['1,0', '0.99,0.5', '1.2,0.75', '1,1']));
+    });
+
+    test('リングは少なくとも三角形を保つ', () => {
+      const tiny = feature(square(0, 0, 0.001));
+      const ring = (simplify([tiny], { tolerance: 1 }).features[0].geometry as Polygon).coordinates[0];
+      expect(ring).toHaveLength(4);
+      expect(ring[0]).toEqual(ring[3]);
+    });
+
+    test('フィーチャーの順序とプロパティを保つ', () => {
+      const data: FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [feature({ type: 'Point', coordinates: [1, 2] }, { id: 1 }), { type: 'Feature', properties: { id: 2 }, geometry: null as any }]
+      };
+      const result = simplify(data, { tolerance: 1 });
+      expect(result.features.map(f => f.properties!.id)).toEqual([1, 2]);
+      expect(result.features[0].geometry).toEqual({ type: 'Point', coordinates: [1, 2] });
+    });
+
+    test('不正なオプションの場合はエラーを投げる', () => {
+      expect(() => simplify([wiggly], { tolerance: -1 })).toThrow('toleranceは0以上の値で指定してください: -1');
+      expect(() => simplify([wiggly], { tolerance: 1, method: 'unknown' as any })).toThrow('未知の簡略化アルゴリズムです: unknown');
+    });
+  });
+
+  describe('createSimplifier', () => {
+    const wiggly = feature({
+      type: 'LineString',
+      coordinates: [[0, 0], [1, 0.01], [2, -0.01], [3, 0], [3.5, 2], [4, 0], [5, 0.02], [6, 0]]
+    });
+
+    test('許容誤差ごとにprojectionを指定しないsimplifyと同じ結果を返す', () => {
+      const simplifyAt = createSimplifier([wiggly], 'visvalingam');
+      [0, 0.005, 0.2, 5].forEach(tolerance => {
+        expect(simplifyAt(tolerance)).toEqual(simplify([wiggly], { tolerance, method: 'visvalingam' }));
+      });
+    });
+
+    test('不正なオプションの場合はエラーを投げる', () => {
+      expect(() => createSimplifier([wiggly], 'unknown' as any)).toThrow('未知の簡略化アルゴリズムです: unknown');
+      expect(() => createSimplifier([wiggly])(-1)).toThrow('toleranceは0以上の値で指定してください: -1');
+    });
+  });
+
+  describe('clipByBbox', () => {
+    const box = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+
+    test('ポリゴンを範囲内の部分に切り取る', () => {
+      const result = clipByBbox([feature(square(5, 5, 10))], box);
+      const ring = (result.features[0].geometry as Polygon).coordinates[0];
+      expect(getPlanarArea(result.features[0].geometry)).toBeCloseTo(25);
+      expect(getRingArea(ring)).toBeLessThan(0);
+    });
+
+    test('線を範囲内の部分に分割する', () => {
+      const line = feature({ type: 'LineString', coordinates: [[-5, 5], [5, 5], [5, 15], [8, 5], [15, 5]] });
+      const geometry = clipByBbox([line], box).features[0].geometry as any;
+      expect(geometry.type).toBe('MultiLineString');
+      expect(geometry.coordinates).toEqual([
+        [[0, 5], [5, 5], [5, 10]],
+        [[6.5, 10], [8, 5], [10, 5]]
+      ]);
+    });
+
+    test('範囲外のフィーチャーを除く', () => {
+      const result = clipByBbox([
+        feature({ type: 'Point', coordinates: [5, 5] }),
+        feature({ type: 'Point', coordinates: [20, 5] }),
+        feature(square(20, 20))
+      ], box);
+      expect(result.features).toHaveLength(1);
+    });
+
+    test('日付変更線をまたぐ範囲で東西の両端を切り取る', () => {
+      const result = clipByBbox([
+        feature({ type: 'LineString', coordinates: [[170, 0], [179, 0]] }),
+        feature({ type: 'LineString', coordinates: [[-179, 0], [-170, 0]] }),
+        feature({ type: 'Point', coordinates: [0, 0] })
+      ], { minX: 175, minY: -10, maxX: -175, maxY: 10 });
+      expect(result.features.map(f => (f.geometry as any).coordinates)).toEqual([
+        [[175, 0], [179, 0]],
+        [[-179, 0], [-175, 0]]
+      ]);
+    });
+  });
+
+  describe('clipByPolygon', () => {
+    test('重なり合う部分のポリゴンを求める', () => {
+      const result = clipByPolygon([feature(square(0, 0, 10))], square(5, 5, 10));
+      expect(getPlanarArea(result.features[0].geometry)).toBeCloseTo(25);
+      expect(getRingArea((result.features[0].geometry as Polygon).coordinates[0])).toBeLessThan(0);
+    });
+
+    test('凹んだポリゴンでクリップすると複数の部分になる', () => {
+      const u: Polygon = {
+        type: 'Polygon',
+        coordinates: [[[0, 0], [0, 10], [3, 10], [3, 3], [7, 3], [7, 10], [10, 10], [10, 0], [0, 0]]]
+      };
+      const geometry = clipByPolygon([feature(square(-1, 5, 12))], u).features[0].geometry as MultiPolygon;
+      expect(geometry.type).toBe('MultiPolygon');
+      expect(geometry.coordinates).toHaveLength(2);
+      expect(getPlanarArea(geometry)).toBeCloseTo(30);
+    });
+
+    test('辺を共有する場合も面積を保つ', () => {
+      const result = clipByPolygon([feature(square(0, 0, 10))], square(0, 0, 5));
+      expect(getPlanarArea(result.features[0].geometry)).toBeCloseTo(25, 6);
+    });
+
+    test('クリップするポリゴンの穴を除く', () => {
+      const withHole: Polygon = {
+        type: 'Polygon',
+        coordinates: [square(0, 0, 10).coordinates[0], [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]]]
+      };
+      const result = clipByPolygon([feature(square(2, 2, 6))], withHole);
+      const geometry = result.features[0].geometry as Polygon;
+      expect(geometry.coordinates).toHaveLength(2);
+      expect(getPlanarArea(geometry)).toBeCloseTo(32);
+    });
+
+    test('ポイントと線をポリゴン内に限定する', () => {
+      const clip = { type: 'Feature', properties: {}, geometry: square(0, 0, 10) } as Feature<Polygon>;
+      const result = clipByPolygon([
+        feature({ type: 'Point', coordinates: [5, 5] }),
+        feature({ type: 'Point', coordinates: [15, 5] }),
+        feature({ type: 'LineString', coordinates: [[-5, 5], [15, 5]] })
+      ], clip);
+      expect(result.features.map(f => (f.geometry as any).coordinates)).toEqual([
+        [5, 5],
+        [[0, 5], [10, 5]]
+      ]);
+    });
+  });
+
+  describe('dissolve', () => {
+    test('プロパティごとに隣接するポリゴンを結合する', () => {
+      const result = dissolve([
+        feature(square(0, 0), { pref: 'A' }),
+        feature(square(1, 0), { pref: 'A' }),
+        feature(square(5, 0), { pref: 'B' })
+      ], 'pref');
+
+      expect(result.features.map(f => f.properties)).toEqual([{ pref: 'A' }, { pref: 'B' }]);
+      const merged = result.features[0].geometry as Polygon;
+      expect(merged.type).toBe('Polygon');
+      expect(merged.coordinates).toHaveLength(1);
+      expect(getPlanarArea(merged)).toBeCloseTo(2);
+      expect(getRingArea(merged.coordinates[0])).toBeLessThan(0);
+    });
+
+    test('囲まれた隙間を穴として扱う', () => {
+      const ring = [
+        square(0, 0), square(1, 0), square(2, 0),
+        square(0, 1), square(2, 1),
+        square(0, 2), square(1, 2), square(2, 2)
+      ].map(geometry => feature(geometry, { group: 1 }));
+      const merged = dissolve(ring, 'group').features[0].geometry as Polygon;
+
+      expect(merged.coordinates).toHaveLength(2);
+      expect(getPlanarArea(merged)).toBeCloseTo(8);
+    });
+
+    test('関数のキーで異なる次元のジオメトリをまとめる', () => {
+      const result = dissolve([
+        feature(square(0, 0)),
+        feature({ type: 'Point', coordinates: [5, 5] })
+      ], () => 'all');
+
+      expect(result.features).toHaveLength(1);
+      expect(result.features[0].properties).toEqual({ key: 'all' });
+      expect(result.features[0].geometry.type).toBe('GeometryCollection');
+    });
+  });
+
+  describe('buffer', () => {
+    test('ポイントを円にする', () => {
+      const geometry = buffer([feature({ type: 'Point', coordinates: [0, 0] })], 1, { segments: 16 }).features[0].geometry as Polygon;
+      expect(geometry.coordinates[0]).toHaveLength(65);
+      expect(getPlanarArea(geometry)).toBeCloseTo(Math.PI, 1);
+      expect(getRingArea(geometry.coordinates[0])).toBeLessThan(0);
+    });
+
+    test('線を両端が半円の帯にする', () => {
+      const geometry = buffer([feature({ type: 'LineString', coordinates: [[0, 0], [10, 0]] })], 1, { segments: 32 }).features[0].geometry;
+      expect(getPlanarArea(geometry)).toBeCloseTo(20 + Math.PI, 1);
+    });
+
+    test('ポリゴンを外側に広げ、負の距離で縮める', () => {
+      const grown = buffer([feature(square(0, 0, 10))], 1, { segments: 32 }).features[0].geometry;
+      const shrunk = buffer([feature(square(0, 0, 10))], -1).features[0].geometry as Polygon;
+
+      expect(getPlanarArea(grown)).toBeCloseTo(100 + 40 + Math.PI, 1);
+      expect(getPlanarArea(shrunk)).toBeCloseTo(64);
+      expect(getRingArea(shrunk.coordinates[0])).toBeLessThan(0);
+    });
+
+    test('縮小でつぶれたポリゴンを除く', () => {
+      const result = buffer([feature(square(0, 0, 1)), feature(square(0, 0, 10))], -1);
+      expect(result.features).toHaveLength(1);
+    });
+
+    test('不正な値の場合はエラーを投げる', () => {
+      expect(() => buffer([], Infinity)).toThrow('distanceは有限の数値で指定してください: Infinity');
+      expect(() => buffer([], 1, { segments: 0 })).toThrow('segmentsは1以上の値で指定してください: 0');
+    });
+  });
+});
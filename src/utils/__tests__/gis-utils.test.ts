@@ -7,6 +7,14 @@ import {
   getBboxDimensions,
   mergeBbox,
   expandBbox,
+  getPlanarCentroid,
+  getSphericalCentroid,
+  getSphericalArea,
+  getSphericalLength,
+  getLabelPoint,
+  getRepresentativePoint,
+  getLongitudeExtent,
+  crossesAntimeridian,
   type BBox,
   type Centroid
 } from '../gis-utils';
@@ -158,6 +166,56 @@ describe('gis-utils', () => {
     });
   });
 
+  describe('getLongitudeExtent', () => {
+    it('日付変更線をまたがない場合は最小値と最大値を返す', () => {
+      expect(getLongitudeExtent([10, -20, 30])).toEqual([-20, 30]);
+    });
+
+    it('日付変更線をまたぐ方が狭い場合はwest > eastの範囲を返す', () => {
+      expect(getLongitudeExtent([177, 179, -179, -178])).toEqual([177, -178]);
+    });
+
+    it('経緯度の範囲外の値を含む場合は最小値と最大値を返す', () => {
+      expect(getLongitudeExtent([-500, 170, -170])).toEqual([-500, 170]);
+    });
+
+    it('空の配列では[0, 0]を返す', () => {
+      expect(getLongitudeExtent([])).toEqual([0, 0]);
+    });
+  });
+
+  describe('getBbox（日付変更線）', () => {
+    // フィジーのように日付変更線の両側にまたがるMultiPolygon
+    const fiji: Geometry = {
+      type: 'MultiPolygon',
+      coordinates: [
+        [[[177, -18], [179, -18], [179, -16], [177, -16], [177, -18]]],
+        [[[-180, -17], [-179, -17], [-179, -16], [-180, -16], [-180, -17]]]
+      ]
+    };
+
+    it('日付変更線をまたぐデータでは経度方向に最小の範囲を返す', () => {
+      const bbox = getBbox(fiji);
+
+      expect(bbox).toEqual({ minX: 177, minY: -18, maxX: -179, maxY: -16 });
+      expect(crossesAntimeridian(bbox)).toBe(true);
+    });
+
+    it('日付変更線をまたぐBBoxの幅と中心を計算する', () => {
+      const bbox = getBbox(fiji);
+
+      expect(getBboxDimensions(bbox)).toEqual({ width: 4, height: 2 });
+      expect(getBboxCenter(bbox)).toEqual({ x: 179, y: -17 });
+      expect(getBboxCenter({ minX: 170, minY: 0, maxX: -150, maxY: 0 }).x).toBe(-170);
+    });
+
+    it('日付変更線をまたぐ太平洋横断の航路を扱える', () => {
+      const route: Geometry = { type: 'LineString', coordinates: [[139.7, 35.7], [-157.9, 21.3], [-122.4, 37.8]] };
+
+      expect(getBbox(route)).toEqual({ minX: 139.7, minY: 21.3, maxX: -122.4, maxY: 37.8 });
+    });
+  });
+
   describe('getCentroid', () => {
     it('Point Featureの中心点を正しく計算する', () => {
       const centroid = getCentroid(pointFeature);
@@ -203,6 +261,231 @@ describe('gis-utils', () => {
     });
   });
 
+  describe('getPlanarCentroid', () => {
+    const squareWithHole: Geometry = {
+      type: 'Polygon',
+      coordinates: [
+        [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+        [[6, 6], [8, 6], [8, 8], [6, 8], [6, 6]]
+      ]
+    };
+
+    it('穴の面積を除いて重心を計算する', () => {
+      const centroid = getPlanarCentroid(squareWithHole);
+      // (100 * 5 - 4 * 7) / 96
+      expect(centroid.x).toBeCloseTo(472 / 96);
+      expect(centroid.y).toBeCloseTo(472 / 96);
+    });
+
+    it('リングの向きに依存しない', () => {
+      const clockwise: Geometry = {
+        type: 'Polygon',
+        coordinates: [[[0, 0], [0, 10], [10, 10], [10, 0], [0, 0]]]
+      };
+      expect(getPlanarCentroid(clockwise)).toEqual({ x: 5, y: 5 });
+    });
+
+    it('MultiPolygonは各ポリゴンの面積で重み付けする', () => {
+      const centroid = getPlanarCentroid({
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]]],
+          [[[10, 0], [14, 0], [14, 4], [10, 4], [10, 0]]]
+        ]
+      });
+      // (4 * 1 + 16 * 12) / 20, (4 * 1 + 16 * 2) / 20
+      expect(centroid.x).toBeCloseTo(9.8);
+      expect(centroid.y).toBeCloseTo(1.8);
+    });
+
+    it('ポリゴンを含まない場合は線の長さで重み付けする', () => {
+      const centroid = getPlanarCentroid({
+        type: 'LineString',
+        coordinates: [[0, 0], [10, 0], [10, 10]]
+      });
+      expect(centroid).toEqual({ x: 7.5, y: 2.5 });
+    });
+
+    it('GeometryCollectionではポリゴンを優先する', () => {
+      const centroid = getPlanarCentroid({
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [100, 100] },
+          { type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]] }
+        ]
+      });
+      expect(centroid).toEqual({ x: 5, y: 5 });
+    });
+
+    it('空のFeatureCollectionでは初期値を返す', () => {
+      expect(getPlanarCentroid({ type: 'FeatureCollection', features: [] })).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('getSphericalCentroid', () => {
+    it('原点に対称なポリゴンでは原点を返す', () => {
+      const centroid = getSphericalCentroid({
+        type: 'Polygon',
+        coordinates: [[[-1, -1], [1, -1], [1, 1], [-1, 1], [-1, -1]]]
+      });
+      expect(centroid.x).toBeCloseTo(0);
+      expect(centroid.y).toBeCloseTo(0);
+    });
+
+    it('高緯度では面積の大きい低緯度側に寄る', () => {
+      const centroid = getSphericalCentroid({
+        type: 'Polygon',
+        coordinates: [[[0, 60], [10, 60], [10, 70], [0, 70], [0, 60]]]
+      });
+      expect(centroid.x).toBeCloseTo(5);
+      expect(centroid.y).toBeLessThan(65);
+      expect(centroid.y).toBeGreaterThan(60);
+    });
+
+    it('日付変更線をまたぐポリゴンを扱える', () => {
+      const centroid = getSphericalCentroid({
+        type: 'Polygon',
+        coordinates: [[[179, -1], [181, -1], [181, 1], [179, 1], [179, -1]]]
+      });
+      expect(Math.abs(centroid.x)).toBeCloseTo(180);
+      expect(centroid.y).toBeCloseTo(0);
+    });
+
+    it('-180〜180度で表した日付変更線をまたぐポリゴンはリングの向きによらず同じ重心になる', () => {
+      const ring = [[175, -20], [-175, -20], [-175, -10], [175, -10], [175, -20]];
+      [ring, [...ring].reverse()].forEach(coordinates => {
+        const centroid = getSphericalCentroid({ type: 'Polygon', coordinates: [coordinates] });
+        expect(Math.abs(centroid.x)).toBeCloseTo(180);
+        expect(centroid.y).toBeLessThan(-14);
+        expect(centroid.y).toBeGreaterThan(-16);
+      });
+    });
+
+    it('ポイントのみの場合は単位ベクトルの平均の方向を返す', () => {
+      const centroid = getSphericalCentroid({
+        type: 'MultiPoint',
+        coordinates: [[0, 0], [90, 0]]
+      });
+      expect(centroid.x).toBeCloseTo(45);
+      expect(centroid.y).toBeCloseTo(0);
+    });
+  });
+
+  describe('getSphericalArea', () => {
+    const radius = 6371008.8;
+    const cell: Geometry = {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+    };
+
+    it('経緯度1度の区画の面積を計算する', () => {
+      const expected = radius * radius * (Math.PI / 180) * Math.sin(Math.PI / 180);
+      expect(getSphericalArea(cell)).toBeCloseTo(expected, -3);
+    });
+
+    it('穴の面積を除き、半径を指定できる', () => {
+      const area = getSphericalArea({
+        type: 'Polygon',
+        coordinates: [
+          [[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]],
+          [[0.5, 0.5], [1.5, 0.5], [1.5, 1.5], [0.5, 1.5], [0.5, 0.5]]
+        ]
+      }, { radius: 1 });
+      const outer = (2 * Math.PI / 180) * Math.sin(2 * Math.PI / 180);
+      const hole = (Math.PI / 180) * (Math.sin(1.5 * Math.PI / 180) - Math.sin(0.5 * Math.PI / 180));
+      expect(area).toBeCloseTo(outer - hole, 10);
+    });
+
+    it('ポイントと線の面積は0', () => {
+      expect(getSphericalArea(pointFeature)).toBe(0);
+      expect(getSphericalArea(lineStringFeature)).toBe(0);
+    });
+  });
+
+  describe('getSphericalLength', () => {
+    it('赤道上の経度1度の長さを計算する', () => {
+      const length = getSphericalLength({ type: 'LineString', coordinates: [[0, 0], [1, 0]] });
+      expect(length).toBeCloseTo(6371008.8 * Math.PI / 180, 3);
+    });
+
+    it('ポリゴンは全てのリングの周長を合計する', () => {
+      const length = getSphericalLength({
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+      }, { radius: 1 });
+      const degree = Math.PI / 180;
+      const top = 2 * Math.asin(Math.cos(degree) * Math.sin(degree / 2));
+      expect(length).toBeCloseTo(3 * degree + top, 10);
+    });
+
+    it('ポイントの長さは0', () => {
+      expect(getSphericalLength(pointFeature)).toBe(0);
+    });
+  });
+
+  describe('getLabelPoint', () => {
+    // 右側が開いたC字型（面積の重心は開いた部分に位置する）
+    const cShape: Geometry = {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [10, 0], [10, 2], [2, 2], [2, 8], [10, 8], [10, 10], [0, 10], [0, 0]]]
+    };
+    const isInsideCShape = ({ x, y }: Centroid) =>
+      x > 0 && x < 10 && y > 0 && y < 10 && (x < 2 || y < 2 || y > 8);
+
+    it('凹んだポリゴンでも内部の点を返す', () => {
+      expect(isInsideCShape(getPlanarCentroid(cShape))).toBe(false);
+      expect(isInsideCShape(getLabelPoint(cShape))).toBe(true);
+    });
+
+    it('凸なポリゴンでは中心付近の点を返す', () => {
+      const point = getLabelPoint(polygonFeature, { precision: 0.01 });
+      expect(point.x).toBeCloseTo(5, 1);
+      expect(point.y).toBeCloseTo(5, 1);
+    });
+
+    it('MultiPolygonでは最も大きいポリゴンを使用する', () => {
+      const point = getLabelPoint({
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]]],
+          [[[10, 0], [14, 0], [14, 4], [10, 4], [10, 0]]]
+        ]
+      });
+      expect(point.x).toBeGreaterThan(10);
+      expect(point.x).toBeLessThan(14);
+    });
+
+    it('日付変更線をまたぐポリゴンでは内部の点を-180〜180度で返す', () => {
+      const point = getLabelPoint({
+        type: 'Polygon',
+        coordinates: [[[175, -20], [-175, -20], [-175, -10], [175, -10], [175, -20]]]
+      }, { precision: 0.01 });
+      expect(Math.abs(point.x)).toBeCloseTo(180, 1);
+      expect(point.x).toBeGreaterThanOrEqual(-180);
+      expect(point.x).toBeLessThanOrEqual(180);
+      expect(point.y).toBeCloseTo(-15, 1);
+    });
+
+    it('線は最も長い線の中間点を返す', () => {
+      expect(getLabelPoint({
+        type: 'LineString',
+        coordinates: [[0, 0], [10, 0], [10, 10]]
+      })).toEqual({ x: 10, y: 0 });
+    });
+  });
+
+  describe('getRepresentativePoint', () => {
+    it('デフォルトでは頂点の平均を返す', () => {
+      expect(getRepresentativePoint(polygonFeature)).toEqual(getCentroid(polygonFeature));
+    });
+
+    it('配置方法に応じた代表点を返す', () => {
+      expect(getRepresentativePoint(polygonFeature, 'planar-centroid')).toEqual({ x: 5, y: 5 });
+      expect(getRepresentativePoint(polygonFeature, 'label-point')).toEqual(getLabelPoint(polygonFeature));
+      expect(getRepresentativePoint(polygonFeature, 'spherical-centroid')).toEqual(getSphericalCentroid(polygonFeature));
+    });
+  });
+
   describe('merge', () => {
     it('複数のFeatureを正しくマージする', () => {
       const result = merge([pointFeature, polygonFeature]);
@@ -442,6 +725,36 @@ describe('gis-utils', () => {
     });
   });
 
+  describe('mergeBbox（日付変更線）', () => {
+    it('日付変更線の両側のBBoxを日付変更線をまたいでマージする', () => {
+      const west = { minX: 170, minY: -20, maxX: 180, maxY: -10 };
+      const east = { minX: -180, minY: -15, maxX: -170, maxY: -5 };
+
+      expect(mergeBbox(west, east)).toEqual({ minX: 170, minY: -20, maxX: -170, maxY: -5 });
+    });
+
+    it('日付変更線をまたぐBBoxに含まれるBBoxをマージしても変わらない', () => {
+      const crossing = { minX: 170, minY: 0, maxX: -170, maxY: 10 };
+      const inner = { minX: 175, minY: 2, maxX: 178, maxY: 8 };
+
+      expect(mergeBbox(crossing, inner)).toEqual(crossing);
+    });
+
+    it('両端が重なり全経度を覆う場合は-180〜180度を返す', () => {
+      const a = { minX: -170, minY: 0, maxX: 100, maxY: 10 };
+      const b = { minX: 90, minY: 0, maxX: -160, maxY: 10 };
+
+      expect(mergeBbox(a, b)).toEqual({ minX: -180, minY: 0, maxX: 180, maxY: 10 });
+    });
+
+    it('経緯度の範囲外の座標は単純にマージする', () => {
+      const a = { minX: -1000, minY: 0, maxX: -900, maxY: 10 };
+      const b = { minX: 900, minY: 0, maxX: 1000, maxY: 10 };
+
+      expect(mergeBbox(a, b)).toEqual({ minX: -1000, minY: 0, maxX: 1000, maxY: 10 });
+    });
+  });
+
   describe('expandBbox', () => {
     it('デフォルトパディング（10%）でBBoxを拡張する', () => {
       const bbox: BBox = {
@@ -501,5 +814,12 @@ describe('gis-utils', () => {
         maxY: 12
       });
     });
+
+    it('日付変更線をまたぐBBoxを拡張すると経度を正規化する', () => {
+      const bbox = { minX: 175, minY: 0, maxX: -175, maxY: 10 };
+
+      expect(expandBbox(bbox, 0.5)).toEqual({ minX: 170, minY: -5, maxX: -170, maxY: 15 });
+      expect(expandBbox(bbox, 20)).toEqual({ minX: -180, minY: -200, maxX: 180, maxY: 210 });
+    });
   });
 });
\ No newline at end of file
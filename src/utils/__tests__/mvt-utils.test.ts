@@ -0,0 +1,81 @@
+import { decodeVectorTile } from '../mvt-utils';
+import { createVectorTileFixture } from '../../../tests/fixtures/vector-tile';
+
+describe('mvt-utils', () => {
+  describe('decodeVectorTile', () => {
+    const tile = { x: 0, y: 0, z: 0 };
+
+    test('ソースレイヤーごとのFeatureCollectionに変換する', () => {
+      const decoded = decodeVectorTile(createVectorTileFixture(), tile);
+
+      expect(Object.keys(decoded)).toEqual(['water', 'roads', 'pois']);
+      expect(decoded.water.type).toBe('FeatureCollection');
+      expect(decoded.water.features).toHaveLength(1);
+    });
+
+    test('ポリゴンの外周と穴を経緯度に変換する', () => {
+      const [feature] = decodeVectorTile(createVectorTileFixture(), tile).water.features;
+      const geometry = feature.geometry as GeoJSON.Polygon;
+
+      expect(feature.id).toBe(1);
+      expect(feature.properties).toEqual({ name: 'lake', depth: 12 });
+      expect(geometry.type).toBe('Polygon');
+      expect(geometry.coordinates).toHaveLength(2);
+
+      const [exterior, hole] = geometry.coordinates;
+      expect(exterior).toHaveLength(5);
+      expect(exterior[0][0]).toBeCloseTo(-180);
+      expect(exterior[0][1]).toBeCloseTo(85.0511, 3);
+      expect(exterior[2][0]).toBeCloseTo(0);
+      expect(exterior[2][1]).toBeCloseTo(0);
+      expect(exterior[4]).toEqual(exterior[0]);
+      expect(hole[0][0]).toBeCloseTo(-135);
+    });
+
+    test('ラインと各種の属性値を変換する', () => {
+      const [feature] = decodeVectorTile(createVectorTileFixture(), tile).roads.features;
+
+      expect(feature.geometry).toEqual({
+        type: 'LineString',
+        coordinates: [[-180, 0], [180, 0], [180, expect.closeTo(-85.0511, 3)]]
+      });
+      expect(feature.properties).toEqual({
+        class: 'primary',
+        lanes: -3,
+        oneway: true,
+        offset: -7,
+        width: 7.5
+      });
+    });
+
+    test('複数のポイントをMultiPointに変換する', () => {
+      const [feature] = decodeVectorTile(createVectorTileFixture(), tile).pois.features;
+      const geometry = feature.geometry as GeoJSON.MultiPoint;
+
+      expect(feature.id).toBeUndefined();
+      expect(geometry.type).toBe('MultiPoint');
+      expect(geometry.coordinates[0][0]).toBeCloseTo(-90);
+      expect(geometry.coordinates[0][1]).toBeCloseTo(66.5133, 3);
+      expect(geometry.coordinates[1][0]).toBeCloseTo(90);
+    });
+
+    test('タイル座標に応じて経緯度が変わる', () => {
+      const [feature] = decodeVectorTile(createVectorTileFixture(), { x: 1, y: 1, z: 1 }).roads.features;
+      const geometry = feature.geometry as GeoJSON.LineString;
+
+      expect(geometry.coordinates[0]).toEqual([0, expect.closeTo(-66.5133, 3)]);
+      expect(geometry.coordinates[1]).toEqual([180, expect.closeTo(-66.5133, 3)]);
+    });
+
+    test('layersで指定したソースレイヤーのみを変換する', () => {
+      const decoded = decodeVectorTile(createVectorTileFixture().buffer as ArrayBuffer, tile, { layers: ['roads'] });
+
+      expect(Object.keys(decoded)).toEqual(['roads']);
+    });
+
+    test('不正なデータの場合はエラーになる', () => {
+      expect(() => decodeVectorTile(new Uint8Array([0x1a, 0x05, 0x0a]), tile))
+        .toThrow('ベクタータイルのデコードに失敗しました');
+    });
+  });
+});
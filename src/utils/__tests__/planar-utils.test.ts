@@ -0,0 +1,150 @@
+import {
+  collectParts,
+  getRingArea,
+  getPolygonArea,
+  getPlanarArea,
+  isPointInRing,
+  isPointInPolygon,
+  transformGeometry,
+  mapCoordinates
+} from '../planar-utils';
+
+describe('planar-utils', () => {
+  /** 反時計回りの正方形のリング（閉じている） */
+  const square = (x: number, y: number, size: number): GeoJSON.Position[] =>
+    [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+  describe('collectParts', () => {
+    test('FeatureCollectionやGeometryCollectionを次元ごとに分解する', () => {
+      const collection: GeoJSON.FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: {}, geometry: { type: 'MultiPoint', coordinates: [[0, 0], [1, 1]] } },
+          { type: 'Feature', properties: {}, geometry: null as any },
+          {
+            type: 'Feature',
+            properties: {},
+            geometry: {
+              type: 'GeometryCollection',
+              geometries: [
+                { type: 'LineString', coordinates: [[0, 0], [1, 0]] },
+                { type: 'MultiPolygon', coordinates: [[square(0, 0, 1)], [square(2, 2, 1)]] }
+              ]
+            }
+          }
+        ]
+      };
+
+      const parts = collectParts(collection);
+
+      expect(parts.points).toEqual([[0, 0], [1, 1]]);
+      expect(parts.lines).toEqual([[[0, 0], [1, 0]]]);
+      expect(parts.polygons).toEqual([[square(0, 0, 1)], [square(2, 2, 1)]]);
+    });
+  });
+
+  describe('getRingArea', () => {
+    test('反時計回りのリングは正、時計回りのリングは負になる', () => {
+      expect(getRingArea(square(0, 0, 2))).toBe(4);
+      expect(getRingArea([...square(0, 0, 2)].reverse())).toBe(-4);
+    });
+
+    test('閉じていないリングも同じ面積になる', () => {
+      expect(getRingArea(square(0, 0, 2).slice(0, -1))).toBe(4);
+    });
+  });
+
+  describe('getPolygonArea', () => {
+    test('リングの向きによらず外周の面積から穴の面積を引く', () => {
+      expect(getPolygonArea([[...square(0, 0, 4)].reverse(), square(1, 1, 1)])).toBe(15);
+    });
+  });
+
+  describe('getPlanarArea', () => {
+    test('ポリゴンの面積から穴の面積を引く', () => {
+      const polygon: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [
+          [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]],
+          [[1, 1], [1, 2], [2, 2], [2, 1], [1, 1]]
+        ]
+      };
+      expect(getPlanarArea(polygon)).toBe(15);
+    });
+
+    test('MultiPolygonは各ポリゴンの合計になる', () => {
+      const multi: GeoJSON.MultiPolygon = {
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+          [[[2, 2], [4, 2], [4, 4], [2, 4], [2, 2]]]
+        ]
+      };
+      expect(getPlanarArea(multi)).toBe(5);
+    });
+
+    test('ポリゴン以外は0を返す', () => {
+      expect(getPlanarArea({ type: 'Point', coordinates: [0, 0] })).toBe(0);
+      expect(getPlanarArea(null)).toBe(0);
+    });
+  });
+
+
+  describe('isPointInRing', () => {
+    test('リングの向きや閉じているかによらず判定する', () => {
+      const ring = square(0, 0, 4);
+      expect(isPointInRing([1, 1], ring)).toBe(true);
+      expect(isPointInRing([1, 1], [...ring].reverse())).toBe(true);
+      expect(isPointInRing([1, 1], ring.slice(0, -1))).toBe(true);
+      expect(isPointInRing([5, 1], ring)).toBe(false);
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    test('穴の内部は外側として判定される', () => {
+      const polygon = [square(0, 0, 10), [...square(2, 2, 6)].reverse()];
+      expect(isPointInPolygon([1, 1], polygon)).toBe(true);
+      expect(isPointInPolygon([5, 5], polygon)).toBe(false);
+      expect(isPointInPolygon([11, 5], polygon)).toBe(false);
+      expect(isPointInPolygon([1, 1], [])).toBe(false);
+    });
+  });
+
+  describe('transformGeometry', () => {
+    test('元の種類を保ち、空になった構成要素はnullになる', () => {
+      const keep = { points: (points: GeoJSON.Position[]) => points, lines: (lines: GeoJSON.Position[][]) => lines };
+
+      expect(transformGeometry(
+        { type: 'MultiPolygon', coordinates: [[square(0, 0, 1)]] },
+        { ...keep, polygons: polygons => polygons }
+      )).toEqual({ type: 'MultiPolygon', coordinates: [[square(0, 0, 1)]] });
+      expect(transformGeometry(
+        { type: 'Polygon', coordinates: [square(0, 0, 1)] },
+        { ...keep, polygons: () => [] }
+      )).toBeNull();
+    });
+  });
+
+  describe('mapCoordinates', () => {
+    test('全ての座標を変換し、入力は変更しない', () => {
+      const geometry: GeoJSON.GeometryCollection = {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [1, 2, 3] },
+          { type: 'Polygon', coordinates: [square(0, 0, 1)] }
+        ]
+      };
+
+      const result = mapCoordinates(geometry, ([x, y, ...rest]) => [x + 10, y, ...rest]);
+
+      expect(result).toEqual({
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Point', coordinates: [11, 2, 3] },
+          { type: 'Polygon', coordinates: [square(10, 0, 1)] }
+        ]
+      });
+      expect((geometry.geometries[0] as GeoJSON.Point).coordinates).toEqual([1, 2, 3]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { getProjectionKey, getProjectionPixelsPerDegree, interpolateProjection, getFitExtent, fitProjection } from '../projection-utils';
+import { getBbox } from '../gis-utils';
+
+describe('projection-utils', () => {
+  /** scale/translateを持つ線形の投影法 */
+  const createProjection = (factor: number = 1): any => {
+    let scale = 100;
+    let translate: [number, number] = [400, 200];
+    const projection: any = ([lon, lat]: [number, number]) => [lon * factor * scale / 100 + translate[0], -lat * scale / 100 + translate[1]];
+    projection.scale = (value?: number) => value === undefined ? scale : (scale = value, projection);
+    projection.translate = (value?: [number, number]) => value === undefined ? translate : (translate = value, projection);
+    return projection;
+  };
+
+  describe('getProjectionKey', () => {
+    test('同じパラメータの投影法は同じキーになる', () => {
+      expect(getProjectionKey(createProjection())).toBe(getProjectionKey(createProjection()));
+    });
+
+    test('同じ投影法オブジェクトでもパラメータが変わるとキーが変わる', () => {
+      const projection = createProjection();
+      const key = getProjectionKey(projection);
+      projection.scale(200);
+
+      expect(getProjectionKey(projection)).not.toBe(key);
+    });
+
+    test('パラメータが同じでも種類の異なる投影法は区別する', () => {
+      expect(getProjectionKey(createProjection(1))).not.toBe(getProjectionKey(createProjection(2)));
+    });
+
+    test('投影に失敗する投影法でもキーを作成できる', () => {
+      const projection: any = () => {
+        throw new Error('projection failed');
+      };
+
+      expect(() => getProjectionKey(projection)).not.toThrow();
+    });
+  });
+
+  describe('getProjectionPixelsPerDegree', () => {
+    test('指定した地点で経度方向と緯度方向の大きい方の縮尺を返す', () => {
+      expect(getProjectionPixelsPerDegree(createProjection(2), [10, 20])).toBeCloseTo(2);
+      expect(getProjectionPixelsPerDegree(createProjection(0.5), [10, 90])).toBeCloseTo(1);
+    });
+
+    test('地点を省略した場合は投影の中心で測り、測れない場合はscaleから換算する', () => {
+      const projection = createProjection(3);
+      projection.invert = ([x, y]: [number, number]) => [(x - 400) / 3, -(y - 200)];
+      expect(getProjectionPixelsPerDegree(projection)).toBeCloseTo(3);
+
+      expect(getProjectionPixelsPerDegree(createProjection())).toBeCloseTo(100 * Math.PI / 180);
+    });
+  });
+
+  describe('interpolateProjection', () => {
+    /** scale/translate/rotate/centerを持つ線形の投影法（経度方向の回転のみ） */
+    const createRotatableProjection = (factor: number = 1): any => {
+      const projection = createProjection(factor);
+      let rotate: [number, number, number] = [0, 0, 0];
+      let center: [number, number] = [0, 0];
+      const base = projection;
+      const rotated: any = ([lon, lat]: [number, number]) => base([lon + rotate[0], lat]);
+      rotated.scale = (value?: number) => value === undefined ? base.scale() : (base.scale(value), rotated);
+      rotated.translate = (value?: [number, number]) => value === undefined ? base.translate() : (base.translate(value), rotated);
+      rotated.rotate = (value?: [number, number, number]) => value === undefined ? rotate : (rotate = value, rotated);
+      rotated.center = (value?: [number, number]) => value === undefined ? center : (center = value, rotated);
+      return rotated;
+    };
+
+    test('同じ種類の投影法はパラメータを補間し、遷移後の投影法に設定する', () => {
+      const from = createRotatableProjection().scale(100).translate([0, 0]).rotate([170, 0, 0]);
+      const to = createRotatableProjection().scale(400).translate([100, 50]).rotate([-170, 0, 0]);
+
+      const interpolate = interpolateProjection(from, to);
+
+      const middle = interpolate(0.5);
+      expect(middle).toBe(to);
+      expect(middle.scale()).toBeCloseTo(200);
+      expect(middle.translate()).toEqual([50, 25]);
+      // 180度をまたぐ近い向きに回転する
+      expect(middle.rotate()[0]).toBeCloseTo(180);
+
+      const end = interpolate(1);
+      expect(end.scale()).toBe(400);
+      expect(end.translate()).toEqual([100, 50]);
+      expect(end.rotate()).toEqual([-170, 0, 0]);
+    });
+
+    test('種類の判定後に遷移後の投影法のパラメータを元に戻す', () => {
+      const from = createRotatableProjection(1).scale(100);
+      const to = createRotatableProjection(2).scale(300).translate([10, 20]);
+
+      interpolateProjection(from, to);
+
+      expect(to.scale()).toBe(300);
+      expect(to.translate()).toEqual([10, 20]);
+    });
+
+    test('種類の異なる投影法は画面座標を補間する', () => {
+      const from = createRotatableProjection(1).translate([0, 0]);
+      const to = createRotatableProjection(2).translate([0, 0]);
+
+      const interpolate = interpolateProjection(from, to);
+
+      expect(interpolate(0)).toBe(from);
+      expect(interpolate(1)).toBe(to);
+      // 経度30度: from → 30, to → 60
+      const [x, y] = interpolate(0.5)([30, 10])!;
+      expect(x).toBeCloseTo(45);
+      expect(y).toBeCloseTo(-10);
+    });
+
+    test('補間中の回転とクリッピングは近い方の投影法に従う', () => {
+      const from = createRotatableProjection(1).translate([0, 0]).rotate([90, 0, 0]);
+      const to = createRotatableProjection(2).translate([0, 0]);
+      to.clipAngle = () => 90;
+
+      const interpolate = interpolateProjection(from, to);
+
+      expect(interpolate(0.25).rotate()).toEqual([90, 0, 0]);
+      expect(interpolate(0.25).clipAngle()).toBeNull();
+      expect(interpolate(0.75).rotate()).toEqual([0, 0, 0]);
+      expect(interpolate(0.75).clipAngle()).toBe(90);
+      // 回転に関わらず両方の投影結果を補間する: from → 10 + 90 = 100, to → 20
+      expect(interpolate(0.25)([10, 0])![0]).toBeCloseTo(80);
+      expect(interpolate(0.75)([10, 0])![0]).toBeCloseTo(40);
+    });
+  });
+
+  describe('getFitExtent', () => {
+    it('数値の余白は全ての辺に適用する', () => {
+      expect(getFitExtent(800, 600, 20)).toEqual([[20, 20], [780, 580]]);
+    });
+
+    it('辺ごとの余白を指定し、未指定の辺は20とする', () => {
+      expect(getFitExtent(800, 600, { top: 40, left: 0 })).toEqual([[0, 40], [780, 580]]);
+    });
+
+    it('重なる矩形は残る面積が最も大きい側に範囲を狭めて避ける', () => {
+      // 左下の凡例は上側、右側の縦長の凡例は左側を残す
+      expect(getFitExtent(800, 600, 20, [{ x: 10, y: 480, width: 150, height: 110 }])).toEqual([[20, 20], [780, 480]]);
+      expect(getFitExtent(800, 600, 20, [{ x: 700, y: 20, width: 90, height: 500 }])).toEqual([[20, 20], [700, 580]]);
+    });
+
+    it('範囲と重ならない矩形は無視する', () => {
+      expect(getFitExtent(800, 600, 20, [{ x: 0, y: 0, width: 15, height: 15 }])).toEqual([[20, 20], [780, 580]]);
+    });
+  });
+
+  describe('fitProjection', () => {
+    /** d3と同様に座標の範囲を中央に収めるfitExtentを持つ線形の投影法 */
+    const createFittableProjection = (): any => {
+      const projection = createProjection();
+      projection.fitExtent = ([[x0, y0], [x1, y1]]: [[number, number], [number, number]], object: any) => {
+        const bbox = getBbox(object);
+        const k = Math.min((x1 - x0) / (bbox.maxX - bbox.minX), (y1 - y0) / (bbox.maxY - bbox.minY));
+        return projection
+          .scale(k * 100)
+          .translate([(x0 + x1) / 2 - k * (bbox.minX + bbox.maxX) / 2, (y0 + y1) / 2 + k * (bbox.minY + bbox.maxY) / 2]);
+      };
+      return projection;
+    };
+    const square: GeoJSON.Polygon = { type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]] };
+
+    it('fitExtentで範囲に収める', () => {
+      const projection = fitProjection(createFittableProjection(), square, [[0, 0], [100, 100]]);
+
+      expect(projection([0, 0])).toEqual([0, 100]);
+      expect(projection([10, 10])).toEqual([100, 0]);
+    });
+
+    it('maxScaleを超える場合は範囲の中央を保ったままscaleを制限する', () => {
+      const projection = fitProjection(createFittableProjection(), square, [[0, 0], [100, 100]], 500);
+
+      expect(projection.scale()).toBe(500);
+      expect(projection([5, 5])).toEqual([50, 50]);
+    });
+
+    it('単一のポイントはmaxScaleで範囲の中央に配置する', () => {
+      const point: GeoJSON.Point = { type: 'Point', coordinates: [139, 35] };
+      const projection = fitProjection(createFittableProjection(), point, [[0, 0], [100, 100]], 300);
+
+      expect(projection.scale()).toBe(300);
+      expect(projection([139, 35])![0]).toBeCloseTo(50);
+      expect(projection([139, 35])![1]).toBeCloseTo(50);
+    });
+
+    it('座標を含まないデータでは投影法を変更しない', () => {
+      const projection = createFittableProjection();
+      fitProjection(projection, { type: 'FeatureCollection', features: [] }, [[0, 0], [100, 100]]);
+
+      expect(projection.scale()).toBe(100);
+      expect(projection.translate()).toEqual([400, 200]);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  isNodataValue,
+  computeStretchRange,
+  computeHillshade,
+  renderRasterPixels,
+  createRasterImage,
+  computeRasterStatistics,
+  compileBandExpression,
+  evaluateBandExpression,
+  type RasterBand
+} from '../raster-utils';
+
+describe('raster-utils', () => {
+  /** 1〜100の値を持つ10×10のバンド（先頭の画素はNoData） */
+  const createBand = (overrides: Partial<RasterBand> = {}): RasterBand => {
+    const data = new Float32Array(100).map((_, i) => i + 1);
+    data[0] = -9999;
+    return { data, width: 10, height: 10, bounds: [0, 0, 1, 1], nodata: -9999, ...overrides };
+  };
+
+  /** 東西方向に傾いた標高（1画素あたりslope上昇） */
+  const createSlope = (slope: number): RasterBand => ({
+    data: new Float32Array(25).map((_, i) => (i % 5) * slope),
+    width: 5,
+    height: 5,
+    bounds: [0, 0, 5, 5],
+    nodata: null
+  });
+
+  describe('isNodataValue', () => {
+    test('NoData値とNaNをNoDataとして判定する', () => {
+      expect(isNodataValue(-9999, -9999)).toBe(true);
+      expect(isNodataValue(NaN, null)).toBe(true);
+      expect(isNodataValue(0, null)).toBe(false);
+      expect(isNodataValue(0, undefined)).toBe(false);
+      expect(isNodataValue(1, -9999)).toBe(false);
+    });
+  });
+
+  describe('computeStretchRange', () => {
+    test('minmaxはNoDataを除いた最小値と最大値を返す', () => {
+      expect(computeStretchRange(createBand())).toEqual([2, 100]);
+      expect(computeStretchRange(createBand(), 'minmax')).toEqual([2, 100]);
+    });
+
+    test('percentileは指定したパーセンタイルの範囲を返す', () => {
+      const [min, max] = computeStretchRange(createBand(), { mode: 'percentile', percentiles: [0, 50] })!;
+      expect(min).toBe(2);
+      expect(max).toBe(51);
+
+      const [low, high] = computeStretchRange(createBand(), 'percentile')!;
+      expect(low).toBeCloseTo(3.96);
+      expect(high).toBeCloseTo(98.04);
+    });
+
+    test('stddevは平均±標準偏差の倍数をデータの範囲内で返す', () => {
+      const [min, max] = computeStretchRange(createBand(), { mode: 'stddev', stddevs: 1 })!;
+      const deviation = Math.sqrt(Array.from({ length: 99 }, (_, i) => (i + 2 - 51) ** 2).reduce((a, b) => a + b) / 99);
+      expect(min).toBeCloseTo(51 - deviation);
+      expect(max).toBeCloseTo(51 + deviation);
+
+      expect(computeStretchRange(createBand(), { mode: 'stddev', stddevs: 10 })).toEqual([2, 100]);
+    });
+
+    test('rangeを指定した場合はそのまま返し、有効な値がない場合はnullを返す', () => {
+      expect(computeStretchRange(createBand(), { mode: 'percentile', range: [0, 10] })).toEqual([0, 10]);
+      expect(computeStretchRange(createBand({ data: new Float32Array(100).fill(NaN) }))).toBeNull();
+    });
+  });
+
+  describe('computeHillshade', () => {
+    test('平坦な地形は光源の高度角の正弦になる', () => {
+      const shade = computeHillshade(createSlope(0), { altitude: 30 });
+      shade.forEach(value => expect(value).toBeCloseTo(0.5));
+    });
+
+    test('光源側を向いた斜面は明るく、反対側を向いた斜面は暗くなる', () => {
+      // 北西からの光に対して、東へ上る斜面は西向き、西へ上る斜面は東向き
+      const westFacing = computeHillshade(createSlope(1), { cellSize: [1, 1] });
+      const eastFacing = computeHillshade(createSlope(-1), { cellSize: [1, 1] });
+      const flat = Math.sin(Math.PI / 4);
+
+      expect(westFacing[12]).toBeGreaterThan(flat);
+      expect(eastFacing[12]).toBeLessThan(flat);
+    });
+
+    test('zFactorで起伏を強調する', () => {
+      const normal = computeHillshade(createSlope(-1), { cellSize: [1, 1] });
+      const exaggerated = computeHillshade(createSlope(-1), { cellSize: [1, 1], zFactor: 3 });
+      expect(exaggerated[12]).toBeLessThan(normal[12]);
+    });
+
+    test('NoDataの画素はNaNになり、隣接画素の計算では中心画素の値で補う', () => {
+      const band = createSlope(0);
+      (band.data as Float32Array)[12] = NaN;
+      const shade = computeHillshade(band, { cellSize: [1, 1] });
+
+      expect(shade[12]).toBeNaN();
+      expect(shade[11]).toBeCloseTo(Math.sin(Math.PI / 4));
+    });
+  });
+
+  describe('renderRasterPixels', () => {
+    test('カラーランプで色付けしNoDataを透明にする', () => {
+      const band: RasterBand = { data: [0, 5, 10, -1], width: 2, height: 2, bounds: [0, 0, 1, 1], nodata: -1 };
+      const { pixels, range } = renderRasterPixels(band, { colors: ['#000000', '#ffffff'] });
+
+      expect(range).toEqual([0, 10]);
+      expect(Array.from(pixels)).toEqual([
+        0, 0, 0, 255,
+        128, 128, 128, 255,
+        255, 255, 255, 255,
+        0, 0, 0, 0
+      ]);
+    });
+
+    test('陰影起伏をグレースケールで出力する', () => {
+      const { pixels, range } = renderRasterPixels(createSlope(0), { mode: 'hillshade', hillshade: { altitude: 30 } });
+
+      expect(range).toBeNull();
+      expect(Array.from(pixels.slice(0, 4))).toEqual([128, 128, 128, 255]);
+    });
+
+    test('値の数が幅×高さと一致しない場合はエラーになる', () => {
+      const band: RasterBand = { data: [1, 2, 3], width: 2, height: 2, bounds: [0, 0, 1, 1] };
+      expect(() => renderRasterPixels(band)).toThrow('ラスタの値の数（3）が幅×高さ（4）と一致しません');
+    });
+  });
+
+  describe('createRasterImage', () => {
+    const originalDocument = global.document;
+    let imageData: { data: Uint8ClampedArray };
+    let context: any;
+
+    beforeEach(() => {
+      imageData = { data: new Uint8ClampedArray(16) };
+      context = {
+        createImageData: jest.fn(() => imageData),
+        putImageData: jest.fn()
+      };
+      Object.defineProperty(global, 'document', {
+        value: {
+          createElement: jest.fn(() => ({
+            getContext: jest.fn(() => context),
+            toDataURL: jest.fn(() => 'data:image/png;base64,raster')
+          }))
+        },
+        configurable: true,
+        writable: true
+      });
+    });
+
+    afterEach(() => {
+      Object.defineProperty(global, 'document', { value: originalDocument, configurable: true, writable: true });
+    });
+
+    test('ImageLayerで使用できるData URIと境界を返す', () => {
+      const band: RasterBand = { data: [0, 1, 2, 3], width: 2, height: 2, bounds: [130, 30, 131, 31] };
+      const image = createRasterImage(band, { colors: 'Viridis' });
+
+      expect(image).toEqual({
+        dataUri: 'data:image/png;base64,raster',
+        bounds: [130, 30, 131, 31],
+        width: 2,
+        height: 2,
+        range: [0, 3]
+      });
+      expect(context.putImageData).toHaveBeenCalledWith(imageData, 0, 0);
+      expect(Array.from(imageData.data.slice(0, 4))).toEqual([0x44, 0x01, 0x54, 255]);
+    });
+
+    test('Canvas contextの取得に失敗した場合エラーを投げる', () => {
+      context = null;
+      const band: RasterBand = { data: [0], width: 1, height: 1, bounds: [0, 0, 1, 1] };
+      expect(() => createRasterImage(band)).toThrow('Canvas contextの取得に失敗しました');
+    });
+  });
+
+  describe('computeRasterStatistics', () => {
+    test('NoDataを除いた最小値・最大値・平均・標準偏差を返す', () => {
+      const statistics = computeRasterStatistics(createBand());
+
+      expect(statistics.min).toBe(2);
+      expect(statistics.max).toBe(100);
+      expect(statistics.mean).toBe(51);
+      expect(statistics.stdDev).toBeCloseTo(Math.sqrt((99 * 99 - 1) / 12));
+      expect(statistics.validCount).toBe(99);
+      expect(statistics.nodataCount).toBe(1);
+    });
+
+    test('有効な値がない場合はNaNを返す', () => {
+      const band: RasterBand = { data: [NaN, -1], width: 2, height: 1, bounds: [0, 0, 1, 1], nodata: -1 };
+      expect(computeRasterStatistics(band)).toEqual({ min: NaN, max: NaN, mean: NaN, stdDev: NaN, validCount: 0, nodataCount: 2 });
+    });
+  });
+
+  describe('compileBandExpression', () => {
+    test('使用するバンドを昇順に並べ、その順の値で評価する', () => {
+      const ndvi = compileBandExpression('(b4 - b3) / (b4 + b3)');
+
+      expect(ndvi.bands).toEqual([3, 4]);
+      expect(ndvi.evaluate([0.1, 0.5])).toBeCloseTo(2 / 3);
+    });
+
+    test('演算子の優先順位、単項マイナス、べき乗と関数を扱う', () => {
+      const evaluate = (expression: string, values: number[] = [2, 3]) => compileBandExpression(expression).evaluate(values);
+
+      expect(evaluate('b1 + b2 * 2')).toBe(8);
+      expect(evaluate('-b1 ^ 2 + B2')).toBe(-1);
+      expect(evaluate('2 ^ b2 ^ 0 * b1')).toBe(4);
+      expect(evaluate('max(b1, b2, 2.5e0) - sqrt(abs(-b1 * 8))')).toBe(-1);
+      expect(evaluate('min(b1, b2) / .5')).toBe(4);
+    });
+
+    test('構文の誤りや未知の関数、バンドのない式はエラーになる', () => {
+      expect(() => compileBandExpression('b1 +')).toThrow('バンド演算式を解析できません: b1 +（式の末尾）');
+      expect(() => compileBandExpression('b1 b2')).toThrow('バンド演算式を解析できません: b1 b2（「b2」）');
+      expect(() => compileBandExpression('b1 % 2')).toThrow('バンド演算式を解析できません: b1 % 2（「%」）');
+      expect(() => compileBandExpression('foo(b1)')).toThrow('バンド演算式に未知の関数があります: foo');
+      expect(() => compileBandExpression('b0 + 1')).toThrow('バンド番号は1以上で指定してください: b0');
+      expect(() => compileBandExpression('1 + 2')).toThrow('バンド演算式にはバンドを1つ以上含めてください: 1 + 2');
+    });
+  });
+
+  describe('evaluateBandExpression', () => {
+    const red: RasterBand = { data: [10, 20, -1, 0], width: 2, height: 2, bounds: [0, 0, 1, 1], nodata: -1 };
+    const nir: RasterBand = { data: [30, 20, 40, 0], width: 2, height: 2, bounds: [0, 0, 1, 1], nodata: -1 };
+
+    test('画素ごとに式を評価し、NoDataと有限でない結果をNaNにする', () => {
+      const result = evaluateBandExpression('(b2 - b1) / (b2 + b1)', { 1: red, 2: nir });
+
+      expect(result.data).toBeInstanceOf(Float32Array);
+      expect(Array.from(result.data)).toEqual([0.5, 0, NaN, NaN]);
+      expect(result).toMatchObject({ width: 2, height: 2, bounds: [0, 0, 1, 1], nodata: null });
+    });
+
+    test('バンドが足りない場合や大きさが異なる場合はエラーになる', () => {
+      expect(() => evaluateBandExpression('b1 + b3', { 1: red, 2: nir }))
+        .toThrow('バンド演算式のb3のデータがありません');
+      expect(() => evaluateBandExpression('b1 + b2', { 1: red, 2: { ...nir, width: 4, height: 1 } }))
+        .toThrow('バンド演算式のバンドの大きさが一致しません');
+    });
+  });
+});
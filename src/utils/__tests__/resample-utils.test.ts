@@ -0,0 +1,92 @@
+import { resampleRows, reprojectRaster, ResampleSource } from '../resample-utils';
+
+describe('resample-utils', () => {
+  // 2x1の画像（左: 黒、右: 白）
+  const createSource = (): ResampleSource => ({
+    data: new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255]),
+    width: 2,
+    height: 1
+  });
+
+  const sampleAt = (x: number, y: number, interpolation: 'nearest' | 'bilinear' | 'bicubic') => {
+    const source = createSource();
+    const out = new Uint8ClampedArray(4);
+    resampleRows(source.data, source.width, source.height, new Float32Array([x, y]), out, 1, 0, 1, interpolation);
+    return Array.from(out);
+  };
+
+  describe('resampleRows', () => {
+    test('nearestは最も近い画素の値を使用する', () => {
+      expect(sampleAt(0.4, 0, 'nearest')).toEqual([0, 0, 0, 255]);
+      expect(sampleAt(0.6, 0, 'nearest')).toEqual([255, 255, 255, 255]);
+    });
+
+    test('bilinearは隣接画素を距離で重み付けする', () => {
+      expect(sampleAt(0.5, 0, 'bilinear')).toEqual([128, 128, 128, 255]);
+      expect(sampleAt(0.25, 0, 'bilinear')).toEqual([64, 64, 64, 255]);
+    });
+
+    test('bicubicは画素の位置で元の値を再現する', () => {
+      expect(sampleAt(0, 0, 'bicubic')).toEqual([0, 0, 0, 255]);
+      expect(sampleAt(1, 0, 'bicubic')).toEqual([255, 255, 255, 255]);
+      expect(sampleAt(0.5, 0, 'bicubic')).toEqual([128, 128, 128, 255]);
+    });
+
+    test('透明画素との補間で色が暗くならない', () => {
+      const src = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0]);
+      const out = new Uint8ClampedArray(4);
+      resampleRows(src, 2, 1, new Float32Array([0.5, 0]), out, 1, 0, 1, 'bilinear');
+
+      expect(Array.from(out)).toEqual([255, 0, 0, 128]);
+    });
+
+    test('ソース位置がない画素と範囲外の画素は透明のまま', () => {
+      const source = createSource();
+      const out = new Uint8ClampedArray(8);
+      resampleRows(source.data, 2, 1, new Float32Array([NaN, NaN, 5, 0]), out, 2, 0, 1, 'bilinear');
+
+      expect(Array.from(out)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('reprojectRaster', () => {
+    test('出力画素ごとにソース位置を求めて補間する', async () => {
+      const pixels = await reprojectRaster(createSource(), 3, 1, col => col === 2 ? null : [col * 0.5, 0], {
+        interpolation: 'bilinear'
+      });
+
+      expect(Array.from(pixels)).toEqual([
+        0, 0, 0, 255,
+        128, 128, 128, 255,
+        0, 0, 0, 0
+      ]);
+    });
+
+    test('逆変換の例外は透明な画素として扱う', async () => {
+      const pixels = await reprojectRaster(createSource(), 1, 1, () => {
+        throw new Error('invert failed');
+      });
+
+      expect(Array.from(pixels)).toEqual([0, 0, 0, 0]);
+    });
+
+    test('行単位で処理して進捗を通知する', async () => {
+      const progress: number[] = [];
+      const source: ResampleSource = { data: new Uint8ClampedArray(4 * 4 * 4).fill(255), width: 4, height: 4 };
+
+      await reprojectRaster(source, 4, 4, (col, row) => [col, row], {
+        chunkSize: 2,
+        onProgress: value => progress.push(value)
+      });
+
+      expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+    });
+
+    test('Workerを利用できない環境ではメインスレッドで処理する', async () => {
+      expect(typeof Worker).toBe('undefined');
+
+      const pixels = await reprojectRaster(createSource(), 1, 1, () => [1, 0], { useWorker: true });
+      expect(Array.from(pixels)).toEqual([255, 255, 255, 255]);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import {
   testProjectionTransform,
   testProjectionBounds,
   logTestResult,
+  probeAffineProjection,
   type ProjectionTestResult,
   type AbnormalCoordinate
 } from '../test-utils';
@@ -249,6 +250,45 @@ describe('test-utils', () => {
     });
   });
 
+  describe('probeAffineProjection', () => {
+    const radians = Math.PI / 180;
+    const mercator = ((coords: [number, number]) => [
+      coords[0] * radians * 100 + 50,
+      -Math.log(Math.tan(Math.PI / 4 + coords[1] * radians / 2)) * 100 + 50
+    ]) as unknown as GeoProjection;
+
+    it('線形な投影法をアフィン変換と判定し変換係数を返す', () => {
+      const result = probeAffineProjection(mockProjection, [0, 0, 10, 10]);
+
+      expect(result.isAffine).toBe(true);
+      expect(result.maxError).toBeCloseTo(0);
+      result.transform!.forEach((value, index) => expect(value).toBeCloseTo([10, 0, 0, 0, 10, 0][index]));
+    });
+
+    it('メルカトル画像ではWeb Mercatorの縦座標に対してアフィン性を判定する', () => {
+      expect(probeAffineProjection(mercator, [130, 30, 140, 40], { kind: 'mercator' }).isAffine).toBe(true);
+      expect(probeAffineProjection(mercator, [130, 0, 140, 60]).isAffine).toBe(false);
+    });
+
+    it('許容誤差を超える非線形な投影法はアフィン変換と判定しない', () => {
+      const result = probeAffineProjection(mercator, [130, 30, 140, 40], { tolerance: 1e-6 });
+      const loose = probeAffineProjection(mercator, [130, 30, 140, 40], { tolerance: result.maxError });
+
+      expect(result.isAffine).toBe(false);
+      expect(result.maxError).toBeGreaterThan(0);
+      expect(loose.isAffine).toBe(true);
+    });
+
+    it('投影できない点や退化した範囲はアフィン変換と判定しない', () => {
+      const clipped = ((coords: [number, number]) => coords[0] > 5 ? null : [coords[0], coords[1]]) as unknown as GeoProjection;
+      const collapsed = ((coords: [number, number]) => [coords[0], coords[0]]) as unknown as GeoProjection;
+
+      expect(probeAffineProjection(clipped, [0, 0, 10, 10])).toEqual({ isAffine: false, transform: null, maxError: Infinity });
+      expect(probeAffineProjection(collapsed, [0, 0, 10, 10]).isAffine).toBe(false);
+      expect(probeAffineProjection(mockProjection, [10, 0, 0, 10]).isAffine).toBe(false);
+    });
+  });
+
   describe('logTestResult', () => {
     const mockTestResult: ProjectionTestResult = {
       totalCoords: 10,
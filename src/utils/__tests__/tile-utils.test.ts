@@ -4,7 +4,8 @@ import {
   generateTileUrls,
   calculateOptimalZoom,
   getResolution,
-  isValidTileCoordinate
+  isValidTileCoordinate,
+  getViewBounds
 } from '../tile-utils';
 import { TileGenerationOptions } from '../../types';
 
@@ -180,6 +181,20 @@ describe('tile-utils', () => {
       });
     });
 
+    it('サブドメインがタイル座標に応じて割り当てられる', () => {
+      const bounds: [number, number, number, number] = [139.0, 35.0, 140.0, 36.0];
+      const tiles = generateTileUrls(bounds, 8, {
+        urlTemplate: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        subdomains: 'abc'
+      });
+
+      expect(tiles.length).toBeGreaterThan(0);
+      tiles.forEach(tile => {
+        const { x, y } = tile.coordinate;
+        expect(tile.url).toBe(`https://${'abc'[(x + y) % 3]}.tile.openstreetmap.org/8/${x}/${y}.png`);
+      });
+    });
+
     it('clampToBounds オプションが正しく動作する', () => {
       const bounds: [number, number, number, number] = [139.0, 35.0, 140.0, 36.0];
       
@@ -211,10 +226,25 @@ describe('tile-utils', () => {
       expect(() => generateTileUrls(bounds, 16, options)).toThrow('ズームレベル16は許可範囲（5〜15）外です');
     });
 
+    it('日付変更線をまたぐ範囲では東西の両端のタイルを生成する', () => {
+      const tiles = generateTileUrls([178, -20, -178, -16], 6, defaultOptions);
+      const xs = Array.from(new Set(tiles.map(tile => tile.coordinate.x))).sort((a, b) => a - b);
+
+      // 経度178〜180度はx=63、-180〜-178度はx=0
+      expect(xs).toEqual([0, 63]);
+    });
+
+    it('日付変更線をまたぐ範囲で同じタイルを重複して生成しない', () => {
+      const tiles = generateTileUrls([10, 0, 5, 10], 0, defaultOptions);
+
+      expect(tiles).toHaveLength(1);
+      expect(tiles[0].coordinate).toEqual({ x: 0, y: 0, z: 0 });
+    });
+
     it('無効なboundsでエラーを投げる', () => {
       const options = defaultOptions;
       
-      expect(() => generateTileUrls([140, 35, 139, 36], 10, options)).toThrow('無効な境界が指定されました');
+      expect(() => generateTileUrls([140, 35, 140, 36], 10, options)).toThrow('無効な境界が指定されました');
       expect(() => generateTileUrls([139, 36, 140, 35], 10, options)).toThrow('無効な境界が指定されました');
       expect(() => generateTileUrls([NaN, 35, 140, 36], 10, options)).toThrow('boundsの値は有効な数値で指定してください');
     });
@@ -305,15 +335,68 @@ describe('tile-utils', () => {
       expect(zoom512).toBeLessThanOrEqual(zoom256);
     });
 
+    it('日付変更線をまたぐ範囲は東回りの経度差で計算する', () => {
+      const crossing = calculateOptimalZoom([179, -18, -179, -16], 800, 600);
+      const equivalent = calculateOptimalZoom([-1, -18, 1, -16], 800, 600);
+
+      expect(crossing).toBe(equivalent);
+    });
+
     it('無効な入力でエラーを投げる', () => {
       const validBounds: [number, number, number, number] = [139.0, 35.0, 140.0, 36.0];
       
-      expect(() => calculateOptimalZoom([140, 35, 139, 36], 800, 600)).toThrow('無効な境界が指定されました');
+      expect(() => calculateOptimalZoom([140, 35, 140, 36], 800, 600)).toThrow('無効な境界が指定されました');
       expect(() => calculateOptimalZoom(validBounds, 0, 600)).toThrow('地図のサイズは正の数値で指定してください');
       expect(() => calculateOptimalZoom(validBounds, 800, -100)).toThrow('地図のサイズは正の数値で指定してください');
     });
   });
 
+  describe('getViewBounds', () => {
+    // 800x400の地図に経度-180〜180、緯度-90〜90を表示する投影法
+    const createProjection = (): any => {
+      const projection: any = ([lon, lat]: [number, number]) => [(lon + 180) * 800 / 360, (90 - lat) * 400 / 180];
+      projection.invert = ([x, y]: [number, number]) => [x * 360 / 800 - 180, 90 - y * 180 / 400];
+      return projection;
+    };
+
+    it('表示範囲をWeb Mercatorの有効範囲に制限して返す', () => {
+      const bounds = getViewBounds(createProjection(), 800, 400)!;
+
+      expect(bounds[0]).toBe(-180);
+      expect(bounds[1]).toBeCloseTo(-85.0511, 3);
+      expect(bounds[2]).toBe(180);
+      expect(bounds[3]).toBeCloseTo(85.0511, 3);
+    });
+
+    it('地図の一部を表示している場合はその範囲を返す', () => {
+      const bounds = getViewBounds(createProjection(), 400, 200)!;
+
+      expect(bounds).toEqual([-180, 0, 0, 85.051128779807]);
+    });
+
+    it('日付変更線をまたいで表示している場合はwest > eastの範囲を返す', () => {
+      // 経度180度を中央にした投影法（経度120〜240度を表示）
+      const projection: any = ([lon, lat]: [number, number]) => [((lon + 360) % 360 - 120) * 800 / 120, (90 - lat) * 400 / 180];
+      projection.invert = ([x, y]: [number, number]) => {
+        const lon = x * 120 / 800 + 120;
+        return [lon > 180 ? lon - 360 : lon, 90 - y * 180 / 400];
+      };
+
+      const bounds = getViewBounds(projection, 800, 400)!;
+
+      expect(bounds[0]).toBe(120);
+      expect(bounds[2]).toBe(-120);
+    });
+
+    it('逆投影できない場合はnullを返す', () => {
+      const projection = createProjection();
+      delete projection.invert;
+
+      expect(getViewBounds(projection, 800, 400)).toBeNull();
+      expect(getViewBounds(createProjection(), 0, 400)).toBeNull();
+    });
+  });
+
   describe('getResolution', () => {
     it('基本的な解像度計算', () => {
       const resolution = getResolution(10, 0); // 赤道での解像度
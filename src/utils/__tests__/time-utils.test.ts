@@ -0,0 +1,100 @@
+import { toTimestamp, getTimeSteps, filterFeaturesByTime } from '../time-utils';
+
+describe('time-utils', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const day = (n: number) => Date.UTC(2024, 3, n);
+
+  /** 都市ごとの日別の値を持つポイント */
+  const feature = (city: string, date: number | null, value: number, coordinates: [number, number] = [0, 0]): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { city, date, value, label: `${city}-${value}` },
+    geometry: { type: 'Point', coordinates }
+  });
+  const timeAccessor = (f: GeoJSON.Feature) => f.properties!.date;
+
+  const features = [
+    feature('tokyo', day(1), 10, [139, 35]),
+    feature('osaka', day(1), 5),
+    feature('tokyo', day(3), 30, [141, 37]),
+    feature('osaka', day(3), 15),
+    feature('nagoya', day(3), 1),
+    feature('static', null, 0)
+  ];
+
+  describe('toTimestamp', () => {
+    test('Date・数値・文字列をエポックミリ秒に変換する', () => {
+      expect(toTimestamp(new Date(day(1)))).toBe(day(1));
+      expect(toTimestamp(day(1))).toBe(day(1));
+      expect(toTimestamp('2024-04-01T00:00:00Z')).toBe(day(1));
+    });
+
+    test('解釈できない値はエラーになる', () => {
+      expect(() => toTimestamp('yesterday')).toThrow('日時を解釈できません: yesterday');
+    });
+  });
+
+  describe('getTimeSteps', () => {
+    test('重複を除いて昇順に並べ、期間の開始と終了を含める', () => {
+      const ranged = [...features, { ...feature('event', null, 0), properties: { range: [day(2), null] } }];
+      const accessor = (f: GeoJSON.Feature) => f.properties!.range ?? f.properties!.date;
+
+      expect(getTimeSteps(ranged, accessor)).toEqual([day(1), day(2), day(3)]);
+    });
+  });
+
+  describe('filterFeaturesByTime', () => {
+    const cities = (result: GeoJSON.Feature[]) => result.map(f => `${f.properties!.city}:${f.properties!.value}`);
+
+    test('timeAccessorがない場合は全て返す', () => {
+      expect(filterFeaturesByTime(features, day(1), {})).toBe(features);
+    });
+
+    test('snapshotでは現在時刻以前で最も新しい日時のフィーチャーと日時のないフィーチャーを返す', () => {
+      expect(cities(filterFeaturesByTime(features, day(2), { timeAccessor }))).toEqual(['tokyo:10', 'osaka:5', 'static:0']);
+      expect(cities(filterFeaturesByTime(features, day(5), { timeAccessor }))).toEqual(['tokyo:30', 'osaka:15', 'nagoya:1', 'static:0']);
+      expect(cities(filterFeaturesByTime(features, day(0), { timeAccessor }))).toEqual(['static:0']);
+    });
+
+    test('cumulativeでは現在時刻以前のフィーチャーを全て返す', () => {
+      const result = filterFeaturesByTime(features, day(3), { timeAccessor, timeMode: 'cumulative' });
+      expect(result).toHaveLength(6);
+      expect(filterFeaturesByTime(features, day(2), { timeAccessor, timeMode: 'cumulative' })).toHaveLength(3);
+    });
+
+    test('期間を持つフィーチャーは開始以降・終了より前に表示する', () => {
+      const events = [
+        { ...feature('a', null, 0), properties: { range: [day(1), day(3)] } },
+        { ...feature('b', null, 0), properties: { range: [null, day(2)] } }
+      ];
+      const accessor = (f: GeoJSON.Feature) => f.properties!.range;
+
+      expect(filterFeaturesByTime(events, day(1), { timeAccessor: accessor })).toHaveLength(2);
+      expect(filterFeaturesByTime(events, day(2), { timeAccessor: accessor })).toEqual([events[0]]);
+      expect(filterFeaturesByTime(events, day(3), { timeAccessor: accessor })).toEqual([]);
+    });
+
+    test('interpolateでは次の日時の同じキーのフィーチャーとの間で数値と座標を補間する', () => {
+      const result = filterFeaturesByTime(features, day(1) + DAY / 2, {
+        timeAccessor,
+        timeMode: 'interpolate',
+        timeKey: f => f.properties!.city
+      });
+
+      // 1日から3日の間の1/4の位置
+      expect(cities(result)).toEqual(['tokyo:15', 'osaka:7.5', 'static:0']);
+      expect((result[0].geometry as GeoJSON.Point).coordinates).toEqual([139.5, 35.5]);
+      expect(result[0].properties!.label).toBe('tokyo-10');
+      expect(features[0].properties!.value).toBe(10);
+    });
+
+    test('interpolateで次の日時がない場合は最後の日時のフィーチャーを返す', () => {
+      const result = filterFeaturesByTime(features, day(4), { timeAccessor, timeMode: 'interpolate' });
+      expect(cities(result)).toEqual(['tokyo:30', 'osaka:15', 'nagoya:1', 'static:0']);
+    });
+
+    test('キーを指定しない場合は同じ日時内の順番で対応付ける', () => {
+      const result = filterFeaturesByTime(features, day(2), { timeAccessor, timeMode: 'interpolate' });
+      expect(cities(result)).toEqual(['tokyo:20', 'osaka:10', 'static:0']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { topologyToFeatures, topologyMesh, normalizeLayerData, isTopologyData } from '../topojson-utils';
+import { Topology } from '../../types';
+
+/**
+ * 辺を共有する2つの正方形（A: x=0..1, B: x=1..2）のトポロジー
+ * 弧0: 共有する境界、弧1: Aの外周、弧2: Bの外周
+ */
+const createTopology = (): Topology => ({
+  type: 'Topology',
+  transform: { scale: [0.5, 0.5], translate: [10, 20] },
+  arcs: [
+    [[2, 0], [0, 2]],
+    [[2, 2], [-2, 0], [0, -2], [2, 0]],
+    [[2, 0], [2, 0], [0, 2], [-2, 0]]
+  ],
+  objects: {
+    squares: {
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Polygon', arcs: [[0, 1]], id: 'A', properties: { region: 'west' } },
+        { type: 'Polygon', arcs: [[~0, 2]], id: 'B', properties: { region: 'east' } },
+        { type: null }
+      ]
+    },
+    point: { type: 'Point', coordinates: [4, 4] }
+  }
+});
+
+describe('topojson-utils', () => {
+  describe('topologyToFeatures', () => {
+    test('量子化された弧を復元してフィーチャーに変換する', () => {
+      const collection = topologyToFeatures(createTopology(), 'squares');
+
+      expect(collection.features).toHaveLength(3);
+      expect(collection.features[0]).toEqual({
+        type: 'Feature',
+        id: 'A',
+        properties: { region: 'west' },
+        geometry: { type: 'Polygon', coordinates: [[[11, 20], [11, 21], [10, 21], [10, 20], [11, 20]]] }
+      });
+      expect((collection.features[1].geometry as GeoJSON.Polygon).coordinates[0])
+        .toEqual([[11, 21], [11, 20], [12, 20], [12, 21], [11, 21]]);
+    });
+
+    test('typeがnullのジオメトリはgeometryがnullのフィーチャーになる', () => {
+      const feature = topologyToFeatures(createTopology(), 'squares').features[2];
+
+      expect(feature.geometry).toBeNull();
+      expect(feature.properties).toEqual({});
+      expect(feature).not.toHaveProperty('id');
+    });
+
+    test('ポイントの座標も変換する', () => {
+      const collection = topologyToFeatures(createTopology(), 'point');
+      expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [12, 22] });
+    });
+
+    test('存在しないオブジェクトはエラーになる', () => {
+      expect(() => topologyToFeatures(createTopology(), 'missing'))
+        .toThrow('TopoJSONにオブジェクトが見つかりません: missing');
+    });
+  });
+
+  describe('topologyMesh', () => {
+    test('interiorは共有する境界のみを含む', () => {
+      const mesh = topologyMesh(createTopology(), 'squares', 'interior');
+      expect(mesh).toEqual({ type: 'MultiLineString', coordinates: [[[11, 20], [11, 21]]] });
+    });
+
+    test('exteriorは外周の弧を1本の線につなぐ', () => {
+      const mesh = topologyMesh(createTopology(), 'squares', 'exterior');
+
+      expect(mesh.coordinates).toHaveLength(1);
+      expect(mesh.coordinates[0]).toHaveLength(7);
+      expect(mesh.coordinates[0][0]).toEqual(mesh.coordinates[0][6]);
+    });
+
+    test('allは各境界を重複なく含む', () => {
+      const mesh = topologyMesh(createTopology(), 'squares');
+      const segments = mesh.coordinates.reduce((sum, line) => sum + line.length - 1, 0);
+      expect(segments).toBe(7);
+    });
+
+    test('関数で境界の両側のフィーチャーを判定できる', () => {
+      const filter = jest.fn((a: GeoJSON.Feature, b: GeoJSON.Feature) => a.properties!.region !== b.properties!.region);
+      const mesh = topologyMesh(createTopology(), 'squares', filter);
+
+      expect(mesh.coordinates).toEqual([[[11, 20], [11, 21]]]);
+      expect(filter).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('normalizeLayerData', () => {
+    test('TopoJSONとフィーチャーの配列をFeatureCollectionに正規化する', () => {
+      const topology = createTopology();
+      expect(isTopologyData({ topology, object: 'squares' })).toBe(true);
+      expect(isTopologyData([])).toBe(false);
+      expect(normalizeLayerData({ topology, object: 'squares' }).features).toHaveLength(3);
+
+      const features = topologyToFeatures(topology, 'squares').features;
+      expect(normalizeLayerData(features)).toEqual({ type: 'FeatureCollection', features });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * カルトグラム生成ユーティリティ
+ *
+ * 値に応じてポリゴンの面積を変形するカルトグラムの計算機能を提供
+ * 計算は入力座標系（通常は経緯度）上の平面座標として行います
+ */
+
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { getCentroid } from './gis-utils';
+import { getPlanarArea, mapCoordinates } from './planar-utils';
+
+/**
+ * カルトグラムの種類
+ * - noncontiguous: 各ポリゴンを中心点を基準に拡大縮小（隣接関係は保持しない）
+ * - contiguous: ラバーシート変形により隣接関係を保ったまま変形
+ */
+export type CartogramType = 'noncontiguous' | 'contiguous';
+
+/**
+ * カルトグラム生成オプション
+ */
+export interface CartogramOptions {
+  /** フィーチャーから面積に対応させる値を取得する関数 */
+  value: (feature: Feature, index: number) => number | null | undefined;
+  /** カルトグラムの種類（デフォルト: 'noncontiguous'） */
+  type?: CartogramType;
+  /** contiguousの場合の反復回数（デフォルト: 8） */
+  iterations?: number;
+}
+
+/**
+ * ラバーシート変形で使用するポリゴンごとの計算値
+ */
+interface DistortionSource {
+  /** 中心点 */
+  cx: number;
+  cy: number;
+  /** 現在の面積と同じ面積の円の半径 */
+  radius: number;
+  /** 中心点から外側へ押し出す量（負の場合は引き込む） */
+  mass: number;
+}
+
+/**
+ * 値に応じてポリゴンを変形したカルトグラムを生成します
+ *
+ * noncontiguousでは値の密度が最大のポリゴンを基準に、他のポリゴンを中心点（getCentroid）を基準に縮小します。
+ * contiguousではDougenik, Chrisman, Niemeyer (1985) のラバーシート変形を反復し、
+ * 境界を共有するポリゴンの隣接関係を保ったまま面積を値に近づけます。
+ * 値がnull/undefined/NaNのフィーチャーは変形の対象外として扱われます。
+ *
+ * @param data - ポリゴンを含むFeatureCollection
+ * @param options - カルトグラム生成オプション
+ * @returns 変形後のFeatureCollection（入力データは変更されません）
+ *
+ * @example
+ * ```typescript
+ * const cartogram = createCartogram(prefectures, {
+ *   value: f => f.properties?.population,
+ *   type: 'contiguous'
+ * });
+ * ```
+ */
+export function createCartogram(data: FeatureCollection, options: CartogramOptions): FeatureCollection {
+  const type = options.type || 'noncontiguous';
+  const values = data.features.map((feature, index) => {
+    const value = options.value(feature, index);
+    return typeof value === 'number' && isFinite(value) ? Math.max(0, value) : null;
+  });
+
+  if (type === 'contiguous') {
+    return createContiguousCartogram(data, values, options.iterations ?? 8);
+  }
+  return createNoncontiguousCartogram(data, values);
+}
+
+/**
+ * 非連続カルトグラムを生成します
+ * @param data - 入力データ
+ * @param values - フィーチャーごとの値
+ * @returns 変形後のFeatureCollection
+ */
+function createNoncontiguousCartogram(data: FeatureCollection, values: (number | null)[]): FeatureCollection {
+  const areas = data.features.map(feature => getPlanarArea(feature.geometry));
+
+  // 値の密度が最大のポリゴンは元の大きさのまま
+  const densities = values.map((value, i) => value !== null && areas[i] > 0 ? value / areas[i] : null);
+  const maxDensity = densities.reduce<number>((max, d) => d !== null && d > max ? d : max, 0);
+
+  return {
+    ...data,
+    features: data.features.map((feature, i) => {
+      const density = densities[i];
+      if (density === null || maxDensity <= 0 || !feature.geometry) {
+        return cloneFeature(feature);
+      }
+
+      const scale = Math.sqrt(density / maxDensity);
+      const center = getCentroid(feature);
+      return {
+        ...feature,
+        geometry: mapCoordinates(feature.geometry, ([x, y, ...rest]) => [
+          center.x + (x - center.x) * scale,
+          center.y + (y - center.y) * scale,
+          ...rest
+        ])
+      };
+    })
+  };
+}
+
+/**
+ * ラバーシート変形による連続カルトグラムを生成します
+ * @param data - 入力データ
+ * @param values - フィーチャーごとの値
+ * @param iterations - 反復回数
+ * @returns 変形後のFeatureCollection
+ */
+function createContiguousCartogram(
+  data: FeatureCollection,
+  values: (number | null)[],
+  iterations: number
+): FeatureCollection {
+  let features = data.features.map(cloneFeature);
+
+  const totalValue = values.reduce<number>((sum, v) => sum + (v ?? 0), 0);
+  if (totalValue <= 0) return { ...data, features };
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const areas = features.map(feature => getPlanarArea(feature.geometry));
+    // 値を持つポリゴンの面積だけを配分する
+    const totalArea = areas.reduce((sum, area, i) => sum + (values[i] !== null ? area : 0), 0);
+    if (totalArea <= 0) break;
+
+    const sources: DistortionSource[] = [];
+    let totalSizeError = 0;
+    let sizeErrorCount = 0;
+
+    features.forEach((feature, i) => {
+      const value = values[i];
+      const area = areas[i];
+      if (value === null || area <= 0) return;
+
+      const desired = totalArea * value / totalValue;
+      const radius = Math.sqrt(area / Math.PI);
+      const center = getCentroid(feature);
+      sources.push({
+        cx: center.x,
+        cy: center.y,
+        radius,
+        mass: Math.sqrt(desired / Math.PI) - radius
+      });
+
+      if (desired > 0) {
+        totalSizeError += Math.max(area, desired) / Math.min(area, desired);
+        sizeErrorCount++;
+      }
+    });
+
+    if (sources.length === 0) break;
+
+    // 誤差が大きいほど1回あたりの変形量を抑える
+    const meanSizeError = sizeErrorCount > 0 ? totalSizeError / sizeErrorCount : 1;
+    const forceReduction = 1 / (1 + meanSizeError);
+
+    features = features.map(feature => {
+      if (!feature.geometry) return feature;
+      return {
+        ...feature,
+        geometry: mapCoordinates(feature.geometry, position => displacePosition(position, sources, forceReduction))
+      };
+    });
+  }
+
+  return { ...data, features };
+}
+
+/**
+ * ラバーシート変形で1点を移動します
+ * @param position - 元の座標
+ * @param sources - ポリゴンごとの計算値
+ * @param forceReduction - 変形量の減衰係数
+ * @returns 移動後の座標
+ */
+function displacePosition(position: Position, sources: DistortionSource[], forceReduction: number): Position {
+  const [x, y, ...rest] = position;
+  let dx = 0;
+  let dy = 0;
+
+  for (const source of sources) {
+    const distance = Math.hypot(x - source.cx, y - source.cy);
+    if (distance === 0) continue;
+
+    // 円の外側では距離に反比例、内側では中心に向かって滑らかに減衰する力
+    const ratio = distance / source.radius;
+    const force = distance > source.radius
+      ? source.mass * source.radius / distance
+      : source.mass * ratio * ratio * (4 - 3 * ratio);
+
+    dx += force * (x - source.cx) / distance;
+    dy += force * (y - source.cy) / distance;
+  }
+
+  return [x + dx * forceReduction, y + dy * forceReduction, ...rest];
+}
+
+/**
+ * フィーチャーを複製します（座標配列も複製）
+ * @param feature - 元のフィーチャー
+ * @returns 複製したフィーチャー
+ */
+function cloneFeature(feature: Feature): Feature {
+  return {
+    ...feature,
+    geometry: feature.geometry ? mapCoordinates(feature.geometry, position => [...position]) : feature.geometry
+  };
+}
+
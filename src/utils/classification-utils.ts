@@ -0,0 +1,209 @@
+/**
+ * データ分類ユーティリティ
+ *
+ * 階級区分図（コロプレスマップ）などで使用する階級区分の境界値を計算する機能を提供
+ */
+
+/**
+ * 階級区分の方法
+ * - quantile: 各階級のデータ数が等しくなるように区分
+ * - equalInterval: 最小値から最大値までを等間隔に区分
+ * - jenks: 階級内の分散が最小になるように区分（Fisher-Jenksの自然分類）
+ * - stddev: 平均値を中心に標準偏差の幅で区分
+ * - manual: 指定した境界値で区分
+ */
+export type ClassificationMethod = 'quantile' | 'equalInterval' | 'jenks' | 'stddev' | 'manual';
+
+/**
+ * 階級区分の結果
+ */
+export interface ClassificationResult {
+  /** 階級の境界値（昇順、階級数 - 1 個）。d3.scaleThresholdのdomainとしてそのまま使用できます */
+  breaks: number[];
+  /** データの最小値 */
+  min: number;
+  /** データの最大値 */
+  max: number;
+}
+
+/**
+ * 数値配列から階級区分の境界値を計算します
+ *
+ * 返される境界値は各階級の下限値で、値が境界値と等しい場合は上位の階級に分類されます
+ * （d3.scaleThresholdと同じ規則）。
+ *
+ * @param values - 分類対象の数値配列（NaNや無限大は除外されます）
+ * @param method - 階級区分の方法
+ * @param classes - 階級数（manualの場合は無視されます）
+ * @param manualBreaks - manualの場合に使用する境界値
+ * @returns 階級区分の結果
+ *
+ * @example
+ * ```typescript
+ * const { breaks } = classify([1, 2, 3, 10, 11, 12], 'jenks', 2);
+ * // breaks: [10]
+ * ```
+ */
+export function classify(
+  values: number[],
+  method: ClassificationMethod,
+  classes: number,
+  manualBreaks?: number[]
+): ClassificationResult {
+  const sorted = values
+    .filter(v => typeof v === 'number' && isFinite(v))
+    .sort((a, b) => a - b);
+
+  const min = sorted.length > 0 ? sorted[0] : NaN;
+  const max = sorted.length > 0 ? sorted[sorted.length - 1] : NaN;
+
+  if (method === 'manual') {
+    if (!manualBreaks || manualBreaks.length === 0) {
+      throw new Error('manualの階級区分にはbreaksの指定が必要です');
+    }
+    return { breaks: [...manualBreaks].sort((a, b) => a - b), min, max };
+  }
+
+  if (!Number.isInteger(classes) || classes < 2) {
+    throw new Error(`階級数は2以上の整数で指定してください: ${classes}`);
+  }
+
+  if (sorted.length === 0) {
+    return { breaks: [], min, max };
+  }
+
+  let breaks: number[];
+  switch (method) {
+    case 'quantile':
+      breaks = quantileBreaks(sorted, classes);
+      break;
+    case 'equalInterval':
+      breaks = equalIntervalBreaks(min, max, classes);
+      break;
+    case 'jenks':
+      breaks = jenksBreaks(sorted, classes);
+      break;
+    case 'stddev':
+      breaks = stddevBreaks(sorted, classes);
+      break;
+    default:
+      throw new Error(`未対応の階級区分方法です: ${method}`);
+  }
+
+  return { breaks, min, max };
+}
+
+/**
+ * 分位数による境界値を計算します
+ * @param sorted - 昇順に並んだ数値配列
+ * @param classes - 階級数
+ * @returns 境界値
+ */
+function quantileBreaks(sorted: number[], classes: number): number[] {
+  return Array.from({ length: classes - 1 }, (_, i) => quantile(sorted, (i + 1) / classes));
+}
+
+/**
+ * 等間隔の境界値を計算します
+ * @param min - 最小値
+ * @param max - 最大値
+ * @param classes - 階級数
+ * @returns 境界値
+ */
+function equalIntervalBreaks(min: number, max: number, classes: number): number[] {
+  const step = (max - min) / classes;
+  return Array.from({ length: classes - 1 }, (_, i) => min + step * (i + 1));
+}
+
+/**
+ * Fisher-Jenksの自然分類による境界値を計算します
+ * @param sorted - 昇順に並んだ数値配列
+ * @param classes - 階級数
+ * @returns 境界値
+ */
+function jenksBreaks(sorted: number[], classes: number): number[] {
+  const n = sorted.length;
+  // データ数より多い階級は作れないため、データ数で制限
+  const k = Math.min(classes, n);
+  if (k < 2) return [];
+
+  // lowerLimits[l][j]: 先頭l個をj階級に分けた場合の最終階級の開始位置（1始まり）
+  const lowerLimits: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(0));
+  const variances: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(0));
+
+  for (let j = 1; j <= k; j++) {
+    lowerLimits[1][j] = 1;
+    for (let l = 2; l <= n; l++) {
+      variances[l][j] = Infinity;
+    }
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const start = l - m + 1;
+      const value = sorted[start - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      const previous = start - 1;
+      if (previous !== 0) {
+        for (let j = 2; j <= k; j++) {
+          if (variances[l][j] >= variance + variances[previous][j - 1]) {
+            lowerLimits[l][j] = start;
+            variances[l][j] = variance + variances[previous][j - 1];
+          }
+        }
+      }
+    }
+
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  // 末尾から各階級の開始位置をたどる
+  const breaks: number[] = new Array(k - 1);
+  let end = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lowerLimits[end][j];
+    breaks[j - 2] = sorted[start - 1];
+    end = start - 1;
+  }
+
+  return breaks;
+}
+
+/**
+ * 標準偏差による境界値を計算します
+ * 平均値を中心に1標準偏差の幅で階級を配置します
+ * @param sorted - 昇順に並んだ数値配列
+ * @param classes - 階級数
+ * @returns 境界値
+ */
+function stddevBreaks(sorted: number[], classes: number): number[] {
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / sorted.length;
+  const sd = Math.sqrt(variance);
+
+  // 階級数が偶数なら平均値が境界、奇数なら平均値が中央階級の中心になる
+  const offset = (classes - 2) / 2;
+  return Array.from({ length: classes - 1 }, (_, i) => mean + (i - offset) * sd);
+}
+
+/**
+ * 昇順配列の分位数を線形補間で計算します
+ * @param sorted - 昇順に並んだ数値配列
+ * @param p - 分位（0〜1）
+ * @returns 分位数
+ */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  if (lower + 1 >= sorted.length) return sorted[sorted.length - 1];
+  return sorted[lower] + (sorted[lower + 1] - sorted[lower]) * fraction;
+}
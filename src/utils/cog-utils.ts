@@ -3,7 +3,26 @@
  * GeoTIFFファイルの読み込みと処理に特化したユーティリティ集
  */
 
-import { fromUrl, GeoTIFF, Pool } from 'geotiff';
+import { fromUrl, GeoTIFF, GeoTIFFImage, Pool } from 'geotiff';
+import type { TypedArray } from 'geotiff';
+import {
+  RasterBand,
+  RasterStatistics,
+  compileBandExpression,
+  computeRasterStatistics,
+  evaluateBandExpression,
+  isNodataValue
+} from './raster-utils';
+import { reprojectRaster, SourceLocator } from './resample-utils';
+import {
+  CRSTransform,
+  GeoKeys,
+  getCRSTransform,
+  getEPSGCode,
+  isGeographicCRS,
+  transformBoundsFromGeographic,
+  transformBoundsToGeographic
+} from './crs-utils';
 
 /**
  * COG読み込みオプション
@@ -12,8 +31,14 @@ export interface ReadCOGOptions {
   /** リサンプリング方法 */
   resampleMethod?: 'nearest' | 'bilinear';
   
-  /** 画像インデックス（デフォルト: 0） */
-  imageIndex?: number;
+  /**
+   * 画像インデックス（デフォルト: 'auto'）
+   * 'auto'の場合は出力サイズ（またはresolution）とbboxから必要な解像度を満たす最も小さいオーバービューを選択します
+   */
+  imageIndex?: number | 'auto';
+  
+  /** 目標とする1ピクセルあたりの地理的な大きさ（座標系の単位、imageIndexが'auto'の場合に使用） */
+  resolution?: number;
   
   /** 読み込むバンド（デフォルト: [0, 1, 2]でRGB） */
   samples?: number[];
@@ -37,6 +62,12 @@ export interface ReadCOGOptions {
   
   /** 地理的境界（AOI）[west, south, east, north] */
   bbox?: [number, number, number, number];
+  
+  /**
+   * 画像の座標参照系（EPSGコードまたは座標変換）
+   * 指定しない場合はGeoKeysから判定し、投影座標系の画像は経緯度の範囲に再投影します
+   */
+  sourceCRS?: number | CRSTransform;
 }
 
 /**
@@ -55,12 +86,21 @@ export interface ReadCOGResult {
   originalWidth: number;
   /** 元画像の高さ */
   originalHeight: number;
+  /** 読み込んだ画像のインデックス（0がフル解像度、1以降がオーバービュー） */
+  imageIndex: number;
+  /** 画像の座標参照系のEPSGコード（判定できない場合はnull） */
+  crs: number | null;
   /** リサンプリングされたかどうか */
   wasResampled: boolean;
+  /** 経緯度の範囲に再投影されたかどうか */
+  wasReprojected: boolean;
 }
 
 /**
  * Cloud Optimized GeoTIFF（COG）ファイルを読み込み、ImageLayerで使用可能な形式に変換します
+ *
+ * UTMや平面直角座標系などの投影座標系の画像は、経緯度の範囲（bounds）に再投影してから画像に変換します。
+ *
  * @param url - COGファイルのURL
  * @param options - 読み込みオプション
  * @returns 読み込み結果
@@ -69,7 +109,8 @@ export async function readCOG(url: string, options: ReadCOGOptions = {}): Promis
   // デフォルト値を設定
   const {
     resampleMethod = 'nearest',
-    imageIndex = 0,
+    imageIndex = 'auto',
+    resolution,
     samples = [0, 1, 2],
     pool,
     sizeLimit = {
@@ -79,134 +120,33 @@ export async function readCOG(url: string, options: ReadCOGOptions = {}): Promis
     },
     outputWidth,
     outputHeight,
-    bbox
+    bbox,
+    sourceCRS
   } = options;
 
-  const maxWidth = sizeLimit.maxWidth ?? 512;
-  const maxHeight = sizeLimit.maxHeight ?? 512;
-  const onExceed = sizeLimit.onExceed ?? 'resample';
-
   try {
-    // GeoTIFFファイルを読み込み
-    const tiff = await fromUrl(url);
-    
-    // 利用可能な画像数を確認
-    const imageCount = await tiff.getImageCount();
-    
-    // インデックスが範囲外の場合はエラー
-    if (imageIndex >= imageCount) {
-      throw new Error(`画像インデックス ${imageIndex} は範囲外です。利用可能なインデックス: 0-${imageCount - 1}`);
-    }
-    
-    const image = await tiff.getImage(imageIndex);
-
-    // 元画像のサイズを取得
-    const originalWidth = image.getWidth();
-    const originalHeight = image.getHeight();
-
-    // 地理的境界を取得（オーバービュー画像の場合はメイン画像から取得）
-    let imgBbox: number[];
-    let bounds: [number, number, number, number];
-    
-    try {
-      imgBbox = image.getBoundingBox();
-      bounds = [imgBbox[0], imgBbox[1], imgBbox[2], imgBbox[3]];
-    } catch (error) {
-      // オーバービュー画像に地理情報がない場合、メイン画像（インデックス0）から取得
-      const mainImage = await tiff.getImage(0);
-      imgBbox = mainImage.getBoundingBox();
-      bounds = [imgBbox[0], imgBbox[1], imgBbox[2], imgBbox[3]];
-    }
-
-    // 出力サイズを決定
-    let targetWidth = outputWidth ?? originalWidth;
-    let targetHeight = outputHeight ?? originalHeight;
-    let wasResampled = false;
-
-    // サイズ制限チェック
-    if (targetWidth > maxWidth || targetHeight > maxHeight) {
-      if (onExceed === 'error') {
-        throw new Error(
-          `画像サイズ（${originalWidth}x${originalHeight}）が制限（${maxWidth}x${maxHeight}）を超えています`
-        );
-      }
-
-      // アスペクト比を維持してリサンプリング
-      const aspectRatio = originalWidth / originalHeight;
-      if (targetWidth / targetHeight > aspectRatio) {
-        targetHeight = maxHeight;
-        targetWidth = Math.floor(targetHeight * aspectRatio);
-      } else {
-        targetWidth = maxWidth;
-        targetHeight = Math.floor(targetWidth / aspectRatio);
-      }
-      wasResampled = true;
-    }
-
-    // 明示的な出力サイズが指定されている場合
-    if (outputWidth || outputHeight) {
-      wasResampled = true;
-    }
+    // 画像を選択し、読み込む範囲と出力サイズを決定
+    const { image, region, transform, ...source } = await openCOGImage(url, {
+      imageIndex,
+      resolution,
+      resampleMethod,
+      sizeLimit,
+      outputWidth,
+      outputHeight,
+      bbox,
+      sourceCRS
+    });
+    const { wasResampled } = region;
+    let bounds = region.bounds;
 
     // 画像データを読み込み
     const readOptions: any = {
+      ...region.readOptions,
       samples,
       pool,
       interleave: true
     };
 
-    // AOI（bbox）が指定されている場合
-    if (bbox) {
-      // 地理的境界をピクセル座標に変換
-      const [west, south, east, north] = bbox;
-      const [imgWest, imgSouth, imgEast, imgNorth] = imgBbox;
-      
-      // 地理座標をピクセル座標に変換
-      const pixelLeft = Math.floor((west - imgWest) / (imgEast - imgWest) * originalWidth);
-      const pixelRight = Math.ceil((east - imgWest) / (imgEast - imgWest) * originalWidth);
-      const pixelTop = Math.floor((imgNorth - north) / (imgNorth - imgSouth) * originalHeight);
-      const pixelBottom = Math.ceil((imgNorth - south) / (imgNorth - imgSouth) * originalHeight);
-      
-      // ピクセル座標を画像範囲内にクリップ
-      readOptions.window = [
-        Math.max(0, pixelLeft),
-        Math.max(0, pixelTop),
-        Math.min(originalWidth, pixelRight),
-        Math.min(originalHeight, pixelBottom)
-      ];
-      
-      // windowのサイズを更新
-      targetWidth = readOptions.window[2] - readOptions.window[0];
-      targetHeight = readOptions.window[3] - readOptions.window[1];
-      
-      // 実際の地理的境界を更新
-      const actualWest = imgWest + (readOptions.window[0] / originalWidth) * (imgEast - imgWest);
-      const actualEast = imgWest + (readOptions.window[2] / originalWidth) * (imgEast - imgWest);
-      const actualNorth = imgNorth - (readOptions.window[1] / originalHeight) * (imgNorth - imgSouth);
-      const actualSouth = imgNorth - (readOptions.window[3] / originalHeight) * (imgNorth - imgSouth);
-      bounds = [actualWest, actualSouth, actualEast, actualNorth];
-    }
-
-    // リサンプリングが必要な場合
-    if (wasResampled || (targetWidth > maxWidth || targetHeight > maxHeight)) {
-      // アスペクト比を維持してサイズを調整
-      const aspectRatio = targetWidth / targetHeight;
-      if (targetWidth > maxWidth || targetHeight > maxHeight) {
-        if (targetWidth / targetHeight > aspectRatio) {
-          targetHeight = maxHeight;
-          targetWidth = Math.floor(targetHeight * aspectRatio);
-        } else {
-          targetWidth = maxWidth;
-          targetHeight = Math.floor(targetWidth / aspectRatio);
-        }
-        wasResampled = true;
-      }
-      
-      readOptions.width = targetWidth;
-      readOptions.height = targetHeight;
-      readOptions.resampleMethod = resampleMethod;
-    }
-
     let rasters;
     let width, height;
     
@@ -277,6 +217,15 @@ export async function readCOG(url: string, options: ReadCOGOptions = {}): Promis
       data[canvasIdx + 3] = 255; // A
     }
 
+    // 投影座標系の画像は経緯度の範囲に再投影（範囲外の画素は透明）
+    if (transform) {
+      const warp = createGeographicWarp(bounds, width, height, transform);
+      data.set(await reprojectRaster({ data, width, height }, width, height, warp.locate, {
+        interpolation: resampleMethod
+      }));
+      bounds = warp.bounds;
+    }
+
     ctx.putImageData(imageData, 0, 0);
     const dataUri = canvas.toDataURL('image/png');
 
@@ -285,11 +234,669 @@ export async function readCOG(url: string, options: ReadCOGOptions = {}): Promis
       bounds,
       width,
       height,
-      originalWidth,
-      originalHeight,
-      wasResampled
+      ...source,
+      wasResampled,
+      wasReprojected: transform !== null
     };
   } catch (error) {
     throw new Error(`COGの読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * COGの単一バンド読み込みオプション
+ */
+export interface ReadCOGBandOptions {
+  /** 読み込むバンド（デフォルト: 0） */
+  band?: number;
+  
+  /**
+   * バンド演算式（例: '(b4 - b3) / (b4 + b3)'、バンドはb1始まり）
+   * 指定した場合はbandの代わりに式の計算結果を返します（NoDataはNaN）
+   */
+  expression?: string;
+  
+  /** リサンプリング方法 */
+  resampleMethod?: 'nearest' | 'bilinear';
+  
+  /** 画像インデックス（readCOGと同じ、デフォルト: 'auto'） */
+  imageIndex?: number | 'auto';
+  
+  /** 目標とする1ピクセルあたりの地理的な大きさ（座標系の単位、imageIndexが'auto'の場合に使用） */
+  resolution?: number;
+  
+  /** デコード用のワーカープール */
+  pool?: Pool;
+  
+  /** サイズ制限設定（readCOGと同じ） */
+  sizeLimit?: ReadCOGOptions['sizeLimit'];
+  
+  /** 出力解像度（リサンプリング時に使用） */
+  outputWidth?: number;
+  outputHeight?: number;
+  
+  /** 地理的境界（AOI）[west, south, east, north] */
+  bbox?: [number, number, number, number];
+  
+  /** NoData値（指定しない場合はGeoTIFFのGDAL_NODATAタグの値） */
+  nodata?: number | null;
+  
+  /** 画像の座標参照系（readCOGと同じ） */
+  sourceCRS?: number | CRSTransform;
+}
+
+/**
+ * COGの単一バンド読み込み結果
+ * RasterLayerやraster-utilsの関数にそのまま渡せます
+ */
+export interface ReadCOGBandResult extends RasterBand {
+  /** バンドの値（GeoTIFFのデータ型のままの型付き配列） */
+  data: TypedArray;
+  /** 元画像の幅 */
+  originalWidth: number;
+  /** 元画像の高さ */
+  originalHeight: number;
+  /** 読み込んだ画像のインデックス（0がフル解像度、1以降がオーバービュー） */
+  imageIndex: number;
+  /** 画像の座標参照系のEPSGコード（判定できない場合はnull） */
+  crs: number | null;
+  /** リサンプリングされたかどうか */
+  wasResampled: boolean;
+  /** 経緯度の範囲に再投影されたかどうか（再投影した値はFloat32Arrayで、NoDataと範囲外はNaN） */
+  wasReprojected: boolean;
+  /** 値の統計量 */
+  statistics: RasterStatistics;
+}
+
+/**
+ * Cloud Optimized GeoTIFF（COG）ファイルの単一バンドを値のまま読み込みます
+ *
+ * readCOGがRGB画像に変換するのに対し、標高（DEM）やNDVIなどの値を型付き配列として返します。
+ * 色付けや陰影起伏はRasterLayerまたはraster-utilsの関数で行います。
+ *
+ * @param url - COGファイルのURL
+ * @param options - 読み込みオプション
+ * @returns 読み込み結果
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif', { bbox: [138.5, 35, 139, 35.5] });
+ * map.addLayer('dem', new RasterLayer({ band: dem, colors: 'Viridis', stretch: 'percentile' }));
+ *
+ * // バンド演算（NDVI）
+ * const ndvi = await readCOGBand('landsat.tif', { expression: '(b5 - b4) / (b5 + b4)' });
+ * console.log(ndvi.statistics.mean);
+ * ```
+ */
+export async function readCOGBand(url: string, options: ReadCOGBandOptions = {}): Promise<ReadCOGBandResult> {
+  const { band = 0, expression, pool, nodata: nodataOption, ...selection } = options;
+
+  try {
+    const compiled = expression !== undefined ? compileBandExpression(expression) : null;
+    const { image, region, transform, ...source } = await openCOGImage(url, selection);
+
+    const bandCount = getBandCount(image);
+    if (compiled) {
+      const outOfRange = compiled.bands.find(number => bandCount !== null && number > bandCount);
+      if (outOfRange !== undefined) {
+        throw new Error(`バンド演算式のb${outOfRange}は範囲外です。利用可能なバンド: b1-b${bandCount}`);
+      }
+    } else if (band < 0 || (bandCount !== null && band >= bandCount)) {
+      throw new Error(`バンド ${band} は範囲外です。利用可能なバンド: 0-${(bandCount ?? band + 1) - 1}`);
+    }
+
+    const rasters = await image.readRasters({
+      ...region.readOptions,
+      samples: compiled ? compiled.bands.map(number => number - 1) : [band],
+      pool,
+      interleave: false
+    }) as TypedArray[] & { width: number; height: number };
+
+    const { width, height } = rasters;
+    let bounds = region.bounds;
+    let data = rasters[0];
+    let nodata = nodataOption !== undefined ? nodataOption : getNoData(image);
+
+    // バンド演算式の計算結果はNoDataをNaNで表す
+    if (compiled) {
+      const sources: { [band: number]: RasterBand } = {};
+      compiled.bands.forEach((number, i) => {
+        sources[number] = { data: rasters[i], width, height, bounds, nodata };
+      });
+      data = evaluateBandExpression(compiled, sources).data as Float32Array;
+      nodata = null;
+    }
+
+    // 投影座標系の画像は経緯度の範囲に再投影
+    if (transform) {
+      const warp = createGeographicWarp(bounds, width, height, transform);
+      data = warpBandValues(data, width, height, warp.locate, nodata, selection.resampleMethod);
+      bounds = warp.bounds;
+      nodata = null;
+    }
+
+    return {
+      data,
+      width,
+      height,
+      bounds,
+      nodata,
+      ...source,
+      wasResampled: region.wasResampled,
+      wasReprojected: transform !== null,
+      statistics: computeRasterStatistics({ data, width, height, bounds, nodata })
+    };
+  } catch (error) {
+    throw new Error(`COGの読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * COGの複数バンド読み込みオプション
+ */
+export interface ReadCOGBandsOptions extends Omit<ReadCOGBandOptions, 'band' | 'expression'> {
+  /** 読み込むバンド（0始まり、デフォルト: すべてのバンド） */
+  samples?: number[];
+}
+
+/**
+ * COGから読み込んだバンド
+ * RasterLayerやContourLayerにそのまま渡せます
+ */
+export interface COGBandData extends RasterBand {
+  /** バンドの値（GeoTIFFのデータ型のままの型付き配列） */
+  data: TypedArray;
+  /** バンドのインデックス（0始まり） */
+  sample: number;
+  /** 値の統計量 */
+  statistics: RasterStatistics;
+}
+
+/**
+ * COGの複数バンド読み込み結果
+ */
+export interface ReadCOGBandsResult {
+  /** 読み込んだバンド（samplesの順） */
+  bands: COGBandData[];
+  /** 出力の幅 */
+  width: number;
+  /** 出力の高さ */
+  height: number;
+  /** 地理的境界 [west, south, east, north] */
+  bounds: [number, number, number, number];
+  /** NoData値 */
+  nodata: number | null;
+  /** 元画像の幅 */
+  originalWidth: number;
+  /** 元画像の高さ */
+  originalHeight: number;
+  /** 読み込んだ画像のインデックス（0がフル解像度、1以降がオーバービュー） */
+  imageIndex: number;
+  /** 画像の座標参照系のEPSGコード（判定できない場合はnull） */
+  crs: number | null;
+  /** リサンプリングされたかどうか */
+  wasResampled: boolean;
+  /** 経緯度の範囲に再投影されたかどうか */
+  wasReprojected: boolean;
+}
+
+/**
+ * Cloud Optimized GeoTIFF（COG）ファイルの複数バンドを値のまま読み込み、バンドごとの統計量を計算します
+ * @param url - COGファイルのURL
+ * @param options - 読み込みオプション
+ * @returns 読み込み結果
+ *
+ * @example
+ * ```typescript
+ * const { bands } = await readCOGBands('sentinel2.tif', { samples: [3, 7], bbox: [139.6, 35.6, 139.8, 35.8] });
+ * bands.forEach(band => console.log(band.sample, band.statistics.min, band.statistics.max));
+ * ```
+ */
+export async function readCOGBands(url: string, options: ReadCOGBandsOptions = {}): Promise<ReadCOGBandsResult> {
+  const { samples, pool, nodata: nodataOption, ...selection } = options;
+
+  try {
+    const { image, region, transform, ...source } = await openCOGImage(url, selection);
+
+    const bandCount = getBandCount(image);
+    const targetSamples = samples ?? Array.from({ length: bandCount ?? 1 }, (_, i) => i);
+    const outOfRange = targetSamples.find(sample => sample < 0 || (bandCount !== null && sample >= bandCount));
+    if (outOfRange !== undefined) {
+      throw new Error(`バンド ${outOfRange} は範囲外です。利用可能なバンド: 0-${(bandCount ?? outOfRange + 1) - 1}`);
+    }
+
+    const rasters = await image.readRasters({
+      ...region.readOptions,
+      samples: targetSamples,
+      pool,
+      interleave: false
+    }) as TypedArray[] & { width: number; height: number };
+
+    const { width, height } = rasters;
+    const sourceNodata = nodataOption !== undefined ? nodataOption : getNoData(image);
+
+    // 投影座標系の画像は経緯度の範囲に再投影
+    const warp = transform ? createGeographicWarp(region.bounds, width, height, transform) : null;
+    const bounds = warp ? warp.bounds : region.bounds;
+    const nodata = warp ? null : sourceNodata;
+
+    return {
+      bands: targetSamples.map((sample, i) => {
+        const data = warp
+          ? warpBandValues(rasters[i], width, height, warp.locate, sourceNodata, selection.resampleMethod)
+          : rasters[i];
+        const band = { data, width, height, bounds, nodata };
+        return { ...band, sample, statistics: computeRasterStatistics(band) };
+      }),
+      width,
+      height,
+      bounds,
+      nodata,
+      ...source,
+      wasResampled: region.wasResampled,
+      wasReprojected: warp !== null
+    };
+  } catch (error) {
+    throw new Error(`COGの読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 画像の選択と読み込み範囲の決定に使うオプション
+ */
+type COGImageSelection = Pick<
+  ReadCOGOptions,
+  'imageIndex' | 'resolution' | 'resampleMethod' | 'sizeLimit' | 'outputWidth' | 'outputHeight' | 'bbox' | 'sourceCRS'
+>;
+
+/**
+ * COGを開き、読み込む画像（フル解像度またはオーバービュー）と範囲を決定します
+ *
+ * 投影座標系の画像では、経緯度で指定されたbboxを画像の座標参照系に変換してから範囲を決定します。
+ *
+ * @param url - COGファイルのURL
+ * @param options - 画像の選択と読み込み範囲のオプション
+ * @returns 選択した画像と読み込む範囲（boundsは画像の座標参照系）、経緯度への座標変換
+ */
+async function openCOGImage(url: string, options: COGImageSelection): Promise<{
+  image: GeoTIFFImage;
+  imageIndex: number;
+  originalWidth: number;
+  originalHeight: number;
+  region: ReturnType<typeof resolveReadRegion>;
+  crs: number | null;
+  transform: CRSTransform | null;
+}> {
+  const {
+    imageIndex: requestedIndex = 'auto',
+    resampleMethod = 'nearest',
+    sizeLimit = {
+      maxWidth: 512,
+      maxHeight: 512,
+      onExceed: 'resample'
+    }
+  } = options;
+
+  // GeoTIFFファイルを読み込み
+  const tiff = await fromUrl(url);
+
+  // 利用可能な画像数を確認
+  const imageCount = await tiff.getImageCount();
+
+  // 座標参照系を判定し、AOIを画像の座標参照系に変換
+  const { crs, transform } = resolveSourceCRS(await tiff.getImage(0), options.sourceCRS);
+  const bbox = options.bbox && transform ? transformBoundsFromGeographic(options.bbox, transform) : options.bbox;
+
+  let imageIndex: number;
+  if (requestedIndex === 'auto') {
+    imageIndex = await selectImageIndex(tiff, imageCount, { ...options, sizeLimit, bbox });
+  } else if (requestedIndex >= imageCount) {
+    // インデックスが範囲外の場合はエラー
+    throw new Error(`画像インデックス ${requestedIndex} は範囲外です。利用可能なインデックス: 0-${imageCount - 1}`);
+  } else {
+    imageIndex = requestedIndex;
+  }
+
+  const image = await tiff.getImage(imageIndex);
+
+  // 元画像のサイズを取得
+  const originalWidth = image.getWidth();
+  const originalHeight = image.getHeight();
+
+  // 地理的境界を取得（オーバービュー画像の場合はメイン画像から取得）
+  const imgBbox = await getImageBoundingBox(tiff, image);
+
+  // 読み込む範囲と出力サイズを決定
+  const region = resolveReadRegion(imgBbox, originalWidth, originalHeight, {
+    resampleMethod,
+    sizeLimit,
+    outputWidth: options.outputWidth,
+    outputHeight: options.outputHeight,
+    bbox
+  });
+
+  return { image, imageIndex, originalWidth, originalHeight, region, crs, transform };
+}
+
+/**
+ * 画像の座標参照系を判定し、経緯度への座標変換を取得します
+ * @param image - メイン画像
+ * @param sourceCRS - 指定された座標参照系（EPSGコードまたは座標変換）
+ * @returns EPSGコードと座標変換（経緯度の画像の場合、座標変換はnull）
+ */
+function resolveSourceCRS(
+  image: GeoTIFFImage,
+  sourceCRS?: number | CRSTransform
+): { crs: number | null; transform: CRSTransform | null } {
+  if (sourceCRS !== undefined && typeof sourceCRS !== 'number') {
+    return { crs: null, transform: sourceCRS };
+  }
+
+  const geoKeys = typeof image.getGeoKeys === 'function' ? image.getGeoKeys() as GeoKeys | null : null;
+  const crs = sourceCRS ?? getEPSGCode(geoKeys);
+
+  if (crs === null) {
+    // 投影座標系でEPSGコードがない（ユーザー定義の）画像は位置を決められない
+    if (geoKeys?.GTModelTypeGeoKey === 1) {
+      throw new Error('GeoTIFFの座標参照系を判定できません。sourceCRSでEPSGコードまたは座標変換を指定してください');
+    }
+    return { crs: null, transform: null };
+  }
+
+  if (isGeographicCRS(crs)) {
+    return { crs, transform: null };
+  }
+
+  const transform = getCRSTransform(crs);
+  if (!transform) {
+    throw new Error(`座標参照系 EPSG:${crs} には対応していません。registerCRSTransformで座標変換を登録してください`);
+  }
+  return { crs, transform };
+}
+
+/**
+ * 画像の座標参照系で読み込んだ範囲を、経緯度の格子に再投影するための範囲と対応関係を求めます
+ * @param bounds - 読み込んだ範囲（画像の座標参照系）[minX, minY, maxX, maxY]
+ * @param width - 読み込んだ画像の幅
+ * @param height - 読み込んだ画像の高さ
+ * @param transform - 座標変換
+ * @returns 経緯度の範囲と、同じ大きさの出力画素からソース画素の位置を求める関数
+ */
+function createGeographicWarp(
+  bounds: [number, number, number, number],
+  width: number,
+  height: number,
+  transform: CRSTransform
+): { bounds: [number, number, number, number]; locate: SourceLocator } {
+  const [minX, minY, maxX, maxY] = bounds;
+  const geoBounds = transformBoundsToGeographic(bounds, transform);
+  const [west, south, east, north] = geoBounds;
+
+  return {
+    bounds: geoBounds,
+    locate: (col, row) => {
+      // 出力画素の中心の経緯度をソース画像の画素位置（画素の中心が整数）に変換
+      const longitude = west + (col + 0.5) / width * (east - west);
+      const latitude = north - (row + 0.5) / height * (north - south);
+      const [x, y] = transform.forward([longitude, latitude]);
+      if (!isFinite(x) || !isFinite(y)) return null;
+      return [
+        (x - minX) / (maxX - minX) * width - 0.5,
+        (maxY - y) / (maxY - minY) * height - 0.5
+      ];
+    }
+  };
+}
+
+/**
+ * バンドの値を再投影します
+ * @param data - ソースの値
+ * @param width - 画像の幅（ソースと出力で共通）
+ * @param height - 画像の高さ（ソースと出力で共通）
+ * @param locate - 出力画素からソース画素の位置を求める関数
+ * @param nodata - ソースのNoData値
+ * @param resampleMethod - 補間方法（bilinearではNoDataの画素を除いて補間）
+ * @returns 再投影した値（NoDataと範囲外はNaN）
+ */
+function warpBandValues(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  locate: SourceLocator,
+  nodata: number | null,
+  resampleMethod: ReadCOGOptions['resampleMethod'] = 'nearest'
+): Float32Array {
+  const output = new Float32Array(width * height).fill(NaN);
+  const clampX = (x: number) => Math.min(width - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(height - 1, Math.max(0, y));
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const position = locate(col, row);
+      if (!position) continue;
+      const [x, y] = position;
+      if (x < -0.5 || y < -0.5 || x > width - 0.5 || y > height - 0.5) continue;
+
+      if (resampleMethod === 'nearest') {
+        const value = data[clampY(Math.round(y)) * width + clampX(Math.round(x))];
+        if (!isNodataValue(value, nodata)) output[row * width + col] = value;
+        continue;
+      }
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      let sum = 0;
+      let weightSum = 0;
+      for (let j = 0; j <= 1; j++) {
+        for (let i = 0; i <= 1; i++) {
+          const value = data[clampY(y0 + j) * width + clampX(x0 + i)];
+          if (isNodataValue(value, nodata)) continue;
+          const weight = (i === 0 ? 1 - (x - x0) : x - x0) * (j === 0 ? 1 - (y - y0) : y - y0);
+          sum += value * weight;
+          weightSum += weight;
+        }
+      }
+      if (weightSum > 0) output[row * width + col] = sum / weightSum;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 出力サイズ（またはresolution）とAOIから読み込む画像を選択します
+ *
+ * 必要な解像度を満たす最も小さい画像（オーバービュー）を選択します。
+ * サイズ制限を超えた場合にエラーとする設定では、制限内に収まる最も大きい画像を選択します。
+ *
+ * @param tiff - GeoTIFF
+ * @param imageCount - 画像数
+ * @param options - 画像の選択オプション
+ * @returns 画像インデックス
+ */
+async function selectImageIndex(tiff: GeoTIFF, imageCount: number, options: COGImageSelection): Promise<number> {
+  const { sizeLimit = {}, outputWidth, outputHeight, resolution, bbox } = options;
+  const maxWidth = sizeLimit.maxWidth ?? 512;
+  const maxHeight = sizeLimit.maxHeight ?? 512;
+
+  const mainImage = await tiff.getImage(0);
+  const fullWidth = mainImage.getWidth();
+  const fullHeight = mainImage.getHeight();
+  const [west, south, east, north] = await getImageBoundingBox(tiff, mainImage);
+
+  // AOIが画像に占める割合
+  let fractionX = 1;
+  let fractionY = 1;
+  if (bbox) {
+    fractionX = Math.max(0, Math.min(east, bbox[2]) - Math.max(west, bbox[0])) / (east - west);
+    fractionY = Math.max(0, Math.min(north, bbox[3]) - Math.max(south, bbox[1])) / (north - south);
+  }
+
+  // マスク画像を除いた候補
+  const candidates: { index: number; width: number; height: number }[] = [];
+  for (let index = 0; index < imageCount; index++) {
+    const image = index === 0 ? mainImage : await tiff.getImage(index);
+    if (isMaskImage(image)) continue;
+    candidates.push({ index, width: image.getWidth(), height: image.getHeight() });
+  }
+
+  if (!outputWidth && !outputHeight && resolution === undefined && sizeLimit.onExceed === 'error') {
+    const fitting = candidates.filter(candidate =>
+      candidate.width * fractionX <= maxWidth && candidate.height * fractionY <= maxHeight
+    );
+    if (fitting.length === 0) {
+      // 収まる画像がない場合は最も小さい画像（読み込み時にエラーとなる）
+      return candidates.reduce((selected, candidate) => candidate.width < selected.width ? candidate : selected).index;
+    }
+    return fitting.reduce((selected, candidate) => candidate.width > selected.width ? candidate : selected).index;
+  }
+
+  // フル解像度に対して必要な縮尺
+  const regionWidth = fullWidth * fractionX;
+  const regionHeight = fullHeight * fractionY;
+  let scale: number;
+  if (outputWidth || outputHeight) {
+    scale = Math.max(outputWidth ? outputWidth / regionWidth : 0, outputHeight ? outputHeight / regionHeight : 0);
+  } else if (resolution !== undefined) {
+    scale = (east - west) / fullWidth / resolution;
+  } else {
+    scale = Math.min(maxWidth / regionWidth, maxHeight / regionHeight);
+  }
+  const requiredWidth = fullWidth * Math.min(1, scale);
+
+  // 必要な解像度を満たす最も小さい画像
+  return candidates.reduce((selected, candidate) =>
+    candidate.width >= requiredWidth - 1e-6 && candidate.width < selected.width ? candidate : selected
+  , candidates[0]).index;
+}
+
+/**
+ * 画像が透過マスク（NewSubfileTypeのマスクビット）かどうかを判定します
+ * @param image - 対象の画像
+ * @returns マスク画像の場合はtrue
+ */
+function isMaskImage(image: GeoTIFFImage): boolean {
+  const subfileType = (image as any).fileDirectory?.NewSubfileType;
+  return typeof subfileType === 'number' && (subfileType & 4) !== 0;
+}
+
+/**
+ * 画像のバンド数を取得します
+ * @param image - 対象の画像
+ * @returns バンド数（取得できない場合はnull）
+ */
+function getBandCount(image: GeoTIFFImage): number | null {
+  return typeof image.getSamplesPerPixel === 'function' ? image.getSamplesPerPixel() : null;
+}
+
+/**
+ * GDAL_NODATAタグのNoData値を取得します
+ * @param image - 対象の画像
+ * @returns NoData値（ない場合はnull）
+ */
+function getNoData(image: GeoTIFFImage): number | null {
+  return typeof image.getGDALNoData === 'function' ? image.getGDALNoData() : null;
+}
+
+/**
+ * 画像の地理的境界を取得します（オーバービュー画像に地理情報がない場合はメイン画像から取得）
+ * @param tiff - GeoTIFF
+ * @param image - 対象の画像
+ * @returns 地理的境界 [west, south, east, north]
+ */
+async function getImageBoundingBox(tiff: GeoTIFF, image: GeoTIFFImage): Promise<number[]> {
+  try {
+    return image.getBoundingBox();
+  } catch (error) {
+    const mainImage = await tiff.getImage(0);
+    return mainImage.getBoundingBox();
+  }
+}
+
+/**
+ * 読み込む範囲と出力サイズを決定します
+ * @param imgBbox - 画像の地理的境界
+ * @param originalWidth - 元画像の幅
+ * @param originalHeight - 元画像の高さ
+ * @param options - 読み込みオプション
+ * @returns readRastersに渡す範囲・サイズと、実際の地理的境界
+ */
+function resolveReadRegion(
+  imgBbox: number[],
+  originalWidth: number,
+  originalHeight: number,
+  options: Pick<ReadCOGOptions, 'resampleMethod' | 'sizeLimit' | 'outputWidth' | 'outputHeight' | 'bbox'>
+): { readOptions: Record<string, any>; bounds: [number, number, number, number]; wasResampled: boolean } {
+  const { resampleMethod, sizeLimit = {}, outputWidth, outputHeight, bbox } = options;
+  const maxWidth = sizeLimit.maxWidth ?? 512;
+  const maxHeight = sizeLimit.maxHeight ?? 512;
+  const onExceed = sizeLimit.onExceed ?? 'resample';
+
+  let bounds: [number, number, number, number] = [imgBbox[0], imgBbox[1], imgBbox[2], imgBbox[3]];
+  const readOptions: Record<string, any> = {};
+
+  // 読み込む範囲のピクセルサイズ
+  let sourceWidth = originalWidth;
+  let sourceHeight = originalHeight;
+
+  // AOI（bbox）が指定されている場合
+  if (bbox) {
+    // 地理的境界をピクセル座標に変換
+    const [west, south, east, north] = bbox;
+    const [imgWest, imgSouth, imgEast, imgNorth] = imgBbox;
+    
+    // 地理座標をピクセル座標に変換
+    const pixelLeft = Math.floor((west - imgWest) / (imgEast - imgWest) * originalWidth);
+    const pixelRight = Math.ceil((east - imgWest) / (imgEast - imgWest) * originalWidth);
+    const pixelTop = Math.floor((imgNorth - north) / (imgNorth - imgSouth) * originalHeight);
+    const pixelBottom = Math.ceil((imgNorth - south) / (imgNorth - imgSouth) * originalHeight);
+    
+    // ピクセル座標を画像範囲内にクリップ
+    readOptions.window = [
+      Math.max(0, pixelLeft),
+      Math.max(0, pixelTop),
+      Math.min(originalWidth, pixelRight),
+      Math.min(originalHeight, pixelBottom)
+    ];
+    
+    // windowのサイズを読み込む範囲とする
+    sourceWidth = readOptions.window[2] - readOptions.window[0];
+    sourceHeight = readOptions.window[3] - readOptions.window[1];
+    
+    // 実際の地理的境界を更新
+    const actualWest = imgWest + (readOptions.window[0] / originalWidth) * (imgEast - imgWest);
+    const actualEast = imgWest + (readOptions.window[2] / originalWidth) * (imgEast - imgWest);
+    const actualNorth = imgNorth - (readOptions.window[1] / originalHeight) * (imgNorth - imgSouth);
+    const actualSouth = imgNorth - (readOptions.window[3] / originalHeight) * (imgNorth - imgSouth);
+    bounds = [actualWest, actualSouth, actualEast, actualNorth];
+  }
+
+  // 出力サイズを決定（明示的な出力サイズが指定されている場合はリサンプリング）
+  let targetWidth = outputWidth ?? sourceWidth;
+  let targetHeight = outputHeight ?? sourceHeight;
+  let wasResampled = Boolean(outputWidth || outputHeight);
+
+  // サイズ制限チェック（bboxの場合は読み込む範囲のサイズで判定）
+  if (targetWidth > maxWidth || targetHeight > maxHeight) {
+    if (onExceed === 'error') {
+      throw new Error(
+        `画像サイズ（${targetWidth}x${targetHeight}）が制限（${maxWidth}x${maxHeight}）を超えています`
+      );
+    }
+
+    // アスペクト比を維持して制限内に縮小
+    const scale = Math.min(maxWidth / targetWidth, maxHeight / targetHeight);
+    targetWidth = Math.floor(targetWidth * scale);
+    targetHeight = Math.floor(targetHeight * scale);
+    wasResampled = true;
+  }
+
+  // リサンプリングが必要な場合
+  if (wasResampled) {
+    readOptions.width = targetWidth;
+    readOptions.height = targetHeight;
+    readOptions.resampleMethod = resampleMethod;
+  }
+
+  return { readOptions, bounds, wasResampled };
+}
@@ -397,6 +397,54 @@ export function generateOptimizedPalette(
   }
 }
 
+/**
+ * パレットの色を線形補間する連続カラーランプを作成
+ * ラスタの値を色に変換する場合など、クラス分けせずに色を割り当てる場合に使用します
+ * @param palette - パレット名（AllPalettesのキー）、パレット、または16進数カラーの配列
+ * @returns 0〜1の値をRGB [r, g, b] に変換する関数（範囲外の値は端の色）
+ */
+export function createColorRamp(
+  palette: string | string[] | ColorPalette
+): (t: number) => [number, number, number] {
+  let colors: string[];
+  if (typeof palette === 'string') {
+    const found = AllPalettes[palette];
+    if (!found) {
+      throw new Error(`カラーパレットが見つかりません: ${palette}`);
+    }
+    colors = found.colors;
+  } else {
+    colors = Array.isArray(palette) ? palette : palette.colors;
+  }
+
+  const stops = colors.map(color => {
+    const rgb = hexToRgb(color);
+    if (!rgb) {
+      throw new Error(`カラーランプの色は16進数で指定してください: ${color}`);
+    }
+    return rgb;
+  });
+  if (stops.length === 0) {
+    throw new Error('カラーランプには1色以上を指定してください');
+  }
+
+  return (t: number) => {
+    const position = Math.min(1, Math.max(0, isNaN(t) ? 0 : t)) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    if (index < 0) {
+      return [stops[0].r, stops[0].g, stops[0].b];
+    }
+    const f = position - index;
+    const from = stops[index];
+    const to = stops[index + 1];
+    return [
+      Math.round(from.r + (to.r - from.r) * f),
+      Math.round(from.g + (to.g - from.g) * f),
+      Math.round(from.b + (to.b - from.b) * f)
+    ];
+  };
+}
+
 /**
  * ユーティリティ関数
  */
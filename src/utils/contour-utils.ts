@@ -0,0 +1,382 @@
+/**
+ * 等値線・等値帯生成ユーティリティ
+ *
+ * 標高などのグリッドから等値線（MultiLineString）と塗りつぶし用の等値帯（MultiPolygon）を生成し、
+ * 等値線に沿って数値ラベルを配置する位置を計算する機能を提供
+ */
+
+import * as d3 from 'd3-contour';
+import { RasterBand, isNodataValue } from './raster-utils';
+
+/**
+ * 2次元配列のグリッド
+ */
+export interface ContourArrayGrid {
+  /** 値の2次元配列（data[行][列]、先頭の行が北端） */
+  data: number[][];
+  /** 地理的境界 [west, south, east, north] */
+  bounds: [number, number, number, number];
+  /** NoData値（NaNは常にNoDataとして扱います） */
+  nodata?: number | null;
+}
+
+/**
+ * 等値線を生成できるグリッド
+ * readCOGBandの結果などのラスタバンド、または2次元配列と境界
+ */
+export type ContourGridSource = RasterBand | ContourArrayGrid;
+
+/**
+ * 等値線・等値帯の生成オプション
+ */
+export interface ContourLevelOptions {
+  /** 等値線の間隔（データ単位） */
+  interval: number;
+  /** 基準値（等値線は基準値 + 間隔の整数倍、デフォルト: 0） */
+  base?: number;
+  /** 計曲線とする等値線の間隔（何本ごとか、デフォルト: 5、0で計曲線なし） */
+  indexInterval?: number;
+}
+
+/**
+ * 等値線のプロパティ
+ */
+export interface ContourLineProperties {
+  /** 値 */
+  value: number;
+  /** 計曲線かどうか */
+  index: boolean;
+}
+
+/**
+ * 等値帯のプロパティ
+ */
+export interface ContourBandProperties {
+  /** 下限値（この値を含む） */
+  lower: number;
+  /** 上限値 */
+  upper: number;
+  /** 等値帯の番号（値の小さい順に0から） */
+  band: number;
+}
+
+/**
+ * ラベルの配置位置
+ */
+export interface LineLabelPosition {
+  /** X座標（ピクセル） */
+  x: number;
+  /** Y座標（ピクセル） */
+  y: number;
+  /** 線の向きに合わせた回転角度（度、文字が逆さにならない範囲） */
+  angle: number;
+}
+
+/**
+ * ラベル配置のオプション
+ */
+export interface LineLabelOptions {
+  /** ラベルの間隔（ピクセル、デフォルト: 200） */
+  spacing?: number;
+  /** ラベルの長さ（ピクセル、これより短い線にはラベルを配置しない、デフォルト: 30） */
+  labelLength?: number;
+}
+
+/**
+ * グリッドをラスタバンドの形式に変換します
+ * @param source - グリッド
+ * @returns ラスタバンド
+ */
+export function toContourGrid(source: ContourGridSource): RasterBand {
+  if (!isArrayGrid(source)) {
+    return source;
+  }
+
+  const height = source.data.length;
+  const width = source.data[0]?.length ?? 0;
+  const data = new Float64Array(width * height);
+  for (let row = 0; row < height; row++) {
+    if (source.data[row].length !== width) {
+      throw new Error(`グリッドの${row + 1}行目の列数（${source.data[row].length}）が1行目（${width}）と一致しません`);
+    }
+    for (let col = 0; col < width; col++) {
+      data[row * width + col] = source.data[row][col];
+    }
+  }
+  return { data, width, height, bounds: source.bounds, nodata: source.nodata };
+}
+
+/**
+ * グリッドの値の範囲に含まれる等値線の値を求めます
+ * @param grid - グリッド
+ * @param options - 生成オプション
+ * @returns 等値線の値（昇順）
+ */
+export function getContourLevels(grid: RasterBand, options: ContourLevelOptions): number[] {
+  const { interval, base = 0 } = options;
+  if (!(interval > 0)) {
+    throw new Error(`等値線の間隔は正の値で指定してください: ${interval}`);
+  }
+
+  const [min, max] = getValueRange(grid);
+  if (min > max) return [];
+
+  const levels: number[] = [];
+  for (let k = Math.ceil((min - base) / interval); base + k * interval <= max; k++) {
+    levels.push(base + k * interval);
+  }
+  return levels;
+}
+
+/**
+ * グリッドから等値線を生成します
+ *
+ * グリッドの外周に沿った部分は等値線に含めません。
+ *
+ * @param source - グリッド
+ * @param options - 生成オプション
+ * @returns 等値線のGeoJSON（値の昇順）
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif');
+ * const lines = generateIsolines(dem, { interval: 10, indexInterval: 5 });
+ * ```
+ */
+export function generateIsolines(
+  source: ContourGridSource,
+  options: ContourLevelOptions
+): GeoJSON.FeatureCollection<GeoJSON.MultiLineString, ContourLineProperties> {
+  const grid = toContourGrid(source);
+  const levels = getContourLevels(grid, options);
+  if (levels.length === 0) {
+    return { type: 'FeatureCollection', features: [] };
+  }
+
+  const { interval, base = 0, indexInterval = 5 } = options;
+  const values = getContourValues(grid);
+  const multiPolygons = d3.contours()
+    .size([grid.width, grid.height])
+    .thresholds(levels)(values as unknown as number[]);
+
+  const features = multiPolygons.map(multiPolygon => {
+    const lines: GeoJSON.Position[][] = [];
+    multiPolygon.coordinates.forEach(polygon => polygon.forEach(ring => {
+      splitAtGridEdge(ring, grid.width, grid.height).forEach(line => {
+        lines.push(line.map(point => toGeographic(point, grid)));
+      });
+    }));
+
+    const level = Math.round((multiPolygon.value - base) / interval);
+    return {
+      type: 'Feature' as const,
+      properties: {
+        value: multiPolygon.value,
+        index: indexInterval > 0 && level % indexInterval === 0
+      },
+      geometry: { type: 'MultiLineString' as const, coordinates: lines }
+    };
+  }).filter(feature => feature.geometry.coordinates.length > 0);
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * グリッドから塗りつぶし用の等値帯を生成します
+ *
+ * 隣り合う等値線の間の範囲ごとに、値がその範囲に含まれる領域をポリゴンとして返します。
+ * 最小値を含む等値帯から最大値を含む等値帯までを生成します。
+ *
+ * @param source - グリッド
+ * @param options - 生成オプション
+ * @returns 等値帯のGeoJSON（値の昇順）
+ */
+export function generateIsobands(
+  source: ContourGridSource,
+  options: ContourLevelOptions
+): GeoJSON.FeatureCollection<GeoJSON.MultiPolygon, ContourBandProperties> {
+  const grid = toContourGrid(source);
+  const { interval, base = 0 } = options;
+  if (!(interval > 0)) {
+    throw new Error(`等値線の間隔は正の値で指定してください: ${interval}`);
+  }
+
+  const [min, max] = getValueRange(grid);
+  if (min > max) {
+    return { type: 'FeatureCollection', features: [] };
+  }
+
+  const values = getContourValues(grid);
+  const bandValues = new Float64Array(values.length);
+  const generator = d3.contours().size([grid.width, grid.height]).thresholds([0]);
+  const features: GeoJSON.Feature<GeoJSON.MultiPolygon, ContourBandProperties>[] = [];
+
+  const firstBand = Math.floor((min - base) / interval);
+  const lastBand = Math.max(firstBand, Math.ceil((max - base) / interval) - 1);
+  for (let k = firstBand; k <= lastBand; k++) {
+    const lower = base + k * interval;
+    const upper = lower + interval;
+
+    // 範囲内で0以上となる値（各境界の前後で値に比例して変化するため、境界の位置が補間される）
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      bandValues[i] = value !== value ? NaN : Math.min(value - lower, upper - value);
+    }
+
+    const [multiPolygon] = generator(bandValues as unknown as number[]);
+    if (!multiPolygon || multiPolygon.coordinates.length === 0) continue;
+
+    features.push({
+      type: 'Feature',
+      properties: { lower, upper, band: k - firstBand },
+      geometry: {
+        type: 'MultiPolygon',
+        // グリッドの行は南向きのため、d3-geoの向き（外周が時計回り）に合わせて反転する
+        coordinates: multiPolygon.coordinates.map(polygon =>
+          polygon.map(ring => ring.map(point => toGeographic(point, grid)).reverse())
+        )
+      }
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * 線に沿ってラベルを配置する位置を計算します
+ *
+ * 線の長さに沿って一定間隔で位置を求め、その前後の区間から文字の向きを決めます。
+ * 文字が逆さにならないよう、角度は-90〜90度の範囲にします。
+ *
+ * @param points - 線の座標（ピクセル）
+ * @param options - 配置オプション
+ * @returns ラベルの配置位置
+ */
+export function placeLineLabels(points: [number, number][], options: LineLabelOptions = {}): LineLabelPosition[] {
+  const spacing = options.spacing ?? 200;
+  const labelLength = options.labelLength ?? 30;
+  if (points.length < 2) return [];
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+  const total = distances[distances.length - 1];
+  if (total < labelLength) return [];
+
+  const pointAt = (distance: number): [number, number] => {
+    const d = Math.min(total, Math.max(0, distance));
+    let i = 1;
+    while (i < distances.length - 1 && distances[i] < d) i++;
+    const segment = distances[i] - distances[i - 1];
+    const t = segment > 0 ? (d - distances[i - 1]) / segment : 0;
+    return [
+      points[i - 1][0] + (points[i][0] - points[i - 1][0]) * t,
+      points[i - 1][1] + (points[i][1] - points[i - 1][1]) * t
+    ];
+  };
+
+  const count = Math.max(1, Math.floor(total / spacing));
+  const step = total / count;
+  const positions: LineLabelPosition[] = [];
+  for (let i = 0; i < count; i++) {
+    const distance = step * (i + 0.5);
+    const [x, y] = pointAt(distance);
+    const before = pointAt(distance - labelLength / 2);
+    const after = pointAt(distance + labelLength / 2);
+    let angle = Math.atan2(after[1] - before[1], after[0] - before[0]) * 180 / Math.PI;
+    if (angle > 90) angle -= 180;
+    if (angle < -90) angle += 180;
+    positions.push({ x, y, angle });
+  }
+  return positions;
+}
+
+/**
+ * 2次元配列のグリッドかどうかを判定します
+ * @param source - グリッド
+ * @returns 2次元配列のグリッドの場合はtrue
+ */
+function isArrayGrid(source: ContourGridSource): source is ContourArrayGrid {
+  return Array.isArray(source.data) && Array.isArray(source.data[0]);
+}
+
+/**
+ * NoDataをNaNに置き換えた値を作成します（d3-contourはNaNを範囲外として扱う）
+ * @param grid - グリッド
+ * @returns 値の配列
+ */
+function getContourValues(grid: RasterBand): Float64Array {
+  const values = new Float64Array(grid.width * grid.height);
+  for (let i = 0; i < values.length; i++) {
+    const value = grid.data[i];
+    values[i] = isNodataValue(value, grid.nodata) ? NaN : value;
+  }
+  return values;
+}
+
+/**
+ * NoDataを除いた値の範囲を求めます
+ * @param grid - グリッド
+ * @returns [最小値, 最大値]（有効な値がない場合は[Infinity, -Infinity]）
+ */
+function getValueRange(grid: RasterBand): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < grid.width * grid.height; i++) {
+    const value = grid.data[i];
+    if (isNodataValue(value, grid.nodata)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return [min, max];
+}
+
+/**
+ * グリッド座標を地理座標に変換します
+ * @param point - グリッド座標 [列, 行]
+ * @param grid - グリッド
+ * @returns 地理座標 [経度, 緯度]
+ */
+function toGeographic(point: number[], grid: RasterBand): GeoJSON.Position {
+  const [west, south, east, north] = grid.bounds;
+  return [
+    west + (point[0] / grid.width) * (east - west),
+    north - (point[1] / grid.height) * (north - south)
+  ];
+}
+
+/**
+ * 等値線のリングをグリッドの外周に沿った区間で分割します
+ * @param ring - リングの座標（グリッド座標）
+ * @param width - グリッドの幅
+ * @param height - グリッドの高さ
+ * @returns 外周に沿った区間を除いた線の配列
+ */
+function splitAtGridEdge(ring: number[][], width: number, height: number): number[][][] {
+  const onSameEdge = (a: number[], b: number[]) =>
+    (a[0] <= 0 && b[0] <= 0) || (a[0] >= width && b[0] >= width) ||
+    (a[1] <= 0 && b[1] <= 0) || (a[1] >= height && b[1] >= height);
+
+  const edgeSegments = ring.slice(1).map((point, i) => onSameEdge(ring[i], point));
+  if (!edgeSegments.some(Boolean)) {
+    return ring.length >= 2 ? [ring] : [];
+  }
+
+  // 外周に沿った区間の直後から始めて、閉じたリングを開いた線に分割する
+  const start = edgeSegments.indexOf(true) + 1;
+  const lines: number[][][] = [];
+  let current: number[][] = [ring[start]];
+  for (let step = 0; step < edgeSegments.length; step++) {
+    const i = (start + step) % edgeSegments.length;
+    const next = ring[i + 1];
+    if (edgeSegments[i]) {
+      if (current.length >= 2) lines.push(current);
+      current = [next];
+    } else {
+      current.push(next);
+    }
+  }
+  if (current.length >= 2) lines.push(current);
+  return lines;
+}
@@ -0,0 +1,418 @@
+/**
+ * 座標参照系（CRS）ユーティリティ
+ *
+ * GeoTIFFのGeoKeysからEPSGコードを読み取り、投影座標と経緯度を相互に変換する機能を提供
+ * UTM、Web Mercator、日本の平面直角座標系を組み込みで扱い、その他の座標参照系は変換を登録して使用します
+ */
+
+/**
+ * 経緯度と座標参照系の座標を相互に変換する関数の組
+ */
+export interface CRSTransform {
+  /**
+   * 経緯度を座標参照系の座標に変換します
+   * @param coordinates - [経度, 緯度]
+   * @returns [x（東方向）, y（北方向）]
+   */
+  forward: (coordinates: [number, number]) => [number, number];
+  /**
+   * 座標参照系の座標を経緯度に変換します
+   * @param coordinates - [x（東方向）, y（北方向）]
+   * @returns [経度, 緯度]
+   */
+  inverse: (coordinates: [number, number]) => [number, number];
+}
+
+/**
+ * 横メルカトル図法のパラメータ
+ */
+export interface TransverseMercatorOptions {
+  /** 中央子午線の経度（度） */
+  centralMeridian: number;
+  /** 原点の緯度（度、デフォルト: 0） */
+  latitudeOfOrigin?: number;
+  /** 中央子午線上の縮尺係数（デフォルト: 0.9996） */
+  scaleFactor?: number;
+  /** 東方向の加算値（メートル、デフォルト: 0） */
+  falseEasting?: number;
+  /** 北方向の加算値（メートル、デフォルト: 0） */
+  falseNorthing?: number;
+  /** 楕円体の長半径（メートル、デフォルト: GRS80） */
+  semiMajorAxis?: number;
+  /** 楕円体の逆扁平率（デフォルト: GRS80） */
+  inverseFlattening?: number;
+}
+
+/**
+ * GeoTIFFのGeoKeys（geotiffのGeoTIFFImage.getGeoKeys()の戻り値）
+ */
+export interface GeoKeys {
+  /** モデルの種類（1: 投影座標系、2: 地理座標系） */
+  GTModelTypeGeoKey?: number;
+  /** 地理座標系のEPSGコード */
+  GeographicTypeGeoKey?: number;
+  /** 投影座標系のEPSGコード */
+  ProjectedCSTypeGeoKey?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * GRS80楕円体の長半径（メートル）
+ */
+const GRS80_SEMI_MAJOR_AXIS = 6378137;
+
+/**
+ * GRS80楕円体の逆扁平率
+ */
+const GRS80_INVERSE_FLATTENING = 298.257222101;
+
+/**
+ * Web Mercatorの緯度の上限
+ */
+const MAX_MERCATOR_LATITUDE = 85.051128779807;
+
+/**
+ * GeoKeysのユーザー定義を表す値
+ */
+const USER_DEFINED_GEOKEY = 32767;
+
+/**
+ * 経緯度と同じ座標として扱う地理座標系
+ * WGS84、JGD2000、JGD2011、ETRS89、NAD83（データムの違いは1m程度のため無視）
+ */
+const GEOGRAPHIC_EPSG_CODES = [4326, 4612, 6668, 4258, 4269];
+
+/**
+ * Web Mercatorとして扱うEPSGコード
+ */
+const WEB_MERCATOR_EPSG_CODES = [3857, 3785, 900913, 102100];
+
+/**
+ * 平面直角座標系（I〜XIX系）の原点 [経度, 緯度]
+ */
+const JAPAN_PLANE_RECTANGULAR_ORIGINS: [number, number][] = [
+  [129 + 30 / 60, 33],
+  [131, 33],
+  [132 + 10 / 60, 36],
+  [133 + 30 / 60, 33],
+  [134 + 20 / 60, 36],
+  [136, 36],
+  [137 + 10 / 60, 36],
+  [138 + 30 / 60, 36],
+  [139 + 50 / 60, 36],
+  [140 + 50 / 60, 40],
+  [140 + 15 / 60, 44],
+  [142 + 15 / 60, 44],
+  [144 + 15 / 60, 44],
+  [142, 26],
+  [127 + 30 / 60, 26],
+  [124, 26],
+  [131, 26],
+  [136, 20],
+  [154, 26]
+];
+
+/**
+ * 登録された座標変換
+ */
+const registeredTransforms = new Map<number, CRSTransform>();
+
+/**
+ * 組み込みの座標変換のキャッシュ
+ */
+const builtinTransforms = new Map<number, CRSTransform | null>();
+
+/**
+ * GeoKeysから座標参照系のEPSGコードを取得します
+ * @param geoKeys - GeoTIFFのGeoKeys
+ * @returns EPSGコード（ユーザー定義や不明な場合はnull）
+ *
+ * @example
+ * ```typescript
+ * const epsg = getEPSGCode(image.getGeoKeys()); // 6677（JGD2011 平面直角座標系IX系）
+ * ```
+ */
+export function getEPSGCode(geoKeys: GeoKeys | null | undefined): number | null {
+  if (!geoKeys) return null;
+
+  const projected = geoKeys.ProjectedCSTypeGeoKey;
+  const geographic = geoKeys.GeographicTypeGeoKey;
+  const code = geoKeys.GTModelTypeGeoKey === 2 ? geographic : projected ?? geographic;
+
+  return typeof code === 'number' && code !== USER_DEFINED_GEOKEY ? code : null;
+}
+
+/**
+ * EPSGコードが経緯度の地理座標系かどうかを判定します
+ * @param epsg - EPSGコード
+ * @returns 経緯度と同じ座標として扱える場合はtrue
+ */
+export function isGeographicCRS(epsg: number): boolean {
+  return GEOGRAPHIC_EPSG_CODES.includes(epsg);
+}
+
+/**
+ * 座標変換を登録します（組み込みの変換より優先されます）
+ * @param epsg - EPSGコード
+ * @param transform - 座標変換
+ *
+ * @example
+ * ```typescript
+ * // proj4を使用する場合
+ * const converter = proj4('EPSG:2154');
+ * registerCRSTransform(2154, { forward: p => converter.forward(p), inverse: p => converter.inverse(p) });
+ * ```
+ */
+export function registerCRSTransform(epsg: number, transform: CRSTransform): void {
+  registeredTransforms.set(epsg, transform);
+}
+
+/**
+ * EPSGコードに対応する座標変換を取得します
+ *
+ * 組み込みで次の座標参照系に対応しています。
+ * - Web Mercator（EPSG:3857）
+ * - UTM（WGS84: EPSG:32601〜32660、32701〜32760、JGD2000: EPSG:3097〜3101、JGD2011: EPSG:6688〜6692）
+ * - 平面直角座標系（JGD2000: EPSG:2443〜2461、JGD2011: EPSG:6669〜6687）
+ *
+ * @param epsg - EPSGコード
+ * @returns 座標変換（対応していない場合はnull、地理座標系の場合は恒等変換）
+ */
+export function getCRSTransform(epsg: number): CRSTransform | null {
+  const registered = registeredTransforms.get(epsg);
+  if (registered) return registered;
+
+  if (!builtinTransforms.has(epsg)) {
+    builtinTransforms.set(epsg, createBuiltinTransform(epsg));
+  }
+  return builtinTransforms.get(epsg)!;
+}
+
+/**
+ * 横メルカトル図法（ガウス・クリューゲル図法）の座標変換を作成します
+ *
+ * 国土地理院の計算式と同じクリューゲルの級数展開（nの3次まで）を使用し、
+ * 中央子午線から数度の範囲でミリメートル程度の精度があります。
+ *
+ * @param options - 図法のパラメータ
+ * @returns 座標変換
+ *
+ * @example
+ * ```typescript
+ * // 平面直角座標系IX系
+ * const zone9 = createTransverseMercator({ centralMeridian: 139 + 50 / 60, latitudeOfOrigin: 36, scaleFactor: 0.9999 });
+ * zone9.forward([139.7671, 35.6812]); // [x（東方向）, y（北方向）]
+ * ```
+ */
+export function createTransverseMercator(options: TransverseMercatorOptions): CRSTransform {
+  const a = options.semiMajorAxis ?? GRS80_SEMI_MAJOR_AXIS;
+  const f = 1 / (options.inverseFlattening ?? GRS80_INVERSE_FLATTENING);
+  const k0 = options.scaleFactor ?? 0.9996;
+  const falseEasting = options.falseEasting ?? 0;
+  const falseNorthing = options.falseNorthing ?? 0;
+  const lambda0 = options.centralMeridian * Math.PI / 180;
+  const phi0 = (options.latitudeOfOrigin ?? 0) * Math.PI / 180;
+
+  const n = f / (2 - f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const A = a / (1 + n) * (1 + n2 / 4 + n2 * n2 / 64);
+  const alpha = [n / 2 - 2 * n2 / 3 + 5 * n3 / 16, 13 * n2 / 48 - 3 * n3 / 5, 61 * n3 / 240];
+  const beta = [n / 2 - 2 * n2 / 3 + 37 * n3 / 96, n2 / 48 + n3 / 15, 17 * n3 / 480];
+  const delta = [2 * n - 2 * n2 / 3 - 2 * n3, 7 * n2 / 3 - 8 * n3 / 5, 56 * n3 / 15];
+  const e = 2 * Math.sqrt(n) / (1 + n);
+
+  // 経緯度（ラジアン）から原点の補正前の座標を求める
+  const project = (lambda: number, phi: number): [number, number] => {
+    const sinPhi = Math.sin(phi);
+    const t = Math.sinh(Math.atanh(sinPhi) - e * Math.atanh(e * sinPhi));
+    const dLambda = lambda - lambda0;
+    const xi = Math.atan2(t, Math.cos(dLambda));
+    const eta = Math.atanh(Math.sin(dLambda) / Math.sqrt(1 + t * t));
+
+    let x = eta;
+    let y = xi;
+    for (let j = 1; j <= 3; j++) {
+      x += alpha[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+      y += alpha[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    }
+    return [k0 * A * x, k0 * A * y];
+  };
+
+  // 原点の緯度までの子午線弧長
+  const originNorthing = project(lambda0, phi0)[1];
+
+  return {
+    forward: ([longitude, latitude]) => {
+      const [x, y] = project(longitude * Math.PI / 180, latitude * Math.PI / 180);
+      return [x + falseEasting, y - originNorthing + falseNorthing];
+    },
+    inverse: ([x, y]) => {
+      const xi = (y - falseNorthing + originNorthing) / (k0 * A);
+      const eta = (x - falseEasting) / (k0 * A);
+
+      let xiPrime = xi;
+      let etaPrime = eta;
+      for (let j = 1; j <= 3; j++) {
+        xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+        etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+      }
+
+      const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+      let phi = chi;
+      for (let j = 1; j <= 3; j++) {
+        phi += delta[j - 1] * Math.sin(2 * j * chi);
+      }
+      const lambda = lambda0 + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime));
+
+      return [lambda * 180 / Math.PI, phi * 180 / Math.PI];
+    }
+  };
+}
+
+/**
+ * 座標参照系の境界を経緯度の境界に変換します
+ *
+ * 投影座標系では境界の四隅が経緯度の範囲の端になるとは限らないため、各辺上の点を変換して範囲を求めます。
+ *
+ * @param bounds - 座標参照系の境界 [minX, minY, maxX, maxY]
+ * @param transform - 座標変換（inverseを使用）
+ * @param samples - 各辺で変換する区間の数（デフォルト: 16）
+ * @returns 経緯度の境界 [west, south, east, north]
+ */
+export function transformBoundsToGeographic(
+  bounds: [number, number, number, number],
+  transform: CRSTransform,
+  samples = 16
+): [number, number, number, number] {
+  return transformBounds(bounds, transform.inverse, samples);
+}
+
+/**
+ * 経緯度の境界を座標参照系の境界に変換します
+ * @param bounds - 経緯度の境界 [west, south, east, north]
+ * @param transform - 座標変換（forwardを使用）
+ * @param samples - 各辺で変換する区間の数（デフォルト: 16）
+ * @returns 座標参照系の境界 [minX, minY, maxX, maxY]
+ */
+export function transformBoundsFromGeographic(
+  bounds: [number, number, number, number],
+  transform: CRSTransform,
+  samples = 16
+): [number, number, number, number] {
+  const [west, south, east, north] = bounds;
+  // Web Mercatorなど極で発散する変換のため、緯度を有効な範囲に制限する
+  const clamped: [number, number, number, number] = [
+    west,
+    Math.max(south, -MAX_MERCATOR_LATITUDE),
+    east,
+    Math.min(north, MAX_MERCATOR_LATITUDE)
+  ];
+  return transformBounds(clamped, transform.forward, samples);
+}
+
+/**
+ * EPSGコードから組み込みの座標変換を作成します
+ * @param epsg - EPSGコード
+ * @returns 座標変換（対応していない場合はnull）
+ */
+function createBuiltinTransform(epsg: number): CRSTransform | null {
+  if (isGeographicCRS(epsg)) {
+    return {
+      forward: ([x, y]) => [x, y],
+      inverse: ([x, y]) => [x, y]
+    };
+  }
+
+  if (WEB_MERCATOR_EPSG_CODES.includes(epsg)) {
+    const R = GRS80_SEMI_MAJOR_AXIS;
+    return {
+      forward: ([longitude, latitude]) => {
+        const phi = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, latitude)) * Math.PI / 180;
+        return [R * longitude * Math.PI / 180, R * Math.log(Math.tan(Math.PI / 4 + phi / 2))];
+      },
+      inverse: ([x, y]) => [
+        x / R * 180 / Math.PI,
+        (2 * Math.atan(Math.exp(y / R)) - Math.PI / 2) * 180 / Math.PI
+      ]
+    };
+  }
+
+  // UTM（WGS84 北半球・南半球）
+  if (epsg >= 32601 && epsg <= 32660) return createUTM(epsg - 32600, false);
+  if (epsg >= 32701 && epsg <= 32760) return createUTM(epsg - 32700, true);
+  // UTM（JGD2000: 51〜55帯、JGD2011: 51〜55帯）
+  if (epsg >= 3097 && epsg <= 3101) return createUTM(epsg - 3097 + 51, false);
+  if (epsg >= 6688 && epsg <= 6692) return createUTM(epsg - 6688 + 51, false);
+
+  // 平面直角座標系（JGD2000: I〜XIX系、JGD2011: I〜XIX系）
+  if (epsg >= 2443 && epsg <= 2461) return createJapanPlaneRectangular(epsg - 2443);
+  if (epsg >= 6669 && epsg <= 6687) return createJapanPlaneRectangular(epsg - 6669);
+
+  return null;
+}
+
+/**
+ * UTMの座標変換を作成します
+ * @param zone - 帯番号（1〜60）
+ * @param south - 南半球の場合はtrue
+ * @returns 座標変換
+ */
+function createUTM(zone: number, south: boolean): CRSTransform {
+  return createTransverseMercator({
+    centralMeridian: zone * 6 - 183,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0
+  });
+}
+
+/**
+ * 平面直角座標系の座標変換を作成します
+ * @param zoneIndex - 系番号 - 1（0〜18）
+ * @returns 座標変換
+ */
+function createJapanPlaneRectangular(zoneIndex: number): CRSTransform {
+  const [centralMeridian, latitudeOfOrigin] = JAPAN_PLANE_RECTANGULAR_ORIGINS[zoneIndex];
+  return createTransverseMercator({ centralMeridian, latitudeOfOrigin, scaleFactor: 0.9999 });
+}
+
+/**
+ * 境界の各辺上の点を変換し、変換後の範囲を求めます
+ * @param bounds - 境界 [minX, minY, maxX, maxY]
+ * @param convert - 座標の変換関数
+ * @param samples - 各辺で変換する区間の数
+ * @returns 変換後の境界
+ */
+function transformBounds(
+  bounds: [number, number, number, number],
+  convert: (coordinates: [number, number]) => [number, number],
+  samples: number
+): [number, number, number, number] {
+  const [minX, minY, maxX, maxY] = bounds;
+  const result: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+
+  const extend = (x: number, y: number) => {
+    const [tx, ty] = convert([x, y]);
+    if (!isFinite(tx) || !isFinite(ty)) return;
+    result[0] = Math.min(result[0], tx);
+    result[1] = Math.min(result[1], ty);
+    result[2] = Math.max(result[2], tx);
+    result[3] = Math.max(result[3], ty);
+  };
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const x = minX + (maxX - minX) * t;
+    const y = minY + (maxY - minY) * t;
+    extend(x, minY);
+    extend(x, maxY);
+    extend(minX, y);
+    extend(maxX, y);
+  }
+
+  if (!isFinite(result[0])) {
+    throw new Error('境界を座標変換できませんでした');
+  }
+  return result;
+}
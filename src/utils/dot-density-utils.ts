@@ -0,0 +1,194 @@
+/**
+ * ドット密度図ユーティリティ
+ *
+ * ポリゴン内部にランダムな点を生成する機能を提供
+ * シード値を指定した疑似乱数を使用するため、同じ入力からは常に同じ点が生成されます
+ */
+
+import type { Feature, FeatureCollection, Geometry, Point, Position } from 'geojson';
+import { getPolygonArea, isPointInPolygon } from './planar-utils';
+
+/**
+ * ドット密度図のカテゴリ設定
+ */
+export interface DotDensityCategory {
+  /** カテゴリ名 */
+  name: string;
+  /** フィーチャーからカテゴリの値を取得する関数 */
+  value: (feature: Feature, index: number) => number | null | undefined;
+  /** ドットの色 */
+  color?: string;
+}
+
+/**
+ * ドット生成オプション
+ */
+export interface DotDensityOptions {
+  /** カテゴリ一覧 */
+  categories: DotDensityCategory[];
+  /** ドット1個あたりの値 */
+  valuePerDot: number;
+  /** 乱数のシード値（デフォルト: 1） */
+  seed?: number;
+}
+
+/**
+ * 生成したドットのプロパティ
+ */
+export interface DotDensityProperties {
+  /** カテゴリ名 */
+  category: string;
+  /** カテゴリのインデックス */
+  categoryIndex: number;
+  /** 元のフィーチャーのインデックス */
+  featureIndex: number;
+}
+
+/**
+ * シード値から決定的な疑似乱数生成関数を作成します（mulberry32）
+ * @param seed - シード値
+ * @returns 0以上1未満の乱数を返す関数
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * ポリゴンまたはマルチポリゴンの内部にランダムな点を生成します
+ * 点ごとに面積に比例する確率でポリゴンを選び、そのポリゴンのバウンディングボックス内で棄却サンプリングを行います
+ * 離れた小さなポリゴンからなるマルチポリゴンでも、点は面積に応じて各ポリゴンに配分されます
+ * @param geometry - ポリゴンまたはマルチポリゴン
+ * @param count - 生成する点の数
+ * @param random - 乱数生成関数
+ * @returns 生成した座標（内部に点が見つからない場合はcount未満になり、警告を出力します）
+ */
+export function randomPointsInPolygon(geometry: Geometry, count: number, random: () => number): Position[] {
+  const polygons = geometry.type === 'Polygon'
+    ? [geometry.coordinates]
+    : geometry.type === 'MultiPolygon'
+      ? geometry.coordinates
+      : [];
+  if (polygons.length === 0 || count <= 0) return [];
+
+  // ポリゴンごとのバウンディングボックスと穴を除いた面積
+  const parts = polygons.map(polygon => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    polygon[0]?.forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+    return { polygon, minX, minY, maxX, maxY, area: getPolygonArea(polygon) };
+  }).filter(part => isFinite(part.minX) && isFinite(part.minY) && part.area > 0);
+  if (parts.length === 0) return [];
+
+  const totalArea = parts.reduce((total, part) => total + part.area, 0);
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    // 面積に比例する確率でポリゴンを選択
+    let target = random() * totalArea;
+    const part = parts.find(({ area }) => (target -= area) < 0) ?? parts[parts.length - 1];
+
+    // 細長いポリゴンで無限ループにならないよう点ごとの試行回数を制限
+    for (let attempt = 0; attempt < 1000; attempt++) {
+      const point = [part.minX + random() * (part.maxX - part.minX), part.minY + random() * (part.maxY - part.minY)];
+      if (isPointInPolygon(point, part.polygon)) {
+        points.push(point);
+        break;
+      }
+    }
+  }
+
+  if (points.length < count) {
+    console.warn(`randomPointsInPolygon: ${count}個のうち${count - points.length}個の点を生成できませんでした`);
+  }
+
+  return points;
+}
+
+/**
+ * ポリゴンデータからドット密度図のドットを生成します
+ *
+ * 各フィーチャーのドット数は値 / valuePerDot を四捨五入して決まります。
+ * 乱数はシード値とフィーチャーのインデックスから初期化されるため、
+ * 同じ入力からは常に同じドットが生成されます。
+ * 複数カテゴリのドットは描画順が偏らないようにフィーチャーごとに混ぜ合わせます。
+ *
+ * @param data - ポリゴンを含むFeatureCollection
+ * @param options - ドット生成オプション
+ * @returns ドットのFeatureCollection
+ *
+ * @example
+ * ```typescript
+ * const dots = generateDotDensityPoints(prefectures, {
+ *   categories: [{ name: 'population', value: f => f.properties?.population }],
+ *   valuePerDot: 10000
+ * });
+ * ```
+ */
+export function generateDotDensityPoints(
+  data: FeatureCollection,
+  options: DotDensityOptions
+): FeatureCollection<Point, DotDensityProperties> {
+  if (!(options.valuePerDot > 0)) {
+    throw new Error(`valuePerDotは正の数で指定してください: ${options.valuePerDot}`);
+  }
+
+  const seed = options.seed ?? 1;
+  const features: Feature<Point, DotDensityProperties>[] = [];
+
+  data.features.forEach((feature, featureIndex) => {
+    if (!feature.geometry) return;
+
+    // カテゴリごとのドット数を展開してから混ぜ合わせる
+    const categoryIndices: number[] = [];
+    options.categories.forEach((category, categoryIndex) => {
+      const value = category.value(feature, featureIndex);
+      if (typeof value !== 'number' || !isFinite(value) || value <= 0) return;
+      const count = Math.round(value / options.valuePerDot);
+      for (let i = 0; i < count; i++) {
+        categoryIndices.push(categoryIndex);
+      }
+    });
+    if (categoryIndices.length === 0) return;
+
+    const random = createSeededRandom(seed * 2654435761 + featureIndex);
+    shuffle(categoryIndices, random);
+
+    const points = randomPointsInPolygon(feature.geometry, categoryIndices.length, random);
+    points.forEach((coordinates, i) => {
+      const categoryIndex = categoryIndices[i];
+      features.push({
+        type: 'Feature',
+        properties: {
+          category: options.categories[categoryIndex].name,
+          categoryIndex,
+          featureIndex
+        },
+        geometry: { type: 'Point', coordinates }
+      });
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * 配列をその場でシャッフルします（Fisher-Yates）
+ * @param array - 対象の配列
+ * @param random - 乱数生成関数
+ */
+function shuffle<T>(array: T[], random: () => number): void {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+}
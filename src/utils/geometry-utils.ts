@@ -0,0 +1,1281 @@
+/**
+ * ジオメトリ処理ユーティリティ
+ *
+ * GeoJSONの前処理に使用する簡略化、クリップ、ディゾルブ、バッファの機能を提供
+ * 隣接するポリゴンが共有する境界は頂点が一致していることを前提に、
+ * 簡略化やディゾルブでは境界を共有したまま処理するため、隙間や重なりが生じません
+ */
+
+import type { GeoProjection } from 'd3-geo';
+import type { Feature, FeatureCollection, Geometry, Position, Polygon, MultiPolygon } from 'geojson';
+import { BBox, crossesAntimeridian } from './gis-utils';
+import { GeometryParts, collectParts, getRingArea, isPointInRing, isPointInPolygon, toPolygonGeometry, transformGeometry } from './planar-utils';
+
+/**
+ * 簡略化のアルゴリズム
+ * - 'douglas-peucker': 始点と終点を結ぶ線からの距離で頂点を残す
+ * - 'visvalingam': 前後の頂点と作る三角形の面積が小さい頂点から削除する
+ */
+export type SimplifyMethod = 'douglas-peucker' | 'visvalingam';
+
+/**
+ * 簡略化のオプション
+ */
+export interface SimplifyOptions {
+  /**
+   * 許容誤差（projectionを指定した場合は投影後のピクセル、それ以外は座標の単位）
+   * 'douglas-peucker'では線からの距離がtolerance以下、'visvalingam'では三角形の面積がtoleranceの2乗以下の頂点を削除します
+   */
+  tolerance: number;
+  /** 簡略化のアルゴリズム（デフォルト: 'douglas-peucker'） */
+  method?: SimplifyMethod;
+  /** 誤差を投影後の画面上で測る投影法 */
+  projection?: GeoProjection;
+}
+
+/**
+ * バッファのオプション
+ */
+export interface BufferOptions {
+  /** 円弧の四分円あたりの分割数（デフォルト: 8） */
+  segments?: number;
+}
+
+/**
+ * ディゾルブでフィーチャーをまとめるキー（プロパティ名、またはキーを返す関数）
+ */
+export type DissolveKey = string | ((feature: Feature, index: number) => string | number | null | undefined);
+
+/**
+ * Greiner-Hormann法で使用するリングの頂点
+ */
+interface ClipVertex {
+  point: Position;
+  next: ClipVertex;
+  prev: ClipVertex;
+  /** 交点かどうか */
+  intersection: boolean;
+  /** 交点から相手のポリゴンの内側に入るか */
+  entry: boolean;
+  visited: boolean;
+  /** 相手のリング上の同じ交点 */
+  neighbor?: ClipVertex;
+  /** 辺上の位置（0〜1） */
+  alpha: number;
+}
+
+/** 交点の判定に使用する誤差 */
+const EPSILON = 1e-12;
+
+/** 退化した配置（頂点が辺上にあるなど）で処理を中断したことを表す値 */
+const DEGENERATE = Symbol('degenerate');
+
+/**
+ * 優先度付きキュー（二分ヒープ）
+ */
+class MinHeap<T> {
+  /** ヒープの要素 */
+  private items: T[] = [];
+  /** 要素の比較関数 */
+  private compare: (a: T, b: T) => number;
+
+  /**
+   * @param compare - 小さい要素を先に取り出す比較関数
+   */
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  /** 要素数 */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 要素を追加します
+   * @param item - 追加する要素
+   */
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[parent], items[i]) <= 0) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  /**
+   * 最小の要素を取り出します
+   * @returns 最小の要素（空の場合はundefined）
+   */
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * GeoJSONデータをFeatureCollectionに正規化します
+ */
+function normalizeData(data: FeatureCollection | Feature[]): FeatureCollection {
+  return Array.isArray(data) ? { type: 'FeatureCollection', features: data } : data;
+}
+
+/**
+ * 座標を頂点の識別に使用するキーに変換します
+ */
+function pointKey(point: Position): string {
+  return `${point[0]},${point[1]}`;
+}
+
+/**
+ * 2つの座標が同じかを判定します
+ */
+function samePoint(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * 2点の間を線形補間します
+ */
+function lerp(a: Position, b: Position, t: number): Position {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+/**
+ * 最初と最後の座標が同じになるようにリングを閉じます
+ */
+function closeRing(points: Position[]): Position[] {
+  return points.length > 0 && !samePoint(points[0], points[points.length - 1]) ? [...points, points[0]] : points;
+}
+
+/**
+ * 閉じたリングから最後の座標（最初と同じ座標）を除きます
+ */
+function openRing(ring: Position[]): Position[] {
+  return ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]) ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * 連続する同じ座標を1つにまとめます
+ */
+function removeDuplicates(points: Position[]): Position[] {
+  return points.filter((point, i) => i === 0 || !samePoint(point, points[i - 1]));
+}
+
+/**
+ * リングを指定した向きに揃えます
+ * @param ring - 閉じたリング
+ * @param counterClockwise - 反時計回り（面積が正）に揃えるか
+ */
+function orientRing(ring: Position[], counterClockwise: boolean): Position[] {
+  return (getRingArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse();
+}
+
+/**
+ * ポリゴンのリングの向きを揃えます（穴は外周と逆向き）
+ * @param polygon - ポリゴン
+ * @param clockwise - 外周を時計回り（d3-geoの規約）にするか
+ */
+function orientPolygon(polygon: Position[][], clockwise: boolean): Position[][] {
+  return polygon.map((ring, index) => orientRing(ring, (index === 0) !== clockwise));
+}
+
+/**
+ * 外周が時計回りか（d3-geoの規約か）を判定します
+ */
+function isClockwise(ring: Position[]): boolean {
+  return getRingArea(ring) < 0;
+}
+
+/**
+ * フィーチャーごとにジオメトリを変換します
+ * @param data - GeoJSONデータ
+ * @param transform - ジオメトリの変換関数
+ * @param keepEmpty - 変換結果が空のフィーチャーを元のジオメトリのまま残すか（falseの場合は除く）
+ * @returns 変換したFeatureCollection（ジオメトリを持たないフィーチャーはそのまま）
+ */
+function mapFeatures(
+  data: FeatureCollection | Feature[],
+  transform: (geometry: Geometry) => Geometry | null,
+  keepEmpty: boolean = false
+): FeatureCollection {
+  const collection = normalizeData(data);
+  const features: Feature[] = [];
+  collection.features.forEach(feature => {
+    if (!feature.geometry) {
+      features.push(feature);
+      return;
+    }
+    const geometry = transform(feature.geometry);
+    if (geometry) {
+      features.push({ ...feature, geometry });
+    } else if (keepEmpty) {
+      features.push(feature);
+    }
+  });
+  return { ...collection, features };
+}
+
+/**
+ * 点から線分までの距離を求めます
+ */
+function getSegmentDistance(point: number[], a: number[], b: number[]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSq));
+  return Math.hypot(point[0] - a[0] - t * dx, point[1] - a[1] - t * dy);
+}
+
+/**
+ * Douglas-Peucker法で線の頂点の重要度（その頂点が削除される許容誤差）を求めます
+ * 親の分割点より大きな値にならないよう制限するため、許容誤差との比較でDouglas-Peucker法と同じ結果になります
+ */
+function rankDouglasPeucker(points: number[][], keys: string[], importance: Map<string, number>): void {
+  const stack: [number, number, number][] = [[0, points.length - 1, Infinity]];
+  while (stack.length > 0) {
+    const [first, last, parent] = stack.pop()!;
+    if (last - first < 2) continue;
+
+    let maxDistance = -1;
+    let index = first + 1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = getSegmentDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    const value = Math.min(maxDistance, parent);
+    importance.set(keys[index], value);
+    stack.push([first, index, value], [index, last, value]);
+  }
+}
+
+/**
+ * Visvalingam-Whyatt法で線の頂点の重要度（その頂点が削除される三角形の面積）を求めます
+ * 先に削除された頂点の面積より小さな値にならないよう、面積を単調増加に補正します
+ */
+function rankVisvalingam(points: number[][], keys: string[], importance: Map<string, number>): void {
+  const n = points.length;
+  if (n < 3) return;
+
+  const previous = Array.from({ length: n }, (_, i) => i - 1);
+  const next = Array.from({ length: n }, (_, i) => i + 1);
+  const areas = new Float64Array(n);
+  const removed = new Uint8Array(n);
+  const triangle = (i: number) => {
+    const [ax, ay] = points[previous[i]];
+    const [bx, by] = points[i];
+    const [cx, cy] = points[next[i]];
+    return Math.abs((ax - bx) * (cy - by) - (cx - bx) * (ay - by)) / 2;
+  };
+
+  const heap = new MinHeap<[number, number]>((a, b) => a[0] - b[0]);
+  for (let i = 1; i < n - 1; i++) {
+    areas[i] = triangle(i);
+    heap.push([areas[i], i]);
+  }
+
+  let maxArea = 0;
+  while (heap.size > 0) {
+    const [area, i] = heap.pop()!;
+    if (removed[i] || area !== areas[i]) continue;
+
+    removed[i] = 1;
+    maxArea = Math.max(maxArea, area);
+    importance.set(keys[i], maxArea);
+
+    const p = previous[i];
+    const q = next[i];
+    next[p] = q;
+    previous[q] = p;
+    if (p > 0) {
+      areas[p] = triangle(p);
+      heap.push([areas[p], p]);
+    }
+    if (q < n - 1) {
+      areas[q] = triangle(q);
+      heap.push([areas[q], q]);
+    }
+  }
+}
+
+/**
+ * 全ての線とリングの頂点の重要度を求めます
+ *
+ * 頂点を共有する辺のグラフを作り、3本以上の辺が接する頂点や線の端点（分岐点）で区切った弧ごとに重要度を計算します。
+ * 隣接するポリゴンの共有する境界は同じ弧として1度だけ計算されるため、どちらのポリゴンでも同じ頂点が残ります。
+ *
+ * @param paths - 線とリングの座標の配列
+ * @param endpoints - 線の端点のキー
+ * @param method - 簡略化のアルゴリズム
+ * @param projection - 誤差を測る投影法
+ * @returns 頂点のキーごとの重要度（分岐点はInfinity）
+ */
+function rankVertices(
+  paths: Position[][],
+  endpoints: Set<string>,
+  method: SimplifyMethod,
+  projection?: GeoProjection
+): Map<string, number> {
+  const neighbors = new Map<string, Set<string>>();
+  const measured = new Map<string, number[] | null>();
+  paths.forEach(path => path.forEach((point, i) => {
+    const key = pointKey(point);
+    if (!neighbors.has(key)) {
+      neighbors.set(key, new Set());
+      const projected = projection ? projection(point as [number, number]) : point;
+      measured.set(key, projected && isFinite(projected[0]) && isFinite(projected[1]) ? projected : null);
+    }
+    if (i > 0) {
+      const previous = pointKey(path[i - 1]);
+      if (previous !== key) {
+        neighbors.get(previous)!.add(key);
+        neighbors.get(key)!.add(previous);
+      }
+    }
+  }));
+
+  // 分岐点と投影できない頂点は常に残す
+  const importance = new Map<string, number>();
+  const junctions = new Set<string>();
+  neighbors.forEach((adjacent, key) => {
+    if (adjacent.size !== 2 || endpoints.has(key) || !measured.get(key)) {
+      junctions.add(key);
+      importance.set(key, Infinity);
+    }
+  });
+
+  const visited = new Set<string>();
+  const edgeKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+  const rank = (arc: string[]) => {
+    const points = arc.map(key => measured.get(key)!);
+    (method === 'visvalingam' ? rankVisvalingam : rankDouglasPeucker)(points, arc, importance);
+  };
+  const walk = (start: string, first: string): string[] => {
+    const arc = [start];
+    let previous = start;
+    let current = first;
+    visited.add(edgeKey(start, first));
+    while (!junctions.has(current) && current !== start) {
+      arc.push(current);
+      const following = Array.from(neighbors.get(current)!).find(key => key !== previous)!;
+      visited.add(edgeKey(current, following));
+      previous = current;
+      current = following;
+    }
+    arc.push(current);
+    return arc;
+  };
+
+  junctions.forEach(start => neighbors.get(start)!.forEach(next => {
+    if (!visited.has(edgeKey(start, next))) rank(walk(start, next));
+  }));
+
+  // 分岐点を持たない閉じた境界（他と接しない島など）は最初に見つかった頂点を始点とする
+  neighbors.forEach((adjacent, start) => {
+    if (importance.has(start)) return;
+    const [next] = Array.from(adjacent);
+    if (visited.has(edgeKey(start, next))) return;
+    importance.set(start, Infinity);
+    rank(walk(start, next));
+  });
+
+  return importance;
+}
+
+/**
+ * 重要度が閾値を超える頂点を残してリングを簡略化します
+ * 3頂点未満になる場合は重要度の高い3頂点を残します
+ */
+function simplifyRing(ring: Position[], importance: Map<string, number>, threshold: number): Position[] {
+  const points = openRing(ring);
+  if (points.length < 3) return ring;
+
+  const values = points.map(point => importance.get(pointKey(point)) ?? Infinity);
+  let kept = points.filter((_, i) => values[i] > threshold);
+  if (kept.length < 3) {
+    const top = new Set(points.map((_, i) => i).sort((a, b) => values[b] - values[a]).slice(0, 3));
+    kept = points.filter((_, i) => top.has(i));
+  }
+  return [...kept, kept[0]];
+}
+
+/**
+ * 簡略化のアルゴリズムを検証します
+ * @throws 未知のアルゴリズムの場合
+ */
+function validateSimplifyMethod(method: SimplifyMethod): void {
+  if (method !== 'douglas-peucker' && method !== 'visvalingam') {
+    throw new Error(`未知の簡略化アルゴリズムです: ${method}`);
+  }
+}
+
+/**
+ * 許容誤差を検証し、頂点の重要度と比較する閾値に変換します
+ * @throws toleranceが負の値の場合
+ */
+function getSimplifyThreshold(tolerance: number, method: SimplifyMethod): number {
+  if (!(tolerance >= 0)) {
+    throw new Error(`toleranceは0以上の値で指定してください: ${tolerance}`);
+  }
+  return method === 'visvalingam' ? tolerance * tolerance : tolerance;
+}
+
+/**
+ * 全てのフィーチャーの頂点の重要度を求めます
+ */
+function rankFeatures(collection: FeatureCollection, method: SimplifyMethod, projection?: GeoProjection): Map<string, number> {
+  const paths: Position[][] = [];
+  const endpoints = new Set<string>();
+  collection.features.forEach(feature => {
+    if (!feature.geometry) return;
+    const parts = collectParts(feature.geometry);
+    parts.lines.forEach(line => {
+      if (line.length === 0) return;
+      paths.push(line);
+      endpoints.add(pointKey(line[0]));
+      endpoints.add(pointKey(line[line.length - 1]));
+    });
+    parts.polygons.forEach(polygon => paths.push(...polygon));
+  });
+
+  return rankVertices(paths, endpoints, method, projection);
+}
+
+/**
+ * 重要度が閾値を超える頂点を残して全てのフィーチャーを簡略化します
+ */
+function filterFeatures(collection: FeatureCollection, importance: Map<string, number>, threshold: number): FeatureCollection {
+  return mapFeatures(collection, geometry => transformGeometry(geometry, {
+    points: points => points,
+    lines: lines => lines.map(line => line.filter((point, i) =>
+      i === 0 || i === line.length - 1 || (importance.get(pointKey(point)) ?? Infinity) > threshold)),
+    polygons: polygons => polygons.map(polygon => polygon.map(ring => simplifyRing(ring, importance, threshold)))
+  }), true);
+}
+
+/**
+ * GeoJSONの線とポリゴンを簡略化します
+ *
+ * 隣接するポリゴンが共有する境界（頂点が一致している部分）は同じ頂点を残すため、簡略化後も隙間や重なりが生じません。
+ * 線の端点と3つ以上の境界が接する頂点は常に残し、リングは少なくとも三角形を保ちます。
+ * projectionを指定すると誤差を投影後のピクセルで測るため、表示する縮尺に合わせた簡略化ができます。
+ *
+ * @param data - GeoJSONデータ
+ * @param options - 簡略化のオプション
+ * @returns 簡略化したFeatureCollection（フィーチャーの順序と数は元のデータと同じ）
+ * @throws toleranceが負の値、または未知のアルゴリズムの場合
+ *
+ * @example
+ * ```typescript
+ * // 現在の投影法で0.5ピクセル未満の形状の変化を省略する
+ * const simplified = simplify(prefectures, { tolerance: 0.5, projection });
+ * ```
+ */
+export function simplify(data: FeatureCollection | Feature[], options: SimplifyOptions): FeatureCollection {
+  const method = options.method ?? 'douglas-peucker';
+  validateSimplifyMethod(method);
+  const threshold = getSimplifyThreshold(options.tolerance, method);
+
+  const collection = normalizeData(data);
+  return filterFeatures(collection, rankFeatures(collection, method, options.projection), threshold);
+}
+
+/**
+ * 頂点の重要度を1度だけ計算し、許容誤差を変えて繰り返し簡略化する関数を作成します
+ *
+ * 重要度は座標の単位で計算するため、返される関数はprojectionを指定しないsimplifyと同じ結果になります。
+ * ズーム中など許容誤差だけが変わる場合に、頂点の重要度を計算し直さずに簡略化できます。
+ *
+ * @param data - GeoJSONデータ
+ * @param method - 簡略化のアルゴリズム（デフォルト: 'douglas-peucker'）
+ * @returns 座標の単位の許容誤差から簡略化したFeatureCollectionを返す関数
+ * @throws 未知のアルゴリズムの場合（toleranceが負の値の場合は返された関数の呼び出し時）
+ *
+ * @example
+ * ```typescript
+ * const simplifyAt = createSimplifier(prefectures);
+ * const coarse = simplifyAt(0.05); // 0.05度未満の形状の変化を省略する
+ * ```
+ */
+export function createSimplifier(
+  data: FeatureCollection | Feature[],
+  method: SimplifyMethod = 'douglas-peucker'
+): (tolerance: number) => FeatureCollection {
+  validateSimplifyMethod(method);
+  const collection = normalizeData(data);
+  const importance = rankFeatures(collection, method);
+  return tolerance => filterFeatures(collection, importance, getSimplifyThreshold(tolerance, method));
+}
+
+/**
+ * 線分を矩形でクリップします（Liang-Barsky法）
+ * @returns 矩形内の線分（矩形と重ならない場合はnull、端点が矩形内の場合は元の座標オブジェクト）
+ */
+function clipSegment(a: Position, b: Position, box: BBox): [Position, Position] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  const checks: [number, number][] = [
+    [-dx, a[0] - box.minX],
+    [dx, box.maxX - a[0]],
+    [-dy, a[1] - box.minY],
+    [dy, box.maxY - a[1]]
+  ];
+  for (const [p, q] of checks) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return null;
+      t0 = Math.max(t0, r);
+    } else {
+      if (r < t0) return null;
+      t1 = Math.min(t1, r);
+    }
+  }
+  return [t0 === 0 ? a : lerp(a, b, t0), t1 === 1 ? b : lerp(a, b, t1)];
+}
+
+/**
+ * 線を矩形でクリップします
+ * @returns 矩形内の線の配列
+ */
+function clipLineByBox(line: Position[], box: BBox): Position[][] {
+  const parts: Position[][] = [];
+  let current: Position[] | null = null;
+  for (let i = 0; i < line.length - 1; i++) {
+    const segment = clipSegment(line[i], line[i + 1], box);
+    if (!segment) {
+      current = null;
+      continue;
+    }
+    // 前の線分の終点から続いている場合は同じ線に追加する
+    if (current && segment[0] === line[i] && current[current.length - 1] === line[i]) {
+      current.push(segment[1]);
+    } else {
+      current = [segment[0], segment[1]];
+      parts.push(current);
+    }
+    if (segment[1] !== line[i + 1]) current = null;
+  }
+  return parts;
+}
+
+/**
+ * リングを矩形でクリップします（Sutherland-Hodgman法）
+ * 凹んだリングでは矩形の辺に沿った幅0の部分が残る場合がありますが、塗りつぶしの結果は変わりません
+ * @returns クリップしたリング（矩形と重ならない場合はnull）
+ */
+function clipRingByBox(ring: Position[], box: BBox): Position[] | null {
+  const crossX = (a: Position, b: Position, x: number): Position => [x, a[1] + (b[1] - a[1]) * (x - a[0]) / (b[0] - a[0])];
+  const crossY = (a: Position, b: Position, y: number): Position => [a[0] + (b[0] - a[0]) * (y - a[1]) / (b[1] - a[1]), y];
+  const edges: [(point: Position) => boolean, (a: Position, b: Position) => Position][] = [
+    [point => point[0] >= box.minX, (a, b) => crossX(a, b, box.minX)],
+    [point => point[0] <= box.maxX, (a, b) => crossX(a, b, box.maxX)],
+    [point => point[1] >= box.minY, (a, b) => crossY(a, b, box.minY)],
+    [point => point[1] <= box.maxY, (a, b) => crossY(a, b, box.maxY)]
+  ];
+
+  let points = openRing(ring);
+  for (const [inside, intersect] of edges) {
+    const output: Position[] = [];
+    points.forEach((current, i) => {
+      const previous = points[(i + points.length - 1) % points.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current));
+      }
+    });
+    points = output;
+    if (points.length === 0) return null;
+  }
+
+  const clipped = closeRing(removeDuplicates(points));
+  return clipped.length >= 4 && getRingArea(clipped) !== 0 ? clipped : null;
+}
+
+/**
+ * GeoJSONを矩形の範囲でクリップします
+ *
+ * ポイントは範囲内のもの、線とポリゴンは範囲内の部分を残し、範囲外になったフィーチャーは除きます。
+ * 経緯度の矩形が日付変更線をまたぐ場合（minX > maxX）は東西の両端の範囲でクリップします。
+ *
+ * @param data - GeoJSONデータ
+ * @param bbox - クリップする範囲
+ * @returns クリップしたFeatureCollection
+ *
+ * @example
+ * ```typescript
+ * const kanto = clipByBbox(prefectures, { minX: 138.4, minY: 34.8, maxX: 140.9, maxY: 37.2 });
+ * ```
+ */
+export function clipByBbox(data: FeatureCollection | Feature[], bbox: BBox): FeatureCollection {
+  const boxes = crossesAntimeridian(bbox) ? [{ ...bbox, maxX: 180 }, { ...bbox, minX: -180 }] : [bbox];
+  const contains = (point: Position, box: BBox) =>
+    point[0] >= box.minX && point[0] <= box.maxX && point[1] >= box.minY && point[1] <= box.maxY;
+
+  return mapFeatures(data, geometry => transformGeometry(geometry, {
+    points: points => points.filter(point => boxes.some(box => contains(point, box))),
+    lines: lines => boxes.flatMap(box => lines.flatMap(line => clipLineByBox(line, box))),
+    polygons: polygons => boxes.flatMap(box => polygons.flatMap(polygon => {
+      const exterior = clipRingByBox(polygon[0], box);
+      if (!exterior) return [];
+      const holes = polygon.slice(1)
+        .map(hole => clipRingByBox(hole, box))
+        .filter((hole): hole is Position[] => hole !== null);
+      return [[exterior, ...holes]];
+    }))
+  }));
+}
+
+/**
+ * 2つの線分の交点の位置を求めます
+ * @returns 線分a-b上の位置tと線分c-d上の位置u（平行な場合はnull）
+ */
+function intersectSegments(a: Position, b: Position, c: Position, d: Position): { t: number; u: number } | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) return null;
+
+  const qx = c[0] - a[0];
+  const qy = c[1] - a[1];
+  return {
+    t: (qx * sy - qy * sx) / denominator,
+    u: (qx * ry - qy * rx) / denominator
+  };
+}
+
+/**
+ * リングから双方向の連結リストを作成します
+ * @returns 元の頂点の配列（連結リストの順）
+ */
+function createVertexList(ring: Position[]): ClipVertex[] {
+  const vertices = openRing(ring).map(point => ({
+    point,
+    intersection: false,
+    entry: false,
+    visited: false,
+    alpha: 0
+  } as ClipVertex));
+  vertices.forEach((vertex, i) => {
+    vertex.next = vertices[(i + 1) % vertices.length];
+    vertex.prev = vertices[(i + vertices.length - 1) % vertices.length];
+  });
+  return vertices;
+}
+
+/**
+ * 交点を元の頂点の間に辺上の位置の順で挿入します
+ */
+function insertVertex(vertex: ClipVertex, start: ClipVertex, end: ClipVertex): void {
+  let current = start.next;
+  while (current !== end && current.alpha < vertex.alpha) {
+    current = current.next;
+  }
+  vertex.next = current;
+  vertex.prev = current.prev;
+  current.prev.next = vertex;
+  current.prev = vertex;
+}
+
+/**
+ * 2つのリングの交差を求めます（Greiner-Hormann法）
+ * @param subject - 対象のリング
+ * @param clip - クリップするリング
+ * @param mode - 'intersection'は共通部分、'difference'はsubjectからclipを除いた部分
+ * @returns 結果のリング（境界が交差しない場合はnull、退化した配置の場合はDEGENERATE）
+ */
+function tryGreinerHormann(
+  subject: Position[],
+  clip: Position[],
+  mode: 'intersection' | 'difference'
+): Position[][] | null | typeof DEGENERATE {
+  const subjectVertices = createVertexList(subject);
+  const clipVertices = createVertexList(clip);
+  if (subjectVertices.length < 3 || clipVertices.length < 3) return null;
+
+  let found = false;
+  for (let i = 0; i < subjectVertices.length; i++) {
+    const s0 = subjectVertices[i];
+    const s1 = subjectVertices[(i + 1) % subjectVertices.length];
+    for (let j = 0; j < clipVertices.length; j++) {
+      const c0 = clipVertices[j];
+      const c1 = clipVertices[(j + 1) % clipVertices.length];
+      const hit = intersectSegments(s0.point, s1.point, c0.point, c1.point);
+
+      if (!hit) {
+        // 同一直線上で重なる辺は退化した配置として扱う
+        const cross = (c0.point[0] - s0.point[0]) * (s1.point[1] - s0.point[1]) - (c0.point[1] - s0.point[1]) * (s1.point[0] - s0.point[0]);
+        if (cross === 0) {
+          const dx = s1.point[0] - s0.point[0];
+          const dy = s1.point[1] - s0.point[1];
+          const project = (p: Position) => (p[0] - s0.point[0]) * dx + (p[1] - s0.point[1]) * dy;
+          const length = dx * dx + dy * dy;
+          const [p0, p1] = [project(c0.point), project(c1.point)].sort((a, b) => a - b);
+          if (p1 >= 0 && p0 <= length) return DEGENERATE;
+        }
+        continue;
+      }
+
+      const { t, u } = hit;
+      if (t < -EPSILON || t > 1 + EPSILON || u < -EPSILON || u > 1 + EPSILON) continue;
+      if (t <= EPSILON || t >= 1 - EPSILON || u <= EPSILON || u >= 1 - EPSILON) return DEGENERATE;
+
+      const point = lerp(s0.point, s1.point, t);
+      const subjectVertex = { point, intersection: true, entry: false, visited: false, alpha: t } as ClipVertex;
+      const clipVertex = { point, intersection: true, entry: false, visited: false, alpha: u } as ClipVertex;
+      subjectVertex.neighbor = clipVertex;
+      clipVertex.neighbor = subjectVertex;
+      insertVertex(subjectVertex, s0, s1);
+      insertVertex(clipVertex, c0, c1);
+      found = true;
+    }
+  }
+  if (!found) return null;
+
+  // 交点ごとに相手のポリゴンに入るか出るかを交互に設定する（差分ではsubjectの向きを反転）
+  const markEntries = (first: ClipVertex, forwards: boolean, other: Position[]) => {
+    let entry = forwards !== isPointInRing(first.point, other);
+    let vertex = first;
+    do {
+      if (vertex.intersection) {
+        vertex.entry = entry;
+        entry = !entry;
+      }
+      vertex = vertex.next;
+    } while (vertex !== first);
+  };
+  markEntries(subjectVertices[0], mode === 'intersection', clip);
+  markEntries(clipVertices[0], true, subject);
+
+  const rings: Position[][] = [];
+  const limit = (subjectVertices.length + clipVertices.length) * 4;
+  for (;;) {
+    let start: ClipVertex | undefined;
+    let vertex = subjectVertices[0];
+    do {
+      if (vertex.intersection && !vertex.visited) {
+        start = vertex;
+        break;
+      }
+      vertex = vertex.next;
+    } while (vertex !== subjectVertices[0]);
+    if (!start) break;
+
+    const ring: Position[] = [start.point];
+    let current = start;
+    let steps = 0;
+    do {
+      current.visited = true;
+      current.neighbor!.visited = true;
+      const forwards = current.entry;
+      do {
+        current = forwards ? current.next : current.prev;
+        ring.push(current.point);
+        if (++steps > limit) return DEGENERATE;
+      } while (!current.intersection);
+      current = current.neighbor!;
+    } while (!current.visited);
+
+    const closed = closeRing(removeDuplicates(ring));
+    if (closed.length >= 4 && getRingArea(closed) !== 0) rings.push(closed);
+  }
+
+  return rings;
+}
+
+/**
+ * 2つのリングの交差を求めます
+ * 頂点が相手の辺上にあるなどの退化した配置では、clipを微小に平行移動して再計算します
+ * @returns 結果のリング（境界が交差しない場合はnull）
+ */
+function greinerHormann(subject: Position[], clip: Position[], mode: 'intersection' | 'difference'): Position[][] | null {
+  const extent = Math.max(...[...subject, ...clip].map(point => Math.max(Math.abs(point[0]), Math.abs(point[1]))), 1);
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const offset = extent * 1e-10 * attempt;
+    const shifted = attempt === 0 ? clip : clip.map(point => [point[0] + offset, point[1] + offset * Math.SQRT1_2]);
+    const result = tryGreinerHormann(subject, shifted, mode);
+    if (result !== DEGENERATE) return result;
+  }
+  return null;
+}
+
+/**
+ * 2つのリングの共通部分を求めます
+ */
+function intersectRings(subject: Position[], clip: Position[]): Position[][] {
+  const result = greinerHormann(subject, clip, 'intersection');
+  if (result) return result;
+
+  // 境界が交差しない場合は内包関係で判定する
+  if (openRing(subject).every(point => isPointInRing(point, clip))) return [subject];
+  if (openRing(clip).every(point => isPointInRing(point, subject))) return [clip];
+  return [];
+}
+
+/**
+ * ポリゴンから穴の部分を除きます
+ * @returns 結果のポリゴンの配列
+ */
+function subtractHole(polygon: Position[][], hole: Position[]): Position[][][] {
+  const [exterior, ...holes] = polygon;
+  const result = greinerHormann(exterior, hole, 'difference');
+
+  if (!result) {
+    if (openRing(hole).every(point => isPointInRing(point, exterior))) return [[exterior, ...holes, hole]];
+    if (openRing(exterior).every(point => isPointInRing(point, hole))) return [];
+    return [polygon];
+  }
+
+  // 外周が分割された場合は、既存の穴を含む外周に振り分ける
+  return result.map(ring => [ring, ...holes.filter(existing => isPointInRing(existing[0], ring))]);
+}
+
+/**
+ * 線をポリゴンでクリップします
+ * @returns ポリゴン内の線の配列
+ */
+function clipLineByPolygons(line: Position[], polygons: Position[][][]): Position[][] {
+  const rings = polygons.flat();
+  const parts: Position[][] = [];
+  let current: Position[] | null = null;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i];
+    const b = line[i + 1];
+
+    // 境界との交点で線分を分割し、各部分の中点で内外を判定する
+    const positions = [0, 1];
+    rings.forEach(ring => {
+      for (let j = 0; j < ring.length - 1; j++) {
+        const hit = intersectSegments(a, b, ring[j], ring[j + 1]);
+        if (hit && hit.t > 0 && hit.t < 1 && hit.u >= 0 && hit.u <= 1) positions.push(hit.t);
+      }
+    });
+    positions.sort((x, y) => x - y);
+
+    for (let k = 0; k < positions.length - 1; k++) {
+      if (positions[k + 1] === positions[k]) continue;
+      const start = positions[k] === 0 ? a : lerp(a, b, positions[k]);
+      const end = positions[k + 1] === 1 ? b : lerp(a, b, positions[k + 1]);
+      const middle = lerp(a, b, (positions[k] + positions[k + 1]) / 2);
+
+      if (!polygons.some(polygon => isPointInPolygon(middle, polygon))) {
+        current = null;
+      } else if (current && samePoint(current[current.length - 1], start)) {
+        current.push(end);
+      } else {
+        current = [start, end];
+        parts.push(current);
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * GeoJSONをポリゴンでクリップします
+ *
+ * ポイントはポリゴン内のもの、線とポリゴンはポリゴン内の部分を残し、範囲外になったフィーチャーは除きます。
+ * ポリゴン同士のクリップはGreiner-Hormann法で求め、凹んだポリゴンや穴のあるポリゴンにも対応します。
+ * 結果のリングの向きは元のポリゴンの外周の向き（d3-geoの時計回り、またはRFC 7946の反時計回り）に揃えます。
+ *
+ * @param data - GeoJSONデータ
+ * @param clip - クリップするポリゴン
+ * @returns クリップしたFeatureCollection
+ *
+ * @example
+ * ```typescript
+ * const inTokyo = clipByPolygon(stations, tokyo);
+ * ```
+ */
+export function clipByPolygon(
+  data: FeatureCollection | Feature[],
+  clip: Polygon | MultiPolygon | Feature<Polygon | MultiPolygon>
+): FeatureCollection {
+  const clipGeometry = clip.type === 'Feature' ? clip.geometry : clip;
+  const clipPolygons = (clipGeometry.type === 'Polygon' ? [clipGeometry.coordinates] : clipGeometry.coordinates)
+    .filter(polygon => polygon.length > 0 && polygon[0].length >= 4);
+
+  return mapFeatures(data, geometry => transformGeometry(geometry, {
+    points: points => points.filter(point => clipPolygons.some(polygon => isPointInPolygon(point, polygon))),
+    lines: lines => lines.flatMap(line => clipLineByPolygons(line, clipPolygons)),
+    polygons: polygons => polygons.flatMap(polygon => {
+      if (polygon.length === 0 || polygon[0].length < 4) return [];
+      const clockwise = isClockwise(polygon[0]);
+
+      return clipPolygons.flatMap(clipPolygon => {
+        let pieces = intersectRings(polygon[0], clipPolygon[0]).map(ring => [ring]);
+        [...polygon.slice(1), ...clipPolygon.slice(1)].forEach(hole => {
+          pieces = pieces.flatMap(piece => subtractHole(piece, hole));
+        });
+        return pieces.map(piece => orientPolygon(piece, clockwise));
+      });
+    })
+  }));
+}
+
+/**
+ * ポリゴンを境界の辺を打ち消し合わせて結合します
+ *
+ * 外周を反時計回り、穴を時計回りに揃えた有向辺を集め、逆向きの辺（隣接するポリゴンとの共有境界）を除いて
+ * 残った辺をつなぎ直します。
+ *
+ * @param polygons - 結合するポリゴン
+ * @returns 結合したポリゴンの配列（リングの向きは最初のポリゴンの外周の向きに揃えます）
+ */
+function mergePolygons(polygons: Position[][][]): Position[][][] {
+  const valid = polygons.filter(polygon => polygon.length > 0 && polygon[0].length >= 4);
+  if (valid.length === 0) return [];
+  const clockwise = isClockwise(valid[0][0]);
+
+  const edges = new Map<string, { from: Position; to: Position; count: number }>();
+  valid.forEach(polygon => polygon.forEach((ring, index) => {
+    const oriented = removeDuplicates(orientRing(ring, index === 0));
+    for (let i = 0; i < oriented.length - 1; i++) {
+      const fromKey = pointKey(oriented[i]);
+      const toKey = pointKey(oriented[i + 1]);
+      const reverse = edges.get(`${toKey}>${fromKey}`);
+      if (reverse && reverse.count > 0) {
+        reverse.count--;
+        continue;
+      }
+      const forward = edges.get(`${fromKey}>${toKey}`);
+      if (forward) {
+        forward.count++;
+      } else {
+        edges.set(`${fromKey}>${toKey}`, { from: oriented[i], to: oriented[i + 1], count: 1 });
+      }
+    }
+  }));
+
+  const outgoing = new Map<string, { from: Position; to: Position }[]>();
+  edges.forEach(edge => {
+    for (let i = 0; i < edge.count; i++) {
+      const key = pointKey(edge.from);
+      if (!outgoing.has(key)) outgoing.set(key, []);
+      outgoing.get(key)!.push(edge);
+    }
+  });
+
+  // 残った辺をたどってリングを作る
+  const rings: Position[][] = [];
+  outgoing.forEach((list, startKey) => {
+    while (list.length > 0) {
+      let edge = list.pop()!;
+      const ring: Position[] = [edge.from];
+      while (pointKey(edge.to) !== startKey) {
+        ring.push(edge.to);
+        const next = outgoing.get(pointKey(edge.to));
+        if (!next || next.length === 0) break;
+        edge = next.pop()!;
+      }
+      const closed = closeRing(ring);
+      if (closed.length >= 4 && getRingArea(closed) !== 0) rings.push(closed);
+    }
+  });
+
+  // 反時計回りのリングを外周、時計回りのリングを最も小さい外周の穴とする
+  const exteriors = rings.filter(ring => getRingArea(ring) > 0).map(ring => [ring]);
+  rings.filter(ring => getRingArea(ring) < 0).forEach(hole => {
+    const container = exteriors
+      .filter(([exterior]) => hole.some(point => isPointInRing(point, exterior)))
+      .sort((a, b) => getRingArea(a[0]) - getRingArea(b[0]))[0];
+    container?.push(hole);
+  });
+
+  return exteriors.map(polygon => orientPolygon(polygon, clockwise));
+}
+
+/**
+ * フィーチャーをキーごとに1つのフィーチャーにまとめます（ディゾルブ）
+ *
+ * ポリゴンは隣接するポリゴンとの共有境界（頂点が一致している部分）を除いて結合し、
+ * 線とポイントはそれぞれMultiLineString・MultiPointにまとめます。
+ * 異なる次元のジオメトリを含む場合はGeometryCollectionになります。
+ * 重なり合うポリゴンや、頂点が一致しない境界は結合されずに残ります。
+ *
+ * @param data - GeoJSONデータ
+ * @param key - まとめるキー（プロパティ名、またはキーを返す関数）
+ * @returns キーごとのフィーチャー（プロパティはキーの値のみで、プロパティ名を指定した場合はその名前、関数の場合は'key'）
+ *
+ * @example
+ * ```typescript
+ * // 市区町村を都道府県ごとにまとめる
+ * const prefectures = dissolve(municipalities, 'prefCode');
+ * ```
+ */
+export function dissolve(data: FeatureCollection | Feature[], key: DissolveKey): FeatureCollection {
+  const collection = normalizeData(data);
+  const accessor = typeof key === 'function' ? key : (feature: Feature) => feature.properties?.[key];
+  const property = typeof key === 'string' ? key : 'key';
+
+  const groups = new Map<string | number | null, Geometry[]>();
+  collection.features.forEach((feature, index) => {
+    const value = accessor(feature, index) ?? null;
+    if (!groups.has(value)) groups.set(value, []);
+    if (feature.geometry) groups.get(value)!.push(feature.geometry);
+  });
+
+  const features: Feature[] = [];
+  groups.forEach((geometries, value) => {
+    const parts = geometries.reduce((result, geometry) => collectParts(geometry, result), { points: [], lines: [], polygons: [] } as GeometryParts);
+    const dissolved: Geometry[] = [];
+
+    const polygons = toPolygonGeometry(mergePolygons(parts.polygons));
+    if (polygons) dissolved.push(polygons);
+    if (parts.lines.length > 0) {
+      dissolved.push(parts.lines.length === 1
+        ? { type: 'LineString', coordinates: parts.lines[0] }
+        : { type: 'MultiLineString', coordinates: parts.lines });
+    }
+    if (parts.points.length > 0) {
+      dissolved.push(parts.points.length === 1
+        ? { type: 'Point', coordinates: parts.points[0] }
+        : { type: 'MultiPoint', coordinates: parts.points });
+    }
+
+    features.push({
+      type: 'Feature',
+      properties: { [property]: value },
+      geometry: dissolved.length === 1 ? dissolved[0] : { type: 'GeometryCollection', geometries: dissolved }
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * 中心の周りの円弧の頂点を求めます（始点と終点は含みません）
+ * @param center - 中心
+ * @param from - 円弧の始点
+ * @param sweep - 回転角（ラジアン、正の値で反時計回り）
+ * @param segments - 四分円あたりの分割数
+ */
+function createArc(center: Position, from: Position, sweep: number, segments: number): Position[] {
+  const radius = Math.hypot(from[0] - center[0], from[1] - center[1]);
+  const start = Math.atan2(from[1] - center[1], from[0] - center[0]);
+  const count = Math.ceil(Math.abs(sweep) / (Math.PI / 2 / segments));
+  const points: Position[] = [];
+  for (let i = 1; i < count; i++) {
+    const angle = start + sweep * i / count;
+    points.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+  }
+  return points;
+}
+
+/**
+ * 線を進行方向の右側にずらした線を求めます（distanceが負の場合は左側）
+ * 外側の角は円弧でつなぎ、内側の角はずらした線分の交点でつなぎます
+ * @param points - 連続する同じ座標を含まない頂点の配列
+ * @param distance - ずらす距離
+ * @param segments - 四分円あたりの分割数
+ * @param closed - 閉じたリング（最後の頂点から最初の頂点への辺を含む）か
+ */
+function offsetPath(points: Position[], distance: number, segments: number, closed: boolean): Position[] {
+  const n = points.length;
+  const count = closed ? n : n - 1;
+  const offsets: [Position, Position][] = [];
+  for (let i = 0; i < count; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    const nx = (b[1] - a[1]) / length * distance;
+    const ny = -(b[0] - a[0]) / length * distance;
+    offsets.push([[a[0] + nx, a[1] + ny], [b[0] + nx, b[1] + ny]]);
+  }
+
+  const result: Position[] = [];
+  const join = (previous: [Position, Position], next: [Position, Position], vertex: Position) => {
+    const d1 = [previous[1][0] - previous[0][0], previous[1][1] - previous[0][1]];
+    const d2 = [next[1][0] - next[0][0], next[1][1] - next[0][1]];
+    const cross = d1[0] * d2[1] - d1[1] * d2[0];
+    const dot = d1[0] * d2[0] + d1[1] * d2[1];
+
+    if (cross === 0 && dot > 0) {
+      result.push(previous[1]);
+    } else if (cross * distance > 0 || cross === 0) {
+      // 外側の角（折り返しを含む）は円弧でつなぐ
+      let sweep = Math.atan2(next[0][1] - vertex[1], next[0][0] - vertex[0]) - Math.atan2(previous[1][1] - vertex[1], previous[1][0] - vertex[0]);
+      if (cross === 0) {
+        sweep = Math.PI * Math.sign(distance);
+      } else {
+        sweep = Math.atan2(Math.sin(sweep), Math.cos(sweep));
+      }
+      result.push(previous[1], ...createArc(vertex, previous[1], sweep, segments), next[0]);
+    } else {
+      // 内側の角は、ずらした線分同士が交わる場合はその交点、交わらない場合は元の頂点を経由する
+      const hit = intersectSegments(previous[0], previous[1], next[0], next[1]);
+      if (hit && hit.t >= 0 && hit.t <= 1 && hit.u >= 0 && hit.u <= 1) {
+        result.push(lerp(previous[0], previous[1], hit.t));
+      } else {
+        result.push(previous[1], vertex, next[0]);
+      }
+    }
+  };
+
+  if (closed) {
+    for (let i = 0; i < n; i++) {
+      join(offsets[(i + n - 1) % n], offsets[i], points[i]);
+    }
+  } else {
+    result.push(offsets[0][0]);
+    for (let i = 1; i < count; i++) {
+      join(offsets[i - 1], offsets[i], points[i]);
+    }
+    result.push(offsets[count - 1][1]);
+  }
+  return result;
+}
+
+/**
+ * 円を表すリングを作成します（反時計回り）
+ */
+function createCircle(center: Position, radius: number, segments: number): Position[] {
+  const count = segments * 4;
+  const ring: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = 2 * Math.PI * i / count;
+    ring.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+  }
+  return closeRing(ring);
+}
+
+/**
+ * 元の線からの距離がバッファの距離に満たない頂点を除きます
+ * 内側の角や縮小でつぶれた部分に生じる、裏返った頂点を取り除くために使用します
+ */
+function removeInnerPoints(points: Position[], path: Position[], distance: number): Position[] {
+  const limit = Math.abs(distance) * (1 - 1e-6);
+  return points.filter(point => {
+    for (let i = 0; i < path.length - 1; i++) {
+      if (getSegmentDistance(point, path[i], path[i + 1]) < limit) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * 線のバッファを作成します（反時計回り、両端は半円）
+ */
+function bufferLine(line: Position[], distance: number, segments: number): Position[] {
+  const points = removeDuplicates(line);
+  if (points.length === 1) return createCircle(points[0], distance, segments);
+
+  const right = offsetPath(points, distance, segments, false);
+  const left = offsetPath([...points].reverse(), distance, segments, false);
+  return closeRing(removeInnerPoints([
+    ...right,
+    ...createArc(points[points.length - 1], right[right.length - 1], Math.PI, segments),
+    ...left,
+    ...createArc(points[0], left[left.length - 1], Math.PI, segments)
+  ], points, distance));
+}
+
+/**
+ * ポリゴンのバッファを作成します
+ * 縮小でつぶれた外周のポリゴンはnull、つぶれた穴は除きます
+ */
+function bufferPolygon(polygon: Position[][], distance: number, segments: number): Position[][] | null {
+  const result: Position[][] = [];
+  for (let index = 0; index < polygon.length; index++) {
+    // 外周を反時計回り、穴を時計回りにすると、右側が常にポリゴンの外側になる
+    const oriented = orientRing(polygon[index], index === 0);
+    const points = removeDuplicates(openRing(oriented));
+    if (points.length < 3) {
+      if (index === 0) return null;
+      continue;
+    }
+
+    const offset = closeRing(removeInnerPoints(offsetPath(points, distance, segments, true), closeRing(points), distance));
+    const area = offset.length >= 4 ? getRingArea(offset) : 0;
+    if (area === 0 || Math.sign(area) !== Math.sign(getRingArea(oriented))) {
+      if (index === 0) return null;
+      continue;
+    }
+    result.push(offset);
+  }
+  return result;
+}
+
+/**
+ * GeoJSONの周囲に指定した距離のバッファ（ポリゴン）を作成します
+ *
+ * 座標平面上の単純なバッファで、距離は座標の単位です（経緯度のデータでは度）。
+ * ポイントは円、線は両端を半円にした帯、ポリゴンは外周を外側に広げ穴を縮めた形になります。
+ * 負の距離はポリゴンを縮小し、つぶれたポリゴンや穴は除きます。
+ * 同じフィーチャー内の重なり合う部分は結合されず、凹んだ形状に対して大きな距離を指定すると
+ * リングが自己交差する場合があります。
+ *
+ * @param data - GeoJSONデータ
+ * @param distance - バッファの距離
+ * @param options - バッファのオプション
+ * @returns PolygonまたはMultiPolygonのFeatureCollection（バッファが空になったフィーチャーは除く）
+ * @throws distanceが有限の数値でない場合、またはsegmentsが1未満の場合
+ *
+ * @example
+ * ```typescript
+ * const zones = buffer(stations, 0.01, { segments: 16 });
+ * ```
+ */
+export function buffer(data: FeatureCollection | Feature[], distance: number, options: BufferOptions = {}): FeatureCollection {
+  const segments = options.segments ?? 8;
+  if (!isFinite(distance)) {
+    throw new Error(`distanceは有限の数値で指定してください: ${distance}`);
+  }
+  if (!(segments >= 1)) {
+    throw new Error(`segmentsは1以上の値で指定してください: ${segments}`);
+  }
+
+  return mapFeatures(data, geometry => {
+    const parts = collectParts(geometry);
+    // 元のポリゴンの外周の向きに揃える（ポリゴンを含まない場合はd3-geoの規約の時計回り）
+    const clockwise = parts.polygons.length > 0 && parts.polygons[0].length > 0 ? isClockwise(parts.polygons[0][0]) : true;
+    const polygons: Position[][][] = [];
+
+    if (distance > 0) {
+      parts.points.forEach(point => polygons.push([createCircle(point, distance, segments)]));
+      parts.lines.forEach(line => {
+        if (line.length > 0) polygons.push([bufferLine(line, distance, segments)]);
+      });
+    }
+    parts.polygons.forEach(polygon => {
+      const buffered = polygon.length > 0 ? bufferPolygon(polygon, distance, segments) : null;
+      if (buffered) polygons.push(buffered);
+    });
+
+    return toPolygonGeometry(polygons.map(polygon => orientPolygon(polygon, clockwise)));
+  });
+}
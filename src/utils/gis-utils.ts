@@ -4,6 +4,8 @@
  */
 
 import type { GeoJSON, Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import type { PointPlacement } from '../types';
+import { collectParts, getRingArea, getPolygonArea, isPointInPolygon } from './planar-utils';
 
 /**
  * Bounding Box（境界ボックス）の型定義
@@ -76,8 +78,67 @@ function extractCoordinates(geometry: Geometry): Position[] {
   return coords;
 }
 
+/**
+ * 経度を-180〜180度の範囲に正規化するヘルパー関数（180度は180度のまま）
+ */
+function normalizeLongitude(longitude: number): number {
+  const normalized = ((longitude + 180) % 360 + 360) % 360 - 180;
+  return normalized === -180 && longitude > 0 ? 180 : normalized;
+}
+
+/**
+ * 経度の集合を含む最小の経度範囲を求める
+ *
+ * 経度を円周上に並べ、最も大きな隙間の反対側を範囲とします。
+ * 範囲が日付変更線をまたぐ場合はwest > eastになります。
+ * -180〜180度の範囲外の値を含む場合は経緯度以外の座標とみなし、単純な最小値と最大値を返します。
+ *
+ * @param longitudes - 経度の配列
+ * @returns [west, east]（空の場合は[0, 0]）
+ *
+ * @example
+ * ```typescript
+ * getLongitudeExtent([177, 179, -179]); // [177, -179]
+ * ```
+ */
+export function getLongitudeExtent(longitudes: number[]): [number, number] {
+  if (longitudes.length === 0) {
+    return [0, 0];
+  }
+
+  const sorted = Array.from(new Set(longitudes)).sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min < -180 || max > 180) {
+    return [min, max];
+  }
+
+  // 東端から日付変更線を越えて西端に戻る隙間より大きな隙間があれば、その反対側を範囲とする
+  let gap = min + 360 - max;
+  let west = min;
+  let east = max;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > gap) {
+      gap = sorted[i] - sorted[i - 1];
+      west = sorted[i];
+      east = sorted[i - 1];
+    }
+  }
+  return [west, east];
+}
+
+/**
+ * Bounding Boxが日付変更線をまたぐか（minX > maxX）を判定する
+ * @param bbox - Bounding Box
+ * @returns 日付変更線をまたぐ場合true
+ */
+export function crossesAntimeridian(bbox: BBox): boolean {
+  return bbox.minX > bbox.maxX;
+}
+
 /**
  * GeoJSONからBounding Boxを取得する
+ * 経緯度のデータでは経度方向に最小となる範囲を返し、日付変更線をまたぐ場合はminX > maxXになります
  * @param geojson - GeoJSONオブジェクト
  * @returns Bounding Box
  */
@@ -98,12 +159,15 @@ export function getBbox(geojson: GeoJSON): BBox {
     return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
   }
   
-  const [minX, minY, maxX, maxY] = getMinMax(allCoords);
+  const [, minY, , maxY] = getMinMax(allCoords);
+  const [minX, maxX] = getLongitudeExtent(allCoords.map(([x]) => x));
   return { minX, minY, maxX, maxY };
 }
 
 /**
  * GeoJSONから中心点を取得する（単純な平均計算）
+ * 全ての頂点（穴やMultiPolygonの各リングを含む）を平均するため、面積の重心とは異なります。
+ * 面積で重み付けした重心はgetPlanarCentroid/getSphericalCentroidを使用してください
  * @param geojson - GeoJSONオブジェクト
  * @returns 中心点の座標
  */
@@ -136,6 +200,431 @@ export function getCentroid(geojson: GeoJSON): Centroid {
   };
 }
 
+/**
+ * 球面計算のオプション
+ */
+export interface SphericalOptions {
+  /** 球の半径（メートル、デフォルト: 6371008.8 = 地球の平均半径） */
+  radius?: number;
+}
+
+/**
+ * ラベル位置計算のオプション
+ */
+export interface LabelPointOptions {
+  /** 探索を打ち切る精度（座標の単位、デフォルト: 外接矩形の長辺の1/1000） */
+  precision?: number;
+}
+
+/** 地球の平均半径（メートル） */
+const EARTH_RADIUS = 6371008.8;
+
+/** 度からラジアンへの変換係数 */
+const RADIANS = Math.PI / 180;
+
+/**
+ * リングの重心のモーメント（重心×符号付き面積）を求めるヘルパー関数（反時計回りが正）
+ */
+function getRingMoment(ring: Position[]): { x: number; y: number } {
+  let x = 0, y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j];
+    const [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    x += (x0 + x1) * cross / 6;
+    y += (y0 + y1) * cross / 6;
+  }
+  return { x, y };
+}
+
+/**
+ * ポリゴンの経度を外周の最初の頂点から連続するように展開するヘルパー関数
+ * 日付変更線をまたぐポリゴンを経緯度平面で扱えるようにします（経度が180度を超える場合があります）
+ * -180〜180度の範囲外の値を含む場合は経緯度以外の座標とみなし、そのまま返します
+ */
+function unwrapPolygon(polygon: Position[][]): Position[][] {
+  if (polygon.some(ring => ring.some(([lon]) => lon < -180 || lon > 180))) return polygon;
+
+  const origin = polygon[0]?.[0]?.[0] ?? 0;
+  return polygon.map(ring => {
+    let previous = origin;
+    return ring.map(([lon, ...rest]) => {
+      previous += normalizeLongitude(lon - previous);
+      return [previous, ...rest];
+    });
+  });
+}
+
+/**
+ * GeoJSONの面積で重み付けした重心を経緯度平面で求める
+ *
+ * ポリゴンは穴を除いた面積で重み付けし、ポリゴンを含まない場合は線の長さ、
+ * 線も含まない場合はポイントの平均を返します。リングの向きは問いません。
+ *
+ * @param geojson - GeoJSONオブジェクト
+ * @returns 重心の座標（ジオメトリがない場合は{ x: 0, y: 0 }）
+ */
+export function getPlanarCentroid(geojson: GeoJSON): Centroid {
+  const { polygons, lines } = collectParts(geojson);
+
+  let area = 0, sumX = 0, sumY = 0;
+  polygons.forEach(polygon => polygon.forEach((ring, index) => {
+    const ringArea = getRingArea(ring);
+    if (ringArea === 0) return;
+    const moment = getRingMoment(ring);
+    // 外周は正、穴は負の重みとする
+    const weight = (index === 0 ? 1 : -1) * Math.abs(ringArea);
+    area += weight;
+    sumX += weight * moment.x / ringArea;
+    sumY += weight * moment.y / ringArea;
+  }));
+  if (area > 0) {
+    return { x: sumX / area, y: sumY / area };
+  }
+
+  // 面積を持たない場合は線（ポリゴンのリングを含む）の長さで重み付け
+  let length = 0;
+  sumX = 0;
+  sumY = 0;
+  [...lines, ...polygons.flat()].forEach(line => {
+    for (let i = 0; i < line.length - 1; i++) {
+      const [x0, y0] = line[i];
+      const [x1, y1] = line[i + 1];
+      const segment = Math.hypot(x1 - x0, y1 - y0);
+      length += segment;
+      sumX += segment * (x0 + x1) / 2;
+      sumY += segment * (y0 + y1) / 2;
+    }
+  });
+  if (length > 0) {
+    return { x: sumX / length, y: sumY / length };
+  }
+
+  return getCentroid(geojson);
+}
+
+/**
+ * 経緯度を単位球上のベクトルに変換するヘルパー関数
+ */
+function toVector([lon, lat]: Position): [number, number, number] {
+  const lambda = lon * RADIANS;
+  const phi = lat * RADIANS;
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+/**
+ * GeoJSONの面積で重み付けした重心を球面上で求める
+ *
+ * ポリゴンは球面上の面積で、ポリゴンを含まない場合は大円距離で重み付けし、
+ * 線も含まない場合はポイントの単位ベクトルの平均の方向を返します。
+ * 外周と穴はリングの向きによらず、日付変更線をまたぐ経度を展開した経緯度平面での向きから判定します。
+ * 重心が定まらない場合（対蹠点に対称な形状など）は経緯度平面での重心を返します。
+ *
+ * @param geojson - GeoJSONオブジェクト
+ * @returns 重心の経緯度
+ */
+export function getSphericalCentroid(geojson: GeoJSON): Centroid {
+  const { polygons, lines, points } = collectParts(geojson);
+  const sum: [number, number, number] = [0, 0, 0];
+  const add = (vector: number[], weight: number) => {
+    sum[0] += vector[0] * weight;
+    sum[1] += vector[1] * weight;
+    sum[2] += vector[2] * weight;
+  };
+  const magnitude = () => Math.hypot(sum[0], sum[1], sum[2]);
+
+  // 辺ごとの a × b（大円弧に沿った r × dr の積分）の和は、反時計回りのリングで内部の重心方向を向く
+  polygons.forEach(polygon => unwrapPolygon(polygon).forEach((ring, index) => {
+    const orientation = (index === 0 ? 1 : -1) * (getRingArea(ring) >= 0 ? 1 : -1);
+    for (let i = 0; i < ring.length - 1; i++) {
+      const a = toVector(ring[i]);
+      const b = toVector(ring[i + 1]);
+      const cross = [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+      const m = Math.hypot(cross[0], cross[1], cross[2]);
+      if (m === 0) continue;
+      const angle = Math.atan2(m, a[0] * b[0] + a[1] * b[1] + a[2] * b[2]);
+      add(cross, orientation * angle / m);
+    }
+  }));
+
+  if (magnitude() < 1e-12) {
+    sum.fill(0);
+    [...lines, ...polygons.flat()].forEach(line => {
+      for (let i = 0; i < line.length - 1; i++) {
+        const a = toVector(line[i]);
+        const b = toVector(line[i + 1]);
+        const middle = [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+        const m = Math.hypot(middle[0], middle[1], middle[2]);
+        if (m === 0) continue;
+        const angle = Math.atan2(
+          Math.hypot(a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]),
+          a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+        );
+        add(middle, angle / m);
+      }
+    });
+  }
+
+  if (magnitude() < 1e-12) {
+    sum.fill(0);
+    points.forEach(point => add(toVector(point), 1));
+  }
+
+  if (magnitude() < 1e-12) {
+    return getPlanarCentroid(geojson);
+  }
+
+  return {
+    x: Math.atan2(sum[1], sum[0]) / RADIANS,
+    y: Math.atan2(sum[2], Math.hypot(sum[0], sum[1])) / RADIANS
+  };
+}
+
+/**
+ * リングの球面上の面積（ステラジアン）を求めるヘルパー関数
+ */
+function getSphericalRingArea(ring: Position[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon0, lat0] = ring[i];
+    const [lon1, lat1] = ring[i + 1];
+    // 経度差は日付変更線をまたぐ場合に備えて-180〜180度に正規化
+    const deltaLon = ((((lon1 - lon0) + 180) % 360 + 360) % 360 - 180) * RADIANS;
+    total += deltaLon * (2 + Math.sin(lat0 * RADIANS) + Math.sin(lat1 * RADIANS));
+  }
+  return Math.abs(total / 2);
+}
+
+/**
+ * GeoJSONの球面上の面積を求める
+ * 穴を除いたポリゴンの面積の合計で、ポイントと線の面積は0です
+ * @param geojson - GeoJSONオブジェクト
+ * @param options - 球面計算のオプション
+ * @returns 面積（平方メートル）
+ *
+ * @example
+ * ```typescript
+ * const area = getSphericalArea(prefecture) / 1e6; // 平方キロメートル
+ * ```
+ */
+export function getSphericalArea(geojson: GeoJSON, options: SphericalOptions = {}): number {
+  const radius = options.radius ?? EARTH_RADIUS;
+  const area = collectParts(geojson).polygons.reduce((total, polygon) =>
+    total + polygon.reduce((sum, ring, index) => {
+      const ringArea = getSphericalRingArea(ring);
+      return sum + (index === 0 ? ringArea : -ringArea);
+    }, 0), 0);
+  return area * radius * radius;
+}
+
+/**
+ * GeoJSONの球面上の長さ（大円距離）を求める
+ * 線の長さとポリゴンの全てのリングの周長の合計で、ポイントの長さは0です
+ * @param geojson - GeoJSONオブジェクト
+ * @param options - 球面計算のオプション
+ * @returns 長さ（メートル）
+ */
+export function getSphericalLength(geojson: GeoJSON, options: SphericalOptions = {}): number {
+  const radius = options.radius ?? EARTH_RADIUS;
+  const { polygons, lines } = collectParts(geojson);
+
+  let length = 0;
+  [...lines, ...polygons.flat()].forEach(line => {
+    for (let i = 0; i < line.length - 1; i++) {
+      const [lon0, lat0] = line[i];
+      const [lon1, lat1] = line[i + 1];
+      // ハーバーサイン公式
+      const h = Math.sin((lat1 - lat0) * RADIANS / 2) ** 2 +
+        Math.cos(lat0 * RADIANS) * Math.cos(lat1 * RADIANS) * Math.sin((lon1 - lon0) * RADIANS / 2) ** 2;
+      length += 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+    }
+  });
+  return length * radius;
+}
+
+/**
+ * 点からポリゴン境界までの符号付き距離を求めるヘルパー関数（内部が正）
+ */
+function getSignedDistanceToPolygon(x: number, y: number, polygon: Position[][]): number {
+  let minDistanceSq = Infinity;
+
+  polygon.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[i];
+      const [bx, by] = ring[j];
+
+      // 線分への最短距離
+      let px = ax, py = ay;
+      const dx = bx - ax, dy = by - ay;
+      if (dx !== 0 || dy !== 0) {
+        const t = Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / (dx * dx + dy * dy)));
+        px = ax + dx * t;
+        py = ay + dy * t;
+      }
+      minDistanceSq = Math.min(minDistanceSq, (x - px) ** 2 + (y - py) ** 2);
+    }
+  });
+
+  return (isPointInPolygon([x, y], polygon) ? 1 : -1) * Math.sqrt(minDistanceSq);
+}
+
+/**
+ * ポリゴンの内部で境界から最も遠い点（到達不能極）を求めるヘルパー関数
+ * 外接矩形をセルに分割し、境界までの距離の上限が大きいセルから順に細分化します
+ */
+function findPoleOfInaccessibility(polygon: Position[][], precision?: number): Centroid {
+  const [minX, minY, maxX, maxY] = getMinMax(polygon[0]);
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) {
+    return { x: minX, y: minY };
+  }
+
+  const tolerance = precision ?? Math.max(width, height) / 1000;
+  type Cell = { x: number; y: number; half: number; distance: number; max: number };
+  const createCell = (x: number, y: number, half: number): Cell => {
+    const distance = getSignedDistanceToPolygon(x, y, polygon);
+    return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+  };
+
+  // 距離の上限が大きい順に取り出す優先度付きキュー（二分ヒープ）
+  const heap: Cell[] = [];
+  const push = (cell: Cell) => {
+    heap.push(cell);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].max >= heap[i].max) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): Cell => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < heap.length && heap[left].max > heap[largest].max) largest = left;
+        if (right < heap.length && heap[right].max > heap[largest].max) largest = right;
+        if (largest === i) break;
+        [heap[largest], heap[i]] = [heap[i], heap[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  };
+
+  const half = cellSize / 2;
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      push(createCell(x + half, y + half, half));
+    }
+  }
+
+  // 重心と外接矩形の中心を初期候補とする
+  const centroid = getPlanarCentroid({ type: 'Polygon', coordinates: polygon });
+  let best = createCell(centroid.x, centroid.y, 0);
+  const center = createCell(minX + width / 2, minY + height / 2, 0);
+  if (center.distance > best.distance) best = center;
+
+  while (heap.length > 0) {
+    const cell = pop();
+    if (cell.distance > best.distance) best = cell;
+    if (cell.max - best.distance <= tolerance) continue;
+
+    const quarter = cell.half / 2;
+    push(createCell(cell.x - quarter, cell.y - quarter, quarter));
+    push(createCell(cell.x + quarter, cell.y - quarter, quarter));
+    push(createCell(cell.x - quarter, cell.y + quarter, quarter));
+    push(createCell(cell.x + quarter, cell.y + quarter, quarter));
+  }
+
+  return { x: best.x, y: best.y };
+}
+
+/**
+ * GeoJSONのラベルを配置する点を求める
+ *
+ * ポリゴンを含む場合は、最も面積の大きいポリゴンの内部で境界から最も遠い点（polylabelと同じ到達不能極）を
+ * 経緯度平面で求めます。重心と異なり、凹んだ形状や穴のあるポリゴンでも必ずポリゴンの内部になります。
+ * 日付変更線をまたぐポリゴンは経度を展開して求め、結果の経度は-180〜180度に正規化します。
+ * ポリゴンを含まない場合は最も長い線の中間点、線も含まない場合はポイントの平均を返します。
+ *
+ * @param geojson - GeoJSONオブジェクト
+ * @param options - ラベル位置計算のオプション
+ * @returns ラベル位置の座標
+ *
+ * @example
+ * ```typescript
+ * const { x, y } = getLabelPoint(prefecture);
+ * const [px, py] = projection([x, y])!;
+ * ```
+ */
+export function getLabelPoint(geojson: GeoJSON, options: LabelPointOptions = {}): Centroid {
+  const { polygons, lines } = collectParts(geojson);
+
+  if (polygons.length > 0) {
+    const unwrapped = polygons.map(unwrapPolygon);
+    const largest = unwrapped.reduce((best, polygon, index) =>
+      getPolygonArea(polygon) > getPolygonArea(unwrapped[best]) ? index : best, 0);
+    const polygon = unwrapped[largest];
+    if (polygon.length > 0 && polygon[0].length > 0) {
+      const pole = findPoleOfInaccessibility(polygon, options.precision);
+      // 経度を展開した場合は-180〜180度に戻す
+      return polygon === polygons[largest] ? pole : { x: normalizeLongitude(pole.x), y: pole.y };
+    }
+  }
+
+  if (lines.length > 0) {
+    const lengths = lines.map(line => line.slice(1).reduce((total, [x, y], i) =>
+      total + Math.hypot(x - line[i][0], y - line[i][1]), 0));
+    const longest = lengths.indexOf(Math.max(...lengths));
+    const line = lines[longest];
+
+    // 線に沿って長さの半分の位置
+    let remaining = lengths[longest] / 2;
+    for (let i = 0; i < line.length - 1; i++) {
+      const [x0, y0] = line[i];
+      const [x1, y1] = line[i + 1];
+      const segment = Math.hypot(x1 - x0, y1 - y0);
+      if (segment >= remaining && segment > 0) {
+        const t = remaining / segment;
+        return { x: x0 + (x1 - x0) * t, y: y0 + (y1 - y0) * t };
+      }
+      remaining -= segment;
+    }
+    return { x: line[0][0], y: line[0][1] };
+  }
+
+  return getCentroid(geojson);
+}
+
+/**
+ * 指定した配置方法でGeoJSONの代表点を求める
+ * ポイント系レイヤーでポイント以外のジオメトリにシンボルを配置する際に使用します
+ * @param geojson - GeoJSONオブジェクト
+ * @param placement - 配置方法（デフォルト: 'vertex-mean'）
+ * @returns 代表点の座標
+ */
+export function getRepresentativePoint(geojson: GeoJSON, placement: PointPlacement = 'vertex-mean'): Centroid {
+  switch (placement) {
+    case 'planar-centroid':
+      return getPlanarCentroid(geojson);
+    case 'spherical-centroid':
+      return getSphericalCentroid(geojson);
+    case 'label-point':
+      return getLabelPoint(geojson);
+    default:
+      return getCentroid(geojson);
+  }
+}
+
 /**
  * 複数のGeoJSONをマージする
  * @param geojsons - GeoJSONオブジェクトの配列
@@ -187,10 +676,18 @@ export function isValidGeoJSON(geojson: any): geojson is GeoJSON {
 
 /**
  * Bounding Boxから中心点を計算する
+ * 日付変更線をまたぐ場合は-180〜180度に正規化した経度を返します
  * @param bbox - Bounding Box
  * @returns 中心点の座標
  */
 export function getBboxCenter(bbox: BBox): Centroid {
+  if (crossesAntimeridian(bbox)) {
+    return {
+      x: normalizeLongitude((bbox.minX + bbox.maxX + 360) / 2),
+      y: (bbox.minY + bbox.maxY) / 2
+    };
+  }
+
   return {
     x: (bbox.minX + bbox.maxX) / 2,
     y: (bbox.minY + bbox.maxY) / 2
@@ -199,33 +696,61 @@ export function getBboxCenter(bbox: BBox): Centroid {
 
 /**
  * Bounding Boxの幅と高さを取得する
+ * 日付変更線をまたぐ場合の幅は西端から東回りに東端までの経度差です
  * @param bbox - Bounding Box
  * @returns 幅と高さ
  */
 export function getBboxDimensions(bbox: BBox): { width: number; height: number } {
   return {
-    width: bbox.maxX - bbox.minX,
+    width: crossesAntimeridian(bbox) ? bbox.maxX + 360 - bbox.minX : bbox.maxX - bbox.minX,
     height: bbox.maxY - bbox.minY
   };
 }
 
 /**
  * 2つのBounding Boxをマージする
+ * 経緯度のBounding Boxでは両方を含む経度方向に最小の範囲を返し、日付変更線をまたぐ場合はminX > maxXになります
  * @param bbox1 - 1つ目のBounding Box
  * @param bbox2 - 2つ目のBounding Box
  * @returns マージされたBounding Box
  */
 export function mergeBbox(bbox1: BBox, bbox2: BBox): BBox {
-  return {
-    minX: Math.min(bbox1.minX, bbox2.minX),
-    minY: Math.min(bbox1.minY, bbox2.minY),
-    maxX: Math.max(bbox1.maxX, bbox2.maxX),
-    maxY: Math.max(bbox1.maxY, bbox2.maxY)
-  };
+  const minY = Math.min(bbox1.minY, bbox2.minY);
+  const maxY = Math.max(bbox1.maxY, bbox2.maxY);
+
+  const geographic = [bbox1.minX, bbox1.maxX, bbox2.minX, bbox2.maxX].every(x => x >= -180 && x <= 180);
+  if (!geographic) {
+    return {
+      minX: Math.min(bbox1.minX, bbox2.minX),
+      minY,
+      maxX: Math.max(bbox1.maxX, bbox2.maxX),
+      maxY
+    };
+  }
+
+  // 西端から東回りに東端までの経度差
+  const span = (west: number, east: number) => east >= west ? east - west : east + 360 - west;
+  const contains = (west: number, east: number, bbox: BBox) =>
+    span(west, bbox.minX) + span(bbox.minX, bbox.maxX) <= span(west, east);
+
+  // 両方を含む範囲の候補のうち最も狭いものを選ぶ（含むものがなければ全経度）
+  const candidates: [number, number][] = [
+    [bbox1.minX, bbox1.maxX],
+    [bbox1.minX, bbox2.maxX],
+    [bbox2.minX, bbox2.maxX],
+    [bbox2.minX, bbox1.maxX]
+  ];
+  const [minX, maxX] = candidates
+    .filter(([west, east]) => contains(west, east, bbox1) && contains(west, east, bbox2))
+    .reduce<[number, number]>((best, candidate) =>
+      span(candidate[0], candidate[1]) < span(best[0], best[1]) ? candidate : best, [-180, 180]);
+
+  return { minX, minY, maxX, maxY };
 }
 
 /**
  * Bounding Boxを拡張する
+ * 日付変更線をまたぐ場合は経度を-180〜180度に正規化し、全経度を超える場合は-180〜180度とします
  * @param bbox - Bounding Box
  * @param padding - パディング（割合）
  * @returns 拡張されたBounding Box
@@ -234,6 +759,16 @@ export function expandBbox(bbox: BBox, padding: number = 0.1): BBox {
   const { width, height } = getBboxDimensions(bbox);
   const padX = width * padding;
   const padY = height * padding;
+
+  if (crossesAntimeridian(bbox)) {
+    const wrapsAround = width + padX * 2 >= 360;
+    return {
+      minX: wrapsAround ? -180 : normalizeLongitude(bbox.minX - padX),
+      minY: bbox.minY - padY,
+      maxX: wrapsAround ? 180 : normalizeLongitude(bbox.maxX + padX),
+      maxY: bbox.maxY + padY
+    };
+  }
   
   return {
     minX: bbox.minX - padX,
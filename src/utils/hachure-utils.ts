@@ -28,9 +28,9 @@ export interface ContourOptions {
  * ハッチング生成オプション
  */
 export interface HachureOptions {
-  /** ハッチング線の間隔（ピクセル単位） */
+  /** ハッチング線の間隔（等高線に沿った距離、メートル） */
   spacing: number;
-  /** ハッチング線の長さ（ピクセル単位） */
+  /** ハッチング線の長さ（メートル） */
   length: number;
   /** ハッチング線の角度（度、デフォルト: 垂直） */
   angle?: number;
@@ -218,7 +218,7 @@ export function generateHachures(
       const lineString = turf.lineString(validCoords);
       const lineLength = turf.length(lineString, { units: 'kilometers' });
       
-      // spacing をキロメートルに変換（仮定: 1ピクセル = 0.1km）
+      // spacing をメートルからキロメートルに変換
       const spacingKm = spacing * 0.001;
       const numHachures = Math.floor(lineLength / spacingKm * density);
 
@@ -4,6 +4,16 @@
 
 export * from './gis-utils';
 export * from './cog-utils';
+export * from './crs-utils';
 export * from './tile-utils';
+export * from './mvt-utils';
+export * from './resample-utils';
+export * from './projection-utils';
+export * from './raster-utils';
+export * from './contour-utils';
 export * from './color-palette';
-export * from './hachure-utils';
\ No newline at end of file
+export * from './hachure-utils';
+export * from './time-utils';
+export * from './planar-utils';
+export * from './geometry-utils';
+export * from './topojson-utils';
\ No newline at end of file
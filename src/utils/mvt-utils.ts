@@ -0,0 +1,523 @@
+/**
+ * Mapbox Vector Tile（MVT）ユーティリティ
+ *
+ * MVT形式（Protocol Buffers）のタイルをソースレイヤーごとのGeoJSONに変換する機能を提供
+ * 仕様: https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ */
+
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { TileCoordinate } from '../types';
+import { getRingArea } from './planar-utils';
+
+/**
+ * デコードしたベクタータイル（キーはソースレイヤー名）
+ */
+export type DecodedVectorTile = Record<string, FeatureCollection>;
+
+/**
+ * ベクタータイルのデコードオプション
+ */
+export interface DecodeVectorTileOptions {
+  /** デコードするソースレイヤー名（未指定の場合はすべて） */
+  layers?: string[];
+}
+
+/**
+ * MVTのジオメトリ種別
+ */
+const GEOMETRY_TYPE = {
+  POINT: 1,
+  LINESTRING: 2,
+  POLYGON: 3
+} as const;
+
+/**
+ * ジオメトリのコマンド
+ */
+const COMMAND = {
+  MOVE_TO: 1,
+  LINE_TO: 2,
+  CLOSE_PATH: 7
+} as const;
+
+/**
+ * Protocol Buffersのワイヤータイプ
+ */
+const WIRE_TYPE = {
+  VARINT: 0,
+  FIXED64: 1,
+  BYTES: 2,
+  FIXED32: 5
+} as const;
+
+/**
+ * MVTタイルをソースレイヤーごとのGeoJSON（経緯度座標）に変換します
+ *
+ * ポリゴンのリングは仕様に従い面積の符号で外周と穴を判定し、
+ * 外周ごとにポリゴンを分けます。
+ *
+ * @param data - タイルのバイナリデータ
+ * @param coordinate - タイル座標（経緯度への変換に使用）
+ * @param options - デコードオプション
+ * @returns ソースレイヤー名をキーとするFeatureCollection
+ *
+ * @example
+ * ```typescript
+ * const buffer = await fetch('https://example.com/tiles/14/14552/6451.pbf').then(r => r.arrayBuffer());
+ * const tile = decodeVectorTile(buffer, { x: 14552, y: 6451, z: 14 });
+ * console.log(tile.water.features);
+ * ```
+ */
+export function decodeVectorTile(
+  data: ArrayBuffer | Uint8Array,
+  coordinate: TileCoordinate,
+  options: DecodeVectorTileOptions = {}
+): DecodedVectorTile {
+  const reader = new ProtobufReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const result: DecodedVectorTile = {};
+
+  try {
+    while (!reader.isEnd()) {
+      const [field, wireType] = reader.readTag();
+      if (field === 3 && wireType === WIRE_TYPE.BYTES) {
+        const layer = readLayer(reader.readMessage(), coordinate, options.layers);
+        if (layer) {
+          // 同名のレイヤーが複数ある場合はフィーチャーを結合
+          if (result[layer.name]) {
+            result[layer.name].features.push(...layer.collection.features);
+          } else {
+            result[layer.name] = layer.collection;
+          }
+        }
+      } else {
+        reader.skip(wireType);
+      }
+    }
+  } catch (error) {
+    throw new Error(`ベクタータイルのデコードに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return result;
+}
+
+/**
+ * タイル内座標を経緯度に変換する関数を作成します
+ * @param coordinate - タイル座標
+ * @param extent - タイルの座標範囲
+ * @returns 変換関数
+ */
+function createTileToLngLat(coordinate: TileCoordinate, extent: number): (point: Position) => Position {
+  const size = extent * Math.pow(2, coordinate.z);
+  const x0 = extent * coordinate.x;
+  const y0 = extent * coordinate.y;
+
+  return ([x, y]) => {
+    const lng = (x + x0) * 360 / size - 180;
+    const y2 = 180 - (y + y0) * 360 / size;
+    const lat = 360 / Math.PI * Math.atan(Math.exp(y2 * Math.PI / 180)) - 90;
+    return [lng, lat];
+  };
+}
+
+/**
+ * レイヤーメッセージを読み込みます
+ * @param reader - レイヤーメッセージのリーダー
+ * @param coordinate - タイル座標
+ * @param layerNames - 対象のソースレイヤー名
+ * @returns レイヤー名とFeatureCollection（対象外の場合はnull）
+ */
+function readLayer(
+  reader: ProtobufReader,
+  coordinate: TileCoordinate,
+  layerNames?: string[]
+): { name: string; collection: FeatureCollection } | null {
+  let name = '';
+  let extent = 4096;
+  const keys: string[] = [];
+  const values: unknown[] = [];
+  const featureReaders: ProtobufReader[] = [];
+
+  // フィーチャーはキーと値の一覧が揃ってから変換する
+  while (!reader.isEnd()) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1 && wireType === WIRE_TYPE.BYTES) {
+      name = reader.readString();
+    } else if (field === 2 && wireType === WIRE_TYPE.BYTES) {
+      featureReaders.push(reader.readMessage());
+    } else if (field === 3 && wireType === WIRE_TYPE.BYTES) {
+      keys.push(reader.readString());
+    } else if (field === 4 && wireType === WIRE_TYPE.BYTES) {
+      values.push(readValue(reader.readMessage()));
+    } else if (field === 5 && wireType === WIRE_TYPE.VARINT) {
+      extent = reader.readVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  if (layerNames && !layerNames.includes(name)) return null;
+
+  const toLngLat = createTileToLngLat(coordinate, extent);
+  const features: Feature[] = [];
+  featureReaders.forEach(featureReader => {
+    const feature = readFeature(featureReader, keys, values, toLngLat);
+    if (feature) features.push(feature);
+  });
+
+  return { name, collection: { type: 'FeatureCollection', features } };
+}
+
+/**
+ * 値メッセージを読み込みます
+ * @param reader - 値メッセージのリーダー
+ * @returns 属性値
+ */
+function readValue(reader: ProtobufReader): unknown {
+  let value: unknown = null;
+  while (!reader.isEnd()) {
+    const [field, wireType] = reader.readTag();
+    switch (field) {
+      case 1: value = reader.readString(); break;
+      case 2: value = reader.readFloat(); break;
+      case 3: value = reader.readDouble(); break;
+      case 4: value = reader.readVarint(true); break;
+      case 5: value = reader.readVarint(); break;
+      case 6: value = reader.readSVarint(); break;
+      case 7: value = reader.readVarint() !== 0; break;
+      default: reader.skip(wireType);
+    }
+  }
+  return value;
+}
+
+/**
+ * フィーチャーメッセージを読み込みます
+ * @param reader - フィーチャーメッセージのリーダー
+ * @param keys - レイヤーのキー一覧
+ * @param values - レイヤーの値一覧
+ * @param toLngLat - タイル内座標を経緯度に変換する関数
+ * @returns GeoJSONフィーチャー（ジオメトリがない場合はnull）
+ */
+function readFeature(
+  reader: ProtobufReader,
+  keys: string[],
+  values: unknown[],
+  toLngLat: (point: Position) => Position
+): Feature | null {
+  let id: number | undefined;
+  let type = 0;
+  let tags: number[] = [];
+  let commands: number[] = [];
+
+  while (!reader.isEnd()) {
+    const [field, wireType] = reader.readTag();
+    if (field === 1 && wireType === WIRE_TYPE.VARINT) {
+      id = reader.readVarint();
+    } else if (field === 2 && wireType === WIRE_TYPE.BYTES) {
+      tags = reader.readPackedVarint();
+    } else if (field === 3 && wireType === WIRE_TYPE.VARINT) {
+      type = reader.readVarint();
+    } else if (field === 4 && wireType === WIRE_TYPE.BYTES) {
+      commands = reader.readPackedVarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const properties: Record<string, unknown> = {};
+  for (let i = 0; i + 1 < tags.length; i += 2) {
+    const key = keys[tags[i]];
+    if (key !== undefined) {
+      properties[key] = values[tags[i + 1]];
+    }
+  }
+
+  const lines = decodeGeometryCommands(commands).map(line => line.map(toLngLat));
+  const geometry = toGeometry(type, lines);
+  if (!geometry) return null;
+
+  const feature: Feature = { type: 'Feature', properties, geometry };
+  if (id !== undefined) feature.id = id;
+  return feature;
+}
+
+/**
+ * ジオメトリのコマンド列をタイル内座標の線分列に変換します
+ * @param commands - コマンド列
+ * @returns MoveToごとに区切った座標列
+ */
+function decodeGeometryCommands(commands: number[]): Position[][] {
+  const lines: Position[][] = [];
+  let line: Position[] | null = null;
+  let x = 0;
+  let y = 0;
+  let i = 0;
+
+  while (i < commands.length) {
+    const command = commands[i] & 0x7;
+    const count = commands[i] >> 3;
+    i++;
+
+    if (command === COMMAND.MOVE_TO || command === COMMAND.LINE_TO) {
+      for (let n = 0; n < count && i + 1 < commands.length; n++) {
+        x += zigzagDecode(commands[i++]);
+        y += zigzagDecode(commands[i++]);
+        if (command === COMMAND.MOVE_TO) {
+          line = [];
+          lines.push(line);
+        }
+        line?.push([x, y]);
+      }
+    } else if (command === COMMAND.CLOSE_PATH) {
+      if (line && line.length > 0) {
+        line.push([line[0][0], line[0][1]]);
+      }
+    } else {
+      throw new Error(`不明なジオメトリコマンドです: ${command}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * 座標列をジオメトリ種別に応じたGeoJSONジオメトリに変換します
+ * @param type - MVTのジオメトリ種別
+ * @param lines - 経緯度の座標列
+ * @returns GeoJSONジオメトリ（変換できない場合はnull）
+ */
+function toGeometry(type: number, lines: Position[][]): Geometry | null {
+  if (lines.length === 0) return null;
+
+  if (type === GEOMETRY_TYPE.POINT) {
+    const points = lines.flat();
+    return points.length === 1
+      ? { type: 'Point', coordinates: points[0] }
+      : { type: 'MultiPoint', coordinates: points };
+  }
+
+  if (type === GEOMETRY_TYPE.LINESTRING) {
+    return lines.length === 1
+      ? { type: 'LineString', coordinates: lines[0] }
+      : { type: 'MultiLineString', coordinates: lines };
+  }
+
+  if (type === GEOMETRY_TYPE.POLYGON) {
+    const polygons = classifyRings(lines);
+    if (polygons.length === 0) return null;
+    return polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  return null;
+}
+
+/**
+ * リングを外周と穴に分類し、ポリゴンごとにまとめます
+ * タイル座標（Y軸下向き）で面積が正のリングが外周です。経緯度に変換するとY軸が反転するため、
+ * 経緯度座標では面積が負のリングが外周になります。
+ * @param rings - 経緯度のリング
+ * @returns ポリゴンの座標配列
+ */
+function classifyRings(rings: Position[][]): Position[][][] {
+  const polygons: Position[][][] = [];
+  let polygon: Position[][] | null = null;
+
+  rings.forEach(ring => {
+    const area = getRingArea(ring);
+    if (area === 0) return;
+
+    if (area < 0 || !polygon) {
+      polygon = [ring];
+      polygons.push(polygon);
+    } else {
+      polygon.push(ring);
+    }
+  });
+
+  return polygons;
+}
+
+/**
+ * ZigZag符号化された整数を復号します
+ * @param value - 符号化された値
+ * @returns 復号した値
+ */
+function zigzagDecode(value: number): number {
+  return (value >>> 1) ^ -(value & 1);
+}
+
+/**
+ * Protocol Buffersのバイナリを順に読み込むクラス
+ */
+class ProtobufReader {
+  /** バイナリデータ */
+  private bytes: Uint8Array;
+  /** 数値読み込み用のビュー */
+  private view: DataView;
+  /** 現在の位置 */
+  private pos: number;
+  /** 読み込みの終了位置 */
+  private end: number;
+
+  /**
+   * ProtobufReaderを初期化します
+   * @param bytes - バイナリデータ
+   * @param start - 開始位置
+   * @param end - 終了位置
+   */
+  constructor(bytes: Uint8Array, start: number = 0, end: number = bytes.length) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.pos = start;
+    this.end = end;
+  }
+
+  /**
+   * 終了位置に達したかを判定します
+   * @returns 終了位置に達した場合true
+   */
+  isEnd(): boolean {
+    return this.pos >= this.end;
+  }
+
+  /**
+   * フィールドのタグを読み込みます
+   * @returns [フィールド番号, ワイヤータイプ]
+   */
+  readTag(): [number, number] {
+    const tag = this.readVarint();
+    return [tag >>> 3, tag & 0x7];
+  }
+
+  /**
+   * 可変長整数を読み込みます
+   * @param signed - int64として負の値を扱うか
+   * @returns 読み込んだ値
+   */
+  readVarint(signed: boolean = false): number {
+    let low = 0;
+    let high = 0;
+    let byte: number;
+
+    // 下位28ビット
+    for (let shift = 0; shift < 28; shift += 7) {
+      byte = this.readByte();
+      low |= (byte & 0x7f) << shift;
+      if (byte < 0x80) return low;
+    }
+
+    // 29〜35ビット目は下位と上位にまたがる
+    byte = this.readByte();
+    low |= (byte & 0x0f) << 28;
+    high = (byte & 0x70) >> 4;
+    if (byte >= 0x80) {
+      for (let shift = 3; ; shift += 7) {
+        if (shift > 31) {
+          throw new Error('可変長整数が長すぎます');
+        }
+        byte = this.readByte();
+        high |= (byte & 0x7f) << shift;
+        if (byte < 0x80) break;
+      }
+    }
+
+    if (signed && (high & 0x80000000)) {
+      return -((~high >>> 0) * 0x100000000 + (~low >>> 0) + 1);
+    }
+    return (high >>> 0) * 0x100000000 + (low >>> 0);
+  }
+
+  /**
+   * ZigZag符号化された可変長整数を読み込みます
+   * @returns 読み込んだ値
+   */
+  readSVarint(): number {
+    const value = this.readVarint();
+    return value % 2 === 1 ? (value + 1) / -2 : value / 2;
+  }
+
+  /**
+   * 32ビット浮動小数点数を読み込みます
+   * @returns 読み込んだ値
+   */
+  readFloat(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  /**
+   * 64ビット浮動小数点数を読み込みます
+   * @returns 読み込んだ値
+   */
+  readDouble(): number {
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  /**
+   * UTF-8文字列を読み込みます
+   * @returns 読み込んだ文字列
+   */
+  readString(): string {
+    const length = this.readVarint();
+    const start = this.pos;
+    this.pos += length;
+    return new TextDecoder().decode(this.bytes.subarray(start, this.pos));
+  }
+
+  /**
+   * 埋め込みメッセージを読み込みます
+   * @returns メッセージ範囲のリーダー
+   */
+  readMessage(): ProtobufReader {
+    const length = this.readVarint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) {
+      throw new Error('メッセージがデータの終端を超えています');
+    }
+    return new ProtobufReader(this.bytes, start, this.pos);
+  }
+
+  /**
+   * パックされた可変長整数の配列を読み込みます
+   * @returns 読み込んだ値の配列
+   */
+  readPackedVarint(): number[] {
+    const reader = this.readMessage();
+    const values: number[] = [];
+    while (!reader.isEnd()) {
+      values.push(reader.readVarint());
+    }
+    return values;
+  }
+
+  /**
+   * ワイヤータイプに応じてフィールドを読み飛ばします
+   * @param wireType - ワイヤータイプ
+   */
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_TYPE.VARINT: this.readVarint(); break;
+      case WIRE_TYPE.FIXED64: this.pos += 8; break;
+      case WIRE_TYPE.BYTES: this.pos += this.readVarint(); break;
+      case WIRE_TYPE.FIXED32: this.pos += 4; break;
+      default: throw new Error(`未対応のワイヤータイプです: ${wireType}`);
+    }
+  }
+
+  /**
+   * 1バイト読み込みます
+   * @returns 読み込んだバイト
+   */
+  private readByte(): number {
+    if (this.pos >= this.end) {
+      throw new Error('データの終端に達しました');
+    }
+    return this.bytes[this.pos++];
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * 平面幾何ユーティリティ
+ *
+ * 座標を平面上の値として扱う、リングの面積や内外判定、ジオメトリの分解や変換などの基本的な計算機能を提供
+ * リングは閉じていても（最初と最後の座標が同じ）閉じていなくても扱えます
+ */
+
+import type { GeoJSON, Geometry, Position, Polygon, MultiPolygon } from 'geojson';
+
+/**
+ * 次元ごとに分類したジオメトリの構成要素
+ */
+export interface GeometryParts {
+  /** ポイントの座標 */
+  points: Position[];
+  /** ラインの座標配列 */
+  lines: Position[][];
+  /** ポリゴンのリング配列（先頭が外周、以降が穴） */
+  polygons: Position[][][];
+}
+
+/**
+ * 構成要素ごとの変換関数
+ */
+export interface PartTransforms {
+  /** ポイントの座標の配列を変換する関数 */
+  points: (points: Position[]) => Position[];
+  /** ラインの配列を変換する関数 */
+  lines: (lines: Position[][]) => Position[][];
+  /** ポリゴンの配列を変換する関数 */
+  polygons: (polygons: Position[][][]) => Position[][][];
+}
+
+/**
+ * GeoJSONのジオメトリを次元ごとの構成要素に分解します
+ * FeatureCollection、Feature、GeometryCollectionは含まれる全てのジオメトリを分解します
+ *
+ * @param geojson - GeoJSONオブジェクト
+ * @param parts - 構成要素を追加する先（省略時は新しく作成）
+ * @returns 次元ごとの構成要素
+ *
+ * @example
+ * ```typescript
+ * const { polygons, lines, points } = collectParts(prefectures);
+ * ```
+ */
+export function collectParts(geojson: GeoJSON, parts: GeometryParts = { points: [], lines: [], polygons: [] }): GeometryParts {
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      geojson.features.forEach(feature => collectParts(feature, parts));
+      break;
+    case 'Feature':
+      if (geojson.geometry) collectParts(geojson.geometry, parts);
+      break;
+    case 'GeometryCollection':
+      geojson.geometries.forEach(geometry => collectParts(geometry, parts));
+      break;
+    case 'Point':
+      parts.points.push(geojson.coordinates);
+      break;
+    case 'MultiPoint':
+      parts.points.push(...geojson.coordinates);
+      break;
+    case 'LineString':
+      parts.lines.push(geojson.coordinates);
+      break;
+    case 'MultiLineString':
+      parts.lines.push(...geojson.coordinates);
+      break;
+    case 'Polygon':
+      parts.polygons.push(geojson.coordinates);
+      break;
+    case 'MultiPolygon':
+      parts.polygons.push(...geojson.coordinates);
+      break;
+  }
+  return parts;
+}
+
+/**
+ * リングの符号付き面積を求めます（靴紐公式）
+ * Y軸が上向きの座標平面（経緯度など）で反時計回りのリングが正になります
+ *
+ * @param ring - リングの座標配列
+ * @returns 符号付き面積（座標の単位の2乗）
+ */
+export function getRingArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return area / 2;
+}
+
+/**
+ * ポリゴンの面積を求めます（外周の面積から穴の面積を引く）
+ * リングの向きは問いません
+ *
+ * @param polygon - ポリゴンのリング配列（先頭が外周、以降が穴）
+ * @returns 面積（座標の単位の2乗）
+ */
+export function getPolygonArea(polygon: Position[][]): number {
+  return polygon.reduce((total, ring, index) => {
+    const area = Math.abs(getRingArea(ring));
+    return index === 0 ? total + area : total - area;
+  }, 0);
+}
+
+/**
+ * ジオメトリの面積を求めます（平面座標として計算）
+ * ポリゴン以外のジオメトリは0を返します
+ *
+ * @param geometry - ジオメトリ
+ * @returns 面積（座標の単位の2乗）
+ *
+ * @example
+ * ```typescript
+ * getPlanarArea({ type: 'Polygon', coordinates: [[[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]]] }); // 4
+ * ```
+ */
+export function getPlanarArea(geometry: Geometry | null): number {
+  if (!geometry) return 0;
+  return collectParts(geometry).polygons.reduce((total, polygon) => total + getPolygonArea(polygon), 0);
+}
+
+/**
+ * 点がリングの内部にあるかを判定します（レイキャスティング法）
+ * @param point - 判定する座標
+ * @param ring - リングの座標配列
+ * @returns 内部にある場合true
+ */
+export function isPointInRing(point: Position, ring: Position[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 点がポリゴン（穴を除く）の内部にあるかを判定します
+ * @param point - 判定する座標
+ * @param polygon - ポリゴンのリング配列（先頭が外周、以降が穴）
+ * @returns 内部にある場合true
+ */
+export function isPointInPolygon(point: Position, polygon: Position[][]): boolean {
+  return polygon.length > 0 && isPointInRing(point, polygon[0]) && !polygon.slice(1).some(hole => isPointInRing(point, hole));
+}
+
+/**
+ * ポリゴンの配列からPolygonまたはMultiPolygonを作成します
+ * @param polygons - ポリゴンの配列
+ * @param multi - 1つの場合もMultiPolygonにするか
+ * @returns ジオメトリ（空の場合はnull）
+ */
+export function toPolygonGeometry(polygons: Position[][][], multi: boolean = false): Polygon | MultiPolygon | null {
+  if (polygons.length === 0) return null;
+  return polygons.length === 1 && !multi
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * ジオメトリの構成要素を変換し、元の種類（Multi*かどうか）を保ったジオメトリを作成します
+ *
+ * @param geometry - 変換するジオメトリ
+ * @param transforms - 構成要素ごとの変換関数
+ * @returns 変換したジオメトリ（空になった場合はnull）
+ *
+ * @example
+ * ```typescript
+ * // 2点未満になったラインを除く
+ * const filtered = transformGeometry(geometry, {
+ *   points: points => points,
+ *   lines: lines => lines.filter(line => line.length >= 2),
+ *   polygons: polygons => polygons
+ * });
+ * ```
+ */
+export function transformGeometry(geometry: Geometry, transforms: PartTransforms): Geometry | null {
+  switch (geometry.type) {
+    case 'Point': {
+      const points = transforms.points([geometry.coordinates]);
+      if (points.length === 0) return null;
+      return points.length === 1 ? { type: 'Point', coordinates: points[0] } : { type: 'MultiPoint', coordinates: points };
+    }
+    case 'MultiPoint': {
+      const points = transforms.points(geometry.coordinates);
+      return points.length > 0 ? { type: 'MultiPoint', coordinates: points } : null;
+    }
+    case 'LineString': {
+      const lines = transforms.lines([geometry.coordinates]);
+      if (lines.length === 0) return null;
+      return lines.length === 1 ? { type: 'LineString', coordinates: lines[0] } : { type: 'MultiLineString', coordinates: lines };
+    }
+    case 'MultiLineString': {
+      const lines = transforms.lines(geometry.coordinates);
+      return lines.length > 0 ? { type: 'MultiLineString', coordinates: lines } : null;
+    }
+    case 'Polygon':
+      return toPolygonGeometry(transforms.polygons([geometry.coordinates]));
+    case 'MultiPolygon':
+      return toPolygonGeometry(transforms.polygons(geometry.coordinates), true);
+    case 'GeometryCollection': {
+      const geometries = geometry.geometries
+        .map(child => transformGeometry(child, transforms))
+        .filter((child): child is Geometry => child !== null);
+      return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+    }
+  }
+}
+
+/**
+ * ジオメトリの全ての座標を変換した新しいジオメトリを作成します
+ *
+ * @param geometry - 元のジオメトリ
+ * @param transform - 座標変換関数
+ * @returns 変換後のジオメトリ（入力のジオメトリは変更されません）
+ *
+ * @example
+ * ```typescript
+ * const shifted = mapCoordinates(geometry, ([x, y]) => [x + 10, y]);
+ * ```
+ */
+export function mapCoordinates(geometry: Geometry, transform: (position: Position) => Position): Geometry {
+  const transformed = transformGeometry(geometry, {
+    points: points => points.map(transform),
+    lines: lines => lines.map(line => line.map(transform)),
+    polygons: polygons => polygons.map(polygon => polygon.map(ring => ring.map(transform)))
+  });
+  // 座標を持たないジオメトリは変換するものがないため、そのまま複製する
+  return transformed ?? { ...geometry };
+}
@@ -0,0 +1,429 @@
+/**
+ * 投影法ユーティリティ
+ *
+ * 投影法の状態の比較など、レイヤーの描画キャッシュで使用する機能と、
+ * 投影法の遷移アニメーションで使用する補間機能、データへのフィット機能を提供
+ */
+
+import { geoProjection, geoRotation, GeoProjection, GeoPermissibleObjects } from 'd3-geo';
+import { FitPadding, ScreenRect } from '../types';
+import { getSphericalCentroid } from './gis-utils';
+
+/** フィット時の余白の既定値（ピクセル） */
+const DEFAULT_FIT_PADDING = 20;
+
+/**
+ * 投影法の種類を区別するために投影する基準点
+ */
+const FINGERPRINT_POINTS: [number, number][] = [
+  [0, 0],
+  [45, 30],
+  [-120, -45],
+  [150, 60]
+];
+
+/**
+ * 投影法の現在の状態を表すキーを作成します
+ *
+ * ズーム（reprojectモード）では同じ投影法オブジェクトのscale/translateが変更されるため、
+ * オブジェクトの同一性ではなくパラメータの値で比較します。
+ * パラメータが同じでも種類の異なる投影法を区別できるよう、基準点の投影結果も含めます。
+ *
+ * @param projection - 投影法
+ * @returns 状態を表す文字列
+ *
+ * @example
+ * ```typescript
+ * const key = getProjectionKey(projection);
+ * projection.scale(projection.scale() * 2);
+ * getProjectionKey(projection) === key; // false
+ * ```
+ */
+export function getProjectionKey(projection: GeoProjection): string {
+  const read = (accessor: (() => unknown) | undefined) => {
+    try {
+      return typeof accessor === 'function' ? accessor.call(projection) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const fingerprint = FINGERPRINT_POINTS.map(point => {
+    try {
+      return projection(point);
+    } catch {
+      return null;
+    }
+  });
+
+  return JSON.stringify([
+    read(projection.scale),
+    read(projection.translate),
+    read(projection.rotate),
+    read(projection.center),
+    read(projection.clipAngle),
+    read(projection.clipExtent),
+    fingerprint
+  ]);
+}
+
+/**
+ * 投影法の縮尺（経緯度1度あたりのピクセル数）を求めます
+ *
+ * 指定した地点（省略時は投影の中心、すなわちtranslateの位置を逆投影した地点）で経度方向と緯度方向の
+ * 1度の長さを測り、大きい方を返します。測れない場合はscale()をラジアンあたりのピクセル数とみなして換算します。
+ *
+ * @param projection - 投影法
+ * @param location - 縮尺を測る経緯度
+ * @returns 1度あたりのピクセル数（求められない場合はNaN）
+ *
+ * @example
+ * ```typescript
+ * // 0.5ピクセルに相当する経緯度の長さ
+ * const tolerance = 0.5 / getProjectionPixelsPerDegree(projection);
+ * ```
+ */
+export function getProjectionPixelsPerDegree(projection: GeoProjection, location?: [number, number]): number {
+  const measure = ([lon, lat]: [number, number]): number => {
+    const step = 1e-3;
+    // 極の付近では赤道側に測る
+    const latStep = lat > 0 ? -step : step;
+    try {
+      const origin = projection([lon, lat]);
+      const east = projection([lon + step, lat]);
+      const north = projection([lon, lat + latStep]);
+      if (!origin || !east || !north) return NaN;
+      return Math.max(
+        Math.hypot(east[0] - origin[0], east[1] - origin[1]),
+        Math.hypot(north[0] - origin[0], north[1] - origin[1])
+      ) / step;
+    } catch {
+      return NaN;
+    }
+  };
+
+  let point = location;
+  if (!point && projection.invert && typeof projection.translate === 'function') {
+    const inverted = projection.invert(projection.translate());
+    if (inverted && isFinite(inverted[0]) && isFinite(inverted[1])) point = inverted;
+  }
+
+  const measured = point ? measure(point) : NaN;
+  if (isFinite(measured) && measured > 0) return measured;
+
+  const scale = typeof projection.scale === 'function' ? projection.scale() : NaN;
+  return isFinite(scale) && scale > 0 ? scale * Math.PI / 180 : NaN;
+}
+
+/**
+ * 投影法の補間に使用するパラメータ
+ */
+export interface ProjectionParameters {
+  /** 縮尺 */
+  scale: number;
+  /** 平行移動量（ピクセル） */
+  translate: [number, number];
+  /** 回転角（度） */
+  rotate?: [number, number, number];
+  /** 中心の経緯度 */
+  center?: [number, number];
+}
+
+/**
+ * 投影法のパラメータを読み取ります
+ * @param projection - 投影法
+ * @returns パラメータ（rotate/centerを持たない投影法では省略）
+ */
+export function readProjectionParameters(projection: GeoProjection): ProjectionParameters {
+  return {
+    scale: projection.scale(),
+    translate: projection.translate(),
+    rotate: typeof projection.rotate === 'function' ? projection.rotate() : undefined,
+    center: typeof projection.center === 'function' ? projection.center() : undefined
+  };
+}
+
+/**
+ * 投影法にパラメータを設定します
+ * @param projection - 投影法
+ * @param parameters - 設定するパラメータ
+ */
+export function applyProjectionParameters(projection: GeoProjection, parameters: ProjectionParameters): void {
+  projection.scale(parameters.scale).translate(parameters.translate);
+  if (parameters.rotate && typeof projection.rotate === 'function') projection.rotate(parameters.rotate);
+  if (parameters.center && typeof projection.center === 'function') projection.center(parameters.center);
+}
+
+/**
+ * 2つの投影法がパラメータ以外で同じ投影（同じ種類の投影法）かどうかを判定します
+ * toに一時的にfromのパラメータを設定し、基準点の投影結果を比較します
+ * @param from - 比較元の投影法
+ * @param to - 比較先の投影法（判定後にパラメータを元に戻します）
+ * @returns 同じ種類の投影法の場合true
+ */
+function hasSameRawProjection(from: GeoProjection, to: GeoProjection): boolean {
+  if (from === to) return true;
+
+  const saved = readProjectionParameters(to);
+  try {
+    applyProjectionParameters(to, readProjectionParameters(from));
+    return FINGERPRINT_POINTS.every(point => {
+      const a = from(point);
+      const b = to(point);
+      if (!a || !b) return !a && !b;
+      return Math.abs(a[0] - b[0]) < 1e-6 && Math.abs(a[1] - b[1]) < 1e-6;
+    });
+  } catch {
+    return false;
+  } finally {
+    applyProjectionParameters(to, saved);
+  }
+}
+
+/**
+ * 2つの投影法の間を補間する関数を作成します
+ *
+ * 同じ種類の投影法（例: 回転だけが異なる正射図法）の場合は、scale/translate/rotate/centerを補間します。
+ * このとき返される投影法はto自体で、補間中はtoのパラメータが変更され、t=1で元のパラメータに戻ります。
+ *
+ * 種類が異なる投影法（例: メルカトル図法から正射図法）の場合は、両方の投影結果（画面座標）を
+ * 線形補間する投影法をフレームごとに生成します。回転とクリッピングは前半はfrom、後半はtoに従います。
+ *
+ * @param from - 遷移前の投影法
+ * @param to - 遷移後の投影法
+ * @param fromParameters - 同じ種類の投影法で補間する際の遷移前のパラメータ（省略時はfromの現在のパラメータ。
+ *   fromとtoが同じオブジェクトの場合など、fromのパラメータが遷移前の状態と異なる場合に指定します）
+ * @returns 進行度t（0〜1）に対応する投影法を返す関数（t=0ではfrom、t=1ではtoを返します）
+ *
+ * @example
+ * ```typescript
+ * const interpolate = interpolateProjection(geoMercator(), geoOrthographic());
+ * layer.setProjection(interpolate(0.5));
+ * ```
+ */
+export function interpolateProjection(
+  from: GeoProjection,
+  to: GeoProjection,
+  fromParameters?: ProjectionParameters
+): (t: number) => GeoProjection {
+  if (hasSameRawProjection(from, to)) {
+    return interpolateParameters(fromParameters ?? readProjectionParameters(from), to);
+  }
+
+  return t => {
+    if (t <= 0) return from;
+    if (t >= 1) return to;
+    return blendProjections(from, to, t);
+  };
+}
+
+/**
+ * パラメータを補間して投影法に設定する関数を作成します
+ * scaleは倍率が一定の速さで変化するよう対数空間で、回転は近い向きに補間します
+ * @param start - 遷移前のパラメータ
+ * @param projection - 補間したパラメータを設定する投影法
+ * @returns 進行度tに対応するパラメータを設定した投影法を返す関数
+ */
+function interpolateParameters(start: ProjectionParameters, projection: GeoProjection): (t: number) => GeoProjection {
+  const end = readProjectionParameters(projection);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+  const lerpAngle = (a: number, b: number, t: number) => a + ((((b - a + 180) % 360) + 360) % 360 - 180) * t;
+
+  return t => {
+    if (t >= 1) {
+      applyProjectionParameters(projection, end);
+      return projection;
+    }
+
+    applyProjectionParameters(projection, {
+      scale: start.scale > 0 && end.scale > 0
+        ? start.scale * Math.pow(end.scale / start.scale, t)
+        : lerp(start.scale, end.scale, t),
+      translate: [lerp(start.translate[0], end.translate[0], t), lerp(start.translate[1], end.translate[1], t)],
+      rotate: start.rotate && end.rotate
+        ? [
+          lerpAngle(start.rotate[0], end.rotate[0], t),
+          lerpAngle(start.rotate[1], end.rotate[1], t),
+          lerpAngle(start.rotate[2] ?? 0, end.rotate[2] ?? 0, t)
+        ]
+        : end.rotate,
+      center: start.center && end.center
+        ? [lerpAngle(start.center[0], end.center[0], t), lerp(start.center[1], end.center[1], t)]
+        : end.center
+    });
+    return projection;
+  };
+}
+
+/**
+ * 2つの投影法の画面座標を線形補間する投影法を作成します
+ * @param from - 遷移前の投影法
+ * @param to - 遷移後の投影法
+ * @param t - 進行度（0〜1）
+ * @returns 補間した投影法（逆投影は持ちません）
+ */
+function blendProjections(from: GeoProjection, to: GeoProjection, t: number): GeoProjection {
+  const dominant = t < 0.5 ? from : to;
+  const rotate: [number, number, number] = typeof dominant.rotate === 'function' ? dominant.rotate() : [0, 0, 0];
+  const rotation = geoRotation(rotate);
+
+  const blend = (point: [number, number]): [number, number] | null => {
+    const a = from(point);
+    const b = to(point);
+    if (!a || !b) return null;
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+  };
+
+  // d3の投影は回転後の原点を中心とするため、原点の画面座標をtranslateとして戻す
+  const origin = blend(rotation.invert!([0, 0]) as [number, number]) ?? [0, 0];
+  const raw = (lambda: number, phi: number): [number, number] => {
+    const point = rotation.invert!([lambda * 180 / Math.PI, phi * 180 / Math.PI]) as [number, number];
+    const blended = blend(point);
+    return blended ? [blended[0] - origin[0], origin[1] - blended[1]] : [NaN, NaN];
+  };
+
+  const projection = geoProjection(raw)
+    .scale(1)
+    .translate(origin)
+    .rotate(rotate);
+
+  const clipAngle = typeof dominant.clipAngle === 'function' ? dominant.clipAngle() : null;
+  if (clipAngle) projection.clipAngle(clipAngle);
+  const clipExtent = typeof dominant.clipExtent === 'function' ? dominant.clipExtent() : null;
+  if (clipExtent) projection.clipExtent(clipExtent);
+
+  return projection;
+}
+
+/**
+ * 余白と避ける矩形を除いた、フィットに使用する画面上の範囲を求めます
+ *
+ * 避ける矩形（凡例など）が範囲と重なる場合は、矩形の上下左右のうち
+ * 残る範囲の面積が最も大きくなる側に範囲を狭めます。
+ *
+ * @param width - 地図の幅（ピクセル）
+ * @param height - 地図の高さ（ピクセル）
+ * @param padding - 地図の端からの余白（デフォルト: 20、辺ごとに指定した場合も未指定の辺は20）
+ * @param obstacles - 避ける矩形の配列
+ * @returns フィットに使用する範囲 [[左, 上], [右, 下]]
+ *
+ * @example
+ * ```typescript
+ * const extent = getFitExtent(800, 600, { top: 40 }, [{ x: 10, y: 480, width: 150, height: 110 }]);
+ * projection.fitExtent(extent, geojson);
+ * ```
+ */
+export function getFitExtent(
+  width: number,
+  height: number,
+  padding: FitPadding = DEFAULT_FIT_PADDING,
+  obstacles: ScreenRect[] = []
+): [[number, number], [number, number]] {
+  const side = (value: number | undefined) => typeof padding === 'number' ? padding : value ?? DEFAULT_FIT_PADDING;
+  const sides = typeof padding === 'number' ? {} : padding;
+
+  let extent: [number, number, number, number] = [
+    side(sides.left),
+    side(sides.top),
+    width - side(sides.right),
+    height - side(sides.bottom)
+  ];
+  const area = ([x0, y0, x1, y1]: [number, number, number, number]) => Math.max(0, x1 - x0) * Math.max(0, y1 - y0);
+
+  obstacles.forEach(rect => {
+    const [x0, y0, x1, y1] = extent;
+    const left = rect.x;
+    const top = rect.y;
+    const right = rect.x + rect.width;
+    const bottom = rect.y + rect.height;
+    if (right <= x0 || left >= x1 || bottom <= y0 || top >= y1) return;
+
+    // 矩形の右・左・下・上のうち、残る面積が最も大きい範囲
+    const candidates: [number, number, number, number][] = [
+      [right, y0, x1, y1],
+      [x0, y0, left, y1],
+      [x0, bottom, x1, y1],
+      [x0, y0, x1, top]
+    ];
+    const best = candidates.reduce((a, b) => area(b) > area(a) ? b : a);
+    if (area(best) > 0) extent = best;
+  });
+
+  return [[extent[0], extent[1]], [extent[2], extent[3]]];
+}
+
+/**
+ * GeoJSONが座標を含むかを判定します
+ * @param object - GeoJSONオブジェクト
+ * @returns 座標を1つ以上含む場合true
+ */
+function hasCoordinates(object: GeoJSON.GeoJSON): boolean {
+  switch (object.type) {
+    case 'FeatureCollection':
+      return object.features.some(hasCoordinates);
+    case 'Feature':
+      return !!object.geometry && hasCoordinates(object.geometry);
+    case 'GeometryCollection':
+      return object.geometries.some(hasCoordinates);
+    default:
+      return object.coordinates.length > 0;
+  }
+}
+
+/**
+ * GeoJSONが画面上の範囲に収まるように投影法のscaleとtranslateを設定します
+ *
+ * projection.fitExtentで投影後の形状の範囲を求めるため、円錐図法や方位図法、回転した投影法でも
+ * 経緯度の範囲の角ではなく、実際に最も外側となる点を基準に収めます。
+ * scaleがmaxScaleを超える場合は範囲の中央を保ったままscaleを制限し、
+ * 大きさを持たないデータ（単一のポイントなど）はmaxScale（未指定の場合は現在のscale）で範囲の中央に配置します。
+ * 座標を含まないデータの場合は投影法を変更しません。
+ *
+ * @param projection - 投影法（直接変更されます）
+ * @param object - 収めるGeoJSONオブジェクト
+ * @param extent - 収める範囲 [[左, 上], [右, 下]]
+ * @param maxScale - scaleの上限
+ * @returns 引数の投影法
+ *
+ * @example
+ * ```typescript
+ * fitProjection(projection, prefectures, getFitExtent(800, 600), 20000);
+ * ```
+ */
+export function fitProjection(
+  projection: GeoProjection,
+  object: GeoJSON.GeoJSON,
+  extent: [[number, number], [number, number]],
+  maxScale?: number
+): GeoProjection {
+  if (!hasCoordinates(object)) return projection;
+
+  const scale = projection.scale();
+  const translate = projection.translate();
+  const center: [number, number] = [(extent[0][0] + extent[1][0]) / 2, (extent[0][1] + extent[1][1]) / 2];
+
+  projection.fitExtent(extent, object as GeoPermissibleObjects);
+  const fitted = projection.scale();
+  const [tx, ty] = projection.translate();
+
+  if (!(fitted > 0) || !isFinite(fitted) || !isFinite(tx) || !isFinite(ty)) {
+    // 大きさを持たないデータは代表点を範囲の中央に配置する
+    projection.scale(maxScale ?? scale).translate(translate);
+    const { x, y } = getSphericalCentroid(object);
+    const point = projection([x, y]);
+    if (point) {
+      projection.translate([translate[0] + center[0] - point[0], translate[1] + center[1] - point[1]]);
+    }
+    return projection;
+  }
+
+  if (maxScale !== undefined && fitted > maxScale) {
+    // 範囲の中央に表示している地点を保ったままscaleを制限する
+    const k = maxScale / fitted;
+    projection
+      .scale(maxScale)
+      .translate([center[0] - (center[0] - tx) * k, center[1] - (center[1] - ty) * k]);
+  }
+
+  return projection;
+}
@@ -0,0 +1,687 @@
+/**
+ * ラスタ解析ユーティリティ
+ *
+ * 標高（DEM）やNDVIなど値を持つラスタバンドのストレッチ、カラーランプによる色付け、
+ * 陰影起伏（ヒルシェード）の計算、統計量やバンド演算と、ImageLayerで表示できる画像への変換を提供
+ */
+
+import { createColorRamp } from './color-palette';
+import { ColorPalette } from '../types';
+
+/**
+ * 値を持つラスタバンド
+ */
+export interface RasterBand {
+  /** 値の配列（左上から行順、長さは幅×高さ） */
+  data: ArrayLike<number>;
+  /** 幅（画素数） */
+  width: number;
+  /** 高さ（画素数） */
+  height: number;
+  /** 地理的境界 [west, south, east, north] */
+  bounds: [number, number, number, number];
+  /** NoData値（NaNの画素は常にNoDataとして扱います） */
+  nodata?: number | null;
+}
+
+/**
+ * 値を色に割り当てる範囲の決め方
+ * - minmax: 最小値〜最大値
+ * - percentile: 指定したパーセンタイルの範囲（外れ値の影響を抑える）
+ * - stddev: 平均±標準偏差の指定倍
+ */
+export type RasterStretchMode = 'minmax' | 'percentile' | 'stddev';
+
+/**
+ * ストレッチの設定
+ */
+export interface RasterStretchOptions {
+  /** ストレッチ方法（デフォルト: 'minmax'） */
+  mode?: RasterStretchMode;
+  /** percentileで使用する下限・上限のパーセンタイル（デフォルト: [2, 98]） */
+  percentiles?: [number, number];
+  /** stddevで使用する標準偏差の倍数（デフォルト: 2） */
+  stddevs?: number;
+  /** 範囲を直接指定する場合の [最小値, 最大値]（指定した場合はmodeより優先） */
+  range?: [number, number];
+}
+
+/**
+ * 陰影起伏の計算オプション
+ */
+export interface HillshadeOptions {
+  /** 光源の方位角（度、北から時計回り、デフォルト: 315） */
+  azimuth?: number;
+  /** 光源の高度角（度、デフォルト: 45） */
+  altitude?: number;
+  /** 標高の倍率（デフォルト: 1） */
+  zFactor?: number;
+  /**
+   * 画素の大きさ [x, y]（標高と同じ単位）
+   * 指定しない場合は境界から計算します（経緯度の境界はメートルに換算）
+   */
+  cellSize?: [number, number];
+}
+
+/**
+ * ラスタの表示方法
+ * - color: 値をカラーランプで色付け
+ * - hillshade: 標高から陰影起伏をグレースケールで表示
+ */
+export type RasterRenderMode = 'color' | 'hillshade';
+
+/**
+ * ラスタ画像の生成オプション
+ */
+export interface RasterImageOptions {
+  /** 表示方法（デフォルト: 'color'） */
+  mode?: RasterRenderMode;
+  /** カラーランプ（パレット名、パレット、または16進数カラーの配列、デフォルト: 'Viridis'） */
+  colors?: string | string[] | ColorPalette;
+  /** ストレッチ（デフォルト: 'minmax'） */
+  stretch?: RasterStretchMode | RasterStretchOptions;
+  /** 陰影起伏の計算オプション（modeが'hillshade'の場合に使用） */
+  hillshade?: HillshadeOptions;
+}
+
+/**
+ * ラスタ画像の生成結果
+ * dataUriとboundsをそのままImageLayerのsrcとboundsに指定できます
+ */
+export interface RasterImage {
+  /** Data URI形式の画像 */
+  dataUri: string;
+  /** 地理的境界 [west, south, east, north] */
+  bounds: [number, number, number, number];
+  /** 画像の幅 */
+  width: number;
+  /** 画像の高さ */
+  height: number;
+  /** 色付けに使用した値の範囲（有効な値がない場合や陰影起伏の場合はnull） */
+  range: [number, number] | null;
+}
+
+/**
+ * ラスタバンドの統計量
+ */
+export interface RasterStatistics {
+  /** 最小値（有効な値がない場合はNaN） */
+  min: number;
+  /** 最大値（有効な値がない場合はNaN） */
+  max: number;
+  /** 平均値（有効な値がない場合はNaN） */
+  mean: number;
+  /** 標準偏差（母標準偏差、有効な値がない場合はNaN） */
+  stdDev: number;
+  /** 有効な画素数 */
+  validCount: number;
+  /** NoDataの画素数 */
+  nodataCount: number;
+}
+
+/**
+ * コンパイル済みのバンド演算式
+ */
+export interface BandExpression {
+  /** 元の式 */
+  expression: string;
+  /** 式で使用するバンド番号（1始まり、昇順） */
+  bands: number[];
+  /**
+   * 式を評価します
+   * @param values - bandsの順に並べたバンドの値
+   * @returns 計算結果
+   */
+  evaluate: (values: ArrayLike<number>) => number;
+}
+
+/**
+ * 値がNoDataかどうかを判定します
+ * @param value - 値
+ * @param nodata - NoData値
+ * @returns NoDataの場合はtrue
+ */
+export function isNodataValue(value: number, nodata?: number | null): boolean {
+  if (value !== value) return true;
+  return nodata !== undefined && nodata !== null && value === nodata;
+}
+
+/**
+ * 値を色に割り当てる範囲を計算します
+ * @param band - ラスタバンド
+ * @param stretch - ストレッチ方法または設定
+ * @returns [最小値, 最大値]（有効な値がない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * const [min, max] = computeStretchRange(dem, { mode: 'percentile', percentiles: [5, 95] })!;
+ * ```
+ */
+export function computeStretchRange(
+  band: RasterBand,
+  stretch: RasterStretchMode | RasterStretchOptions = 'minmax'
+): [number, number] | null {
+  const options: RasterStretchOptions = typeof stretch === 'string' ? { mode: stretch } : stretch;
+  if (options.range) {
+    return [options.range[0], options.range[1]];
+  }
+
+  const values = collectValidValues(band);
+  if (values.length === 0) return null;
+
+  const mode = options.mode ?? 'minmax';
+  if (mode === 'percentile') {
+    const [lower, upper] = options.percentiles ?? [2, 98];
+    values.sort();
+    return [quantile(values, lower / 100), quantile(values, upper / 100)];
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    min = Math.min(min, values[i]);
+    max = Math.max(max, values[i]);
+    sum += values[i];
+  }
+
+  if (mode === 'stddev') {
+    const mean = sum / values.length;
+    let squares = 0;
+    for (let i = 0; i < values.length; i++) {
+      squares += (values[i] - mean) ** 2;
+    }
+    const deviation = Math.sqrt(squares / values.length) * (options.stddevs ?? 2);
+    return [Math.max(min, mean - deviation), Math.min(max, mean + deviation)];
+  }
+
+  return [min, max];
+}
+
+/**
+ * ラスタバンドの統計量を計算します（NoDataの画素は除外）
+ * @param band - ラスタバンド
+ * @returns 統計量
+ */
+export function computeRasterStatistics(band: RasterBand): RasterStatistics {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let validCount = 0;
+  for (let i = 0; i < band.data.length; i++) {
+    const value = band.data[i];
+    if (isNodataValue(value, band.nodata)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+    validCount++;
+  }
+
+  if (validCount === 0) {
+    return { min: NaN, max: NaN, mean: NaN, stdDev: NaN, validCount: 0, nodataCount: band.data.length };
+  }
+
+  const mean = sum / validCount;
+  let squares = 0;
+  for (let i = 0; i < band.data.length; i++) {
+    const value = band.data[i];
+    if (!isNodataValue(value, band.nodata)) {
+      squares += (value - mean) ** 2;
+    }
+  }
+
+  return {
+    min,
+    max,
+    mean,
+    stdDev: Math.sqrt(squares / validCount),
+    validCount,
+    nodataCount: band.data.length - validCount
+  };
+}
+
+/**
+ * 標高から陰影起伏を計算します
+ *
+ * 3×3画素の勾配（Hornの方法）から斜面の傾斜と向きを求め、光源に対する明るさを計算します。
+ * 隣接画素がNoDataや範囲外の場合は中心画素の値で補います。
+ *
+ * @param band - 標高のラスタバンド
+ * @param options - 計算オプション
+ * @returns 画素ごとの明るさ（0〜1、NoDataの画素はNaN）
+ */
+export function computeHillshade(band: RasterBand, options: HillshadeOptions = {}): Float32Array {
+  const { width, height, data, nodata } = band;
+  const azimuth = options.azimuth ?? 315;
+  const altitude = options.altitude ?? 45;
+  const zFactor = options.zFactor ?? 1;
+  const [cellX, cellY] = options.cellSize ?? getRasterCellSize(band);
+
+  const zenith = (90 - altitude) * Math.PI / 180;
+  const azimuthMath = ((360 - azimuth + 90) % 360) * Math.PI / 180;
+  const output = new Float32Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const index = row * width + col;
+      const center = data[index];
+      if (isNodataValue(center, nodata)) {
+        output[index] = NaN;
+        continue;
+      }
+
+      const at = (dx: number, dy: number) => {
+        const x = col + dx;
+        const y = row + dy;
+        if (x < 0 || y < 0 || x >= width || y >= height) return center;
+        const value = data[y * width + x];
+        return isNodataValue(value, nodata) ? center : value;
+      };
+
+      const a = at(-1, -1), b = at(0, -1), c = at(1, -1);
+      const d = at(-1, 0), f = at(1, 0);
+      const g = at(-1, 1), h = at(0, 1), i = at(1, 1);
+
+      const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellX);
+      const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellY);
+      const slope = Math.atan(zFactor * Math.sqrt(dzdx * dzdx + dzdy * dzdy));
+
+      let aspect = 0;
+      if (dzdx !== 0) {
+        aspect = Math.atan2(dzdy, -dzdx);
+        if (aspect < 0) aspect += 2 * Math.PI;
+      } else if (dzdy > 0) {
+        aspect = Math.PI / 2;
+      } else if (dzdy < 0) {
+        aspect = Math.PI * 3 / 2;
+      }
+
+      const shade = Math.cos(zenith) * Math.cos(slope) +
+        Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuthMath - aspect);
+      output[index] = Math.max(0, shade);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * ラスタバンドをRGBA画素データに変換します
+ * @param band - ラスタバンド
+ * @param options - 生成オプション
+ * @returns RGBA画素データ（NoDataの画素は透明）と色付けに使用した値の範囲
+ */
+export function renderRasterPixels(
+  band: RasterBand,
+  options: RasterImageOptions = {}
+): { pixels: Uint8ClampedArray; range: [number, number] | null } {
+  const { width, height, data, nodata } = band;
+  if (data.length !== width * height) {
+    throw new Error(`ラスタの値の数（${data.length}）が幅×高さ（${width * height}）と一致しません`);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  if (options.mode === 'hillshade') {
+    const shade = computeHillshade(band, options.hillshade);
+    for (let i = 0; i < shade.length; i++) {
+      if (shade[i] !== shade[i]) continue;
+      const value = Math.round(shade[i] * 255);
+      pixels[i * 4] = value;
+      pixels[i * 4 + 1] = value;
+      pixels[i * 4 + 2] = value;
+      pixels[i * 4 + 3] = 255;
+    }
+    return { pixels, range: null };
+  }
+
+  const ramp = createColorRamp(options.colors ?? 'Viridis');
+  const range = computeStretchRange(band, options.stretch);
+  if (!range) return { pixels, range };
+
+  const [min, max] = range;
+  const span = max - min;
+  for (let i = 0; i < width * height; i++) {
+    const value = data[i];
+    if (isNodataValue(value, nodata)) continue;
+    const [r, g, b] = ramp(span > 0 ? (value - min) / span : 0);
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = 255;
+  }
+
+  return { pixels, range };
+}
+
+/**
+ * ラスタバンドをImageLayerで表示できる画像に変換します
+ * @param band - ラスタバンド
+ * @param options - 生成オプション
+ * @returns 生成結果
+ *
+ * @example
+ * ```typescript
+ * const dem = await readCOGBand('dem.tif');
+ * const image = createRasterImage(dem, { mode: 'hillshade', hillshade: { zFactor: 2 } });
+ * map.addLayer('hillshade', new ImageLayer('hillshade', { src: image.dataUri, bounds: image.bounds }));
+ * ```
+ */
+export function createRasterImage(band: RasterBand, options: RasterImageOptions = {}): RasterImage {
+  const { pixels, range } = renderRasterPixels(band, options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = band.width;
+  canvas.height = band.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas contextの取得に失敗しました');
+  }
+
+  const imageData = ctx.createImageData(band.width, band.height);
+  imageData.data.set(pixels);
+  ctx.putImageData(imageData, 0, 0);
+
+  return {
+    dataUri: canvas.toDataURL('image/png'),
+    bounds: band.bounds,
+    width: band.width,
+    height: band.height,
+    range
+  };
+}
+
+/**
+ * バンド演算式をコンパイルします
+ *
+ * バンドはb1, b2, …（1始まり）で参照し、四則演算（+ - * /）、べき乗（^）、括弧と
+ * 関数 abs, sqrt, log, exp, min, max を使用できます。
+ *
+ * @param expression - バンド演算式（例: '(b4 - b3) / (b4 + b3)'）
+ * @returns コンパイル済みの式
+ *
+ * @example
+ * ```typescript
+ * const ndvi = compileBandExpression('(b4 - b3) / (b4 + b3)');
+ * ndvi.bands; // [3, 4]
+ * ndvi.evaluate([0.1, 0.5]); // 0.666...
+ * ```
+ */
+export function compileBandExpression(expression: string): BandExpression {
+  const tokens = tokenizeBandExpression(expression);
+  const bands: number[] = [];
+  const bandReferences: { band: number; slot: { index: number } }[] = [];
+  let position = 0;
+
+  const fail = (): never => {
+    const token = tokens[position];
+    throw new Error(`バンド演算式を解析できません: ${expression}（${token ? `「${token.value}」` : '式の末尾'}）`);
+  };
+  const peek = (value: string): boolean => tokens[position]?.value === value;
+  const expect = (value: string): void => {
+    if (!peek(value)) fail();
+    position++;
+  };
+
+  // 加減算
+  const parseExpression = (): ExpressionNode => {
+    let node = parseTerm();
+    while (peek('+') || peek('-')) {
+      const operator = tokens[position++].value;
+      const left = node;
+      const right = parseTerm();
+      node = operator === '+' ? values => left(values) + right(values) : values => left(values) - right(values);
+    }
+    return node;
+  };
+
+  // 乗除算
+  const parseTerm = (): ExpressionNode => {
+    let node = parseUnary();
+    while (peek('*') || peek('/')) {
+      const operator = tokens[position++].value;
+      const left = node;
+      const right = parseUnary();
+      node = operator === '*' ? values => left(values) * right(values) : values => left(values) / right(values);
+    }
+    return node;
+  };
+
+  // 単項演算子
+  const parseUnary = (): ExpressionNode => {
+    if (peek('-')) {
+      position++;
+      const operand = parseUnary();
+      return values => -operand(values);
+    }
+    if (peek('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // べき乗（右結合）
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (!peek('^')) return base;
+    position++;
+    const exponent = parseUnary();
+    return values => Math.pow(base(values), exponent(values));
+  };
+
+  // 数値、バンド、関数呼び出し、括弧
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position];
+    if (!token) return fail();
+
+    if (token.type === 'number') {
+      position++;
+      const value = Number(token.value);
+      return () => value;
+    }
+
+    if (token.type === 'name') {
+      position++;
+      const name = token.value.toLowerCase();
+      const bandMatch = /^b(\d+)$/.exec(name);
+      if (bandMatch) {
+        const band = Number(bandMatch[1]);
+        if (band < 1) {
+          throw new Error(`バンド番号は1以上で指定してください: ${token.value}`);
+        }
+        const slot = { index: 0 };
+        bandReferences.push({ band, slot });
+        if (!bands.includes(band)) bands.push(band);
+        return values => values[slot.index];
+      }
+
+      const fn = BAND_EXPRESSION_FUNCTIONS[name];
+      if (!fn) {
+        throw new Error(`バンド演算式に未知の関数があります: ${token.value}`);
+      }
+      expect('(');
+      const args: ExpressionNode[] = [parseExpression()];
+      while (peek(',')) {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      return values => fn(...args.map(arg => arg(values)));
+    }
+
+    if (token.value === '(') {
+      position++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    return fail();
+  };
+
+  const root = parseExpression();
+  if (position < tokens.length) fail();
+  if (bands.length === 0) {
+    throw new Error(`バンド演算式にはバンドを1つ以上含めてください: ${expression}`);
+  }
+
+  // バンド番号の昇順に値を受け取る
+  bands.sort((a, b) => a - b);
+  bandReferences.forEach(({ band, slot }) => {
+    slot.index = bands.indexOf(band);
+  });
+
+  return { expression, bands, evaluate: root };
+}
+
+/**
+ * バンド演算式を画素ごとに評価します
+ *
+ * 参照するバンドのいずれかがNoDataの画素と、計算結果が有限でない画素（0除算など）はNaNになります。
+ *
+ * @param expression - バンド演算式またはコンパイル済みの式
+ * @param bands - バンド番号（1始まり）をキーとするラスタバンド
+ * @returns 計算結果のラスタバンド（NoDataはNaN）
+ *
+ * @example
+ * ```typescript
+ * const ndvi = evaluateBandExpression('(b4 - b3) / (b4 + b3)', { 3: red, 4: nir });
+ * ```
+ */
+export function evaluateBandExpression(
+  expression: string | BandExpression,
+  bands: { [band: number]: RasterBand }
+): RasterBand {
+  const compiled = typeof expression === 'string' ? compileBandExpression(expression) : expression;
+  const sources = compiled.bands.map(band => {
+    const source = bands[band];
+    if (!source) {
+      throw new Error(`バンド演算式のb${band}のデータがありません`);
+    }
+    return source;
+  });
+
+  const { width, height, bounds } = sources[0];
+  if (sources.some(source => source.width !== width || source.height !== height)) {
+    throw new Error('バンド演算式のバンドの大きさが一致しません');
+  }
+
+  const data = new Float32Array(width * height);
+  const values = new Float64Array(sources.length);
+  for (let i = 0; i < data.length; i++) {
+    let valid = true;
+    for (let j = 0; j < sources.length; j++) {
+      const value = sources[j].data[i];
+      if (isNodataValue(value, sources[j].nodata)) {
+        valid = false;
+        break;
+      }
+      values[j] = value;
+    }
+    const result = valid ? compiled.evaluate(values) : NaN;
+    data[i] = isFinite(result) ? result : NaN;
+  }
+
+  return { data, width, height, bounds, nodata: null };
+}
+
+/**
+ * バンド演算式の構文木のノード（bandsの順に並べたバンドの値を受け取り評価する関数）
+ */
+type ExpressionNode = (values: ArrayLike<number>) => number;
+
+/**
+ * バンド演算式のトークン
+ */
+interface ExpressionToken {
+  type: 'number' | 'name' | 'symbol';
+  value: string;
+}
+
+/**
+ * バンド演算式で使用できる関数
+ */
+const BAND_EXPRESSION_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  log: Math.log,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max
+};
+
+/**
+ * バンド演算式をトークンに分割します
+ * @param expression - バンド演算式
+ * @returns トークンの配列
+ */
+function tokenizeBandExpression(expression: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  const pattern = /\s*(?:((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/^(),]))/y;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`バンド演算式を解析できません: ${expression}（「${expression.slice(index).trim()[0]}」）`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2] });
+    else tokens.push({ type: 'symbol', value: match[3] });
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+/**
+ * NoDataを除いた値を収集します
+ * @param band - ラスタバンド
+ * @returns 有効な値
+ */
+function collectValidValues(band: RasterBand): Float64Array {
+  const values = new Float64Array(band.data.length);
+  let count = 0;
+  for (let i = 0; i < band.data.length; i++) {
+    const value = band.data[i];
+    if (!isNodataValue(value, band.nodata)) {
+      values[count++] = value;
+    }
+  }
+  return values.subarray(0, count);
+}
+
+/**
+ * 昇順に並んだ値の分位点を線形補間で求めます
+ * @param sorted - 昇順に並んだ値
+ * @param p - 分位（0〜1）
+ * @returns 分位点の値
+ */
+function quantile(sorted: Float64Array, p: number): number {
+  const position = Math.min(1, Math.max(0, p)) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * 境界から画素の大きさを求めます
+ * 経緯度の範囲に収まる境界は度とみなしてメートルに換算し、それ以外は投影座標の単位のまま使用します
+ * @param band - ラスタバンド
+ * @returns 画素の大きさ [x, y]
+ */
+export function getRasterCellSize(band: RasterBand): [number, number] {
+  const [west, south, east, north] = band.bounds;
+  const sizeX = (east - west) / band.width;
+  const sizeY = (north - south) / band.height;
+  const isGeographic = Math.abs(west) <= 180 && Math.abs(east) <= 180 && Math.abs(south) <= 90 && Math.abs(north) <= 90;
+  if (!isGeographic) {
+    return [sizeX, sizeY];
+  }
+  const latitude = (south + north) / 2 * Math.PI / 180;
+  return [sizeX * 111320 * Math.cos(latitude), sizeY * 110540];
+}
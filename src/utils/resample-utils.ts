@@ -0,0 +1,306 @@
+/**
+ * ラスタ画像の再サンプリングユーティリティ
+ *
+ * 投影変換した画像の各画素に対応するソース画像上の位置から画素値を補間する機能を提供
+ * 処理は行単位に分割して実行し、Web Workerが利用できる環境では補間をWorkerで行います
+ */
+
+/**
+ * 画素値の補間方法
+ * - nearest: 最近傍補間（高速、画素の境界が目立つ）
+ * - bilinear: 双線形補間（周囲4画素）
+ * - bicubic: 双三次補間（周囲16画素、Catmull-Rom）
+ */
+export type ImageInterpolation = 'nearest' | 'bilinear' | 'bicubic';
+
+/**
+ * 再サンプリングのソース画像
+ */
+export interface ResampleSource {
+  /** RGBA画素データ */
+  data: Uint8ClampedArray;
+  /** 画像の幅 */
+  width: number;
+  /** 画像の高さ */
+  height: number;
+}
+
+/**
+ * 再投影画像の生成オプション
+ */
+export interface ReprojectRasterOptions {
+  /** 補間方法（デフォルト: 'nearest'） */
+  interpolation?: ImageInterpolation;
+  /** 1回の処理で扱う行数（デフォルト: 32） */
+  chunkSize?: number;
+  /** 補間をWeb Workerで行うか（デフォルト: true。利用できない環境ではメインスレッドで処理） */
+  useWorker?: boolean;
+  /** 進捗の通知（0〜1） */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * 出力画素の位置からソース画像上の位置を求める関数
+ * @param col - 出力画像の列
+ * @param row - 出力画像の行
+ * @returns ソース画像上の位置 [x, y]（対応する位置がない場合はnull）
+ */
+export type SourceLocator = (col: number, row: number) => [number, number] | null;
+
+/**
+ * 投影変換した画像を生成します
+ *
+ * 出力画素ごとのソース位置の計算（投影法の逆変換を含むためメインスレッドで実行）と、
+ * 画素値の補間を行単位に分割して実行し、分割ごとにイベントループへ処理を戻します。
+ *
+ * @param source - ソース画像
+ * @param width - 出力画像の幅
+ * @param height - 出力画像の高さ
+ * @param locate - 出力画素からソース位置を求める関数
+ * @param options - 生成オプション
+ * @returns 出力画像のRGBA画素データ（ソース位置がない画素は透明）
+ *
+ * @example
+ * ```typescript
+ * const pixels = await reprojectRaster(source, 800, 600, (col, row) => {
+ *   const lngLat = projection.invert!([col, row]);
+ *   return lngLat ? toSourcePixel(lngLat) : null;
+ * }, { interpolation: 'bilinear', onProgress: p => console.log(p) });
+ * ```
+ */
+export async function reprojectRaster(
+  source: ResampleSource,
+  width: number,
+  height: number,
+  locate: SourceLocator,
+  options: ReprojectRasterOptions = {}
+): Promise<Uint8ClampedArray> {
+  const interpolation = options.interpolation ?? 'nearest';
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 32));
+  const report = (rows: number) => options.onProgress?.(height > 0 ? rows / (height * 2) : 1);
+
+  // 出力画素ごとのソース位置（対応しない画素はNaN）
+  const coords = new Float32Array(width * height * 2).fill(NaN);
+  for (let rowStart = 0; rowStart < height; rowStart += chunkSize) {
+    const rowEnd = Math.min(height, rowStart + chunkSize);
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (let col = 0; col < width; col++) {
+        let position: [number, number] | null = null;
+        try {
+          position = locate(col, row);
+        } catch {
+          // 逆変換に失敗した画素は透明にする
+        }
+        if (position) {
+          const index = (row * width + col) * 2;
+          coords[index] = position[0];
+          coords[index + 1] = position[1];
+        }
+      }
+    }
+    report(rowEnd);
+    await yieldToEventLoop();
+  }
+
+  if (options.useWorker !== false) {
+    const output = await resampleInWorker(source, coords, width, height, interpolation, chunkSize, rows => report(height + rows));
+    if (output) {
+      report(height * 2);
+      return output;
+    }
+  }
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let rowStart = 0; rowStart < height; rowStart += chunkSize) {
+    const rowEnd = Math.min(height, rowStart + chunkSize);
+    resampleRows(source.data, source.width, source.height, coords, output, width, rowStart, rowEnd, interpolation);
+    report(height + rowEnd);
+    await yieldToEventLoop();
+  }
+  return output;
+}
+
+/**
+ * 指定した行の画素をソース画像から補間します
+ *
+ * Web Workerに関数の文字列として渡すため、外部の変数や関数を参照しない自己完結の実装としています。
+ * 色は不透明度で重み付け（乗算済みアルファ）して補間するため、透明画素との境界が暗くなりません。
+ *
+ * @param src - ソース画像のRGBA画素データ
+ * @param srcWidth - ソース画像の幅
+ * @param srcHeight - ソース画像の高さ
+ * @param coords - 出力画素ごとのソース位置 [x0, y0, x1, y1, ...]（NaNは対応なし）
+ * @param out - 出力画像のRGBA画素データ
+ * @param width - 出力画像の幅
+ * @param rowStart - 開始行
+ * @param rowEnd - 終了行（この行は含まない）
+ * @param interpolation - 補間方法
+ */
+export function resampleRows(
+  src: Uint8ClampedArray,
+  srcWidth: number,
+  srcHeight: number,
+  coords: Float32Array,
+  out: Uint8ClampedArray,
+  width: number,
+  rowStart: number,
+  rowEnd: number,
+  interpolation: ImageInterpolation
+): void {
+  const clampX = (x: number) => x < 0 ? 0 : x >= srcWidth ? srcWidth - 1 : x;
+  const clampY = (y: number) => y < 0 ? 0 : y >= srcHeight ? srcHeight - 1 : y;
+
+  // Catmull-Rom（a = -0.5）の重み
+  const cubicWeight = (t: number) => {
+    const d = Math.abs(t);
+    if (d <= 1) return 1.5 * d * d * d - 2.5 * d * d + 1;
+    if (d < 2) return -0.5 * d * d * d + 2.5 * d * d - 4 * d + 2;
+    return 0;
+  };
+
+  for (let row = rowStart; row < rowEnd; row++) {
+    for (let col = 0; col < width; col++) {
+      const pixel = row * width + col;
+      const x = coords[pixel * 2];
+      const y = coords[pixel * 2 + 1];
+      if (x !== x || y !== y) continue;
+      if (x < -0.5 || y < -0.5 || x > srcWidth - 0.5 || y > srcHeight - 0.5) continue;
+
+      const outIndex = pixel * 4;
+
+      if (interpolation === 'nearest') {
+        const srcIndex = (clampY(Math.round(y)) * srcWidth + clampX(Math.round(x))) * 4;
+        out[outIndex] = src[srcIndex];
+        out[outIndex + 1] = src[srcIndex + 1];
+        out[outIndex + 2] = src[srcIndex + 2];
+        out[outIndex + 3] = src[srcIndex + 3];
+        continue;
+      }
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+      const radius = interpolation === 'bicubic' ? 2 : 1;
+
+      let r = 0, g = 0, b = 0, a = 0, weightSum = 0;
+      for (let j = 1 - radius; j <= radius; j++) {
+        const wy = interpolation === 'bicubic' ? cubicWeight(j - fy) : (j === 0 ? 1 - fy : fy);
+        if (wy === 0) continue;
+        const sy = clampY(y0 + j);
+        for (let i = 1 - radius; i <= radius; i++) {
+          const wx = interpolation === 'bicubic' ? cubicWeight(i - fx) : (i === 0 ? 1 - fx : fx);
+          const weight = wx * wy;
+          if (weight === 0) continue;
+          const srcIndex = (sy * srcWidth + clampX(x0 + i)) * 4;
+          const alpha = src[srcIndex + 3];
+          r += src[srcIndex] * alpha * weight;
+          g += src[srcIndex + 1] * alpha * weight;
+          b += src[srcIndex + 2] * alpha * weight;
+          a += alpha * weight;
+          weightSum += weight;
+        }
+      }
+
+      if (a <= 0 || weightSum === 0) continue;
+      out[outIndex] = r / a;
+      out[outIndex + 1] = g / a;
+      out[outIndex + 2] = b / a;
+      out[outIndex + 3] = a / weightSum;
+    }
+  }
+}
+
+/**
+ * 補間をWeb Workerで実行します
+ * @param source - ソース画像
+ * @param coords - 出力画素ごとのソース位置
+ * @param width - 出力画像の幅
+ * @param height - 出力画像の高さ
+ * @param interpolation - 補間方法
+ * @param chunkSize - 進捗を通知する行数
+ * @param onRows - 処理済みの行数の通知
+ * @returns 出力画像のRGBA画素データ（Workerを利用できない場合はnull）
+ */
+function resampleInWorker(
+  source: ResampleSource,
+  coords: Float32Array,
+  width: number,
+  height: number,
+  interpolation: ImageInterpolation,
+  chunkSize: number,
+  onRows: (rows: number) => void
+): Promise<Uint8ClampedArray | null> {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined' ||
+      typeof URL.createObjectURL !== 'function') {
+    return Promise.resolve(null);
+  }
+
+  const script = `
+    var resampleRows = ${resampleRows.toString()};
+    self.onmessage = function (event) {
+      var d = event.data;
+      var src = new Uint8ClampedArray(d.src);
+      var coords = new Float32Array(d.coords);
+      var out = new Uint8ClampedArray(d.width * d.height * 4);
+      for (var row = 0; row < d.height; row += d.chunkSize) {
+        var end = Math.min(d.height, row + d.chunkSize);
+        resampleRows(src, d.srcWidth, d.srcHeight, coords, out, d.width, row, end, d.interpolation);
+        self.postMessage({ type: 'progress', rows: end });
+      }
+      self.postMessage({ type: 'done', data: out.buffer }, [out.buffer]);
+    };
+  `;
+
+  let url: string;
+  let worker: Worker;
+  try {
+    url = URL.createObjectURL(new Blob([script], { type: 'text/javascript' }));
+    worker = new Worker(url);
+  } catch {
+    // CSPなどでWorkerを作成できない場合はメインスレッドで処理する
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const finish = (result: Uint8ClampedArray | null) => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+
+    worker.onmessage = (event: MessageEvent) => {
+      if (event.data.type === 'progress') {
+        onRows(event.data.rows);
+      } else if (event.data.type === 'done') {
+        finish(new Uint8ClampedArray(event.data.data));
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      finish(null);
+    };
+
+    // ソース画像は呼び出し元で再利用される可能性があるため複製して渡す
+    const src = source.data.slice().buffer;
+    const coordsBuffer = coords.slice().buffer;
+    worker.postMessage({
+      src,
+      srcWidth: source.width,
+      srcHeight: source.height,
+      coords: coordsBuffer,
+      width,
+      height,
+      interpolation,
+      chunkSize
+    }, [src, coordsBuffer]);
+  });
+}
+
+/**
+ * イベントループに処理を戻します
+ * @returns 次のタスクで解決されるPromise
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -233,4 +233,127 @@ export function testProjectionBounds(
       message: `❌ 境界テスト中にエラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * アフィン性の判定で想定する画像の投影法
+ * - equirectangular: 経緯度が画像の縦横に線形に対応
+ * - mercator: 経度とWeb Mercatorの縦座標が画像の縦横に線形に対応
+ */
+export type ProjectionProbeKind = 'equirectangular' | 'mercator';
+
+/**
+ * 投影法のアフィン性判定のオプション
+ */
+export interface ProjectionProbeOptions {
+  /** 画像の投影法（デフォルト: 'equirectangular'） */
+  kind?: ProjectionProbeKind;
+  /** 検証に使う格子の分割数（デフォルト: 5） */
+  gridSize?: number;
+  /** 許容する誤差（ピクセル、デフォルト: 0.5） */
+  tolerance?: number;
+}
+
+/**
+ * 投影法のアフィン性判定の結果
+ */
+export interface ProjectionProbeResult {
+  /** 範囲内で投影法がアフィン変換とみなせるかどうか */
+  isAffine: boolean;
+  /**
+   * 画像座標 [u, v] からピクセル座標へのアフィン変換 [a, b, c, d, e, f]
+   * （x = a·u + b·v + c、y = d·u + e·v + f。uは経度、vは緯度またはWeb Mercatorの縦座標）
+   * 判定できない場合はnull
+   */
+  transform: [number, number, number, number, number, number] | null;
+  /** 格子点でのアフィン変換との最大誤差（ピクセル） */
+  maxError: number;
+}
+
+/**
+ * 緯度をWeb Mercatorの縦座標に変換します
+ * @param latitude - 緯度
+ * @returns 縦座標（ラジアン単位）
+ */
+function toMercatorY(latitude: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + latitude * Math.PI / 360));
+}
+
+/**
+ * 投影法が指定範囲でアフィン変換とみなせるかを判定します
+ *
+ * 投影法の名前ではなく、範囲の格子点を実際に投影した結果で判定するため、
+ * scale/translate/回転（経度方向）を変更した投影法や独自の投影法でも正しく判定できます。
+ * 範囲の3隅からアフィン変換を求め、残りの格子点がその変換と許容誤差内で一致するかを検証します。
+ *
+ * @param projection - D3投影法オブジェクト
+ * @param bounds - 判定する範囲 [west, south, east, north]
+ * @param options - 判定オプション
+ * @returns 判定結果
+ *
+ * @example
+ * ```typescript
+ * const result = probeAffineProjection(geoMercator(), [139, 35, 140, 36], { kind: 'mercator' });
+ * result.isAffine; // true（Web Mercatorタイルをそのまま配置できる）
+ * ```
+ */
+export function probeAffineProjection(
+  projection: GeoProjection,
+  bounds: [number, number, number, number],
+  options: ProjectionProbeOptions = {}
+): ProjectionProbeResult {
+  const notAffine: ProjectionProbeResult = { isAffine: false, transform: null, maxError: Infinity };
+  const kind = options.kind ?? 'equirectangular';
+  const gridSize = Math.max(1, Math.floor(options.gridSize ?? 5));
+  const tolerance = options.tolerance ?? 0.5;
+  const [west, south, east, north] = bounds;
+
+  const toV = (latitude: number) => kind === 'mercator' ? toMercatorY(latitude) : latitude;
+  const vNorth = toV(north);
+  const vSouth = toV(south);
+  if (!(east > west) || !(vNorth > vSouth) || !isFinite(vNorth) || !isFinite(vSouth)) {
+    return notAffine;
+  }
+
+  const project = (lon: number, lat: number): [number, number] | null => {
+    try {
+      const point = projection([lon, lat]);
+      return point && isFinite(point[0]) && isFinite(point[1]) ? [point[0], point[1]] : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const topLeft = project(west, north);
+  const topRight = project(east, north);
+  const bottomLeft = project(west, south);
+  if (!topLeft || !topRight || !bottomLeft) return notAffine;
+
+  const a = (topRight[0] - topLeft[0]) / (east - west);
+  const d = (topRight[1] - topLeft[1]) / (east - west);
+  const b = (bottomLeft[0] - topLeft[0]) / (vSouth - vNorth);
+  const e = (bottomLeft[1] - topLeft[1]) / (vSouth - vNorth);
+  const c = topLeft[0] - a * west - b * vNorth;
+  const f = topLeft[1] - d * west - e * vNorth;
+
+  // 範囲が1点や線分に潰れる投影は画像として配置できない
+  if (Math.abs(a * e - b * d) * (east - west) * (vNorth - vSouth) < 1e-9) return notAffine;
+
+  let maxError = 0;
+  for (let i = 0; i <= gridSize; i++) {
+    const lat = north - (north - south) * i / gridSize;
+    const v = toV(lat);
+    for (let j = 0; j <= gridSize; j++) {
+      const lon = west + (east - west) * j / gridSize;
+      const point = project(lon, lat);
+      if (!point) return notAffine;
+      const error = Math.hypot(point[0] - (a * lon + b * v + c), point[1] - (d * lon + e * v + f));
+      maxError = Math.max(maxError, error);
+    }
+  }
+
+  return {
+    isAffine: maxError <= tolerance,
+    transform: [a, b, c, d, e, f],
+    maxError
+  };
+}
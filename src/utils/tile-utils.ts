@@ -3,7 +3,9 @@
  * Web地図タイル（ラスタタイル、ベクタータイル）の座標計算とURL生成を行う
  */
 
+import type { GeoProjection } from 'd3-geo';
 import { TileCoordinate, TileBounds, TileUrlInfo, TileGenerationOptions } from '../types';
+import { getLongitudeExtent } from './gis-utils';
 
 /**
  * Web Mercator投影法におけるタイル計算の定数
@@ -11,6 +13,7 @@ import { TileCoordinate, TileBounds, TileUrlInfo, TileGenerationOptions } from '
 const TILE_SIZE = 256;
 const EARTH_CIRCUMFERENCE = 40075016.686; // メートル
 const EARTH_RADIUS = 6378137; // メートル
+const MAX_MERCATOR_LATITUDE = 85.051128779807; // Web Mercatorの緯度の上限
 
 /**
  * 地理座標（経度、緯度）からタイル座標（x, y, z）を計算します
@@ -123,6 +126,7 @@ export function getTileBounds(x: number, y: number, z: number): TileBounds {
 
 /**
  * 指定された地理的範囲に必要なタイルのURL一覧を生成します
+ * west > eastの範囲は日付変更線をまたぐ範囲として、東西の両端のタイルを生成します
  * 
  * @param bounds - 地理的範囲 [west, south, east, north]
  * @param zoom - ズームレベル
@@ -155,8 +159,8 @@ export function generateTileUrls(
       throw new Error('boundsの値は有効な数値で指定してください');
     }
 
-    if (west >= east || south >= north) {
-      throw new Error('無効な境界が指定されました（west < east, south < northである必要があります）');
+    if (west === east || south >= north) {
+      throw new Error('無効な境界が指定されました（west ≠ east, south < northである必要があります）');
     }
 
     if (!options.urlTemplate || !options.urlTemplate.includes('{x}') || 
@@ -168,61 +172,78 @@ export function generateTileUrls(
     const minZoom = options.minZoom ?? 0;
     const maxZoom = options.maxZoom ?? 18;
     const clampToBounds = options.clampToBounds ?? true;
+    const subdomains = typeof options.subdomains === 'string'
+      ? options.subdomains.split('')
+      : options.subdomains ?? [];
 
     // ズームレベルの検証
     if (zoom < minZoom || zoom > maxZoom) {
       throw new Error(`ズームレベル${zoom}は許可範囲（${minZoom}〜${maxZoom}）外です`);
     }
 
-    // 範囲の各角のタイル座標を計算
-    const topLeft = getTileXYZ(west, north, zoom);
-    const bottomRight = getTileXYZ(east, south, zoom);
-
-    // タイル範囲を決定
-    const minTileX = Math.min(topLeft.x, bottomRight.x);
-    const maxTileX = Math.max(topLeft.x, bottomRight.x);
-    const minTileY = Math.min(topLeft.y, bottomRight.y);
-    const maxTileY = Math.max(topLeft.y, bottomRight.y);
-
+    // 日付変更線をまたぐ範囲は東西の2つの範囲に分割する
+    const ranges: [number, number][] = west > east ? [[west, 180], [-180, east]] : [[west, east]];
+    const tileCount = Math.pow(2, zoom);
+    const generated = new Set<string>();
     const tiles: TileUrlInfo[] = [];
 
-    // 指定された範囲の全タイルを生成
-    for (let x = minTileX; x <= maxTileX; x++) {
-      for (let y = minTileY; y <= maxTileY; y++) {
-        try {
-          const tileBounds = getTileBounds(x, y, zoom);
-          
-          // clampToBoundsが有効な場合、指定範囲外のタイルをスキップ
-          if (clampToBounds) {
-            const tileWest = tileBounds.west;
-            const tileEast = tileBounds.east;
-            const tileSouth = tileBounds.south;
-            const tileNorth = tileBounds.north;
+    ranges.forEach(([rangeWest, rangeEast]) => {
+      // 範囲の各角のタイル座標を計算
+      const topLeft = getTileXYZ(rangeWest, north, zoom);
+      const bottomRight = getTileXYZ(rangeEast, south, zoom);
+
+      // タイル範囲を決定（経度180度は範囲外のタイル番号になるため東端のタイルに収める）
+      const minTileX = Math.min(topLeft.x, bottomRight.x);
+      const maxTileX = Math.min(Math.max(topLeft.x, bottomRight.x), tileCount - 1);
+      const minTileY = Math.min(topLeft.y, bottomRight.y);
+      const maxTileY = Math.max(topLeft.y, bottomRight.y);
+
+      // 指定された範囲の全タイルを生成
+      for (let x = minTileX; x <= maxTileX; x++) {
+        for (let y = minTileY; y <= maxTileY; y++) {
+          // 東西の範囲が同じタイルに含まれる場合は1度だけ生成する
+          const key = `${x}/${y}`;
+          if (generated.has(key)) continue;
+
+          try {
+            const tileBounds = getTileBounds(x, y, zoom);
             
-            // タイルが指定範囲と重複していない場合はスキップ
-            if (tileEast <= west || tileWest >= east || 
-                tileNorth <= south || tileSouth >= north) {
-              continue;
+            // clampToBoundsが有効な場合、指定範囲外のタイルをスキップ
+            if (clampToBounds) {
+              const tileWest = tileBounds.west;
+              const tileEast = tileBounds.east;
+              const tileSouth = tileBounds.south;
+              const tileNorth = tileBounds.north;
+              
+              // タイルが指定範囲と重複していない場合はスキップ
+              if (tileEast <= rangeWest || tileWest >= rangeEast || 
+                  tileNorth <= south || tileSouth >= north) {
+                continue;
+              }
+            }
+
+            // URLテンプレートからURLを生成（サブドメインはタイル座標から決定的に割り当てる）
+            let url = options.urlTemplate
+              .replace('{x}', x.toString())
+              .replace('{y}', y.toString())
+              .replace('{z}', zoom.toString());
+            if (subdomains.length > 0) {
+              url = url.replace('{s}', subdomains[(x + y) % subdomains.length]);
             }
-          }
 
-          // URLテンプレートからURLを生成
-          const url = options.urlTemplate
-            .replace('{x}', x.toString())
-            .replace('{y}', y.toString())
-            .replace('{z}', zoom.toString());
-
-          tiles.push({
-            coordinate: { x, y, z: zoom },
-            url,
-            bounds: tileBounds
-          });
-        } catch (tileError) {
-          // 個別のタイルエラーは警告として扱い、処理を続行
-          console.warn(`タイル(${x}, ${y}, ${zoom})の生成をスキップしました:`, tileError);
+            generated.add(key);
+            tiles.push({
+              coordinate: { x, y, z: zoom },
+              url,
+              bounds: tileBounds
+            });
+          } catch (tileError) {
+            // 個別のタイルエラーは警告として扱い、処理を続行
+            console.warn(`タイル(${x}, ${y}, ${zoom})の生成をスキップしました:`, tileError);
+          }
         }
       }
-    }
+    });
 
     if (tiles.length === 0) {
       console.warn('指定された範囲に有効なタイルが見つかりませんでした');
@@ -236,6 +257,7 @@ export function generateTileUrls(
 
 /**
  * 指定された地理的範囲と表示サイズに最適なズームレベルを計算します
+ * west > eastの範囲は日付変更線をまたぐ範囲として扱います
  * 
  * @param bounds - 地理的範囲 [west, south, east, north]
  * @param mapWidth - 地図の表示幅（ピクセル）
@@ -267,8 +289,8 @@ export function calculateOptimalZoom(
       throw new Error('boundsの値は有効な数値で指定してください');
     }
 
-    if (west >= east || south >= north) {
-      throw new Error('無効な境界が指定されました（west < east, south < northである必要があります）');
+    if (west === east || south >= north) {
+      throw new Error('無効な境界が指定されました（west ≠ east, south < northである必要があります）');
     }
 
     if (!isFinite(mapWidth) || !isFinite(mapHeight) || mapWidth <= 0 || mapHeight <= 0) {
@@ -280,8 +302,8 @@ export function calculateOptimalZoom(
     const maxZoom = options.maxZoom ?? 18;
     const tileSize = options.tileSize ?? TILE_SIZE;
 
-    // 経度幅と緯度幅
-    const lonDiff = east - west;
+    // 経度幅と緯度幅（日付変更線をまたぐ範囲は東回りの経度差）
+    const lonDiff = west < east ? east - west : east + 360 - west;
     const latDiff = north - south;
 
     // Web Mercator投影法での距離計算
@@ -324,6 +346,66 @@ export function calculateOptimalZoom(
   }
 }
 
+/**
+ * 投影法で表示している地図の範囲を経緯度で計算します
+ * 地図の枠内の格子点を逆投影し、Web Mercatorの有効範囲に制限します
+ * 日付変更線をまたいで表示している場合はwest > eastの範囲を返します
+ *
+ * @param projection - 地図の投影法（invertが必要）
+ * @param width - 地図の幅（ピクセル）
+ * @param height - 地図の高さ（ピクセル）
+ * @returns 表示範囲 [west, south, east, north]（計算できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * const bounds = getViewBounds(projection, 800, 600);
+ * const zoom = bounds ? calculateOptimalZoom(bounds, 800, 600) : 0;
+ * ```
+ */
+export function getViewBounds(
+  projection: GeoProjection,
+  width: number,
+  height: number
+): [number, number, number, number] | null {
+  if (!projection.invert || !(width > 0) || !(height > 0)) return null;
+
+  const steps = 10;
+  const longitudes: number[] = [];
+  let crossing = false;
+  let south = Infinity, north = -Infinity;
+  for (let j = 0; j <= steps; j++) {
+    let previous: number | undefined;
+    for (let i = 0; i <= steps; i++) {
+      const coordinate = projection.invert([width * i / steps, height * j / steps]);
+      if (!coordinate || !isFinite(coordinate[0]) || !isFinite(coordinate[1])) {
+        previous = undefined;
+        continue;
+      }
+      // 横に隣り合う点の経度が180度以上離れる場合は日付変更線をまたいでいる
+      if (previous !== undefined && Math.abs(coordinate[0] - previous) > 180) {
+        crossing = true;
+      }
+      previous = coordinate[0];
+      longitudes.push(coordinate[0]);
+      south = Math.min(south, coordinate[1]);
+      north = Math.max(north, coordinate[1]);
+    }
+  }
+  if (longitudes.length === 0) return null;
+
+  let [west, east] = crossing
+    ? getLongitudeExtent(longitudes)
+    : [Math.min(...longitudes), Math.max(...longitudes)];
+
+  west = Math.max(west, -180);
+  east = Math.min(east, 180);
+  south = Math.max(south, -MAX_MERCATOR_LATITUDE);
+  north = Math.min(north, MAX_MERCATOR_LATITUDE);
+
+  if ((crossing ? west === east : !(west < east)) || !(south < north)) return null;
+  return [west, south, east, north];
+}
+
 /**
  * ズームレベルでの解像度（メートル/ピクセル）を計算します
  * 
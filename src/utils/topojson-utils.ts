@@ -0,0 +1,295 @@
+/**
+ * TopoJSONユーティリティ
+ *
+ * TopoJSONのオブジェクトのGeoJSONへの変換と、フィーチャー間で共有する境界（メッシュ）の抽出機能を提供
+ */
+
+import type { Position } from 'geojson';
+import type { Topology, TopologyGeometry, TopologyData, LayerData } from '../types';
+
+/**
+ * メッシュに含める境界の条件
+ * - 'all': 全ての境界
+ * - 'interior': 2つのフィーチャーが共有する内部の境界
+ * - 'exterior': 1つのフィーチャーのみに属する外周の境界
+ * - 関数: 境界の両側のフィーチャーを受け取り、含める場合にtrueを返す（外周の場合はaとbが同じフィーチャー）
+ */
+export type MeshFilter = 'all' | 'interior' | 'exterior' | ((a: GeoJSON.Feature, b: GeoJSON.Feature) => boolean);
+
+/**
+ * 弧と座標の復元処理
+ */
+interface TopologyDecoder {
+  /** 弧のインデックスから座標を復元する（負の値は逆向き） */
+  arc(index: number): Position[];
+  /** 量子化したポイントの座標を復元する */
+  point(position: number[]): Position;
+}
+
+/**
+ * データがTopoJSONのトポロジーとオブジェクト名かを判定します
+ * @param data - 判定するデータ
+ * @returns TopologyDataの場合true
+ */
+export function isTopologyData(data: unknown): data is TopologyData {
+  return typeof data === 'object' && data !== null && !Array.isArray(data)
+    && (data as TopologyData).topology?.type === 'Topology';
+}
+
+/**
+ * トポロジーから名前でオブジェクトを取得します
+ * @throws オブジェクトが存在しない場合
+ */
+function getObject(topology: Topology, name: string): TopologyGeometry {
+  const object = topology.objects[name];
+  if (!object) {
+    throw new Error(`TopoJSONにオブジェクトが見つかりません: ${name}`);
+  }
+  return object;
+}
+
+/**
+ * トポロジーの座標を復元する処理を作成します
+ * transformがある場合は弧の差分符号化を解除し、量子化した座標を元の座標に戻します
+ */
+function createDecoder(topology: Topology): TopologyDecoder {
+  const transform = topology.transform;
+  const cache = new Map<number, Position[]>();
+  const point = (position: number[]): Position => transform
+    ? [
+      position[0] * transform.scale[0] + transform.translate[0],
+      position[1] * transform.scale[1] + transform.translate[1],
+      ...position.slice(2)
+    ]
+    : position;
+
+  const decodeArc = (index: number): Position[] => {
+    let points = cache.get(index);
+    if (!points) {
+      const arc = topology.arcs[index];
+      if (!arc) {
+        throw new Error(`TopoJSONの弧が見つかりません: ${index}`);
+      }
+      let x = 0;
+      let y = 0;
+      points = arc.map(position => {
+        if (!transform) return position;
+        x += position[0];
+        y += position[1];
+        return point([x, y, ...position.slice(2)]);
+      });
+      cache.set(index, points);
+    }
+    return points;
+  };
+
+  return {
+    arc: index => index < 0 ? [...decodeArc(~index)].reverse() : decodeArc(index),
+    point
+  };
+}
+
+/**
+ * 弧のインデックスの並びを1本の線に連結します（隣接する弧の共有する端点は1つにまとめます）
+ */
+function joinArcs(arcs: number[], decoder: TopologyDecoder): Position[] {
+  const points: Position[] = [];
+  arcs.forEach((index, i) => {
+    const arc = decoder.arc(index);
+    points.push(...(i === 0 ? arc : arc.slice(1)));
+  });
+  return points;
+}
+
+/**
+ * TopoJSONのジオメトリをGeoJSONのジオメトリに変換します
+ */
+function toGeometry(object: TopologyGeometry, decoder: TopologyDecoder): GeoJSON.Geometry | null {
+  switch (object.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: decoder.point(object.coordinates) };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: object.coordinates.map(decoder.point) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: joinArcs(object.arcs, decoder) };
+    case 'MultiLineString':
+      return { type: 'MultiLineString', coordinates: object.arcs.map(arcs => joinArcs(arcs, decoder)) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: object.arcs.map(arcs => joinArcs(arcs, decoder)) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: object.arcs.map(polygon => polygon.map(arcs => joinArcs(arcs, decoder))) };
+    case 'GeometryCollection':
+      return {
+        type: 'GeometryCollection',
+        geometries: object.geometries
+          .map(geometry => toGeometry(geometry, decoder))
+          .filter((geometry): geometry is GeoJSON.Geometry => geometry !== null)
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * TopoJSONのジオメトリをGeoJSONのフィーチャーに変換します
+ */
+function toFeature(object: TopologyGeometry, decoder: TopologyDecoder): GeoJSON.Feature {
+  const feature: GeoJSON.Feature = {
+    type: 'Feature',
+    properties: object.properties ?? {},
+    geometry: toGeometry(object, decoder) as GeoJSON.Geometry
+  };
+  if (object.id !== undefined) feature.id = object.id;
+  return feature;
+}
+
+/**
+ * TopoJSONのオブジェクトをGeoJSONのFeatureCollectionに変換します
+ *
+ * GeometryCollectionのオブジェクトは、含まれるジオメトリごとのフィーチャーになります。
+ * idとpropertiesはフィーチャーに引き継がれ、typeがnullのジオメトリはgeometryがnullのフィーチャーになります。
+ *
+ * @param topology - TopoJSONのトポロジー
+ * @param name - 変換するオブジェクトの名前
+ * @returns FeatureCollection
+ * @throws オブジェクトが存在しない場合
+ *
+ * @example
+ * ```typescript
+ * const prefectures = topologyToFeatures(japan, 'prefectures');
+ * ```
+ */
+export function topologyToFeatures(topology: Topology, name: string): GeoJSON.FeatureCollection {
+  const object = getObject(topology, name);
+  const decoder = createDecoder(topology);
+  const members = object.type === 'GeometryCollection' ? object.geometries : [object];
+  return { type: 'FeatureCollection', features: members.map(member => toFeature(member, decoder)) };
+}
+
+/**
+ * レイヤーのデータをFeatureCollectionに正規化します
+ * @param data - FeatureCollection、フィーチャーの配列、またはTopoJSONのトポロジーとオブジェクト名
+ * @returns FeatureCollection
+ * @throws TopoJSONのオブジェクトが存在しない場合
+ */
+export function normalizeLayerData(data: LayerData): GeoJSON.FeatureCollection {
+  if (isTopologyData(data)) return topologyToFeatures(data.topology, data.object);
+  return Array.isArray(data)
+    ? { type: 'FeatureCollection', features: data }
+    : data as GeoJSON.FeatureCollection;
+}
+
+/**
+ * ジオメトリが参照する弧ごとに、そのジオメトリを持つフィーチャーを記録します
+ */
+function collectArcOwners(object: TopologyGeometry, owner: GeoJSON.Feature, owners: Map<number, GeoJSON.Feature[]>): void {
+  const add = (index: number) => {
+    const arc = index < 0 ? ~index : index;
+    if (!owners.has(arc)) owners.set(arc, []);
+    owners.get(arc)!.push(owner);
+  };
+
+  switch (object.type) {
+    case 'LineString':
+      object.arcs.forEach(add);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      object.arcs.forEach(arcs => arcs.forEach(add));
+      break;
+    case 'MultiPolygon':
+      object.arcs.forEach(polygon => polygon.forEach(arcs => arcs.forEach(add)));
+      break;
+    case 'GeometryCollection':
+      object.geometries.forEach(geometry => collectArcOwners(geometry, owner, owners));
+      break;
+  }
+}
+
+/**
+ * 弧を端点でつないで、できるだけ長い線にまとめます
+ * 3本以上の弧が接する点では線を区切ります
+ */
+function stitchLines(lines: Position[][]): Position[][] {
+  const key = (point: Position) => `${point[0]},${point[1]}`;
+  const ends = new Map<string, number[]>();
+  lines.forEach((line, index) => [line[0], line[line.length - 1]].forEach(point => {
+    const k = key(point);
+    if (!ends.has(k)) ends.set(k, []);
+    ends.get(k)!.push(index);
+  }));
+
+  const used = new Uint8Array(lines.length);
+  const follow = (startKey: string, first: number): Position[] => {
+    let points: Position[] = [];
+    let current: number | undefined = first;
+    let at = startKey;
+    while (current !== undefined) {
+      used[current] = 1;
+      const line = key(lines[current][0]) === at ? lines[current] : [...lines[current]].reverse();
+      points = points.length === 0 ? [...line] : points.concat(line.slice(1));
+      at = key(line[line.length - 1]);
+      const next: number[] = ends.get(at)!;
+      current = next.length === 2 ? next.find(index => !used[index]) : undefined;
+    }
+    return points;
+  };
+
+  const result: Position[][] = [];
+  ends.forEach((indices, k) => {
+    if (indices.length === 2) return;
+    indices.forEach(index => {
+      if (!used[index]) result.push(follow(k, index));
+    });
+  });
+  // 分岐点を持たない閉じた境界
+  lines.forEach((line, index) => {
+    if (!used[index]) result.push(follow(key(line[0]), index));
+  });
+  return result;
+}
+
+/**
+ * TopoJSONのオブジェクトの境界をメッシュ（MultiLineString）として抽出します
+ *
+ * 隣接するフィーチャーが共有する境界は1本の線として含まれるため、境界を重複なく描画できます。
+ * 弧は端点でつないで連続した線にするため、破線のパターンも境界に沿って途切れずに描画されます。
+ *
+ * @param topology - TopoJSONのトポロジー
+ * @param name - 境界を抽出するオブジェクトの名前
+ * @param filter - メッシュに含める境界の条件（デフォルト: 'all'）
+ * @returns 境界のMultiLineString
+ * @throws オブジェクトが存在しない場合
+ *
+ * @example
+ * ```typescript
+ * // 都道府県の間の境界のみ
+ * const borders = topologyMesh(japan, 'prefectures', 'interior');
+ * // 地方が異なる都道府県の間の境界のみ
+ * const regionBorders = topologyMesh(japan, 'prefectures', (a, b) => a.properties!.region !== b.properties!.region);
+ * ```
+ */
+export function topologyMesh(topology: Topology, name: string, filter: MeshFilter = 'all'): GeoJSON.MultiLineString {
+  const object = getObject(topology, name);
+  const decoder = createDecoder(topology);
+  const members = object.type === 'GeometryCollection' ? object.geometries : [object];
+
+  const owners = new Map<number, GeoJSON.Feature[]>();
+  members.forEach(member => collectArcOwners(member, toFeature(member, decoder), owners));
+
+  const test = filter === 'interior' ? (a: GeoJSON.Feature, b: GeoJSON.Feature) => a !== b
+    : filter === 'exterior' ? (a: GeoJSON.Feature, b: GeoJSON.Feature) => a === b
+      : filter === 'all' ? () => true
+        : filter;
+
+  const lines: Position[][] = [];
+  Array.from(owners.keys()).sort((a, b) => a - b).forEach(index => {
+    const features = owners.get(index)!;
+    const arc = decoder.arc(index);
+    if (arc.length > 0 && test(features[0], features[features.length - 1])) {
+      lines.push(arc);
+    }
+  });
+
+  return { type: 'MultiLineString', coordinates: stitchLines(lines) };
+}
@@ -0,0 +1,132 @@
+/**
+ * テスト用のMapbox Vector Tileフィクスチャ
+ * 仕様どおりにProtocol Buffers形式でエンコードしたタイルを生成します
+ */
+
+type Bytes = number[];
+
+/** 可変長整数（負の値はint64の2の補数として10バイトで表現） */
+const varint = (value: number): Bytes => {
+  let n = BigInt.asUintN(64, BigInt(value));
+  const bytes: Bytes = [];
+  while (n >= 0x80n) {
+    bytes.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  bytes.push(Number(n));
+  return bytes;
+};
+
+const zigzag = (value: number): number => (value << 1) ^ (value >> 31);
+const tag = (field: number, wireType: number): Bytes => varint((field << 3) | wireType);
+const varintField = (field: number, value: number): Bytes => [...tag(field, 0), ...varint(value)];
+const bytesField = (field: number, bytes: Bytes): Bytes => [...tag(field, 2), ...varint(bytes.length), ...bytes];
+const stringField = (field: number, value: string): Bytes => bytesField(field, Array.from(new TextEncoder().encode(value)));
+const packedField = (field: number, values: number[]): Bytes => bytesField(field, values.flatMap(varint));
+const doubleField = (field: number, value: number): Bytes => {
+  const buffer = new DataView(new ArrayBuffer(8));
+  buffer.setFloat64(0, value, true);
+  return [...tag(field, 1), ...Array.from(new Uint8Array(buffer.buffer))];
+};
+
+/** ジオメトリのコマンド整数 */
+const command = (id: number, count: number): number => (id & 0x7) | (count << 3);
+
+/** 相対座標の列をzigzag符号化したパラメータに変換 */
+const params = (deltas: number[]): number[] => deltas.map(zigzag);
+
+/** 値メッセージ */
+type FixtureValue = { string: string } | { double: number } | { int: number } | { uint: number } | { sint: number } | { bool: boolean };
+
+const encodeValue = (value: FixtureValue): Bytes => {
+  if ('string' in value) return stringField(1, value.string);
+  if ('double' in value) return doubleField(3, value.double);
+  if ('int' in value) return varintField(4, value.int);
+  if ('uint' in value) return varintField(5, value.uint);
+  if ('sint' in value) return varintField(6, value.sint < 0 ? -2 * value.sint - 1 : 2 * value.sint);
+  return varintField(7, value.bool ? 1 : 0);
+};
+
+interface FixtureFeature {
+  id?: number;
+  tags: number[];
+  type: number;
+  geometry: number[];
+}
+
+interface FixtureLayer {
+  name: string;
+  extent?: number;
+  keys: string[];
+  values: FixtureValue[];
+  features: FixtureFeature[];
+}
+
+const encodeLayer = (layer: FixtureLayer): Bytes => [
+  ...varintField(15, 2),
+  ...stringField(1, layer.name),
+  ...layer.features.flatMap(feature => bytesField(2, [
+    ...(feature.id !== undefined ? varintField(1, feature.id) : []),
+    ...packedField(2, feature.tags),
+    ...varintField(3, feature.type),
+    ...packedField(4, feature.geometry)
+  ])),
+  ...layer.keys.flatMap(key => stringField(3, key)),
+  ...layer.values.flatMap(value => bytesField(4, encodeValue(value))),
+  ...varintField(5, layer.extent ?? 4096)
+];
+
+/**
+ * water（穴あきポリゴン）、roads（ライン）、pois（マルチポイント）の3レイヤーを含むタイルを生成します
+ * @returns タイルのバイナリデータ
+ */
+export function createVectorTileFixture(): Uint8Array {
+  const layers: FixtureLayer[] = [
+    {
+      name: 'water',
+      keys: ['name', 'depth'],
+      values: [{ string: 'lake' }, { uint: 12 }],
+      features: [{
+        id: 1,
+        tags: [0, 0, 1, 1],
+        type: 3,
+        geometry: [
+          // 外周: (0,0) → (2048,0) → (2048,2048) → (0,2048)
+          command(1, 1), ...params([0, 0]),
+          command(2, 3), ...params([2048, 0, 0, 2048, -2048, 0]),
+          command(7, 1),
+          // 穴: (512,512) → (512,1536) → (1536,1536) → (1536,512)
+          command(1, 1), ...params([512, -1536]),
+          command(2, 3), ...params([0, 1024, 1024, 0, 0, -1024]),
+          command(7, 1)
+        ]
+      }]
+    },
+    {
+      name: 'roads',
+      keys: ['class', 'lanes', 'oneway', 'offset', 'width'],
+      values: [{ string: 'primary' }, { int: -3 }, { bool: true }, { sint: -7 }, { double: 7.5 }],
+      features: [{
+        id: 2,
+        tags: [0, 0, 1, 1, 2, 2, 3, 3, 4, 4],
+        type: 2,
+        geometry: [
+          command(1, 1), ...params([0, 2048]),
+          command(2, 2), ...params([4096, 0, 0, 2048])
+        ]
+      }]
+    },
+    {
+      name: 'pois',
+      keys: ['kind'],
+      values: [{ string: 'station' }],
+      features: [{
+        tags: [0, 0],
+        type: 1,
+        geometry: [command(1, 2), ...params([1024, 1024, 2048, 0])]
+      }]
+    }
+  ];
+
+  return new Uint8Array(layers.flatMap(layer => bytesField(3, encodeLayer(layer))));
+}
@@ -1,6 +1,7 @@
 // D3-geo モック
 module.exports = {
   geoPath: jest.fn(() => jest.fn()),
+  geoContains: jest.fn(() => false),
   geoNaturalEarth1: jest.fn(() => ({
     fitExtent: jest.fn().mockReturnThis(),
     scale: jest.fn().mockReturnThis(),
@@ -36,6 +37,28 @@ module.exports = {
     // graticule()関数としても機能するようにする
     return Object.assign(jest.fn(() => ({ type: 'FeatureCollection', features: [] })), graticule);
   }),
+  // 経度方向の回転のみに対応した簡易版
+  geoRotation: jest.fn((rotate) => {
+    const rotation = jest.fn(([lon, lat]) => [lon + rotate[0], lat]);
+    rotation.invert = jest.fn(([lon, lat]) => [lon - rotate[0], lat]);
+    return rotation;
+  }),
+  // 生の投影関数を経度方向の回転・scale・translateで包む簡易版
+  geoProjection: jest.fn((raw) => {
+    const state = { scale: 150, translate: [480, 250], rotate: [0, 0, 0], clipAngle: null, clipExtent: null };
+    const projection = jest.fn(([lon, lat]) => {
+      const [x, y] = raw((lon + state.rotate[0]) * Math.PI / 180, lat * Math.PI / 180);
+      return [state.translate[0] + state.scale * x, state.translate[1] - state.scale * y];
+    });
+    ['scale', 'translate', 'rotate', 'clipAngle', 'clipExtent'].forEach(name => {
+      projection[name] = jest.fn((value) => {
+        if (value === undefined) return state[name];
+        state[name] = value;
+        return projection;
+      });
+    });
+    return projection;
+  }),
   GeoPath: class MockGeoPath {},
   GeoProjection: class MockGeoProjection {}
 };
\ No newline at end of file
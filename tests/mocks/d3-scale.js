@@ -56,7 +56,11 @@ const makeCallable = (mockScale) => {
   // Copy all methods to the callable function
   Object.keys(mockScale).forEach(key => {
     if (key !== '__call') {
-      callableScale[key] = mockScale[key];
+      // メソッドチェーンでも呼び出し可能なスケールを返す
+      callableScale[key] = (...args) => {
+        const result = mockScale[key](...args);
+        return result === mockScale ? callableScale : result;
+      };
     }
   });
   
@@ -40,5 +40,6 @@ const createMockSelection = () => {
 module.exports = {
   select: jest.fn(() => createMockSelection()),
   selectAll: jest.fn(() => createMockSelection()),
+  pointer: jest.fn(() => [0, 0]),
   Selection: class MockSelection {}
 };
\ No newline at end of file
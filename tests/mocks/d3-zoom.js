@@ -0,0 +1,51 @@
+// D3-zoom モック
+class ZoomTransform {
+  constructor(k, x, y) {
+    this.k = k;
+    this.x = x;
+    this.y = y;
+  }
+
+  scale(k) {
+    return k === 1 ? this : new ZoomTransform(this.k * k, this.x, this.y);
+  }
+
+  translate(x, y) {
+    return x === 0 && y === 0 ? this : new ZoomTransform(this.k, this.x + this.k * x, this.y + this.k * y);
+  }
+
+  toString() {
+    return `translate(${this.x},${this.y}) scale(${this.k})`;
+  }
+}
+
+const zoomIdentity = new ZoomTransform(1, 0, 0);
+
+// テストからズーム操作を再現できるよう、登録されたハンドラーをhandlersに保持する
+const zoom = () => {
+  const behavior = () => {};
+  behavior.handlers = {};
+  behavior.extent = null;
+  behavior.scaleExtent = extent => {
+    behavior.extent = extent;
+    return behavior;
+  };
+  behavior.on = (type, handler) => {
+    behavior.handlers[type] = handler;
+    return behavior;
+  };
+  // 実際のd3-zoomと同様に、プログラムによる変更でもstart/zoom/endを発火する
+  behavior.transform = (selection, transform) => {
+    ['start', 'zoom', 'end'].forEach(type => {
+      if (behavior.handlers[type]) behavior.handlers[type]({ transform, sourceEvent: null });
+    });
+  };
+  return behavior;
+};
+
+module.exports = {
+  zoom,
+  zoomIdentity,
+  zoomTransform: () => zoomIdentity,
+  ZoomTransform
+};